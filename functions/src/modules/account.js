@@ -1,34 +1,23 @@
 const {
   express,
+  createAuthMiddleware,
   admin,
   sanitizeString,
-  authenticateRequest,
+  sendAuthError,
   getUserProfile,
   isSubscriptionActive,
   getAccountDocRef,
   fetchAccountProfile,
   inferAvatarExtension,
   ACCOUNT_AVATAR_MAX_SIZE,
+  AUTH_ERROR_CODES,
 } = require('../shared/base');
 
 module.exports = () => {
 
   const accountRouter = express.Router();
 
-  accountRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][account] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  accountRouter.use(createAuthMiddleware('account', { requireActiveSubscription: false }));
 
   accountRouter.get('/profile', async (req, res) => {
     try {
@@ -43,11 +32,13 @@ module.exports = () => {
   accountRouter.patch('/profile', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const currentProfile = await getUserProfile(uid);
-      if (!isSubscriptionActive(currentProfile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para editar o perfil.',
-        });
+      if (!isSubscriptionActive(req.auth.profile)) {
+        sendAuthError(
+          res,
+          403,
+          AUTH_ERROR_CODES.subscriptionInactive,
+          'Sua assinatura está suspensa. Renove para editar o perfil.'
+        );
         return;
       }
       const displayName = sanitizeString(req.body?.displayName);
@@ -73,11 +64,13 @@ module.exports = () => {
   accountRouter.post('/avatar', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const currentProfile = await getUserProfile(uid);
-      if (!isSubscriptionActive(currentProfile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para alterar a foto.',
-        });
+      if (!isSubscriptionActive(req.auth.profile)) {
+        sendAuthError(
+          res,
+          403,
+          AUTH_ERROR_CODES.subscriptionInactive,
+          'Sua assinatura está suspensa. Renove para alterar a foto.'
+        );
         return;
       }
       const base64Data = sanitizeString(req.body?.data);
@@ -1,9 +1,7 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
   sanitizeString,
 } = require('../shared/base');
 const fetch = require('node-fetch');
@@ -415,25 +413,11 @@ const generateAdvisorReply = (message, summary) => {
 module.exports = () => {
   const router = express.Router();
 
-  router.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({ message: 'Recurso exclusivo para assinantes ativos.' });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][assistant] auth middleware', error);
-      res.status(500).json({ message: 'Erro ao validar acesso ao chatbot.' });
-    }
-  });
+  router.use(
+    createAuthMiddleware('assistant', {
+      inactiveMessage: 'Recurso exclusivo para assinantes ativos.',
+    })
+  );
 
   router.post('/chat', async (req, res) => {
     try {
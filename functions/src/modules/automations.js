@@ -1,37 +1,15 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
   sanitizeString,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
 } = require('../shared/base');
 
 module.exports = () => {
 
   const automationsRouter = express.Router();
 
-  automationsRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][automations] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  automationsRouter.use(createAuthMiddleware('automations'));
 
   const getAutomationsCollection = uid =>
     firestore.collection('users').doc(uid).collection('automations');
@@ -1,11 +1,11 @@
 const ctx = require('../shared/base');
+const { getBillingProvider } = require('../shared/billingProvider');
 
 module.exports = () => {
   const {
     express,
+    createAuthMiddleware,
     sanitizeString,
-    authenticateRequest,
-    ensureStripeClient,
     getAccountDocRef,
     fetchAccountProfile,
     BILLING_CYCLE_MS,
@@ -13,33 +13,17 @@ module.exports = () => {
 
   const billingRouter = express.Router();
 
-  billingRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][billing] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  billingRouter.use(createAuthMiddleware('billing', { requireActiveSubscription: false }));
 
   billingRouter.post('/renew', async (req, res) => {
     try {
-      const stripe = ensureStripeClient();
       const { uid } = req.auth;
       const sessionId = sanitizeString(req.body?.sessionId);
       if (!sessionId) {
         res.status(400).json({ message: 'Informe o identificador da sessão.' });
         return;
       }
-      const session = await stripe.checkout.sessions.retrieve(sessionId, {
-        expand: ['customer'],
-      });
+      const session = await getBillingProvider().retrieveCheckoutSession(sessionId);
       if (session.status !== 'complete' || session.payment_status !== 'paid') {
         res.status(400).json({
           message: 'Ainda não recebemos a confirmação do pagamento. Tente novamente.',
@@ -1,10 +1,12 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
   sanitizeString,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
+  ensureDate,
+  ensureTimeValue,
+  ensureOneOf,
+  ensureText,
   CALENDAR_TAGS,
 } = require('../shared/base');
 
@@ -12,27 +14,7 @@ module.exports = () => {
 
   const calendarRouter = express.Router();
 
-  calendarRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][calendar] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  calendarRouter.use(createAuthMiddleware('calendar'));
 
   const getEventsCollection = uid =>
     firestore.collection('users').doc(uid).collection('calendarEvents');
@@ -78,22 +60,13 @@ module.exports = () => {
   calendarRouter.post('/', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const { date, time, title, description, tag } = req.body ?? {};
-      const sanitizedDate = sanitizeString(date);
-      const sanitizedTime = sanitizeString(time);
-      if (!sanitizedDate || !sanitizedTime) {
-        res.status(400).json({ message: 'Informe data e horário do evento.' });
-        return;
-      }
-      const sanitizedTitle = sanitizeString(title) || 'Evento';
-      const sanitizedDescription = sanitizeString(description) || '';
-      const normalizedTag = CALENDAR_TAGS.includes(sanitizeString(tag)) ? sanitizeString(tag) : 'Reunião';
+      const body = req.body ?? {};
       const payload = {
-        date: sanitizedDate,
-        time: sanitizedTime,
-        title: sanitizedTitle,
-        description: sanitizedDescription,
-        tag: normalizedTag,
+        date: ensureDate(body.date, 'data'),
+        time: ensureTimeValue(body.time, 'horário'),
+        title: ensureText(body.title, 'título', { maxLength: 120 }) || 'Evento',
+        description: ensureText(body.description, 'descrição', { maxLength: 2000 }),
+        tag: ensureOneOf(body.tag, CALENDAR_TAGS, 'tag', { fallback: CALENDAR_TAGS[0] }),
       };
       const ref = await getEventsCollection(uid).add(payload);
       res.status(201).json({ event: { id: ref.id, ...payload } });
@@ -1,74 +1,163 @@
 const {
+  addMonthsPreservingDay,
   express,
+  createAuthMiddleware,
   firestore,
   admin,
   sanitizeString,
   parseNumber,
   ensureDate,
   generateRecurringDates,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
+  getRecurrenceOccurrence,
+  MAX_BUSINESS_DAY,
   PAYMENT_METHODS,
   INVESTMENT_TYPES,
   RECURRENCE_VALUES,
   DEFAULT_CATEGORIES,
   CATEGORY_GROUPS,
+  ensureRevision,
+  readRevision,
+  REVISION_CONFLICT_MESSAGE,
 } = require('../shared/base');
 
+const RULE_GROUPS = ['expenses', 'incomes'];
+const RULE_OPERATORS = ['contains', 'equals', 'startsWith'];
+const MAX_CATEGORY_RULES = 200;
+const MAX_CATEGORIES = 100;
+// Em pontos de código: emojis compostos (pele, ZWJ) ocupam vários.
+const MAX_ICON_LENGTH = 8;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const CATEGORY_PALETTE = [
+  '#002776',
+  '#00923f',
+  '#ffd500',
+  '#d93025',
+  '#00b4d8',
+  '#ff9f1c',
+  '#6a4c93',
+];
+const CATEGORY_MIGRATION_BATCH = 400;
+const MAX_CREDIT_CARDS = 20;
+const ACCOUNT_TYPES = ['corrente', 'poupanca', 'carteira', 'corretora', 'outro'];
+const MAX_ACCOUNTS = 20;
+const INVESTMENT_MOVEMENTS = ['aporte', 'resgate'];
+const MAX_POSITIONS = 100;
+const TAX_DEDUCTION_KINDS = ['saude', 'educacao', 'previdencia'];
+const MAX_TAX_FLAGS = 100;
+const DEFAULT_BUDGET_THRESHOLDS = [80, 100];
+const MAX_BUDGET_THRESHOLDS = 5;
+const MAX_BUDGET_THRESHOLD = 500;
+const MAX_NOTIFICATIONS = 100;
+// Mesmo teto da foto de perfil: em base64 o corpo ainda cabe no limite das functions.
+const ATTACHMENT_MAX_SIZE = 4 * 1024 * 1024;
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_NAME_LENGTH = 120;
+const ATTACHMENT_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+const GOAL_LINK_TYPES = ['position', 'category'];
+const MONTH_KEY_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+const SERIES_SCOPES = ['following', 'all'];
+const MAX_SERIES_LENGTH = 24;
+// Séries sem regra só avançam de mês em mês; semanal e dia útil passam por `/recurrences`.
+const SERIES_FREQUENCIES = ['none', 'monthly', 'bimonthly', 'quarterly', 'semiannual', 'annual'];
+const MAX_RULE_OCCURRENCES = 360;
+const MAX_MATERIALIZED_PER_RULE = 200;
+const FINANCE_BACKUP_VERSIONS = [1];
+const BACKUP_COLLECTIONS = ['expenses', 'incomes', 'investments', 'transfers', 'valuations'];
+// Ordem da restauração: configurações primeiro, depois cada coleção de lançamentos.
+const RESTORE_STEPS = ['settings', ...BACKUP_COLLECTIONS, 'recurrences', 'planners'];
+
 module.exports = () => {
 
   const financeRouter = express.Router();
 
-  financeRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][finance] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  financeRouter.use(createAuthMiddleware('finance'));
 
   const getCollectionRef = (uid, collection) =>
     firestore.collection('users').doc(uid).collection(collection);
   const getCategoriesDocRef = uid =>
     firestore.collection('users').doc(uid).collection('settings').doc('categories');
+  const getCategoryRulesDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('categoryRules');
+  const getCreditCardsDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('creditCards');
+  const getAccountsDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('accounts');
+  const getPortfolioDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('portfolio');
+  const getTaxSettingsDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('taxReport');
+  const getBudgetAlertsDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('budgetAlerts');
+  const getRestoreDocRef = uid =>
+    firestore.collection('users').doc(uid).collection('settings').doc('restore');
+  const getNotificationsRef = uid =>
+    firestore.collection('users').doc(uid).collection('notifications');
+  const getRecurrencesRef = uid =>
+    firestore.collection('users').doc(uid).collection('recurrences');
   const getPlannerDocRef = (uid, periodKey) =>
     firestore.collection('users').doc(uid).collection('planner').doc(periodKey);
 
-  const mergeCategories = raw => {
-    if (!raw || typeof raw !== 'object') {
-      return DEFAULT_CATEGORIES;
+  // Listas antigas guardavam só os nomes; o ID derivado do nome fica estável até a lista ser
+  // regravada com os objetos completos.
+  const toCategoryId = name =>
+    name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'categoria';
+
+  // Dois níveis apenas: a subcategoria precisa apontar para uma categoria raiz do mesmo grupo.
+  const normalizeCategoryList = raw => {
+    if (!Array.isArray(raw)) {
+      return [];
     }
-    return {
-      expenses:
-        Array.isArray(raw.expenses) && raw.expenses.length > 0
-          ? raw.expenses
-          : DEFAULT_CATEGORIES.expenses,
-      incomes:
-        Array.isArray(raw.incomes) && raw.incomes.length > 0
-          ? raw.incomes
-          : DEFAULT_CATEGORIES.incomes,
-      investments:
-        Array.isArray(raw.investments) && raw.investments.length > 0
-          ? raw.investments
-          : DEFAULT_CATEGORIES.investments,
-    };
+    const names = new Set();
+    const ids = new Set();
+    const items = raw
+      .slice(0, MAX_CATEGORIES)
+      .map((entry, index) => {
+        const source = typeof entry === 'string' ? { name: entry } : entry;
+        const name = sanitizeString(source?.name);
+        const id = sanitizeString(source?.id) || (name && toCategoryId(name));
+        if (!name || names.has(name.toLowerCase()) || ids.has(id)) {
+          return null;
+        }
+        names.add(name.toLowerCase());
+        ids.add(id);
+        const color = sanitizeString(source?.color);
+        return {
+          id,
+          name,
+          parentId: sanitizeString(source?.parentId) || null,
+          color: HEX_COLOR_PATTERN.test(color)
+            ? color.toLowerCase()
+            : CATEGORY_PALETTE[index % CATEGORY_PALETTE.length],
+          icon: Array.from(sanitizeString(source?.icon)).slice(0, MAX_ICON_LENGTH).join(''),
+        };
+      })
+      .filter(Boolean);
+    const rootIds = new Set(items.filter(item => !item.parentId).map(item => item.id));
+    return items.map(item =>
+      item.parentId && !rootIds.has(item.parentId) ? { ...item, parentId: null } : item
+    );
   };
 
+  const sameName = (a, b) => a.toLowerCase() === b.toLowerCase();
+
+  const mergeCategories = raw =>
+    CATEGORY_GROUPS.reduce((accumulator, group) => {
+      const list = normalizeCategoryList(raw?.[group]);
+      accumulator[group] = list.length ? list : normalizeCategoryList(DEFAULT_CATEGORIES[group]);
+      return accumulator;
+    }, {});
+
   const buildPlannerKey = (year, month) => {
     const parsedYear = Number(year);
     const parsedMonth = Number(month);
@@ -81,6 +170,28 @@ module.exports = () => {
     return `${parsedYear}-${String(parsedMonth).padStart(2, '0')}`;
   };
 
+  const buildPeriodRange = (year, month) => {
+    if (year === undefined || year === '') {
+      if (month !== undefined && month !== '') {
+        throw new Error('Informe o ano junto com o mês.');
+      }
+      return null;
+    }
+    const parsedYear = Number(year);
+    if (!Number.isInteger(parsedYear) || parsedYear < 2000 || parsedYear > 2100) {
+      throw new Error('Ano inválido.');
+    }
+    if (month === undefined || month === '') {
+      return { start: `${parsedYear}-01-01`, end: `${parsedYear}-12-31` };
+    }
+    const parsedMonth = Number(month);
+    if (!Number.isInteger(parsedMonth) || parsedMonth < 1 || parsedMonth > 12) {
+      throw new Error('Mês inválido.');
+    }
+    const monthKey = `${parsedYear}-${String(parsedMonth).padStart(2, '0')}`;
+    return { start: `${monthKey}-01`, end: `${monthKey}-31` };
+  };
+
   const normalizeAllocations = raw => {
     if (!raw || typeof raw !== 'object') {
       return {};
@@ -98,6 +209,13 @@ module.exports = () => {
     }, {});
   };
 
+  // Vínculo da meta com uma posição da carteira ou com uma categoria de investimento.
+  const normalizeGoalLink = raw => {
+    const type = sanitizeString(raw?.type);
+    const value = sanitizeString(raw?.value);
+    return GOAL_LINK_TYPES.includes(type) && value ? { type, value } : null;
+  };
+
   const normalizeGoals = raw => {
     if (!Array.isArray(raw)) {
       return [];
@@ -111,22 +229,219 @@ module.exports = () => {
         if (!label || amount <= 0 || monthlyReserve <= 0) {
           return null;
         }
+        const targetDate = sanitizeString(goal?.targetDate);
         return {
           id,
           label,
           amount: Number(amount.toFixed(2)),
           monthlyReserve: Number(monthlyReserve.toFixed(2)),
+          targetDate: MONTH_KEY_PATTERN.test(targetDate) ? targetDate : null,
+          link: normalizeGoalLink(goal?.link),
         };
       })
       .filter(Boolean);
   };
 
+  // Saldo não gasto que cada envelope trouxe do mês anterior, em reais.
+  const normalizeCarryOver = raw => {
+    if (!raw || typeof raw !== 'object') {
+      return {};
+    }
+    return Object.entries(raw).reduce((accumulator, [category, value]) => {
+      const amount = Number(value);
+      if (category && Number.isFinite(amount) && amount > 0) {
+        accumulator[category] = Number(amount.toFixed(2));
+      }
+      return accumulator;
+    }, {});
+  };
+
+  const normalizeCategoryRules = raw => {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+    return raw
+      .slice(0, MAX_CATEGORY_RULES)
+      .map(rule => {
+        const id = sanitizeString(rule?.id) || firestore.collection('_').doc().id;
+        const group = sanitizeString(rule?.group);
+        const field = sanitizeString(rule?.field);
+        const operator = sanitizeString(rule?.operator);
+        const value = sanitizeString(rule?.value);
+        const category = sanitizeString(rule?.category);
+        if (
+          !RULE_GROUPS.includes(group) ||
+          !RULE_OPERATORS.includes(operator) ||
+          !(field === 'description' || (field === 'source' && group === 'incomes')) ||
+          !value ||
+          !category
+        ) {
+          return null;
+        }
+        return { id, group, field, operator, value, category };
+      })
+      .filter(Boolean);
+  };
+
+  const normalizeCardDay = value => {
+    const day = Number(value);
+    return Number.isInteger(day) && day >= 1 && day <= 31 ? day : null;
+  };
+
+  const normalizeCreditCards = raw => {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+    return raw
+      .slice(0, MAX_CREDIT_CARDS)
+      .map(card => {
+        const id = sanitizeString(card?.id) || firestore.collection('_').doc().id;
+        const name = sanitizeString(card?.name);
+        const closingDay = normalizeCardDay(card?.closingDay);
+        const dueDay = normalizeCardDay(card?.dueDay);
+        if (!name || !closingDay || !dueDay) {
+          return null;
+        }
+        return { id, name, closingDay, dueDay };
+      })
+      .filter(Boolean);
+  };
+
+  const normalizeAccounts = raw => {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+    return raw
+      .slice(0, MAX_ACCOUNTS)
+      .map(account => {
+        const id = sanitizeString(account?.id) || firestore.collection('_').doc().id;
+        const name = sanitizeString(account?.name);
+        const type = sanitizeString(account?.type);
+        const initialBalance = Number(account?.initialBalance ?? 0);
+        if (!name || !ACCOUNT_TYPES.includes(type) || !Number.isFinite(initialBalance)) {
+          return null;
+        }
+        return { id, name, type, initialBalance: Number(initialBalance.toFixed(2)) };
+      })
+      .filter(Boolean);
+  };
+
+  const normalizePositions = raw => {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+    return raw
+      .slice(0, MAX_POSITIONS)
+      .map(position => {
+        const id = sanitizeString(position?.id) || firestore.collection('_').doc().id;
+        const name = sanitizeString(position?.name);
+        const institution = sanitizeString(position?.institution);
+        const type = sanitizeString(position?.type);
+        if (!name || !INVESTMENT_TYPES.includes(type)) {
+          return null;
+        }
+        return { id, name, institution, type };
+      })
+      .filter(Boolean);
+  };
+
+  // Cada categoria aparece uma vez: a última marcação enviada prevalece.
+  const normalizeTaxSettings = raw => {
+    const deductions = new Map();
+    (Array.isArray(raw?.deductibleCategories) ? raw.deductibleCategories : [])
+      .slice(0, MAX_TAX_FLAGS)
+      .forEach(entry => {
+        const category = sanitizeString(entry?.category);
+        const kind = sanitizeString(entry?.kind);
+        if (category && TAX_DEDUCTION_KINDS.includes(kind)) {
+          deductions.set(category, { category, kind });
+        }
+      });
+    const exemptIncomeCategories = new Set(
+      (Array.isArray(raw?.exemptIncomeCategories) ? raw.exemptIncomeCategories : [])
+        .slice(0, MAX_TAX_FLAGS)
+        .map(sanitizeString)
+        .filter(Boolean)
+    );
+    return {
+      deductibleCategories: Array.from(deductions.values()),
+      exemptIncomeCategories: Array.from(exemptIncomeCategories),
+    };
+  };
+
+  // Percentuais do planejado, em ordem e sem repetição; lista vazia desliga os alertas da
+  // categoria, e categorias sem entrada usam os limites padrão.
+  const normalizeBudgetAlerts = raw => {
+    const settings = new Map();
+    (Array.isArray(raw) ? raw : []).slice(0, MAX_CATEGORIES).forEach(entry => {
+      const category = sanitizeString(entry?.category);
+      if (!category || !Array.isArray(entry?.thresholds)) {
+        return;
+      }
+      const thresholds = Array.from(
+        new Set(
+          entry.thresholds
+            .map(value => Math.round(Number(value)))
+            .filter(value => Number.isFinite(value) && value > 0 && value <= MAX_BUDGET_THRESHOLD)
+        )
+      )
+        .sort((a, b) => a - b)
+        .slice(0, MAX_BUDGET_THRESHOLDS);
+      settings.set(category, { category, thresholds });
+    });
+    return Array.from(settings.values());
+  };
+
+  const getBudgetThresholds = (settings, category) =>
+    settings.find(entry => entry.category === category)?.thresholds ?? DEFAULT_BUDGET_THRESHOLDS;
+
   const normalizeRecurrence = data => {
     const frequency = RECURRENCE_VALUES.includes(data?.frequency) ? data.frequency : 'none';
+    if (!SERIES_FREQUENCIES.includes(frequency)) {
+      throw new Error('Repetições semanais ou por dia útil precisam de uma regra de recorrência.');
+    }
     const occurrences = Math.max(1, Math.min(Number(data?.occurrences) || 1, 24));
     return { frequency, occurrences };
   };
 
+  // Parcelas só fazem sentido em compras no cartão; o limite acompanha o formulário.
+  const normalizeInstallments = (body, paymentMethod) => {
+    const installments = Number(body.installments);
+    if (paymentMethod !== 'credito' || !sanitizeString(body.cardId) || body.recurrenceId) {
+      return 1;
+    }
+    return Number.isInteger(installments) ? Math.max(1, Math.min(installments, 24)) : 1;
+  };
+
+  /** Divide o valor em parcelas; a diferença de centavos fica na primeira, como no app. */
+  const splitInstallments = (total, count) => {
+    const totalCents = Math.round(total * 100);
+    const baseCents = Math.floor(totalCents / count);
+    return Array.from({ length: count }, (_, index) =>
+      index === 0 ? (totalCents - baseCents * (count - 1)) / 100 : baseCents / 100
+    );
+  };
+
+  const normalizeRecurrenceLink = body => {
+    const recurrenceId = sanitizeString(body.recurrenceId);
+    const recurrenceIndex = Number(body.recurrenceIndex);
+    // Séries geradas por regra sem data de término não têm total.
+    const recurrenceTotal =
+      body.recurrenceTotal === null || body.recurrenceTotal === undefined
+        ? null
+        : Number(body.recurrenceTotal);
+    if (
+      !recurrenceId ||
+      !Number.isInteger(recurrenceIndex) ||
+      recurrenceIndex < 1 ||
+      (recurrenceTotal !== null &&
+        (!Number.isInteger(recurrenceTotal) || recurrenceIndex > recurrenceTotal))
+    ) {
+      return { recurrenceId: null, recurrenceIndex: null, recurrenceTotal: null };
+    }
+    return { recurrenceId, recurrenceIndex, recurrenceTotal };
+  };
+
   const normalizeExpense = body => {
     const nowIso = new Date().toISOString();
     const description = sanitizeString(body.description);
@@ -151,7 +466,10 @@ module.exports = () => {
       amount,
       date,
       recurrence: normalizeRecurrence(body.recurrence),
-      installments: Number(body.installments) || 1,
+      ...normalizeRecurrenceLink(body),
+      installments: normalizeInstallments(body, paymentMethod),
+      cardId: paymentMethod === 'credito' ? sanitizeString(body.cardId) || null : null,
+      accountId: sanitizeString(body.accountId) || null,
       notes: sanitizeString(body.notes),
       createdAt: nowIso,
       updatedAt: nowIso,
@@ -183,6 +501,8 @@ module.exports = () => {
       amount,
       date,
       recurrence: normalizeRecurrence(body.recurrence),
+      ...normalizeRecurrenceLink(body),
+      accountId: sanitizeString(body.accountId) || null,
       notes: sanitizeString(body.notes),
       createdAt: nowIso,
       updatedAt: nowIso,
@@ -196,6 +516,10 @@ module.exports = () => {
     if (!description) {
       throw new Error('Descreva o investimento.');
     }
+    const category = sanitizeString(body.category);
+    if (!category) {
+      throw new Error('Informe a categoria.');
+    }
     const type = sanitizeString(body.type);
     if (!INVESTMENT_TYPES.includes(type)) {
       throw new Error('Tipo de investimento inválido.');
@@ -207,14 +531,23 @@ module.exports = () => {
     if (!institution) {
       throw new Error('Informe a instituição.');
     }
+    const movement = sanitizeString(body.movement) || 'aporte';
+    if (!INVESTMENT_MOVEMENTS.includes(movement)) {
+      throw new Error('Movimentação inválida.');
+    }
     return {
       description,
       institution,
+      category,
       type,
       amount,
       expectedReturn,
       date,
       recurrence: normalizeRecurrence(body.recurrence),
+      ...normalizeRecurrenceLink(body),
+      accountId: sanitizeString(body.accountId) || null,
+      positionId: sanitizeString(body.positionId) || null,
+      movement,
       notes: sanitizeString(body.notes),
       createdAt: nowIso,
       updatedAt: nowIso,
@@ -222,23 +555,583 @@ module.exports = () => {
     };
   };
 
+  const normalizeTransfer = body => {
+    const nowIso = new Date().toISOString();
+    const fromAccountId = sanitizeString(body.fromAccountId);
+    const toAccountId = sanitizeString(body.toAccountId);
+    if (!fromAccountId || !toAccountId) {
+      throw new Error('Informe as contas de origem e de destino.');
+    }
+    if (fromAccountId === toAccountId) {
+      throw new Error('Escolha contas diferentes para a transferência.');
+    }
+    const amount = parseNumber(body.amount, 'amount');
+    if (amount <= 0) {
+      throw new Error('Informe um valor positivo.');
+    }
+    return {
+      description: sanitizeString(body.description) || 'Transferência',
+      fromAccountId,
+      toAccountId,
+      amount,
+      date: ensureDate(body.date, 'date'),
+      notes: sanitizeString(body.notes),
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    };
+  };
+
+  const normalizeValuation = body => {
+    const nowIso = new Date().toISOString();
+    const positionId = sanitizeString(body.positionId);
+    if (!positionId) {
+      throw new Error('Informe a posição avaliada.');
+    }
+    const marketValue = parseNumber(body.marketValue, 'marketValue');
+    if (marketValue < 0) {
+      throw new Error('O valor de mercado não pode ser negativo.');
+    }
+    return {
+      positionId,
+      marketValue: Number(marketValue.toFixed(2)),
+      date: ensureDate(body.date, 'date'),
+      notes: sanitizeString(body.notes),
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    };
+  };
+
   const COLLECTION_MAP = {
     expenses: normalizeExpense,
     incomes: normalizeIncome,
     investments: normalizeInvestment,
   };
 
+  // Transferências e avaliações de mercado não entram em séries nem em recorrências.
+  const RECORD_NORMALIZERS = {
+    ...COLLECTION_MAP,
+    transfers: normalizeTransfer,
+    valuations: normalizeValuation,
+  };
+
+  const normalizeRecurrenceRule = body => {
+    const collection = sanitizeString(body?.collection);
+    if (!COLLECTION_MAP[collection]) {
+      throw new Error('Tipo de lançamento inválido.');
+    }
+    const config = body?.recurrence ?? {};
+    const frequency = sanitizeString(config.frequency);
+    if (frequency === 'none' || !RECURRENCE_VALUES.includes(frequency)) {
+      throw new Error('Frequência da recorrência inválida.');
+    }
+    const occurrences =
+      config.occurrences === null || config.occurrences === undefined
+        ? null
+        : Number(config.occurrences);
+    if (
+      occurrences !== null &&
+      (!Number.isInteger(occurrences) || occurrences < 1 || occurrences > MAX_RULE_OCCURRENCES)
+    ) {
+      throw new Error(
+        `Use entre 1 e ${MAX_RULE_OCCURRENCES} ocorrências ou deixe a recorrência sem término.`
+      );
+    }
+    const businessDay = frequency === 'business_day' ? Number(config.businessDay) : null;
+    if (
+      businessDay !== null &&
+      (!Number.isInteger(businessDay) || businessDay < 1 || businessDay > MAX_BUSINESS_DAY)
+    ) {
+      throw new Error(`Informe um dia útil entre 1 e ${MAX_BUSINESS_DAY}.`);
+    }
+    const {
+      date,
+      createdAt,
+      updatedAt,
+      recurrence,
+      recurrenceId,
+      recurrenceIndex,
+      recurrenceTotal,
+      ...template
+    } = COLLECTION_MAP[collection](body?.record ?? {});
+    return {
+      collection,
+      frequency,
+      occurrences,
+      businessDay,
+      startDate: date,
+      template,
+      materializedCount: 0,
+      createdAt,
+      updatedAt,
+    };
+  };
+
+  const readBackupId = (raw, label) => {
+    const id = sanitizeString(raw);
+    if (!id || id.includes('/')) {
+      throw new Error(`${label}: ID inválido.`);
+    }
+    return id;
+  };
+
+  const readBackupList = (raw, label) => {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+    if (!Array.isArray(raw)) {
+      throw new Error(`Lista de ${label} inválida no backup.`);
+    }
+    return raw;
+  };
+
+  // Tudo é validado antes de gravar: um item inválido recusa a restauração inteira. Os avisos
+  // não entram, porque dependem dos lançamentos feitos depois do backup.
+  const normalizeBackup = body => {
+    if (!FINANCE_BACKUP_VERSIONS.includes(Number(body?.version))) {
+      throw new Error('Versão do backup não suportada.');
+    }
+    const state = body?.state;
+    if (!state || typeof state !== 'object') {
+      throw new Error('O backup não contém os dados financeiros.');
+    }
+    const records = BACKUP_COLLECTIONS.reduce((accumulator, collection) => {
+      const ids = new Set();
+      accumulator[collection] = readBackupList(state[collection], collection).map(
+        (item, index) => {
+          const label = `${collection} #${index + 1}`;
+          const id = readBackupId(item?.id, label);
+          if (ids.has(id)) {
+            throw new Error(`${label}: ID repetido.`);
+          }
+          ids.add(id);
+          let record;
+          try {
+            record = RECORD_NORMALIZERS[collection](item ?? {});
+          } catch (error) {
+            throw new Error(`${label}: ${error.message}`);
+          }
+          const createdAt = sanitizeString(item.createdAt) || record.createdAt;
+          return { id, record: { ...record, createdAt } };
+        }
+      );
+      return accumulator;
+    }, {});
+    const recurrences = readBackupList(state.recurrences, 'recorrências').map((rule, index) => {
+      const label = `Recorrência #${index + 1}`;
+      const id = readBackupId(rule?.id, label);
+      let normalized;
+      try {
+        normalized = normalizeRecurrenceRule({
+          collection: rule?.collection,
+          recurrence: {
+            frequency: rule?.frequency,
+            occurrences: rule?.occurrences,
+            businessDay: rule?.businessDay,
+          },
+          record: { ...rule?.template, date: rule?.startDate },
+        });
+      } catch (error) {
+        throw new Error(`${label}: ${error.message}`);
+      }
+      const materialized = Number(rule?.materializedCount);
+      const materializedCount =
+        Number.isInteger(materialized) && materialized > 0
+          ? Math.min(materialized, normalized.occurrences ?? materialized)
+          : 0;
+      return { id, rule: { ...normalized, materializedCount } };
+    });
+    const planners = Object.entries(body?.planners ?? {}).map(([periodKey, planner]) => {
+      const [year, month] = periodKey.split('-');
+      return {
+        periodKey: buildPlannerKey(year, month),
+        planner: {
+          allocations: normalizeAllocations(planner?.allocations),
+          carryOver: normalizeCarryOver(planner?.carryOver),
+          goals: normalizeGoals(planner?.goals),
+        },
+      };
+    });
+    return {
+      records,
+      recurrences,
+      planners,
+      categories: mergeCategories(state.categories),
+      categoryRules: normalizeCategoryRules(readBackupList(state.categoryRules, 'regras')),
+      creditCards: normalizeCreditCards(readBackupList(state.creditCards, 'cartões')),
+      accounts: normalizeAccounts(readBackupList(state.accounts, 'contas')),
+      positions: normalizePositions(readBackupList(state.positions, 'posições')),
+      taxSettings: normalizeTaxSettings(state.taxSettings),
+      budgetAlerts: normalizeBudgetAlerts(readBackupList(state.budgetAlerts, 'alertas')),
+    };
+  };
+
+  const hasPendingOccurrences = (rule, until) => {
+    const nextIndex = (rule.materializedCount ?? 0) + 1;
+    return (
+      (rule.occurrences === null || nextIndex <= rule.occurrences) &&
+      getRecurrenceOccurrence(rule, nextIndex) <= until
+    );
+  };
+
+  // Os lançamentos recebem IDs derivados da regra e da posição na série, então repetir a
+  // chamada para o mesmo período não duplica nada.
+  const materializeRule = (uid, ruleId, until) =>
+    firestore.runTransaction(async transaction => {
+      const ruleRef = getRecurrencesRef(uid).doc(ruleId);
+      const snapshot = await transaction.get(ruleRef);
+      if (!snapshot.exists) {
+        return null;
+      }
+      const rule = snapshot.data();
+      const nowIso = new Date().toISOString();
+      const items = [];
+      let index = (rule.materializedCount ?? 0) + 1;
+      while (
+        items.length < MAX_MATERIALIZED_PER_RULE &&
+        (rule.occurrences === null || index <= rule.occurrences)
+      ) {
+        const date = getRecurrenceOccurrence(rule, index);
+        if (date > until) {
+          break;
+        }
+        const ref = getCollectionRef(uid, rule.collection).doc(`${ruleId}_${index}`);
+        const record = {
+          ...rule.template,
+          date,
+          recurrenceId: ruleId,
+          recurrenceIndex: index,
+          recurrenceTotal: rule.occurrences,
+          createdAt: nowIso,
+          updatedAt: nowIso,
+          revision: 1,
+        };
+        transaction.set(ref, record);
+        items.push({ id: ref.id, ...record });
+        index += 1;
+      }
+      const updatedRule = { ...rule, materializedCount: index - 1 };
+      if (items.length) {
+        transaction.set(ruleRef, { ...updatedRule, updatedAt: nowIso });
+      }
+      return { rule: { id: ruleId, ...updatedRule }, items };
+    });
+
+  const updateCategoryGroup = (uid, group, update) =>
+    firestore.runTransaction(async transaction => {
+      const ref = getCategoriesDocRef(uid);
+      const snapshot = await transaction.get(ref);
+      const categories = mergeCategories(snapshot.data());
+      const result = update(categories[group]);
+      if (result.error) {
+        return result;
+      }
+      const list = normalizeCategoryList(result.list);
+      transaction.set(
+        ref,
+        { [group]: list, updatedAt: new Date().toISOString() },
+        { merge: true }
+      );
+      return { ...result, categories: { ...categories, [group]: list } };
+    });
+
+  // Lê a lista e aplica a mudança sem gravar nada. Renomear e mesclar regravam as referências
+  // antes de trocar a lista: se a migração falhar no meio, a categoria continua com o nome antigo
+  // e repetir o pedido termina o que faltou.
+  const previewCategoryGroup = async (uid, group, update) => {
+    const snapshot = await getCategoriesDocRef(uid).get();
+    const result = update(mergeCategories(snapshot.data())[group]);
+    return result.error ? result : { ...result, list: normalizeCategoryList(result.list) };
+  };
+
+  // `data` nulo remove o documento; com `'update'` só os campos enviados são gravados.
+  const commitInChunks = async writes => {
+    for (let start = 0; start < writes.length; start += CATEGORY_MIGRATION_BATCH) {
+      const batch = firestore.batch();
+      writes.slice(start, start + CATEGORY_MIGRATION_BATCH).forEach(([ref, data, mode]) => {
+        if (data === null) {
+          batch.delete(ref);
+        } else if (mode === 'update') {
+          batch.update(ref, data);
+        } else {
+          batch.set(ref, data);
+        }
+      });
+      await batch.commit();
+    }
+  };
+
+  // Os lançamentos guardam o nome da categoria, então renomear ou mesclar regrava o nome em
+  // tudo que o referencia: lançamentos, modelos das recorrências, regras de categorização,
+  // marcações do IR e, nos gastos, os percentuais e saldos do planner e os limites dos alertas de
+  // orçamento; nos investimentos, as metas vinculadas à categoria. Na mescla o percentual e o
+  // saldo do planner são somados aos da categoria de destino.
+  const migrateCategoryReferences = async (uid, group, fromName, toName) => {
+    const nowIso = new Date().toISOString();
+    const settingsRef = firestore.collection('users').doc(uid).collection('settings');
+    const [records, recurrences, rulesSnapshot, taxSnapshot, planners, budgetSnapshot] =
+      await Promise.all([
+        getCollectionRef(uid, group).where('category', '==', fromName).get(),
+        getRecurrencesRef(uid).where('collection', '==', group).get(),
+        getCategoryRulesDocRef(uid).get(),
+        getTaxSettingsDocRef(uid).get(),
+        group === 'incomes'
+          ? null
+          : firestore.collection('users').doc(uid).collection('planner').get(),
+        group === 'expenses' ? getBudgetAlertsDocRef(uid).get() : null,
+      ]);
+    const writes = [];
+    // Nos lançamentos e recorrências só o nome muda, para não sobrescrever edições feitas
+    // enquanto a migração roda.
+    const items = records.docs.map(docSnap => {
+      const data = docSnap.data() ?? {};
+      const changes = { category: toName, updatedAt: nowIso, revision: readRevision(data) + 1 };
+      writes.push([docSnap.ref, changes, 'update']);
+      return {
+        id: docSnap.id,
+        ...data,
+        ...changes,
+        excludeFromTotals: Boolean(data.excludeFromTotals),
+      };
+    });
+    const rules = recurrences.docs
+      .filter(docSnap => docSnap.data()?.template?.category === fromName)
+      .map(docSnap => {
+        const data = docSnap.data();
+        writes.push([docSnap.ref, { 'template.category': toName, updatedAt: nowIso }, 'update']);
+        return {
+          id: docSnap.id,
+          ...data,
+          template: { ...data.template, category: toName },
+          updatedAt: nowIso,
+        };
+      });
+
+    const categoryRules = normalizeCategoryRules(rulesSnapshot.data()?.rules);
+    if (categoryRules.some(rule => rule.group === group && rule.category === fromName)) {
+      writes.push([
+        settingsRef.doc('categoryRules'),
+        {
+          rules: categoryRules.map(rule =>
+            rule.group === group && rule.category === fromName
+              ? { ...rule, category: toName }
+              : rule
+          ),
+          updatedAt: nowIso,
+        },
+      ]);
+    }
+
+    const taxSettings = normalizeTaxSettings(taxSnapshot.data());
+    const { deductibleCategories, exemptIncomeCategories } = taxSettings;
+    const isFlagged = name =>
+      group === 'expenses'
+        ? deductibleCategories.some(entry => entry.category === name)
+        : group === 'incomes' && exemptIncomeCategories.includes(name);
+    if (isFlagged(fromName)) {
+      // Se o destino já tinha marcação, ela prevalece sobre a da categoria mesclada.
+      const keepTarget = isFlagged(toName);
+      const rename = name => (name === fromName ? toName : name);
+      writes.push([
+        settingsRef.doc('taxReport'),
+        {
+          deductibleCategories:
+            group === 'expenses'
+              ? deductibleCategories
+                  .filter(entry => !(keepTarget && entry.category === fromName))
+                  .map(entry => ({ ...entry, category: rename(entry.category) }))
+              : deductibleCategories,
+          exemptIncomeCategories:
+            group === 'incomes'
+              ? Array.from(new Set(exemptIncomeCategories.map(rename)))
+              : exemptIncomeCategories,
+          updatedAt: nowIso,
+        },
+      ]);
+    }
+
+    const moveAmount = (source, normalize) => {
+      if (source[fromName] === undefined) {
+        return source;
+      }
+      const { [fromName]: moved, ...rest } = source;
+      rest[toName] = (rest[toName] ?? 0) + moved;
+      return normalize(rest);
+    };
+    (planners?.docs ?? []).forEach(docSnap => {
+      const data = docSnap.data() ?? {};
+      if (group === 'expenses') {
+        const allocations = normalizeAllocations(data.allocations);
+        const carryOver = normalizeCarryOver(data.carryOver);
+        if (allocations[fromName] === undefined && carryOver[fromName] === undefined) {
+          return;
+        }
+        writes.push([
+          docSnap.ref,
+          {
+            ...data,
+            allocations: moveAmount(allocations, normalizeAllocations),
+            carryOver: moveAmount(carryOver, normalizeCarryOver),
+            updatedAt: nowIso,
+          },
+        ]);
+        return;
+      }
+      const goals = normalizeGoals(data.goals);
+      const isLinked = goal => goal.link?.type === 'category' && goal.link.value === fromName;
+      if (!goals.some(isLinked)) {
+        return;
+      }
+      writes.push([
+        docSnap.ref,
+        {
+          ...data,
+          goals: goals.map(goal =>
+            isLinked(goal) ? { ...goal, link: { ...goal.link, value: toName } } : goal
+          ),
+          updatedAt: nowIso,
+        },
+      ]);
+    });
+
+    const budgetAlerts = normalizeBudgetAlerts(budgetSnapshot?.data()?.categories);
+    if (budgetAlerts.some(entry => entry.category === fromName)) {
+      // Os limites já definidos para o destino prevalecem, como nas marcações do IR.
+      const keepTarget = budgetAlerts.some(entry => entry.category === toName);
+      writes.push([
+        settingsRef.doc('budgetAlerts'),
+        {
+          categories: budgetAlerts
+            .filter(entry => !(keepTarget && entry.category === fromName))
+            .map(entry => (entry.category === fromName ? { ...entry, category: toName } : entry)),
+          updatedAt: nowIso,
+        },
+      ]);
+    }
+
+    await commitInChunks(writes);
+    return { items, rules };
+  };
+
+  // Mesma conta do planner: o planejado é o percentual da categoria principal sobre as receitas
+  // do mês mais o saldo trazido do mês anterior, e o gasto soma as subcategorias. O ID do aviso
+  // vem do mês, da categoria e do limite, então cada limite avisa uma vez por mês mesmo que o
+  // gasto caia e volte a subir.
+  const evaluateBudgetAlerts = async (uid, createdItems) => {
+    const [categoriesSnapshot, settingsSnapshot] = await Promise.all([
+      getCategoriesDocRef(uid).get(),
+      getBudgetAlertsDocRef(uid).get(),
+    ]);
+    const categories = mergeCategories(categoriesSnapshot.data()).expenses;
+    const settings = normalizeBudgetAlerts(settingsSnapshot.data()?.categories);
+    const rollUp = name => {
+      const category = categories.find(item => item.name === name);
+      const parent = category?.parentId
+        ? categories.find(item => item.id === category.parentId)
+        : null;
+      return (parent ?? category)?.name ?? name;
+    };
+    const createdIds = new Set(createdItems.map(item => item.id));
+    const monthKeys = new Set(createdItems.map(item => item.date.slice(0, 7)));
+    const nowIso = new Date().toISOString();
+    const notifications = [];
+
+    for (const monthKey of monthKeys) {
+      const range = { start: `${monthKey}-01`, end: `${monthKey}-31` };
+      const [plannerSnapshot, incomes, expenses] = await Promise.all([
+        getPlannerDocRef(uid, monthKey).get(),
+        getCollectionRef(uid, 'incomes')
+          .where('date', '>=', range.start)
+          .where('date', '<=', range.end)
+          .get(),
+        getCollectionRef(uid, 'expenses')
+          .where('date', '>=', range.start)
+          .where('date', '<=', range.end)
+          .get(),
+      ]);
+      const allocations = normalizeAllocations(plannerSnapshot.data()?.allocations);
+      const carryOver = normalizeCarryOver(plannerSnapshot.data()?.carryOver);
+      const income = incomes.docs.reduce(
+        (sum, docSnap) => sum + (Number(docSnap.data()?.amount) || 0),
+        0
+      );
+      const spent = new Map();
+      const added = new Map();
+      expenses.docs.forEach(docSnap => {
+        const data = docSnap.data() ?? {};
+        const category = rollUp(data.category);
+        const amount = Number(data.amount) || 0;
+        spent.set(category, (spent.get(category) ?? 0) + amount);
+        if (createdIds.has(docSnap.id)) {
+          added.set(category, (added.get(category) ?? 0) + amount);
+        }
+      });
+
+      added.forEach((amount, category) => {
+        const planned = (income * (allocations[category] ?? 0)) / 100 + (carryOver[category] ?? 0);
+        if (planned <= 0) {
+          return;
+        }
+        const total = spent.get(category) ?? 0;
+        const before = ((total - amount) / planned) * 100;
+        const after = (total / planned) * 100;
+        getBudgetThresholds(settings, category)
+          .filter(threshold => before < threshold && after >= threshold)
+          .forEach(threshold => {
+            const [year, month] = monthKey.split('-');
+            notifications.push({
+              id: `budget-${monthKey}-${toCategoryId(category)}-${threshold}`,
+              kind: 'budget',
+              title: `${category} atingiu ${threshold}% do orçamento`,
+              message: `${currencyFormatter.format(total)} gastos de ${currencyFormatter.format(
+                planned
+              )} planejados para ${month}/${year}.`,
+              category,
+              monthKey,
+              threshold,
+              read: false,
+              createdAt: nowIso,
+            });
+          });
+      });
+    }
+
+    if (!notifications.length) {
+      return [];
+    }
+    const notificationsRef = getNotificationsRef(uid);
+    const existing = await firestore.getAll(
+      ...notifications.map(notification => notificationsRef.doc(notification.id))
+    );
+    const fresh = notifications.filter((_, index) => !existing[index].exists);
+    const batch = firestore.batch();
+    fresh.forEach(({ id, ...notification }) => batch.set(notificationsRef.doc(id), notification));
+    await batch.commit();
+    return fresh;
+  };
+
   const listHandler = collection =>
     async (req, res) => {
       try {
         const { uid } = req.auth;
-        const snapshot = await getCollectionRef(uid, collection).orderBy('date', 'desc').get();
+        let range;
+        try {
+          range = buildPeriodRange(req.query?.year, req.query?.month);
+        } catch (error) {
+          res.status(400).json({ message: error.message });
+          return;
+        }
+        let query = getCollectionRef(uid, collection);
+        if (range) {
+          query = query.where('date', '>=', range.start).where('date', '<=', range.end);
+        }
+        const snapshot = await query.orderBy('date', 'desc').get();
         const items = snapshot.docs.map(docSnap => {
           const data = docSnap.data() ?? {};
           return {
             id: docSnap.id,
             ...data,
             excludeFromTotals: Boolean(data.excludeFromTotals),
+            revision: readRevision(data),
           };
         });
         const totalAmount = items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
@@ -249,31 +1142,68 @@ module.exports = () => {
       }
     };
 
-  const createHandler = collection =>
-    async (req, res) => {
-      try {
-        const { uid } = req.auth;
-        const normalize = COLLECTION_MAP[collection];
-        const payload = normalize(req.body);
+  const expandRecurrence = payload => {
+    const { recurrence } = payload;
+    // A compra parcelada chega numa única requisição: todas as parcelas são gravadas no mesmo
+    // lote, cada uma na fatura do mês seguinte.
+    if (payload.installments > 1) {
+      const schedule = generateRecurringDates(payload.date, 'monthly', payload.installments);
+      const amounts = splitInstallments(payload.amount, schedule.length);
+      const recurrenceId = firestore.collection('_').doc().id;
+      return schedule.map((date, index) => ({
+        ...payload,
+        amount: amounts[index],
+        date,
+        recurrenceId,
+        recurrenceIndex: index + 1,
+        recurrenceTotal: schedule.length,
+      }));
+    }
+    if (!recurrence || recurrence.frequency === 'none' || payload.recurrenceId) {
+      return [payload];
+    }
+    const schedule = generateRecurringDates(
+      payload.date,
+      recurrence.frequency,
+      recurrence.occurrences
+    );
+    if (schedule.length === 1) {
+      return [payload];
+    }
+    const recurrenceId = firestore.collection('_').doc().id;
+    return schedule.map((date, index) => ({
+      ...payload,
+      date,
+      recurrenceId,
+      recurrenceIndex: index + 1,
+      recurrenceTotal: schedule.length,
+    }));
+  };
+
+  const createHandler = collection =>
+    async (req, res) => {
+      try {
+        const { uid } = req.auth;
+        const normalize = RECORD_NORMALIZERS[collection];
+        const payload = normalize(req.body ?? {});
         const collectionRef = getCollectionRef(uid, collection);
-        const createdItems = [];
-        const ref = await collectionRef.add(payload);
-        createdItems.push({ id: ref.id, ...payload });
-        const { recurrence } = payload;
-        if (recurrence && recurrence.frequency && recurrence.frequency !== 'none') {
-          const schedule = generateRecurringDates(payload.date, recurrence.frequency, recurrence.occurrences);
-          if (schedule.length > 1) {
-            const batch = firestore.batch();
-            schedule.slice(1).forEach(date => {
-              const clonedRef = collectionRef.doc();
-              const clonePayload = { ...payload, date };
-              batch.set(clonedRef, clonePayload);
-              createdItems.push({ id: clonedRef.id, ...clonePayload });
-            });
-            await batch.commit();
-          }
-        }
-        res.status(201).json({ items: createdItems });
+        const batch = firestore.batch();
+        const createdItems = expandRecurrence(payload).map(item => {
+          const ref = collectionRef.doc();
+          const record = { ...item, revision: 1 };
+          batch.set(ref, record);
+          return { id: ref.id, ...record };
+        });
+        await batch.commit();
+        // O lançamento já foi gravado: uma falha nos alertas não deve devolver erro ao cliente.
+        const alerts =
+          collection === 'expenses'
+            ? await evaluateBudgetAlerts(uid, createdItems).catch(error => {
+                console.error('[functions][finance] budget alerts', error);
+                return [];
+              })
+            : [];
+        res.status(201).json({ items: createdItems, alerts });
       } catch (error) {
         console.error(`[functions][finance] create ${collection}`, error);
         res.status(400).json({ message: error.message || 'Erro ao criar registro.' });
@@ -290,27 +1220,65 @@ module.exports = () => {
           return;
         }
         const normalize = COLLECTION_MAP[collection];
-        const payload = normalize(req.body);
+        const { createdAt, ...payload } = normalize(req.body ?? {});
+        const expectedRevision = ensureRevision(req.body?.revision);
         const ref = getCollectionRef(uid, collection).doc(id);
-        const snapshot = await ref.get();
-        if (!snapshot.exists) {
-          res.status(404).json({ message: 'Registro não encontrado.' });
+        const result = await firestore.runTransaction(async transaction => {
+          const snapshot = await transaction.get(ref);
+          if (!snapshot.exists) {
+            return { error: { status: 404, message: 'Registro não encontrado.' } };
+          }
+          const current = snapshot.data() ?? {};
+          const currentRevision = readRevision(current);
+          if (currentRevision !== expectedRevision) {
+            return { conflict: { id, ...current, revision: currentRevision } };
+          }
+          const updatedPayload = {
+            ...payload,
+            createdAt: current.createdAt ?? createdAt,
+            amount: payload.amount,
+            expectedReturn: payload.expectedReturn ?? null,
+            updatedAt: new Date().toISOString(),
+            revision: currentRevision + 1,
+          };
+          transaction.update(ref, updatedPayload);
+          return { record: { id, ...updatedPayload } };
+        });
+        if (result.error) {
+          res.status(result.error.status).json({ message: result.error.message });
           return;
         }
-        const updatedPayload = {
-          ...payload,
-          amount: payload.amount,
-          expectedReturn: payload.expectedReturn ?? null,
-          updatedAt: new Date().toISOString(),
-        };
-        await ref.update(updatedPayload);
-        res.json({ id, ...updatedPayload });
+        if (result.conflict) {
+          res.status(409).json({ message: REVISION_CONFLICT_MESSAGE, current: result.conflict });
+          return;
+        }
+        res.json(result.record);
       } catch (error) {
         console.error(`[functions][finance] update ${collection}`, error);
         res.status(400).json({ message: error.message || 'Erro ao atualizar registro.' });
       }
     };
 
+  const getAttachmentsPrefix = (uid, collection, id) =>
+    `finance-attachments/${uid}/${collection}/${id}/`;
+
+  // Os registros já saíram do Firestore: arquivos órfãos só ficam no log, sem derrubar a resposta.
+  const removeRecordAttachments = async (uid, collection, ids) => {
+    if (!ids.length) {
+      return;
+    }
+    const bucket = admin.storage().bucket();
+    await Promise.all(
+      ids.map(id =>
+        bucket
+          .deleteFiles({ prefix: getAttachmentsPrefix(uid, collection, id) })
+          .catch(error => {
+            console.error(`[functions][finance] remove ${collection} attachments`, error);
+          })
+      )
+    );
+  };
+
   const deleteHandler = collection =>
     async (req, res) => {
       try {
@@ -327,6 +1295,9 @@ module.exports = () => {
           return;
         }
         await ref.delete();
+        if (snapshot.data()?.attachments?.length) {
+          await removeRecordAttachments(uid, collection, [id]);
+        }
         res.status(204).send();
       } catch (error) {
         console.error(`[functions][finance] delete ${collection}`, error);
@@ -334,11 +1305,404 @@ module.exports = () => {
       }
     };
 
+  const readSeriesParams = source => {
+    const scope = sanitizeString(source?.scope);
+    if (!SERIES_SCOPES.includes(scope)) {
+      throw new Error('Escopo da série inválido.');
+    }
+    const fromIndex = Number(source?.fromIndex);
+    if (!Number.isInteger(fromIndex) || fromIndex < 1) {
+      throw new Error('Informe a partir de qual lançamento aplicar a alteração.');
+    }
+    return { scope, fromIndex };
+  };
+
+  const loadSeries = async (transaction, uid, collection, recurrenceId) => {
+    const snapshot = await transaction.get(
+      getCollectionRef(uid, collection).where('recurrenceId', '==', recurrenceId)
+    );
+    return snapshot.docs
+      .map(docSnap => ({ ref: docSnap.ref, id: docSnap.id, data: docSnap.data() ?? {} }))
+      .sort((a, b) => (a.data.recurrenceIndex ?? 0) - (b.data.recurrenceIndex ?? 0));
+  };
+
+  // A frequência não é salva; o intervalo vem da distância entre os dois primeiros itens.
+  const inferSeriesInterval = series => {
+    if (series.length < 2) {
+      return 1;
+    }
+    const toMonths = date => {
+      const [year, month] = date.split('-').map(Number);
+      return year * 12 + month;
+    };
+    const [first, second] = series;
+    const indexGap = (second.data.recurrenceIndex ?? 2) - (first.data.recurrenceIndex ?? 1) || 1;
+    const interval = (toMonths(second.data.date) - toMonths(first.data.date)) / indexGap;
+    return Number.isInteger(interval) && interval > 0 ? interval : 1;
+  };
+
+  const withDayOfMonth = (isoDate, day) =>
+    addMonthsPreservingDay(`${isoDate.slice(0, 8)}${String(day).padStart(2, '0')}`, 0);
+
+  const seriesUpdateHandler = collection =>
+    async (req, res) => {
+      try {
+        const { uid } = req.auth;
+        const { recurrenceId } = req.params;
+        const { scope, fromIndex } = readSeriesParams(req.body);
+        const expectedRevision = ensureRevision(req.body?.revision);
+        const requestedTotal = req.body?.total;
+        const total =
+          requestedTotal === undefined || requestedTotal === null ? null : Number(requestedTotal);
+        if (total !== null && (!Number.isInteger(total) || total < fromIndex)) {
+          res.status(400).json({
+            message: `A série deve manter pelo menos ${fromIndex} lançamentos.`,
+          });
+          return;
+        }
+        const {
+          createdAt,
+          recurrence,
+          recurrenceId: ignoredId,
+          recurrenceIndex,
+          recurrenceTotal,
+          ...fields
+        } = COLLECTION_MAP[collection](req.body?.record ?? {});
+
+        const ruleRef = getRecurrencesRef(uid).doc(recurrenceId);
+
+        // Registros removidos com anexos; zerado a cada nova tentativa da transação.
+        let withFiles = [];
+        const result = await firestore.runTransaction(async transaction => {
+          withFiles = [];
+          const series = await loadSeries(transaction, uid, collection, recurrenceId);
+          const ruleSnapshot = await transaction.get(ruleRef);
+          const rule = ruleSnapshot.exists ? ruleSnapshot.data() : null;
+          const anchor = series.find(item => item.data.recurrenceIndex === fromIndex);
+          if (!anchor) {
+            return { error: { status: 404, message: 'Lançamento da série não encontrado.' } };
+          }
+          const anchorRevision = readRevision(anchor.data);
+          if (anchorRevision !== expectedRevision) {
+            return { conflict: { id: anchor.id, ...anchor.data, revision: anchorRevision } };
+          }
+          const maxLength = rule ? MAX_RULE_OCCURRENCES : MAX_SERIES_LENGTH;
+          if (total !== null && total > maxLength) {
+            return {
+              error: { status: 400, message: `A série pode ter até ${maxLength} lançamentos.` },
+            };
+          }
+
+          const nowIso = new Date().toISOString();
+          // Séries geradas por regra seguem o calendário da regra e crescem sob demanda.
+          const nextTotal = rule
+            ? total ?? rule.occurrences
+            : total ?? anchor.data.recurrenceTotal ?? series.length;
+          const changedDay =
+            !rule && fields.date !== anchor.data.date ? Number(fields.date.split('-')[2]) : null;
+          const items = [];
+          const removed = [];
+          let anchorRecord = null;
+          series.forEach(item => {
+            const index = item.data.recurrenceIndex ?? 0;
+            if (nextTotal !== null && index > nextTotal) {
+              transaction.delete(item.ref);
+              removed.push(item.id);
+              if (item.data.attachments?.length) {
+                withFiles.push(item.id);
+              }
+              return;
+            }
+            const inScope = scope === 'all' || index >= fromIndex;
+            const record = {
+              ...item.data,
+              ...(inScope
+                ? {
+                    ...fields,
+                    date: changedDay ? withDayOfMonth(item.data.date, changedDay) : item.data.date,
+                  }
+                : {}),
+              recurrenceTotal: nextTotal,
+              updatedAt: nowIso,
+              revision: readRevision(item.data) + 1,
+            };
+            transaction.set(item.ref, record);
+            items.push({ id: item.id, ...record });
+            if (item.id === anchor.id) {
+              anchorRecord = record;
+            }
+          });
+
+          if (rule) {
+            const { date, updatedAt, ...templateFields } = fields;
+            const updatedRule = {
+              ...rule,
+              template: { ...rule.template, ...templateFields },
+              occurrences: nextTotal,
+              materializedCount:
+                nextTotal === null
+                  ? rule.materializedCount
+                  : Math.min(rule.materializedCount, nextTotal),
+              updatedAt: nowIso,
+            };
+            transaction.set(ruleRef, updatedRule);
+            return { items, removed, rule: { id: recurrenceId, ...updatedRule } };
+          }
+
+          const first = series[0];
+          const lastIndex = series[series.length - 1].data.recurrenceIndex ?? series.length;
+          const interval = inferSeriesInterval(series);
+          const baseDate = withDayOfMonth(
+            first.data.date,
+            changedDay ?? Number(first.data.date.split('-')[2])
+          );
+          for (let index = lastIndex + 1; index <= nextTotal; index += 1) {
+            const ref = getCollectionRef(uid, collection).doc();
+            const { attachments, ...anchorFields } = anchorRecord;
+            const record = {
+              ...anchorFields,
+              date: addMonthsPreservingDay(
+                baseDate,
+                interval * (index - (first.data.recurrenceIndex ?? 1))
+              ),
+              recurrenceIndex: index,
+              createdAt: nowIso,
+              revision: 1,
+            };
+            transaction.set(ref, record);
+            items.push({ id: ref.id, ...record });
+          }
+          return { items, removed };
+        });
+        if (result.error) {
+          res.status(result.error.status).json({ message: result.error.message });
+          return;
+        }
+        if (result.conflict) {
+          res.status(409).json({ message: REVISION_CONFLICT_MESSAGE, current: result.conflict });
+          return;
+        }
+        await removeRecordAttachments(uid, collection, withFiles);
+        res.json(result);
+      } catch (error) {
+        console.error(`[functions][finance] update ${collection} series`, error);
+        res.status(400).json({ message: error.message || 'Erro ao atualizar a série.' });
+      }
+    };
+
+  const seriesDeleteHandler = collection =>
+    async (req, res) => {
+      let params;
+      try {
+        params = readSeriesParams(req.query);
+      } catch (error) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      try {
+        const { uid } = req.auth;
+        const { recurrenceId } = req.params;
+        const { scope, fromIndex } = params;
+        const ruleRef = getRecurrencesRef(uid).doc(recurrenceId);
+        let withFiles = [];
+        const result = await firestore.runTransaction(async transaction => {
+          withFiles = [];
+          const series = await loadSeries(transaction, uid, collection, recurrenceId);
+          const ruleSnapshot = await transaction.get(ruleRef);
+          if (!series.length) {
+            return null;
+          }
+          const nowIso = new Date().toISOString();
+          const remainingTotal = scope === 'all' ? 0 : fromIndex - 1;
+          const items = [];
+          const removed = [];
+          series.forEach(item => {
+            if ((item.data.recurrenceIndex ?? 0) > remainingTotal) {
+              transaction.delete(item.ref);
+              removed.push(item.id);
+              if (item.data.attachments?.length) {
+                withFiles.push(item.id);
+              }
+              return;
+            }
+            const record = {
+              ...item.data,
+              recurrenceTotal: remainingTotal,
+              updatedAt: nowIso,
+              revision: readRevision(item.data) + 1,
+            };
+            transaction.set(item.ref, record);
+            items.push({ id: item.id, ...record });
+          });
+          if (!ruleSnapshot.exists) {
+            return { items, removed };
+          }
+          if (remainingTotal === 0) {
+            transaction.delete(ruleRef);
+            return { items, removed, rule: null };
+          }
+          const rule = ruleSnapshot.data();
+          const updatedRule = {
+            ...rule,
+            occurrences: remainingTotal,
+            materializedCount: Math.min(rule.materializedCount, remainingTotal),
+            updatedAt: nowIso,
+          };
+          transaction.set(ruleRef, updatedRule);
+          return { items, removed, rule: { id: recurrenceId, ...updatedRule } };
+        });
+        if (!result) {
+          res.status(404).json({ message: 'Série não encontrada.' });
+          return;
+        }
+        await removeRecordAttachments(uid, collection, withFiles);
+        res.json(result);
+      } catch (error) {
+        console.error(`[functions][finance] delete ${collection} series`, error);
+        res.status(500).json({ message: 'Erro ao remover a série.' });
+      }
+    };
+
+  const uploadAttachmentHandler = collection =>
+    async (req, res) => {
+      try {
+        const { uid } = req.auth;
+        const { id } = req.params;
+        const contentType = sanitizeString(req.body?.contentType).toLowerCase();
+        const extension = ATTACHMENT_EXTENSIONS[contentType];
+        if (!extension) {
+          res.status(415).json({ message: 'Envie imagens JPG, PNG ou WEBP ou arquivos PDF.' });
+          return;
+        }
+        const base64Data = sanitizeString(req.body?.data);
+        if (!base64Data) {
+          res.status(400).json({ message: 'Envie o arquivo codificado em base64.' });
+          return;
+        }
+        const buffer = Buffer.from(base64Data, 'base64');
+        if (!buffer.byteLength) {
+          res.status(400).json({ message: 'Arquivo inválido.' });
+          return;
+        }
+        if (buffer.byteLength > ATTACHMENT_MAX_SIZE) {
+          res.status(413).json({ message: 'Arquivo acima de 4MB.' });
+          return;
+        }
+        const ref = getCollectionRef(uid, collection).doc(id);
+        const snapshot = await ref.get();
+        if (!snapshot.exists) {
+          res.status(404).json({ message: 'Registro não encontrado.' });
+          return;
+        }
+        if ((snapshot.data()?.attachments ?? []).length >= MAX_ATTACHMENTS) {
+          res.status(400).json({ message: `Cada registro aceita até ${MAX_ATTACHMENTS} anexos.` });
+          return;
+        }
+
+        const attachmentId = firestore.collection('_').doc().id;
+        const path = `${getAttachmentsPrefix(uid, collection, id)}${attachmentId}.${extension}`;
+        const downloadToken = require('node:crypto').randomUUID();
+        const bucket = admin.storage().bucket();
+        await bucket.file(path).save(buffer, {
+          contentType,
+          metadata: {
+            metadata: {
+              firebaseStorageDownloadTokens: downloadToken,
+            },
+          },
+          resumable: false,
+        });
+        const attachment = {
+          id: attachmentId,
+          name:
+            sanitizeString(req.body?.fileName).slice(0, MAX_ATTACHMENT_NAME_LENGTH) ||
+            `comprovante.${extension}`,
+          contentType,
+          size: buffer.byteLength,
+          path,
+          url: `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(
+            path
+          )}?alt=media&token=${downloadToken}`,
+          uploadedAt: new Date().toISOString(),
+        };
+
+        // Anexos não passam pelo formulário de edição, então não mexem na revisão do registro.
+        const attachments = await firestore.runTransaction(async transaction => {
+          const current = await transaction.get(ref);
+          const list = current.exists ? current.data()?.attachments ?? [] : null;
+          if (!list || list.length >= MAX_ATTACHMENTS) {
+            return null;
+          }
+          const next = [...list, attachment];
+          transaction.update(ref, { attachments: next });
+          return next;
+        });
+        if (!attachments) {
+          await bucket.file(path).delete({ ignoreNotFound: true });
+          res.status(409).json({ message: 'O registro mudou durante o envio. Tente novamente.' });
+          return;
+        }
+        res.status(201).json({ attachment, attachments });
+      } catch (error) {
+        console.error(`[functions][finance] upload ${collection} attachment`, error);
+        res.status(500).json({ message: 'Erro ao enviar anexo.' });
+      }
+    };
+
+  const deleteAttachmentHandler = collection =>
+    async (req, res) => {
+      try {
+        const { uid } = req.auth;
+        const { id, attachmentId } = req.params;
+        const ref = getCollectionRef(uid, collection).doc(id);
+        const result = await firestore.runTransaction(async transaction => {
+          const snapshot = await transaction.get(ref);
+          const list = snapshot.exists ? snapshot.data()?.attachments ?? [] : [];
+          const removed = list.find(attachment => attachment.id === attachmentId);
+          if (!removed) {
+            return null;
+          }
+          const attachments = list.filter(attachment => attachment.id !== attachmentId);
+          transaction.update(ref, { attachments });
+          return { removed, attachments };
+        });
+        if (!result) {
+          res.status(404).json({ message: 'Anexo não encontrado.' });
+          return;
+        }
+        await admin
+          .storage()
+          .bucket()
+          .file(result.removed.path)
+          .delete({ ignoreNotFound: true })
+          .catch(error => {
+            console.error(`[functions][finance] remove ${collection} attachment file`, error);
+          });
+        res.json({ attachments: result.attachments });
+      } catch (error) {
+        console.error(`[functions][finance] delete ${collection} attachment`, error);
+        res.status(500).json({ message: 'Erro ao remover anexo.' });
+      }
+    };
+
   Object.keys(COLLECTION_MAP).forEach(collection => {
     financeRouter.get(`/${collection}`, listHandler(collection));
     financeRouter.post(`/${collection}`, createHandler(collection));
     financeRouter.patch(`/${collection}/:id`, updateHandler(collection));
     financeRouter.delete(`/${collection}/:id`, deleteHandler(collection));
+    financeRouter.patch(`/${collection}/series/:recurrenceId`, seriesUpdateHandler(collection));
+    financeRouter.delete(`/${collection}/series/:recurrenceId`, seriesDeleteHandler(collection));
+    financeRouter.post(`/${collection}/:id/attachments`, uploadAttachmentHandler(collection));
+    financeRouter.delete(
+      `/${collection}/:id/attachments/:attachmentId`,
+      deleteAttachmentHandler(collection)
+    );
+  });
+
+  ['transfers', 'valuations'].forEach(collection => {
+    financeRouter.get(`/${collection}`, listHandler(collection));
+    financeRouter.post(`/${collection}`, createHandler(collection));
+    financeRouter.delete(`/${collection}/:id`, deleteHandler(collection));
   });
 
   financeRouter.get('/categories', async (req, res) => {
@@ -365,24 +1729,149 @@ module.exports = () => {
         res.status(400).json({ message: 'Grupo de categorias inválido.' });
         return;
       }
-      const category = sanitizeString(req.body?.category);
+      // Versões antigas do app enviam só o nome.
+      const [category] = normalizeCategoryList([req.body?.category]);
       if (!category) {
         res.status(400).json({ message: 'Informe o nome da categoria.' });
         return;
       }
-      await getCategoriesDocRef(uid).set(
-        {
-          [group]: admin.firestore.FieldValue.arrayUnion(category),
-        },
-        { merge: true }
-      );
-      res.status(201).json({ category });
+      const result = await updateCategoryGroup(uid, group, list => {
+        if (list.some(item => item.id === category.id)) {
+          return { list };
+        }
+        if (list.some(item => sameName(item.name, category.name))) {
+          return { error: { status: 409, message: 'Já existe uma categoria com esse nome.' } };
+        }
+        return { list: [category, ...list] };
+      });
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      res.status(201).json({
+        category: result.categories[group].find(item => item.id === category.id),
+      });
     } catch (error) {
       console.error('[functions][finance] add category', error);
       res.status(500).json({ message: 'Erro ao salvar categoria.' });
     }
   });
 
+  financeRouter.patch('/categories/:group/:id', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const { group, id } = req.params;
+      if (!CATEGORY_GROUPS.includes(group)) {
+        res.status(400).json({ message: 'Grupo de categorias inválido.' });
+        return;
+      }
+      const changes = req.body ?? {};
+      const applyChanges = list => {
+        const current = list.find(item => item.id === id);
+        if (!current) {
+          return { error: { status: 404, message: 'Categoria não encontrada.' } };
+        }
+        const name = sanitizeString(changes.name) || current.name;
+        if (list.some(item => item.id !== id && sameName(item.name, name))) {
+          return { error: { status: 409, message: 'Já existe uma categoria com esse nome.' } };
+        }
+        const parentId =
+          changes.parentId === undefined ? current.parentId : sanitizeString(changes.parentId);
+        if (parentId && (parentId === id || list.some(item => item.parentId === id))) {
+          return {
+            error: { status: 400, message: 'Categorias com subcategorias não podem ter pai.' },
+          };
+        }
+        return {
+          previousName: current.name,
+          list: list.map(item =>
+            item.id === id
+              ? {
+                  ...item,
+                  name,
+                  parentId: parentId || null,
+                  color: changes.color ?? item.color,
+                  icon: changes.icon ?? item.icon,
+                }
+              : item
+          ),
+        };
+      };
+      const preview = await previewCategoryGroup(uid, group, applyChanges);
+      if (preview.error) {
+        res.status(preview.error.status).json({ message: preview.error.message });
+        return;
+      }
+      const { name } = preview.list.find(item => item.id === id);
+      const migrated =
+        name !== preview.previousName
+          ? await migrateCategoryReferences(uid, group, preview.previousName, name)
+          : { items: [], rules: [] };
+      const result = await updateCategoryGroup(uid, group, applyChanges);
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      res.json({ categories: result.categories, ...migrated });
+    } catch (error) {
+      console.error('[functions][finance] update category', error);
+      res.status(500).json({ message: 'Erro ao atualizar categoria.' });
+    }
+  });
+
+  financeRouter.post('/categories/:group/:id/merge', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const { group, id } = req.params;
+      const targetId = sanitizeString(req.body?.targetId);
+      if (!CATEGORY_GROUPS.includes(group) || !targetId || targetId === id) {
+        res.status(400).json({ message: 'Escolha outra categoria do mesmo grupo.' });
+        return;
+      }
+      const applyMerge = list => {
+        const source = list.find(item => item.id === id);
+        const target = list.find(item => item.id === targetId);
+        if (!source || !target) {
+          return { error: { status: 404, message: 'Categoria não encontrada.' } };
+        }
+        if (target.parentId === id) {
+          return {
+            error: { status: 400, message: 'Mescle a subcategoria na categoria principal.' },
+          };
+        }
+        // As subcategorias da origem passam para o destino, ou para o pai dele.
+        const newParentId = target.parentId ?? target.id;
+        return {
+          names: { from: source.name, to: target.name },
+          list: list
+            .filter(item => item.id !== id)
+            .map(item => (item.parentId === id ? { ...item, parentId: newParentId } : item)),
+        };
+      };
+      const preview = await previewCategoryGroup(uid, group, applyMerge);
+      if (preview.error) {
+        res.status(preview.error.status).json({ message: preview.error.message });
+        return;
+      }
+      const migrated = await migrateCategoryReferences(
+        uid,
+        group,
+        preview.names.from,
+        preview.names.to
+      );
+      const result = await updateCategoryGroup(uid, group, applyMerge);
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      res.json({ categories: result.categories, ...migrated });
+    } catch (error) {
+      console.error('[functions][finance] merge category', error);
+      res.status(500).json({ message: 'Erro ao mesclar categorias.' });
+    }
+  });
+
+  // Os lançamentos mantêm o nome antigo; as subcategorias da removida viram categorias raiz.
   financeRouter.delete('/categories/:group', async (req, res) => {
     try {
       const { uid } = req.auth;
@@ -392,12 +1881,9 @@ module.exports = () => {
         res.status(400).json({ message: 'Informe um grupo e categoria válidos.' });
         return;
       }
-      await getCategoriesDocRef(uid).set(
-        {
-          [group]: admin.firestore.FieldValue.arrayRemove(category),
-        },
-        { merge: true }
-      );
+      await updateCategoryGroup(uid, group, list => ({
+        list: list.filter(item => item.name !== category),
+      }));
       res.status(204).send();
     } catch (error) {
       console.error('[functions][finance] remove category', error);
@@ -405,6 +1891,294 @@ module.exports = () => {
     }
   });
 
+  financeRouter.get('/category-rules', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getCategoryRulesDocRef(uid).get();
+      res.json({ rules: normalizeCategoryRules(snapshot.data()?.rules) });
+    } catch (error) {
+      console.error('[functions][finance] list category rules', error);
+      res.status(500).json({ message: 'Erro ao carregar regras de categorização.' });
+    }
+  });
+
+  financeRouter.put('/category-rules', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      if (!Array.isArray(req.body?.rules)) {
+        res.status(400).json({ message: 'Envie a lista de regras.' });
+        return;
+      }
+      const rules = normalizeCategoryRules(req.body.rules);
+      await getCategoryRulesDocRef(uid).set({ rules, updatedAt: new Date().toISOString() });
+      res.json({ rules });
+    } catch (error) {
+      console.error('[functions][finance] save category rules', error);
+      res.status(500).json({ message: 'Erro ao salvar regras de categorização.' });
+    }
+  });
+
+  financeRouter.get('/recurrences', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getRecurrencesRef(uid).get();
+      res.json({ rules: snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() })) });
+    } catch (error) {
+      console.error('[functions][finance] list recurrences', error);
+      res.status(500).json({ message: 'Erro ao carregar recorrências.' });
+    }
+  });
+
+  financeRouter.post('/recurrences', async (req, res) => {
+    let rule;
+    try {
+      rule = normalizeRecurrenceRule(req.body);
+    } catch (error) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    try {
+      const { uid } = req.auth;
+      const id = sanitizeString(req.body?.id) || getRecurrencesRef(uid).doc().id;
+      const ref = getRecurrencesRef(uid).doc(id);
+      // Reenvios da fila de sincronização reaproveitam a regra já criada.
+      const existing = await ref.get();
+      if (!existing.exists) {
+        await ref.set(rule);
+      }
+      const firstDate = getRecurrenceOccurrence(existing.data() ?? rule, 1);
+      const result = await materializeRule(uid, id, `${firstDate.slice(0, 7)}-31`);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('[functions][finance] create recurrence', error);
+      res.status(500).json({ message: 'Erro ao criar recorrência.' });
+    }
+  });
+
+  financeRouter.post('/recurrences/materialize', async (req, res) => {
+    let range;
+    try {
+      range = buildPeriodRange(req.body?.year, req.body?.month);
+    } catch (error) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (!range) {
+      res.status(400).json({ message: 'Informe o período a ser gerado.' });
+      return;
+    }
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getRecurrencesRef(uid).get();
+      const rules = [];
+      const items = { expenses: [], incomes: [], investments: [] };
+      for (const docSnap of snapshot.docs) {
+        if (!hasPendingOccurrences(docSnap.data(), range.end)) {
+          continue;
+        }
+        const result = await materializeRule(uid, docSnap.id, range.end);
+        if (result) {
+          rules.push(result.rule);
+          items[result.rule.collection].push(...result.items);
+        }
+      }
+      res.json({ rules, items });
+    } catch (error) {
+      console.error('[functions][finance] materialize recurrences', error);
+      res.status(500).json({ message: 'Erro ao gerar lançamentos recorrentes.' });
+    }
+  });
+
+  financeRouter.get('/credit-cards', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getCreditCardsDocRef(uid).get();
+      res.json({ cards: normalizeCreditCards(snapshot.data()?.cards) });
+    } catch (error) {
+      console.error('[functions][finance] list credit cards', error);
+      res.status(500).json({ message: 'Erro ao carregar cartões de crédito.' });
+    }
+  });
+
+  financeRouter.put('/credit-cards', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      if (!Array.isArray(req.body?.cards)) {
+        res.status(400).json({ message: 'Envie a lista de cartões.' });
+        return;
+      }
+      const cards = normalizeCreditCards(req.body.cards);
+      await getCreditCardsDocRef(uid).set({ cards, updatedAt: new Date().toISOString() });
+      res.json({ cards });
+    } catch (error) {
+      console.error('[functions][finance] save credit cards', error);
+      res.status(500).json({ message: 'Erro ao salvar cartões de crédito.' });
+    }
+  });
+
+  financeRouter.get('/accounts', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getAccountsDocRef(uid).get();
+      res.json({ accounts: normalizeAccounts(snapshot.data()?.accounts) });
+    } catch (error) {
+      console.error('[functions][finance] list accounts', error);
+      res.status(500).json({ message: 'Erro ao carregar contas.' });
+    }
+  });
+
+  financeRouter.put('/accounts', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      if (!Array.isArray(req.body?.accounts)) {
+        res.status(400).json({ message: 'Envie a lista de contas.' });
+        return;
+      }
+      const accounts = normalizeAccounts(req.body.accounts);
+      await getAccountsDocRef(uid).set({ accounts, updatedAt: new Date().toISOString() });
+      res.json({ accounts });
+    } catch (error) {
+      console.error('[functions][finance] save accounts', error);
+      res.status(500).json({ message: 'Erro ao salvar contas.' });
+    }
+  });
+
+  financeRouter.get('/positions', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getPortfolioDocRef(uid).get();
+      res.json({ positions: normalizePositions(snapshot.data()?.positions) });
+    } catch (error) {
+      console.error('[functions][finance] list positions', error);
+      res.status(500).json({ message: 'Erro ao carregar a carteira de investimentos.' });
+    }
+  });
+
+  financeRouter.put('/positions', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      if (!Array.isArray(req.body?.positions)) {
+        res.status(400).json({ message: 'Envie a lista de posições.' });
+        return;
+      }
+      const positions = normalizePositions(req.body.positions);
+      await getPortfolioDocRef(uid).set({ positions, updatedAt: new Date().toISOString() });
+      res.json({ positions });
+    } catch (error) {
+      console.error('[functions][finance] save positions', error);
+      res.status(500).json({ message: 'Erro ao salvar a carteira de investimentos.' });
+    }
+  });
+
+  financeRouter.get('/tax-settings', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getTaxSettingsDocRef(uid).get();
+      res.json({ taxSettings: normalizeTaxSettings(snapshot.data()) });
+    } catch (error) {
+      console.error('[functions][finance] load tax settings', error);
+      res.status(500).json({ message: 'Erro ao carregar as marcações do imposto de renda.' });
+    }
+  });
+
+  financeRouter.put('/tax-settings', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      if (!req.body?.taxSettings || typeof req.body.taxSettings !== 'object') {
+        res.status(400).json({ message: 'Envie as marcações do imposto de renda.' });
+        return;
+      }
+      const taxSettings = normalizeTaxSettings(req.body.taxSettings);
+      await getTaxSettingsDocRef(uid).set({ ...taxSettings, updatedAt: new Date().toISOString() });
+      res.json({ taxSettings });
+    } catch (error) {
+      console.error('[functions][finance] save tax settings', error);
+      res.status(500).json({ message: 'Erro ao salvar as marcações do imposto de renda.' });
+    }
+  });
+
+  financeRouter.get('/budget-alerts', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getBudgetAlertsDocRef(uid).get();
+      res.json({ budgetAlerts: normalizeBudgetAlerts(snapshot.data()?.categories) });
+    } catch (error) {
+      console.error('[functions][finance] load budget alerts', error);
+      res.status(500).json({ message: 'Erro ao carregar os alertas de orçamento.' });
+    }
+  });
+
+  financeRouter.put('/budget-alerts', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      if (!Array.isArray(req.body?.budgetAlerts)) {
+        res.status(400).json({ message: 'Envie os limites dos alertas de orçamento.' });
+        return;
+      }
+      const budgetAlerts = normalizeBudgetAlerts(req.body.budgetAlerts);
+      await getBudgetAlertsDocRef(uid).set({
+        categories: budgetAlerts,
+        updatedAt: new Date().toISOString(),
+      });
+      res.json({ budgetAlerts });
+    } catch (error) {
+      console.error('[functions][finance] save budget alerts', error);
+      res.status(500).json({ message: 'Erro ao salvar os alertas de orçamento.' });
+    }
+  });
+
+  financeRouter.get('/notifications', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getNotificationsRef(uid)
+        .orderBy('createdAt', 'desc')
+        .limit(MAX_NOTIFICATIONS)
+        .get();
+      res.json({
+        items: snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() })),
+      });
+    } catch (error) {
+      console.error('[functions][finance] list notifications', error);
+      res.status(500).json({ message: 'Erro ao carregar os avisos.' });
+    }
+  });
+
+  financeRouter.post('/notifications/read', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const ids = (Array.isArray(req.body?.ids) ? req.body.ids : [])
+        .slice(0, MAX_NOTIFICATIONS)
+        .map(sanitizeString)
+        .filter(Boolean);
+      if (!ids.length) {
+        res.status(400).json({ message: 'Informe os avisos lidos.' });
+        return;
+      }
+      const notificationsRef = getNotificationsRef(uid);
+      const snapshots = await firestore.getAll(...ids.map(id => notificationsRef.doc(id)));
+      const batch = firestore.batch();
+      snapshots
+        .filter(snapshot => snapshot.exists)
+        .forEach(snapshot => batch.update(snapshot.ref, { read: true }));
+      await batch.commit();
+      res.status(204).send();
+    } catch (error) {
+      console.error('[functions][finance] read notifications', error);
+      res.status(500).json({ message: 'Erro ao marcar os avisos como lidos.' });
+    }
+  });
+
+  financeRouter.delete('/notifications/:id', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      await getNotificationsRef(uid).doc(req.params.id).delete();
+      res.status(204).send();
+    } catch (error) {
+      console.error('[functions][finance] delete notification', error);
+      res.status(500).json({ message: 'Erro ao remover o aviso.' });
+    }
+  });
+
   financeRouter.get('/planner', async (req, res) => {
     try {
       const { uid } = req.auth;
@@ -417,12 +2191,13 @@ module.exports = () => {
       const docRef = getPlannerDocRef(uid, periodKey);
       const snapshot = await docRef.get();
       if (!snapshot.exists) {
-        res.json({ allocations: {}, goals: [], periodKey });
+        res.json({ allocations: {}, carryOver: {}, goals: [], periodKey });
         return;
       }
       const data = snapshot.data() ?? {};
       res.json({
         allocations: normalizeAllocations(data.allocations),
+        carryOver: normalizeCarryOver(data.carryOver),
         goals: normalizeGoals(data.goals),
         periodKey,
       });
@@ -435,8 +2210,12 @@ module.exports = () => {
   financeRouter.put('/planner', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const { periodKey, allocations, goals } = req.body ?? {};
-      if (!periodKey || typeof periodKey !== 'string') {
+      const { year, month, allocations, carryOver, goals } = req.body ?? {};
+      const [keyYear, keyMonth] = sanitizeString(req.body?.periodKey).split('-');
+      let periodKey;
+      try {
+        periodKey = buildPlannerKey(year ?? keyYear, month ?? keyMonth);
+      } catch (error) {
         res.status(400).json({ message: 'Informe o período do planner.' });
         return;
       }
@@ -444,6 +2223,7 @@ module.exports = () => {
       await docRef.set(
         {
           allocations: normalizeAllocations(allocations),
+          carryOver: normalizeCarryOver(carryOver),
           goals: normalizeGoals(goals),
           updatedAt: new Date().toISOString(),
         },
@@ -456,5 +2236,172 @@ module.exports = () => {
     }
   });
 
+  financeRouter.get('/planners', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await firestore.collection('users').doc(uid).collection('planner').get();
+      const planners = snapshot.docs.reduce((accumulator, docSnap) => {
+        const data = docSnap.data() ?? {};
+        accumulator[docSnap.id] = {
+          allocations: normalizeAllocations(data.allocations),
+          carryOver: normalizeCarryOver(data.carryOver),
+          goals: normalizeGoals(data.goals),
+        };
+        return accumulator;
+      }, {});
+      res.json({ planners });
+    } catch (error) {
+      console.error('[functions][finance] list planners', error);
+      res.status(500).json({ message: 'Erro ao carregar os planners.' });
+    }
+  });
+
+  // Cada etapa lê o que existe e regrava a seção inteira, então repetir uma etapa já concluída
+  // leva ao mesmo resultado. Registros que continuam existindo mantêm os anexos e sobem de
+  // revisão, para que edições antigas na fila virem conflito.
+  const restoreBackupStep = async (uid, backup, step, nowIso) => {
+    if (step === 'settings') {
+      await commitInChunks([
+        [getCategoriesDocRef(uid), { ...backup.categories, updatedAt: nowIso }],
+        [getCategoryRulesDocRef(uid), { rules: backup.categoryRules, updatedAt: nowIso }],
+        [getCreditCardsDocRef(uid), { cards: backup.creditCards, updatedAt: nowIso }],
+        [getAccountsDocRef(uid), { accounts: backup.accounts, updatedAt: nowIso }],
+        [getPortfolioDocRef(uid), { positions: backup.positions, updatedAt: nowIso }],
+        [getTaxSettingsDocRef(uid), { ...backup.taxSettings, updatedAt: nowIso }],
+        [getBudgetAlertsDocRef(uid), { categories: backup.budgetAlerts, updatedAt: nowIso }],
+      ]);
+      return;
+    }
+    if (step === 'recurrences') {
+      const snapshot = await getRecurrencesRef(uid).get();
+      const restoredIds = new Set(backup.recurrences.map(item => item.id));
+      await commitInChunks([
+        ...snapshot.docs
+          .filter(docSnap => !restoredIds.has(docSnap.id))
+          .map(docSnap => [docSnap.ref, null]),
+        ...backup.recurrences.map(({ id, rule }) => [getRecurrencesRef(uid).doc(id), rule]),
+      ]);
+      return;
+    }
+    if (step === 'planners') {
+      const plannersRef = firestore.collection('users').doc(uid).collection('planner');
+      const snapshot = await plannersRef.get();
+      const restoredKeys = new Set(backup.planners.map(item => item.periodKey));
+      await commitInChunks([
+        ...snapshot.docs
+          .filter(docSnap => !restoredKeys.has(docSnap.id))
+          .map(docSnap => [docSnap.ref, null]),
+        ...backup.planners.map(({ periodKey, planner }) => [
+          plannersRef.doc(periodKey),
+          { ...planner, updatedAt: nowIso },
+        ]),
+      ]);
+      return;
+    }
+
+    const collectionRef = getCollectionRef(uid, step);
+    const snapshot = await collectionRef.get();
+    const current = new Map(snapshot.docs.map(docSnap => [docSnap.id, docSnap.data() ?? {}]));
+    const restoredIds = new Set(backup.records[step].map(item => item.id));
+    const writes = [];
+    const orphanedIds = [];
+    current.forEach((data, id) => {
+      if (restoredIds.has(id)) {
+        return;
+      }
+      writes.push([collectionRef.doc(id), null]);
+      if (data.attachments?.length) {
+        orphanedIds.push(id);
+      }
+    });
+    backup.records[step].forEach(({ id, record }) => {
+      const existing = current.get(id);
+      writes.push([
+        collectionRef.doc(id),
+        {
+          ...record,
+          ...(existing?.attachments?.length ? { attachments: existing.attachments } : {}),
+          revision: existing ? readRevision(existing) + 1 : 1,
+        },
+      ]);
+    });
+    await commitInChunks(writes);
+    await removeRecordAttachments(uid, step, orphanedIds);
+  };
+
+  const readRestoreStatus = data => {
+    const completedSteps = Array.isArray(data?.completedSteps) ? data.completedSteps : [];
+    return {
+      startedAt: sanitizeString(data?.startedAt),
+      exportedAt: sanitizeString(data?.exportedAt),
+      completedSteps,
+      pendingSteps: RESTORE_STEPS.filter(step => !completedSteps.includes(step)),
+    };
+  };
+
+  // Restauração que começou e não terminou; o app pede para repetir com o mesmo arquivo.
+  financeRouter.get('/restore', async (req, res) => {
+    try {
+      const { uid } = req.auth;
+      const snapshot = await getRestoreDocRef(uid).get();
+      res.json({ restore: snapshot.exists ? readRestoreStatus(snapshot.data()) : null });
+    } catch (error) {
+      console.error('[functions][finance] restore status', error);
+      res.status(500).json({ message: 'Erro ao consultar a restauração.' });
+    }
+  });
+
+  // Substitui os dados financeiros pelos do backup, uma etapa por vez. O marcador fica gravado
+  // até a última etapa: se algo falhar no meio, a resposta diz até onde chegou e restaurar o
+  // mesmo arquivo de novo termina o trabalho.
+  financeRouter.post('/restore', async (req, res) => {
+    let backup;
+    try {
+      backup = normalizeBackup(req.body);
+    } catch (error) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    const { uid } = req.auth;
+    const nowIso = new Date().toISOString();
+    const markerRef = getRestoreDocRef(uid);
+    const completedSteps = [];
+    try {
+      await markerRef.set({
+        startedAt: nowIso,
+        exportedAt: sanitizeString(req.body?.exportedAt),
+        completedSteps,
+      });
+      for (const step of RESTORE_STEPS) {
+        await restoreBackupStep(uid, backup, step, nowIso);
+        completedSteps.push(step);
+        await markerRef.update({ completedSteps, updatedAt: new Date().toISOString() });
+      }
+      await markerRef.delete();
+      res.json({
+        restored: {
+          ...Object.fromEntries(
+            BACKUP_COLLECTIONS.map(collection => [collection, backup.records[collection].length])
+          ),
+          recurrences: backup.recurrences.length,
+          planners: backup.planners.length,
+        },
+      });
+    } catch (error) {
+      console.error('[functions][finance] restore backup', error);
+      const step = `${completedSteps.length + 1} de ${RESTORE_STEPS.length}`;
+      res.status(500).json({
+        message: completedSteps.length
+          ? `A restauração parou na etapa ${step}. Restaure o mesmo arquivo para concluir.`
+          : 'Erro ao restaurar o backup.',
+        restore: readRestoreStatus({
+          startedAt: nowIso,
+          exportedAt: req.body?.exportedAt,
+          completedSteps,
+        }),
+      });
+    }
+  });
+
   return financeRouter;
 };
@@ -1,37 +1,17 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
   sanitizeString,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
+  ensureText,
+  ensureStringList,
   NOTE_DEFAULT_PAYLOAD,
 } = require('../shared/base');
 
 module.exports = () => {
   const notesRouter = express.Router();
 
-  notesRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][notes] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  notesRouter.use(createAuthMiddleware('notes'));
 
   const getNotesCollection = uid => firestore.collection('users').doc(uid).collection('notes');
 
@@ -50,6 +30,27 @@ module.exports = () => {
     };
   };
 
+  const NOTE_TITLE_MAX_LENGTH = 200;
+  const NOTE_CONTENT_MAX_LENGTH = 20000;
+
+  const ensurePinned = value => {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new Error('Campo pinned inválido.');
+    }
+    return Boolean(value);
+  };
+
+  const buildNoteFields = body => ({
+    title:
+      ensureText(body.title, 'título', { maxLength: NOTE_TITLE_MAX_LENGTH }) ||
+      NOTE_DEFAULT_PAYLOAD.title,
+    content:
+      ensureText(body.content, 'conteúdo', { maxLength: NOTE_CONTENT_MAX_LENGTH }) ||
+      NOTE_DEFAULT_PAYLOAD.content,
+    tags: ensureStringList(body.tags, 'tags'),
+    pinned: ensurePinned(body.pinned),
+  });
+
   notesRouter.get('/', async (req, res) => {
     try {
       const { uid } = req.auth;
@@ -65,13 +66,9 @@ module.exports = () => {
   notesRouter.post('/', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const { title, content, tags, pinned } = req.body ?? {};
       const now = new Date().toISOString();
       const payload = {
-        title: sanitizeString(title) || NOTE_DEFAULT_PAYLOAD.title,
-        content: sanitizeString(content) || NOTE_DEFAULT_PAYLOAD.content,
-        tags: Array.isArray(tags) ? tags : NOTE_DEFAULT_PAYLOAD.tags,
-        pinned: Boolean(pinned),
+        ...buildNoteFields(req.body ?? {}),
         createdAt: now,
         updatedAt: now,
       };
@@ -97,19 +94,14 @@ module.exports = () => {
         res.status(404).json({ message: 'Nota não encontrada.' });
         return;
       }
+      const body = req.body ?? {};
+      const fields = buildNoteFields(body);
       const updates = { updatedAt: new Date().toISOString() };
-      if (req.body?.title !== undefined) {
-        updates.title = sanitizeString(req.body.title) || NOTE_DEFAULT_PAYLOAD.title;
-      }
-      if (req.body?.content !== undefined) {
-        updates.content = sanitizeString(req.body.content) || NOTE_DEFAULT_PAYLOAD.content;
-      }
-      if (req.body?.tags !== undefined) {
-        updates.tags = Array.isArray(req.body.tags) ? req.body.tags : NOTE_DEFAULT_PAYLOAD.tags;
-      }
-      if (req.body?.pinned !== undefined) {
-        updates.pinned = Boolean(req.body.pinned);
-      }
+      ['title', 'content', 'tags', 'pinned'].forEach(field => {
+        if (body[field] !== undefined) {
+          updates[field] = fields[field];
+        }
+      });
       await ref.update(updates);
       res.json({ id, ...updates });
     } catch (error) {
@@ -1,10 +1,11 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
   sanitizeString,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
+  ensureOneOf,
+  ensureText,
+  ensureStringList,
   RELATIONSHIP_STAGES,
   RELATIONSHIP_PRIORITIES,
   RELATIONSHIP_CHANNELS,
@@ -14,34 +15,57 @@ module.exports = () => {
 
   const relationshipsRouter = express.Router();
 
-  relationshipsRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][relationships] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  relationshipsRouter.use(createAuthMiddleware('relationships'));
 
   const getContactsCollection = uid =>
     firestore.collection('users').doc(uid).collection('relationships');
 
-  const sanitizeStage = stage => (RELATIONSHIP_STAGES.includes(stage) ? stage : 'Contato inicial');
-  const sanitizePriority = priority =>
-    RELATIONSHIP_PRIORITIES.includes(priority) ? priority : 'Média';
+  const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+  const ensureStage = stage =>
+    ensureOneOf(stage, RELATIONSHIP_STAGES, 'estágio', { fallback: RELATIONSHIP_STAGES[0] });
+  const ensurePriority = priority =>
+    ensureOneOf(priority, RELATIONSHIP_PRIORITIES, 'prioridade', { fallback: 'Média' });
+  const ensureChannel = channel => ensureOneOf(channel, RELATIONSHIP_CHANNELS, 'canal');
+
+  const ensureEmail = value => {
+    const email = ensureText(value, 'e-mail', { maxLength: 200 });
+    if (email && !EMAIL_PATTERN.test(email)) {
+      throw new Error('Campo e-mail inválido.');
+    }
+    return email || null;
+  };
+
+  const ensureIsoDate = (value, field) => {
+    const sanitized = sanitizeString(value);
+    if (!sanitized || Number.isNaN(new Date(sanitized).getTime())) {
+      throw new Error(`Campo ${field} inválido.`);
+    }
+    return sanitized;
+  };
+
+  const normalizeInteraction = raw => {
+    if (!raw || typeof raw !== 'object') {
+      throw new Error('Interação inválida.');
+    }
+    return {
+      id: sanitizeString(raw.id) || firestore.collection('_').doc().id,
+      date: ensureIsoDate(raw.date, 'data da interação'),
+      channel: ensureChannel(raw.channel),
+      summary: ensureText(raw.summary, 'resumo da interação', { maxLength: 2000, required: true }),
+      nextStep: ensureText(raw.nextStep, 'próximo passo', { maxLength: 500 }) || null,
+    };
+  };
+
+  const normalizeInteractions = raw => {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+    if (!Array.isArray(raw)) {
+      throw new Error('Campo interações deve ser uma lista.');
+    }
+    return raw.map(normalizeInteraction).sort((a, b) => b.date.localeCompare(a.date));
+  };
 
   relationshipsRouter.get('/', async (req, res) => {
     try {
@@ -61,37 +85,22 @@ module.exports = () => {
   relationshipsRouter.post('/', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const {
-        name,
-        company,
-        email,
-        phone,
-        stage,
-        priority,
-        nextAction,
-        tags,
-        interactions,
-      } = req.body ?? {};
-      const sanitizedName = sanitizeString(name);
-      if (!sanitizedName) {
-        res.status(400).json({ message: 'Informe o nome do contato.' });
-        return;
-      }
+      const body = req.body ?? {};
+      const interactions = normalizeInteractions(body.interactions);
+      const now = new Date().toISOString();
       const payload = {
-        name: sanitizedName,
-        company: sanitizeString(company) || null,
-        email: sanitizeString(email) || null,
-        phone: sanitizeString(phone) || null,
-        stage: sanitizeStage(stage),
-        priority: sanitizePriority(priority),
-        nextAction: sanitizeString(nextAction) || null,
-        tags: Array.isArray(tags) ? tags.map(tag => sanitizeString(tag)).filter(Boolean) : [],
-        interactions: Array.isArray(interactions)
-          ? interactions.filter(interaction => interaction && typeof interaction === 'object')
-          : [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        lastInteraction: null,
+        name: ensureText(body.name, 'o nome do contato', { maxLength: 120, required: true }),
+        company: ensureText(body.company, 'empresa', { maxLength: 120 }) || null,
+        email: ensureEmail(body.email),
+        phone: ensureText(body.phone, 'telefone', { maxLength: 40 }) || null,
+        stage: ensureStage(body.stage),
+        priority: ensurePriority(body.priority),
+        nextAction: ensureText(body.nextAction, 'próxima ação', { maxLength: 200 }) || null,
+        tags: ensureStringList(body.tags, 'tags'),
+        interactions,
+        createdAt: now,
+        updatedAt: now,
+        lastInteraction: interactions[0]?.date ?? null,
       };
       const ref = await getContactsCollection(uid).add(payload);
       res.status(201).json({ contact: { id: ref.id, ...payload } });
@@ -115,18 +124,35 @@ module.exports = () => {
         res.status(404).json({ message: 'Contato não encontrado.' });
         return;
       }
+      const body = req.body ?? {};
       const updates = {};
-      if (req.body?.stage !== undefined) {
-        updates.stage = sanitizeStage(req.body.stage);
+      if (body.name !== undefined) {
+        updates.name = ensureText(body.name, 'o nome do contato', {
+          maxLength: 120,
+          required: true,
+        });
+      }
+      if (body.company !== undefined) {
+        updates.company = ensureText(body.company, 'empresa', { maxLength: 120 }) || null;
+      }
+      if (body.email !== undefined) {
+        updates.email = ensureEmail(body.email);
       }
-      if (req.body?.priority !== undefined) {
-        updates.priority = sanitizePriority(req.body.priority);
+      if (body.phone !== undefined) {
+        updates.phone = ensureText(body.phone, 'telefone', { maxLength: 40 }) || null;
       }
-      if (req.body?.nextAction !== undefined) {
-        updates.nextAction = sanitizeString(req.body.nextAction) || null;
+      if (body.stage !== undefined) {
+        updates.stage = ensureStage(body.stage);
       }
-      if (req.body?.tags !== undefined) {
-        updates.tags = Array.isArray(req.body.tags) ? req.body.tags : [];
+      if (body.priority !== undefined) {
+        updates.priority = ensurePriority(body.priority);
+      }
+      if (body.nextAction !== undefined) {
+        updates.nextAction =
+          ensureText(body.nextAction, 'próxima ação', { maxLength: 200 }) || null;
+      }
+      if (body.tags !== undefined) {
+        updates.tags = ensureStringList(body.tags, 'tags');
       }
       updates.updatedAt = new Date().toISOString();
       await ref.update(updates);
@@ -141,36 +167,40 @@ module.exports = () => {
     try {
       const { uid } = req.auth;
       const { id } = req.params;
-      const { channel, summary, nextStep, nextAction } = req.body ?? {};
+      const body = req.body ?? {};
       if (!id) {
         res.status(400).json({ message: 'Informe o ID do contato.' });
         return;
       }
+      const nowIso = new Date().toISOString();
+      const interaction = normalizeInteraction({
+        channel: body.channel,
+        summary: body.summary,
+        nextStep: body.nextStep,
+        date: nowIso,
+      });
+      const nextAction = ensureText(body.nextAction, 'próxima ação', { maxLength: 200 });
       const ref = getContactsCollection(uid).doc(id);
-      const snapshot = await ref.get();
-      if (!snapshot.exists) {
+      const contact = await firestore.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return null;
+        }
+        const current = snapshot.data() ?? {};
+        const updates = {
+          interactions: [interaction, ...(current.interactions ?? [])],
+          lastInteraction: interaction.date,
+          nextAction: nextAction || current.nextAction || null,
+          updatedAt: nowIso,
+        };
+        transaction.update(ref, updates);
+        return { id, ...current, ...updates };
+      });
+      if (!contact) {
         res.status(404).json({ message: 'Contato não encontrado.' });
         return;
       }
-      const normalizedChannel = RELATIONSHIP_CHANNELS.includes(channel)
-        ? channel
-        : RELATIONSHIP_CHANNELS[0];
-      const interaction = {
-        id: firestore.collection('_').doc().id,
-        date: new Date().toISOString(),
-        channel: normalizedChannel,
-        summary: sanitizeString(summary),
-        nextStep: sanitizeString(nextStep) || null,
-      };
-      const contact = snapshot.data() ?? {};
-      const updatedInteractions = [interaction, ...(contact.interactions ?? [])];
-      await ref.update({
-        interactions: updatedInteractions,
-        lastInteraction: interaction.date,
-        nextAction: sanitizeString(nextAction) || contact.nextAction || null,
-        updatedAt: new Date().toISOString(),
-      });
-      res.json({ contact: { id, ...contact, interactions: updatedInteractions } });
+      res.json({ contact });
     } catch (error) {
       console.error('[functions][relationships] add interaction', error);
       res.status(400).json({ message: error.message || 'Erro ao registrar interação.' });
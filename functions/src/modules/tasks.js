@@ -1,41 +1,22 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
   admin,
   sanitizeString,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
   TASK_DEFAULT_GAMIFICATION,
   TASK_PRIORITIES,
   TASK_STATUSES,
+  ensureRevision,
+  readRevision,
+  REVISION_CONFLICT_MESSAGE,
 } = require('../shared/base');
 
 module.exports = () => {
 
   const taskRouter = express.Router();
 
-  taskRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][tasks] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  taskRouter.use(createAuthMiddleware('tasks'));
 
   const getTasksCollection = uid => firestore.collection('users').doc(uid).collection('tasks');
   const getPomodorosCollection = uid =>
@@ -45,35 +26,45 @@ module.exports = () => {
 
   const calculateTaskLevel = points => Math.max(1, Math.floor(points / 100) + 1);
 
+  const TASK_COMPLETION_POINTS = 10;
+  const POMODORO_MAX_MINUTES = 60;
+
+  const calculatePomodoroPoints = durationMinutes => Math.max(1, Math.floor(durationMinutes / 5));
+
+  const normalizeGamificationData = data => {
+    const totalPoints = Number(data?.totalPoints) || 0;
+    return {
+      totalPoints,
+      level: calculateTaskLevel(totalPoints),
+      streak: Number(data?.streak) || 0,
+      lastCompletedAt: data?.lastCompletedAt ?? null,
+    };
+  };
+
   const getGamificationState = async uid => {
     const snapshot = await getGamificationRef(uid).get();
     if (!snapshot.exists) {
       await getGamificationRef(uid).set(TASK_DEFAULT_GAMIFICATION, { merge: true });
       return { ...TASK_DEFAULT_GAMIFICATION };
     }
-    const data = snapshot.data() ?? {};
-    return {
-      totalPoints: Number(data.totalPoints) || 0,
-      level: calculateTaskLevel(Number(data.totalPoints) || 0),
-      streak: Number(data.streak) || 0,
-      lastCompletedAt: data.lastCompletedAt ?? null,
-    };
+    return normalizeGamificationData(snapshot.data());
   };
 
-  const updateGamification = async (uid, updater) => {
-    const current = await getGamificationState(uid);
-    const next = updater(current) ?? current;
-    await getGamificationRef(uid).set(
-      {
-        totalPoints: next.totalPoints,
-        level: calculateTaskLevel(next.totalPoints),
-        streak: next.streak ?? 0,
-        lastCompletedAt: next.lastCompletedAt ?? null,
-      },
-      { merge: true }
-    );
-    return next;
-  };
+  const runGamificationTransaction = (uid, work) =>
+    firestore.runTransaction(async transaction => {
+      const gamificationRef = getGamificationRef(uid);
+      const snapshot = await transaction.get(gamificationRef);
+      const current = snapshot.exists
+        ? normalizeGamificationData(snapshot.data())
+        : { ...TASK_DEFAULT_GAMIFICATION };
+      const result = await work(transaction, current);
+      if (result.gamification) {
+        const next = normalizeGamificationData(result.gamification);
+        transaction.set(gamificationRef, next, { merge: true });
+        return { ...result, gamification: next };
+      }
+      return { ...result, gamification: current };
+    });
 
   const sanitizeRequiredString = (value, field) => {
     const sanitized = sanitizeString(value);
@@ -136,44 +127,63 @@ module.exports = () => {
       const { uid } = req.auth;
       const { taskId, durationMinutes } = req.body ?? {};
       const duration = Number(durationMinutes);
-      if (!duration || duration <= 0) {
-        res.status(400).json({ message: 'Informe a duração da sessão em minutos.' });
+      if (!Number.isInteger(duration) || duration <= 0 || duration > POMODORO_MAX_MINUTES) {
+        res.status(400).json({
+          message: `Informe a duração da sessão em minutos (1 a ${POMODORO_MAX_MINUTES}).`,
+        });
         return;
       }
-      const start = new Date();
-      const end = new Date(start.getTime() + duration * 60 * 1000);
+      const sanitizedTaskId = taskId ? sanitizeString(taskId) : null;
+      const end = new Date();
+      const start = new Date(end.getTime() - duration * 60 * 1000);
       const payload = {
-        taskId: taskId ? sanitizeString(taskId) : null,
+        taskId: sanitizedTaskId,
         startedAt: start.toISOString(),
         endedAt: end.toISOString(),
         durationMinutes: duration,
       };
-      const ref = await getPomodorosCollection(uid).add(payload);
 
-      if (taskId) {
-        await getTasksCollection(uid)
-          .doc(taskId)
-          .set(
-            {
-              pomodoros: admin.firestore.FieldValue.increment(1),
-              updatedAt: start.toISOString(),
+      const result = await runGamificationTransaction(uid, async (transaction, current) => {
+        const [latestSnapshot, taskSnapshot] = await Promise.all([
+          transaction.get(getPomodorosCollection(uid).orderBy('endedAt', 'desc').limit(1)),
+          sanitizedTaskId
+            ? transaction.get(getTasksCollection(uid).doc(sanitizedTaskId))
+            : Promise.resolve(null),
+        ]);
+        if (taskSnapshot && !taskSnapshot.exists) {
+          return { error: { status: 404, message: 'Tarefa não encontrada.' } };
+        }
+        const latest = latestSnapshot.docs[0]?.data();
+        if (latest?.endedAt && latest.endedAt > payload.startedAt) {
+          return {
+            error: {
+              status: 409,
+              message: 'Esta sessão se sobrepõe ao último Pomodoro registrado.',
             },
-            { merge: true }
-          );
-      }
-
-      await updateGamification(uid, current => {
-        const pointsEarned = Math.max(1, Math.floor(duration / 5));
-        const totalPoints = (current.totalPoints || 0) + pointsEarned;
+          };
+        }
+        const pomodoroRef = getPomodorosCollection(uid).doc();
+        transaction.set(pomodoroRef, payload);
+        if (taskSnapshot) {
+          transaction.update(taskSnapshot.ref, {
+            pomodoros: admin.firestore.FieldValue.increment(1),
+            updatedAt: payload.endedAt,
+          });
+        }
         return {
-          totalPoints,
-          level: calculateTaskLevel(totalPoints),
-          streak: current.streak ?? 0,
-          lastCompletedAt: current.lastCompletedAt ?? null,
+          pomodoro: { id: pomodoroRef.id, ...payload },
+          gamification: {
+            ...current,
+            totalPoints: current.totalPoints + calculatePomodoroPoints(duration),
+          },
         };
       });
 
-      res.status(201).json({ pomodoro: { id: ref.id, ...payload } });
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      res.status(201).json({ pomodoro: result.pomodoro, gamification: result.gamification });
     } catch (error) {
       console.error('[functions][tasks] create pomodoro', error);
       res.status(400).json({ message: error.message || 'Erro ao registrar pomodoro.' });
@@ -184,10 +194,10 @@ module.exports = () => {
     try {
       const { uid } = req.auth;
       const snapshot = await getTasksCollection(uid).orderBy('createdAt', 'desc').get();
-      const tasks = snapshot.docs.map(docSnap => ({
-        id: docSnap.id,
-        ...(docSnap.data() ?? {}),
-      }));
+      const tasks = snapshot.docs.map(docSnap => {
+        const data = docSnap.data() ?? {};
+        return { id: docSnap.id, ...data, revision: readRevision(data) };
+      });
       res.json({ tasks });
     } catch (error) {
       console.error('[functions][tasks] list tasks', error);
@@ -210,9 +220,12 @@ module.exports = () => {
         dueDate,
         priority,
         status,
-        pomodoros: Number(req.body?.pomodoros) || 0,
+        pomodoros: 0,
+        completedAt: status === 'completed' ? now : null,
+        pointsAwardedAt: null,
         createdAt: now,
         updatedAt: now,
+        revision: 1,
       };
       const ref = await getTasksCollection(uid).add(payload);
       res.status(201).json({ task: { id: ref.id, ...payload } });
@@ -230,12 +243,7 @@ module.exports = () => {
         res.status(400).json({ message: 'Informe o ID da tarefa.' });
         return;
       }
-      const ref = getTasksCollection(uid).doc(id);
-      const snapshot = await ref.get();
-      if (!snapshot.exists) {
-        res.status(404).json({ message: 'Tarefa não encontrada.' });
-        return;
-      }
+      const expectedRevision = ensureRevision(req.body?.revision);
       const updates = {};
       if (req.body?.title !== undefined) {
         updates.title = sanitizeRequiredString(req.body.title, 'title');
@@ -249,15 +257,32 @@ module.exports = () => {
       if (req.body?.priority !== undefined) {
         updates.priority = normalizeTaskPriority(req.body.priority);
       }
-      if (req.body?.status !== undefined) {
-        updates.status = normalizeTaskStatus(req.body.status);
-      }
-      if (req.body?.pomodoros !== undefined) {
-        updates.pomodoros = Number(req.body.pomodoros) || 0;
-      }
       updates.updatedAt = new Date().toISOString();
 
-      await ref.update(updates);
+      const ref = getTasksCollection(uid).doc(id);
+      const result = await firestore.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { error: { status: 404, message: 'Tarefa não encontrada.' } };
+        }
+        const current = snapshot.data() ?? {};
+        const currentRevision = readRevision(current);
+        if (currentRevision !== expectedRevision) {
+          return { conflict: { id, ...current, revision: currentRevision } };
+        }
+        updates.revision = currentRevision + 1;
+        transaction.update(ref, updates);
+        return {};
+      });
+
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      if (result.conflict) {
+        res.status(409).json({ message: REVISION_CONFLICT_MESSAGE, current: result.conflict });
+        return;
+      }
       res.json({ id, ...updates });
     } catch (error) {
       console.error('[functions][tasks] update task', error);
@@ -276,28 +301,48 @@ module.exports = () => {
       }
       const nextStatus = normalizeTaskStatus(status);
       const ref = getTasksCollection(uid).doc(id);
-      const snapshot = await ref.get();
-      if (!snapshot.exists) {
-        res.status(404).json({ message: 'Tarefa não encontrada.' });
-        return;
-      }
-      const previous = snapshot.data() ?? {};
       const nowIso = new Date().toISOString();
-      await ref.update({ status: nextStatus, updatedAt: nowIso });
-
-      if (nextStatus === 'completed' && previous.status !== 'completed') {
-        await updateGamification(uid, current => {
-          const totalPoints = (current.totalPoints || 0) + 10;
-          return {
-            totalPoints,
-            level: calculateTaskLevel(totalPoints),
+      const result = await runGamificationTransaction(uid, async (transaction, current) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { error: { status: 404, message: 'Tarefa não encontrada.' } };
+        }
+        const previous = snapshot.data() ?? {};
+        const updates = {
+          status: nextStatus,
+          completedAt: nextStatus === 'completed' ? previous.completedAt || nowIso : null,
+          updatedAt: nowIso,
+          revision: readRevision(previous) + 1,
+        };
+        const shouldAward = nextStatus === 'completed' && !previous.pointsAwardedAt;
+        if (shouldAward) {
+          updates.pointsAwardedAt = nowIso;
+        }
+        transaction.update(ref, updates);
+        if (!shouldAward) {
+          return { revision: updates.revision };
+        }
+        return {
+          revision: updates.revision,
+          gamification: {
+            totalPoints: current.totalPoints + TASK_COMPLETION_POINTS,
             streak: computeTaskStreak(current, nowIso),
             lastCompletedAt: nowIso,
-          };
-        });
-      }
+          },
+        };
+      });
 
-      res.json({ id, status: nextStatus, updatedAt: nowIso });
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      res.json({
+        id,
+        status: nextStatus,
+        updatedAt: nowIso,
+        revision: result.revision,
+        gamification: result.gamification,
+      });
     } catch (error) {
       console.error('[functions][tasks] update task status', error);
       res.status(400).json({ message: error.message || 'Erro ao atualizar status.' });
@@ -1,11 +1,10 @@
 const {
   express,
+  createAuthMiddleware,
   firestore,
-  authenticateRequest,
-  getUserProfile,
-  isSubscriptionActive,
   ensureDate,
   ensureTimeValue,
+  ensureOneOf,
   sanitizeString,
   TIME_CLOCK_SHIFT_TYPES,
 } = require('../shared/base');
@@ -14,32 +13,64 @@ module.exports = () => {
 
   const timeclockRouter = express.Router();
 
-  timeclockRouter.use(async (req, res, next) => {
-    try {
-      const uid = await authenticateRequest(req);
-      const profile = await getUserProfile(uid);
-      if (!isSubscriptionActive(profile)) {
-        res.status(403).json({
-          message: 'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.',
-        });
-        return;
-      }
-      req.auth = { uid };
-      next();
-    } catch (error) {
-      if (error.code === 'UNAUTHENTICATED') {
-        res.status(401).json({ message: 'Autenticação necessária.' });
-        return;
-      }
-      console.error('[functions][timeclock] auth middleware', error);
-      res.status(500).json({ message: 'Erro interno ao validar autenticação.' });
-    }
-  });
+  timeclockRouter.use(createAuthMiddleware('timeclock'));
 
   const getTimeclockCollection = uid =>
     firestore.collection('users').doc(uid).collection('timeclock');
 
+  const HOME_OFFICE_BREAK_MINUTES = 60;
+  const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
   const normalizeShiftType = value => (TIME_CLOCK_SHIFT_TYPES.includes(value) ? value : 'padrao');
+  const ensureShiftType = value =>
+    ensureOneOf(value, TIME_CLOCK_SHIFT_TYPES, 'tipo de jornada', { fallback: 'padrao' });
+
+  const toMinutes = time => {
+    if (!time) {
+      return null;
+    }
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const segmentMinutes = (start, end) => {
+    const startMinutes = toMinutes(start);
+    const endMinutes = toMinutes(end);
+    if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+      return 0;
+    }
+    return endMinutes - startMinutes;
+  };
+
+  const calculateWorkedHours = entry => {
+    let total =
+      segmentMinutes(entry.firstCheckIn, entry.firstCheckOut) +
+      segmentMinutes(entry.secondCheckIn, entry.secondCheckOut);
+    if (entry.shiftType === 'homeOffice') {
+      total = Math.max(0, total - HOME_OFFICE_BREAK_MINUTES);
+    }
+    return Math.round((total / 60) * 100) / 100;
+  };
+
+  const validateJourney = entry => {
+    if (toMinutes(entry.firstCheckOut) <= toMinutes(entry.firstCheckIn)) {
+      throw new Error('A saída 1 deve ser posterior à entrada 1.');
+    }
+    const hasSecondIn = Boolean(entry.secondCheckIn);
+    const hasSecondOut = Boolean(entry.secondCheckOut);
+    if (hasSecondIn !== hasSecondOut) {
+      throw new Error('Informe entrada e saída do segundo período.');
+    }
+    if (!hasSecondIn) {
+      return;
+    }
+    if (toMinutes(entry.secondCheckOut) <= toMinutes(entry.secondCheckIn)) {
+      throw new Error('A saída 2 deve ser posterior à entrada 2.');
+    }
+    if (toMinutes(entry.secondCheckIn) < toMinutes(entry.firstCheckOut)) {
+      throw new Error('O segundo período não pode se sobrepor ao primeiro.');
+    }
+  };
 
   const normalizeEntry = docSnap => {
     const data = docSnap.data() ?? {};
@@ -47,7 +78,7 @@ module.exports = () => {
     if (!date) {
       return null;
     }
-    return {
+    const entry = {
       id: docSnap.id,
       date,
       firstCheckIn: sanitizeString(data.firstCheckIn),
@@ -59,6 +90,7 @@ module.exports = () => {
       createdAt: data.createdAt ?? null,
       updatedAt: data.updatedAt ?? null,
     };
+    return { ...entry, workedHours: calculateWorkedHours(entry) };
   };
 
   const sortEntries = entries =>
@@ -69,65 +101,83 @@ module.exports = () => {
       return b.date.localeCompare(a.date);
     });
 
-  const buildEntryPayload = body => {
-    const shiftType = normalizeShiftType(body.shiftType);
-    const payload = {
+  const buildMonthRange = month => {
+    const sanitized = sanitizeString(month);
+    if (!sanitized) {
+      return null;
+    }
+    if (!MONTH_PATTERN.test(sanitized)) {
+      throw new Error('Parâmetro month inválido. Use o formato AAAA-MM.');
+    }
+    return { start: `${sanitized}-01`, end: `${sanitized}-31` };
+  };
+
+  const buildEntryFields = body => {
+    const entry = {
       date: ensureDate(body.date, 'data'),
       firstCheckIn: ensureTimeValue(body.firstCheckIn, 'entrada 1'),
       firstCheckOut: ensureTimeValue(body.firstCheckOut, 'saída 1'),
       secondCheckIn: ensureTimeValue(body.secondCheckIn, 'entrada 2', { optional: true }),
       secondCheckOut: ensureTimeValue(body.secondCheckOut, 'saída 2', { optional: true }),
-      shiftType,
+      shiftType: ensureShiftType(body.shiftType),
       notes: sanitizeString(body.notes),
     };
-    const now = new Date().toISOString();
-    return {
-      ...payload,
-      createdAt: now,
-      updatedAt: now,
-    };
+    validateJourney(entry);
+    return { ...entry, workedHours: calculateWorkedHours(entry) };
   };
 
-  const buildUpdatePayload = body => {
-    const updates = {};
-    if (body.date !== undefined) {
-      updates.date = ensureDate(body.date, 'data');
-    }
-    if (body.firstCheckIn !== undefined) {
-      updates.firstCheckIn = ensureTimeValue(body.firstCheckIn, 'entrada 1');
-    }
-    if (body.firstCheckOut !== undefined) {
-      updates.firstCheckOut = ensureTimeValue(body.firstCheckOut, 'saída 1');
-    }
-    if (body.secondCheckIn !== undefined) {
-      updates.secondCheckIn = ensureTimeValue(body.secondCheckIn, 'entrada 2', { optional: true });
-    }
-    if (body.secondCheckOut !== undefined) {
-      updates.secondCheckOut = ensureTimeValue(body.secondCheckOut, 'saída 2', { optional: true });
-    }
-    if (body.shiftType !== undefined) {
-      updates.shiftType = normalizeShiftType(body.shiftType);
-    }
-    if (body.notes !== undefined) {
-      updates.notes = sanitizeString(body.notes);
-    }
-    if (Object.keys(updates).length === 0) {
+  const ENTRY_FIELDS = [
+    'date',
+    'firstCheckIn',
+    'firstCheckOut',
+    'secondCheckIn',
+    'secondCheckOut',
+    'shiftType',
+    'notes',
+  ];
+
+  const mergeEntryUpdates = (current, body) => {
+    if (!ENTRY_FIELDS.some(field => body[field] !== undefined)) {
       throw new Error('Informe ao menos um campo para atualizar.');
     }
-    updates.updatedAt = new Date().toISOString();
-    return updates;
+    const merged = Object.fromEntries(
+      ENTRY_FIELDS.map(field => [field, body[field] !== undefined ? body[field] : current[field]])
+    );
+    return buildEntryFields(merged);
   };
 
+  const findEntryByDate = async (transaction, uid, date) => {
+    const snapshot = await transaction.get(
+      getTimeclockCollection(uid).where('date', '==', date).limit(2)
+    );
+    return snapshot.docs;
+  };
+
+  const DUPLICATE_DATE_MESSAGE = 'Já existe um registro de ponto para essa data.';
+
   timeclockRouter.get('/', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const snapshot = await getTimeclockCollection(uid).orderBy('date', 'desc').get();
+      let range;
+      try {
+        range = buildMonthRange(req.query?.month);
+      } catch (error) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      let query = getTimeclockCollection(uid);
+      if (range) {
+        query = query.where('date', '>=', range.start).where('date', '<=', range.end);
+      }
+      const snapshot = await query.orderBy('date', 'desc').get();
       const entries = sortEntries(
         snapshot.docs
           .map(normalizeEntry)
           .filter(Boolean)
       );
-      res.json({ entries });
+      const totalHours =
+        Math.round(entries.reduce((sum, entry) => sum + entry.workedHours, 0) * 100) / 100;
+      res.json({ entries, totalHours });
     } catch (error) {
       console.error('[functions][timeclock] list', error);
       res.status(500).json({ message: 'Erro ao carregar registros de ponto.' });
@@ -137,8 +187,21 @@ module.exports = () => {
   timeclockRouter.post('/', async (req, res) => {
     try {
       const { uid } = req.auth;
-      const payload = buildEntryPayload(req.body ?? {});
-      const ref = await getTimeclockCollection(uid).add(payload);
+      const now = new Date().toISOString();
+      const payload = { ...buildEntryFields(req.body ?? {}), createdAt: now, updatedAt: now };
+      const ref = getTimeclockCollection(uid).doc();
+      const created = await firestore.runTransaction(async transaction => {
+        const sameDate = await findEntryByDate(transaction, uid, payload.date);
+        if (sameDate.length > 0) {
+          return false;
+        }
+        transaction.set(ref, payload);
+        return true;
+      });
+      if (!created) {
+        res.status(409).json({ message: DUPLICATE_DATE_MESSAGE });
+        return;
+      }
       res.status(201).json({ entry: { id: ref.id, ...payload } });
     } catch (error) {
       console.error('[functions][timeclock] create', error);
@@ -155,20 +218,34 @@ module.exports = () => {
         return;
       }
       const ref = getTimeclockCollection(uid).doc(id);
-      const snapshot = await ref.get();
-      if (!snapshot.exists) {
-        res.status(404).json({ message: 'Registro não encontrado.' });
-        return;
-      }
-      const updates = buildUpdatePayload(req.body ?? {});
-      await ref.update(updates);
-      const updatedSnapshot = await ref.get();
-      const entry = normalizeEntry(updatedSnapshot);
-      if (!entry) {
-        res.status(500).json({ message: 'Registro atualizado com dados inválidos.' });
+      const result = await firestore.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { error: { status: 404, message: 'Registro não encontrado.' } };
+        }
+        const current = snapshot.data() ?? {};
+        const updates = mergeEntryUpdates(current, req.body ?? {});
+        if (updates.date !== current.date) {
+          const sameDate = await findEntryByDate(transaction, uid, updates.date);
+          if (sameDate.some(docSnap => docSnap.id !== id)) {
+            return { error: { status: 409, message: DUPLICATE_DATE_MESSAGE } };
+          }
+        }
+        updates.updatedAt = new Date().toISOString();
+        transaction.update(ref, updates);
+        return {
+          entry: {
+            id,
+            ...updates,
+            createdAt: current.createdAt ?? null,
+          },
+        };
+      });
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
         return;
       }
-      res.json({ entry });
+      res.json({ entry: result.entry });
     } catch (error) {
       console.error('[functions][timeclock] update', error);
       res.status(400).json({ message: error.message || 'Erro ao atualizar registro.' });
@@ -98,12 +98,24 @@ const getConfig = () => ({
   secretKey: sanitizeEnv(process.env.STRIPE_SECRET_KEY),
   priceId: sanitizeEnv(process.env.STRIPE_PRICE_ID),
   checkoutMode: sanitizeEnv(process.env.STRIPE_CHECKOUT_MODE) || 'subscription',
+  webhookSecret: sanitizeEnv(process.env.STRIPE_WEBHOOK_SECRET),
+  billingProvider: sanitizeEnv(process.env.BILLING_PROVIDER) || 'stripe',
 });
 
 const AUTH_HEADER_PREFIX = 'Bearer ';
 const PAYMENT_METHODS = ['dinheiro', 'debito', 'credito', 'pix', 'boleto', 'outro'];
 const INVESTMENT_TYPES = ['renda_fixa', 'renda_variavel', 'fundo', 'poupanca', 'outro'];
-const RECURRENCE_VALUES = ['none', 'monthly', 'bimonthly', 'quarterly', 'semiannual', 'annual'];
+const RECURRENCE_VALUES = [
+  'none',
+  'weekly',
+  'biweekly',
+  'monthly',
+  'bimonthly',
+  'quarterly',
+  'semiannual',
+  'annual',
+  'business_day',
+];
 const RECURRENCE_INTERVAL_IN_MONTHS = {
   monthly: 1,
   bimonthly: 2,
@@ -111,6 +123,11 @@ const RECURRENCE_INTERVAL_IN_MONTHS = {
   semiannual: 6,
   annual: 12,
 };
+const RECURRENCE_INTERVAL_IN_DAYS = {
+  weekly: 7,
+  biweekly: 14,
+};
+const MAX_BUSINESS_DAY = 22;
 const TASK_STATUSES = ['open', 'in_progress', 'completed'];
 const TASK_PRIORITIES = ['do_first', 'schedule', 'delegate', 'eliminate'];
 const TASK_DEFAULT_GAMIFICATION = {
@@ -131,7 +148,7 @@ const DEFAULT_CATEGORIES = {
   incomes: ['Salário', 'Freelance', 'Investimentos', 'Outros'],
   investments: ['Renda fixa', 'Renda variável', 'Poupança', 'Fundo'],
 };
-const CALENDAR_TAGS = ['Reunião', 'Pessoal', 'Entrega', 'Lembrete'];
+const CALENDAR_TAGS = ['Reunião', 'Pessoal', 'Estudo', 'Saúde'];
 const RELATIONSHIP_STAGES = ['Contato inicial', 'Oportunidade', 'Negociação', 'Fidelizado'];
 const RELATIONSHIP_PRIORITIES = ['Alta', 'Média', 'Baixa'];
 const RELATIONSHIP_CHANNELS = ['Ligação', 'Reunião', 'E-mail', 'Mensagem', 'Anotação'];
@@ -214,43 +231,147 @@ const ensureTimeValue = (time, field, { optional = false } = {}) => {
     }
     throw new Error(`Informe ${field ?? 'o horário'} no formato HH:MM.`);
   }
-  if (!/^\d{2}:\d{2}$/.test(sanitized)) {
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(sanitized)) {
     throw new Error(`Campo ${field ?? 'horário'} inválido. Use o formato HH:MM.`);
   }
   return sanitized;
 };
 
-const generateRecurringDates = (date, frequency, occurrences) => {
-  const sanitizedOccurrences = Math.max(1, Math.min(Number(occurrences) || 1, 24));
-  if (frequency === 'none' || sanitizedOccurrences === 1) {
-    return [date];
+const ensureOneOf = (value, allowed, field, { fallback } = {}) => {
+  if ((value === undefined || value === null || value === '') && fallback !== undefined) {
+    return fallback;
   }
-  const interval = RECURRENCE_INTERVAL_IN_MONTHS[frequency];
-  if (!interval) {
-    return [date];
+  const sanitized = sanitizeString(value);
+  if (!allowed.includes(sanitized)) {
+    throw new Error(`Campo ${field ?? 'valor'} inválido. Use: ${allowed.join(', ')}.`);
+  }
+  return sanitized;
+};
+
+const ensureText = (value, field, { maxLength = 500, required = false } = {}) => {
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    throw new Error(`Campo ${field ?? 'texto'} inválido.`);
+  }
+  const sanitized = sanitizeString(value);
+  if (required && !sanitized) {
+    throw new Error(`Informe ${field ?? 'o texto'}.`);
+  }
+  if (sanitized.length > maxLength) {
+    throw new Error(`Campo ${field ?? 'texto'} excede ${maxLength} caracteres.`);
+  }
+  return sanitized;
+};
+
+const ensureStringList = (value, field, { maxItems = 20, maxLength = 40 } = {}) => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`Campo ${field ?? 'lista'} deve ser uma lista.`);
+  }
+  const items = Array.from(
+    new Set(value.map(item => ensureText(item, field, { maxLength })).filter(Boolean))
+  );
+  if (items.length > maxItems) {
+    throw new Error(`Campo ${field ?? 'lista'} aceita no máximo ${maxItems} itens.`);
   }
+  return items;
+};
+
+const REVISION_CONFLICT_MESSAGE =
+  'Este registro foi alterado em outro dispositivo. Revise as diferenças antes de salvar.';
+
+// Registros anteriores ao controle de versão são tratados como revisão 0.
+const readRevision = data =>
+  Number.isInteger(data?.revision) && data.revision > 0 ? data.revision : 0;
+
+const ensureRevision = value => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    !Number.isInteger(parsed) ||
+    parsed < 0
+  ) {
+    throw new Error('Informe a revisão do registro (campo revision).');
+  }
+  return parsed;
+};
+
+const addMonthsPreservingDay = (isoDate, monthsToAdd) => {
   const pad = value => value.toString().padStart(2, '0');
-  const addMonthsPreservingDay = (isoDate, monthsToAdd) => {
-    const [yearString, monthString, dayString] = isoDate.split('-');
-    const year = Number(yearString);
-    const month = Number(monthString);
-    const day = Number(dayString);
-    if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
-      return isoDate;
+  const [yearString, monthString, dayString] = isoDate.split('-');
+  const year = Number(yearString);
+  const month = Number(monthString);
+  const day = Number(dayString);
+  if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+    return isoDate;
+  }
+  const totalMonths = month - 1 + monthsToAdd;
+  const nextYear = year + Math.floor(totalMonths / 12);
+  const nextMonthIndex = ((totalMonths % 12) + 12) % 12;
+  const lastDayOfTargetMonth = new Date(nextYear, nextMonthIndex + 1, 0).getDate();
+  const safeDay = Math.min(day, lastDayOfTargetMonth);
+  return `${nextYear}-${pad(nextMonthIndex + 1)}-${pad(safeDay)}`;
+};
+
+const addDays = (isoDate, days) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// Dias úteis são os dias de semana; feriados não entram na conta. Em meses com menos dias úteis
+// que o pedido, vale o último.
+const getNthBusinessDay = (year, monthIndex, nth) => {
+  const pad = value => value.toString().padStart(2, '0');
+  const normalizedYear = year + Math.floor(monthIndex / 12);
+  const normalizedMonth = ((monthIndex % 12) + 12) % 12;
+  const lastDay = new Date(Date.UTC(normalizedYear, normalizedMonth + 1, 0)).getUTCDate();
+  let count = 0;
+  let found = 1;
+  for (let day = 1; day <= lastDay && count < nth; day += 1) {
+    const weekday = new Date(Date.UTC(normalizedYear, normalizedMonth, day)).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      count += 1;
+      found = day;
     }
-    const totalMonths = month - 1 + monthsToAdd;
-    const nextYear = year + Math.floor(totalMonths / 12);
-    const nextMonthIndex = ((totalMonths % 12) + 12) % 12;
-    const lastDayOfTargetMonth = new Date(nextYear, nextMonthIndex + 1, 0).getDate();
-    const safeDay = Math.min(day, lastDayOfTargetMonth);
-    return `${nextYear}-${pad(nextMonthIndex + 1)}-${pad(safeDay)}`;
-  };
+  }
+  return `${normalizedYear}-${pad(normalizedMonth + 1)}-${pad(found)}`;
+};
 
-  const schedule = [date];
-  for (let index = 1; index < sanitizedOccurrences; index += 1) {
-    schedule.push(addMonthsPreservingDay(date, interval * index));
+/**
+ * Data da ocorrência `index` (a partir de 1) de uma regra `{ frequency, startDate, businessDay }`.
+ */
+const getRecurrenceOccurrence = (rule, index) => {
+  const { frequency, startDate } = rule;
+  if (RECURRENCE_INTERVAL_IN_DAYS[frequency]) {
+    return addDays(startDate, RECURRENCE_INTERVAL_IN_DAYS[frequency] * (index - 1));
   }
-  return schedule;
+  if (frequency === 'business_day') {
+    const nth = rule.businessDay || 1;
+    const [year, month] = startDate.split('-').map(Number);
+    const firstMonthIndex =
+      getNthBusinessDay(year, month - 1, nth) >= startDate ? month - 1 : month;
+    return getNthBusinessDay(year, firstMonthIndex + index - 1, nth);
+  }
+  const interval = RECURRENCE_INTERVAL_IN_MONTHS[frequency] || 1;
+  return addMonthsPreservingDay(startDate, interval * (index - 1));
+};
+
+const generateRecurringDates = (date, frequency, occurrences) => {
+  const sanitizedOccurrences = Math.max(1, Math.min(Number(occurrences) || 1, 24));
+  if (
+    !RECURRENCE_VALUES.includes(frequency) ||
+    frequency === 'none' ||
+    sanitizedOccurrences === 1
+  ) {
+    return [date];
+  }
+  return Array.from({ length: sanitizedOccurrences }, (_, index) =>
+    getRecurrenceOccurrence({ frequency, startDate: date }, index + 1)
+  );
 };
 
 const authenticateRequest = async req => {
@@ -294,6 +415,43 @@ const isSubscriptionActive = profile => {
   return false;
 };
 
+const AUTH_ERROR_CODES = {
+  unauthenticated: 'UNAUTHENTICATED',
+  subscriptionInactive: 'SUBSCRIPTION_INACTIVE',
+  internal: 'AUTH_CHECK_FAILED',
+};
+const SUBSCRIPTION_INACTIVE_MESSAGE =
+  'Sua assinatura está suspensa. Renove para voltar a sincronizar dados com a nuvem.';
+
+const sendAuthError = (res, status, code, message) => {
+  res.status(status).json({ code, message });
+};
+
+const createAuthMiddleware = (scope, options = {}) => {
+  const { requireActiveSubscription = true, inactiveMessage = SUBSCRIPTION_INACTIVE_MESSAGE } =
+    options;
+
+  return async (req, res, next) => {
+    try {
+      const uid = await authenticateRequest(req);
+      const profile = await getUserProfile(uid);
+      if (requireActiveSubscription && !isSubscriptionActive(profile)) {
+        sendAuthError(res, 403, AUTH_ERROR_CODES.subscriptionInactive, inactiveMessage);
+        return;
+      }
+      req.auth = { uid, profile };
+      next();
+    } catch (error) {
+      if (error.code === 'UNAUTHENTICATED') {
+        sendAuthError(res, 401, AUTH_ERROR_CODES.unauthenticated, 'Autenticação necessária.');
+        return;
+      }
+      console.error(`[functions][${scope}] auth middleware`, error);
+      sendAuthError(res, 500, AUTH_ERROR_CODES.internal, 'Erro interno ao validar autenticação.');
+    }
+  };
+};
+
 const createCorsMiddleware = () => {
   if (allowedOrigins.length === 0) {
     return cors({ origin: true, credentials: true });
@@ -390,15 +548,18 @@ const inferAvatarExtension = (contentType, fileName) => {
 };
 
 module.exports = {
+  addMonthsPreservingDay,
   admin,
   allowedOrigins,
   applyCors,
   authenticateRequest,
+  AUTH_ERROR_CODES,
   AUTH_HEADER_PREFIX,
   BILLING_CYCLE_MS,
   CATEGORY_GROUPS,
   CALENDAR_TAGS,
   cors,
+  createAuthMiddleware,
   crypto,
   DEFAULT_CATEGORIES,
   DEVELOPMENT_ORIGINS,
@@ -407,11 +568,13 @@ module.exports = {
   functions,
   generateRecurringDates,
   getConfig,
+  getRecurrenceOccurrence,
   getUserProfile,
   initializeStripe,
   ensureStripeClient,
   INVESTMENT_TYPES,
   isSubscriptionActive,
+  MAX_BUSINESS_DAY,
   NOTE_DEFAULT_PAYLOAD,
   PAYMENT_METHODS,
   RECURRENCE_VALUES,
@@ -420,7 +583,9 @@ module.exports = {
   RELATIONSHIP_STAGES,
   sanitizeEnv,
   sanitizeString,
+  sendAuthError,
   stripe,
+  SUBSCRIPTION_INACTIVE_MESSAGE,
   TASK_DEFAULT_GAMIFICATION,
   TASK_PRIORITIES,
   TASK_STATUSES,
@@ -432,6 +597,12 @@ module.exports = {
   parseNumber,
   ensureDate,
   ensureTimeValue,
+  ensureOneOf,
+  ensureText,
+  ensureStringList,
+  ensureRevision,
+  readRevision,
+  REVISION_CONFLICT_MESSAGE,
   getAccountDocRef,
   resolveAuthFallbackName,
   normalizeAccountProfile,
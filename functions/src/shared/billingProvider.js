@@ -0,0 +1,207 @@
+const crypto = require('node:crypto');
+
+const {
+  firestore,
+  getConfig,
+  ensureStripeClient,
+  sanitizeString,
+  BILLING_CYCLE_MS,
+} = require('./base');
+const { applySubscriptionEvent } = require('./stripeWebhook');
+
+const BILLING_PROVIDERS = ['stripe', 'local'];
+const LOCAL_CHECKOUT_OUTCOMES = ['paid', 'failed'];
+
+const ensureSessionIdPlaceholder = url => {
+  if (!url.includes('{CHECKOUT_SESSION_ID}')) {
+    const separator = url.includes('?') ? '&' : '?';
+    return `${url}${separator}session_id={CHECKOUT_SESSION_ID}`;
+  }
+  return url;
+};
+
+const buildSessionMetadata = ({ name, userId, context }) => ({
+  name: sanitizeString(name) || '',
+  userId: sanitizeString(userId) || '',
+  context: context || 'signup',
+});
+
+const createStripeBillingProvider = () => ({
+  name: 'stripe',
+  async createCheckoutSession(params) {
+    const stripe = ensureStripeClient();
+    const { priceId, checkoutMode } = getConfig();
+    if (!priceId) {
+      throw new Error(
+        'Stripe price id not configured. Define STRIPE_PRICE_ID in your environment (.env).'
+      );
+    }
+    return stripe.checkout.sessions.create({
+      mode: checkoutMode,
+      line_items: [
+        {
+          price: priceId,
+          quantity: 1,
+        },
+      ],
+      customer_email: params.email,
+      success_url: ensureSessionIdPlaceholder(params.successUrl),
+      cancel_url: params.cancelUrl,
+      metadata: buildSessionMetadata(params),
+      allow_promotion_codes: true,
+    });
+  },
+  retrieveCheckoutSession(id) {
+    return ensureStripeClient().checkout.sessions.retrieve(id, { expand: ['customer'] });
+  },
+});
+
+/**
+ * Provedor de cobrança sem rede para desenvolvimento e testes. As sessões ficam em
+ * `billingSessions` com o mesmo formato do Stripe, e cada pagamento simulado emite os
+ * eventos que o webhook real receberia.
+ */
+const createLocalBillingProvider = ({ emitEvent = applySubscriptionEvent } = {}) => {
+  const getSessionRef = id => firestore.collection('billingSessions').doc(id);
+
+  const buildLocalId = (prefix, seed) =>
+    `${prefix}_local_${crypto.createHash('sha1').update(seed).digest('hex').slice(0, 14)}`;
+
+  const buildEvent = (type, object) => ({
+    id: `evt_local_${firestore.collection('_').doc().id}`,
+    object: 'event',
+    api_version: '2024-06-20',
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    type,
+    data: { object },
+  });
+
+  const buildInvoice = (session, paid) => {
+    const periodStart = Math.floor(Date.now() / 1000);
+    return {
+      id: `in_local_${firestore.collection('_').doc().id}`,
+      object: 'invoice',
+      customer: session.customer,
+      customer_email: session.customer_email,
+      subscription: session.subscription,
+      paid,
+      status: paid ? 'paid' : 'open',
+      metadata: session.metadata,
+      lines: {
+        object: 'list',
+        data: [
+          {
+            object: 'line_item',
+            period: { start: periodStart, end: periodStart + BILLING_CYCLE_MS / 1000 },
+          },
+        ],
+      },
+    };
+  };
+
+  return {
+    name: 'local',
+    async createCheckoutSession(params) {
+      const id = `cs_local_${firestore.collection('_').doc().id}`;
+      const session = {
+        id,
+        object: 'checkout.session',
+        mode: getConfig().checkoutMode,
+        status: 'open',
+        payment_status: 'unpaid',
+        customer: null,
+        customer_email: params.email,
+        subscription: null,
+        success_url: ensureSessionIdPlaceholder(params.successUrl),
+        cancel_url: params.cancelUrl,
+        metadata: buildSessionMetadata(params),
+        created: Math.floor(Date.now() / 1000),
+        url: `/checkout/local/${id}`,
+      };
+      await getSessionRef(id).set(session);
+      return session;
+    },
+    async retrieveCheckoutSession(id) {
+      const snapshot = await getSessionRef(id).get();
+      if (!snapshot.exists) {
+        const error = new Error('Sessão de checkout não encontrada.');
+        error.statusCode = 404;
+        throw error;
+      }
+      return snapshot.data();
+    },
+    async simulateCheckoutOutcome(id, outcome) {
+      if (!LOCAL_CHECKOUT_OUTCOMES.includes(outcome)) {
+        return { error: { status: 400, message: 'Resultado de pagamento inválido.' } };
+      }
+      const ref = getSessionRef(id);
+      const result = await firestore.runTransaction(async transaction => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { error: { status: 404, message: 'Sessão de checkout não encontrada.' } };
+        }
+        const current = snapshot.data();
+        if (current.status !== 'open') {
+          return { error: { status: 409, message: 'Esta sessão de checkout já foi finalizada.' } };
+        }
+        const customerSeed = current.metadata?.userId || current.customer_email;
+        const session = {
+          ...current,
+          customer: buildLocalId('cus', customerSeed),
+          subscription: buildLocalId('sub', customerSeed),
+          status: outcome === 'paid' ? 'complete' : 'expired',
+          payment_status: outcome === 'paid' ? 'paid' : 'unpaid',
+        };
+        transaction.set(ref, session);
+        return { session };
+      });
+      if (result.error) {
+        return result;
+      }
+
+      const { session } = result;
+      const events =
+        outcome === 'paid'
+          ? [
+              buildEvent('checkout.session.completed', session),
+              buildEvent('invoice.paid', buildInvoice(session, true)),
+            ]
+          : [buildEvent('invoice.payment_failed', buildInvoice(session, false))];
+      for (const event of events) {
+        await emitEvent(event);
+      }
+      return {
+        session,
+        events: events.map(event => event.type),
+        redirectUrl:
+          outcome === 'paid'
+            ? session.success_url.replace('{CHECKOUT_SESSION_ID}', session.id)
+            : session.cancel_url,
+      };
+    },
+  };
+};
+
+const providers = new Map();
+
+const getBillingProvider = () => {
+  const { billingProvider } = getConfig();
+  const name = BILLING_PROVIDERS.includes(billingProvider) ? billingProvider : 'stripe';
+  if (!providers.has(name)) {
+    providers.set(
+      name,
+      name === 'local' ? createLocalBillingProvider() : createStripeBillingProvider()
+    );
+  }
+  return providers.get(name);
+};
+
+module.exports = {
+  BILLING_PROVIDERS,
+  LOCAL_CHECKOUT_OUTCOMES,
+  createLocalBillingProvider,
+  createStripeBillingProvider,
+  ensureSessionIdPlaceholder,
+  getBillingProvider,
+};
@@ -0,0 +1,154 @@
+const { express, sanitizeString } = require('./base');
+const { createStripeWebhookHandler } = require('./stripeWebhook');
+const { getBillingProvider } = require('./billingProvider');
+
+const escapeHtml = value =>
+  String(value ?? '').replace(
+    /[&<>"']/g,
+    char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]
+  );
+
+const renderLocalCheckoutPage = session => `<!doctype html>
+<html lang="pt-BR">
+  <head>
+    <meta charset="utf-8" />
+    <title>Checkout local</title>
+  </head>
+  <body style="font-family: sans-serif; max-width: 480px; margin: 48px auto;">
+    <h1>Checkout local</h1>
+    <p>Ambiente de desenvolvimento: nenhum pagamento real será feito.</p>
+    <p>Assinatura para <strong>${escapeHtml(session.customer_email)}</strong>.</p>
+    <button data-outcome="paid">Simular pagamento aprovado</button>
+    <button data-outcome="failed">Simular falha no pagamento</button>
+    <script>
+      document.querySelectorAll('button[data-outcome]').forEach(button => {
+        button.addEventListener('click', async () => {
+          const response = await fetch(window.location.pathname + '/' + button.dataset.outcome, {
+            method: 'POST',
+          });
+          const payload = await response.json();
+          if (payload.redirectUrl) {
+            window.location.href = payload.redirectUrl;
+          } else {
+            alert(payload.message || 'Não foi possível simular o pagamento.');
+          }
+        });
+      });
+    </script>
+  </body>
+</html>`;
+
+module.exports = () => {
+  const checkoutRouter = express.Router();
+
+  // O webhook precisa do corpo bruto para validar a assinatura do Stripe.
+  checkoutRouter.post(
+    '/checkout/webhook',
+    express.raw({ type: 'application/json' }),
+    createStripeWebhookHandler()
+  );
+
+  checkoutRouter.post('/checkout/sessions', express.json(), async (req, res) => {
+    try {
+      const { name, email, successUrl, cancelUrl, userId, context } = req.body || {};
+
+      if (!email || !successUrl || !cancelUrl) {
+        res.status(400).json({
+          message: 'Informe email, successUrl e cancelUrl para criar a sessão de checkout.',
+        });
+        return;
+      }
+
+      const session = await getBillingProvider().createCheckoutSession({
+        name,
+        email,
+        successUrl,
+        cancelUrl,
+        userId,
+        context,
+      });
+
+      res.status(201).json({
+        checkoutUrl: session.url,
+        sessionId: session.id,
+      });
+    } catch (error) {
+      console.error('[functions] createCheckoutSession failed', error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : 'Erro ao criar sessão de checkout.',
+      });
+    }
+  });
+
+  checkoutRouter.get('/checkout/sessions/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({ message: 'Informe o ID da sessão.' });
+        return;
+      }
+      const session = await getBillingProvider().retrieveCheckoutSession(id);
+      res.json({
+        status: session.status,
+        paymentStatus: session.payment_status,
+        customerEmail: session.customer_details?.email ?? session.customer_email ?? null,
+        metadata: session.metadata ?? null,
+      });
+    } catch (error) {
+      console.error('[functions] getCheckoutSessionStatus failed', error);
+      res.status(typeof error.statusCode === 'number' ? error.statusCode : 500).json({
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Não foi possível recuperar a sessão de checkout.',
+      });
+    }
+  });
+
+  const ensureLocalProvider = (req, res, next) => {
+    if (getBillingProvider().name !== 'local') {
+      res.status(404).json({ message: 'Checkout local desabilitado.' });
+      return;
+    }
+    next();
+  };
+
+  checkoutRouter.get('/checkout/local/:id', ensureLocalProvider, async (req, res) => {
+    try {
+      const session = await getBillingProvider().retrieveCheckoutSession(
+        sanitizeString(req.params.id)
+      );
+      res.type('html').send(renderLocalCheckoutPage(session));
+    } catch (error) {
+      console.error('[functions] local checkout page', error);
+      res.status(typeof error.statusCode === 'number' ? error.statusCode : 500).json({
+        message: error.message || 'Erro ao abrir checkout local.',
+      });
+    }
+  });
+
+  checkoutRouter.post('/checkout/local/:id/:outcome', ensureLocalProvider, async (req, res) => {
+    try {
+      const result = await getBillingProvider().simulateCheckoutOutcome(
+        sanitizeString(req.params.id),
+        sanitizeString(req.params.outcome)
+      );
+      if (result.error) {
+        res.status(result.error.status).json({ message: result.error.message });
+        return;
+      }
+      res.json({
+        sessionId: result.session.id,
+        status: result.session.status,
+        paymentStatus: result.session.payment_status,
+        events: result.events,
+        redirectUrl: result.redirectUrl,
+      });
+    } catch (error) {
+      console.error('[functions] simulate local checkout', error);
+      res.status(500).json({ message: 'Erro ao simular pagamento.' });
+    }
+  });
+
+  return checkoutRouter;
+};
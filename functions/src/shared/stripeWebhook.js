@@ -0,0 +1,189 @@
+const {
+  admin,
+  firestore,
+  getConfig,
+  getAccountDocRef,
+  sanitizeString,
+  BILLING_CYCLE_MS,
+  Stripe,
+} = require('./base');
+
+const SUBSCRIPTION_EVENT_TYPES = [
+  'checkout.session.completed',
+  'invoice.paid',
+  'invoice.payment_failed',
+  'customer.subscription.deleted',
+];
+
+const getProcessedEventRef = eventId => firestore.collection('stripeEvents').doc(eventId);
+
+const toIsoFromUnix = seconds =>
+  Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+
+const resolveCustomerId = customer =>
+  sanitizeString(typeof customer === 'string' ? customer : customer?.id) || null;
+
+const resolveCustomerEmail = object =>
+  sanitizeString(object.customer_details?.email || object.customer_email || object.customer?.email);
+
+const resolveInvoicePeriodEnd = invoice => {
+  const ends = (invoice.lines?.data ?? [])
+    .map(line => Number(line.period?.end))
+    .filter(value => Number.isFinite(value));
+  return ends.length > 0 ? toIsoFromUnix(Math.max(...ends)) : null;
+};
+
+const findUidByCustomerId = async customerId => {
+  if (!customerId) {
+    return null;
+  }
+  const snapshot = await firestore
+    .collection('users')
+    .where('stripeCustomerId', '==', customerId)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+};
+
+const findUidByEmail = async email => {
+  if (!email) {
+    return null;
+  }
+  try {
+    const userRecord = await admin.auth().getUserByEmail(email);
+    return userRecord.uid;
+  } catch (error) {
+    if (error?.code === 'auth/user-not-found') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const resolveEventOwner = async object => {
+  const metadataUserId = sanitizeString(object.metadata?.userId);
+  if (metadataUserId) {
+    return metadataUserId;
+  }
+  const customerId = resolveCustomerId(object.customer);
+  return (await findUidByCustomerId(customerId)) || findUidByEmail(resolveCustomerEmail(object));
+};
+
+/**
+ * Traduz um evento do Stripe nos campos de assinatura do perfil. Datas vêm sempre do
+ * próprio evento para que reprocessar o mesmo payload produza o mesmo resultado.
+ */
+const buildSubscriptionUpdate = event => {
+  const object = event.data?.object ?? {};
+  const eventAt = toIsoFromUnix(event.created) || new Date().toISOString();
+  const customerId = resolveCustomerId(object.customer);
+  const customerFields = customerId ? { stripeCustomerId: customerId } : {};
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      if (object.payment_status !== 'paid') {
+        return null;
+      }
+      return {
+        ...customerFields,
+        subscriptionStatus: 'active',
+        activeUntil: new Date(new Date(eventAt).getTime() + BILLING_CYCLE_MS).toISOString(),
+        canceledAt: null,
+        cancellationRequestedAt: null,
+      };
+    case 'invoice.paid':
+      return {
+        ...customerFields,
+        subscriptionStatus: 'active',
+        activeUntil:
+          resolveInvoicePeriodEnd(object) ||
+          new Date(new Date(eventAt).getTime() + BILLING_CYCLE_MS).toISOString(),
+        canceledAt: null,
+        cancellationRequestedAt: null,
+      };
+    case 'invoice.payment_failed':
+      return {
+        ...customerFields,
+        subscriptionStatus: 'past_due',
+      };
+    case 'customer.subscription.deleted':
+      return {
+        ...customerFields,
+        subscriptionStatus: 'canceled',
+        canceledAt: toIsoFromUnix(object.canceled_at) || eventAt,
+        activeUntil: toIsoFromUnix(object.ended_at) || eventAt,
+      };
+    default:
+      return null;
+  }
+};
+
+const applySubscriptionEvent = async event => {
+  if (!SUBSCRIPTION_EVENT_TYPES.includes(event.type)) {
+    return { status: 'ignored' };
+  }
+  const eventRef = getProcessedEventRef(event.id);
+  const alreadyProcessed = await eventRef.get();
+  if (alreadyProcessed.exists) {
+    return { status: 'duplicate' };
+  }
+
+  const update = buildSubscriptionUpdate(event);
+  const uid = update ? await resolveEventOwner(event.data?.object ?? {}) : null;
+
+  return firestore.runTransaction(async transaction => {
+    const snapshot = await transaction.get(eventRef);
+    if (snapshot.exists) {
+      return { status: 'duplicate' };
+    }
+    const processedAt = new Date().toISOString();
+    const status = !update ? 'ignored' : uid ? 'applied' : 'unmatched';
+    if (status === 'applied') {
+      transaction.set(
+        getAccountDocRef(uid),
+        { ...update, updatedAt: processedAt },
+        { merge: true }
+      );
+    }
+    transaction.set(eventRef, {
+      type: event.type,
+      uid: uid ?? null,
+      status,
+      processedAt,
+    });
+    return { status, uid };
+  });
+};
+
+const createStripeWebhookHandler = () => async (req, res) => {
+  const { webhookSecret } = getConfig();
+  if (!webhookSecret) {
+    res.status(500).json({
+      message: 'Webhook do Stripe não configurado. Defina STRIPE_WEBHOOK_SECRET.',
+    });
+    return;
+  }
+  const payload = Buffer.isBuffer(req.rawBody) ? req.rawBody : req.body;
+  let event;
+  try {
+    event = Stripe.webhooks.constructEvent(payload, req.headers['stripe-signature'], webhookSecret);
+  } catch (error) {
+    console.warn('[functions][stripe] invalid webhook signature', error.message);
+    res.status(400).json({ message: 'Assinatura do webhook inválida.' });
+    return;
+  }
+  try {
+    const result = await applySubscriptionEvent(event);
+    res.json({ received: true, status: result.status });
+  } catch (error) {
+    console.error('[functions][stripe] webhook', error);
+    res.status(500).json({ message: 'Erro ao processar evento do Stripe.' });
+  }
+};
+
+module.exports = {
+  SUBSCRIPTION_EVENT_TYPES,
+  applySubscriptionEvent,
+  buildSubscriptionUpdate,
+  createStripeWebhookHandler,
+};
@@ -0,0 +1,121 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const {
+  express,
+  firestore,
+  createAuthMiddleware,
+  AUTH_ERROR_CODES,
+} = require('../src/shared/base');
+const moduleRegistry = require('../src/modules');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createProbeRouter = options => () => {
+  const router = express.Router();
+  router.use(createAuthMiddleware('probe', options));
+  router.get('/whoami', (req, res) => {
+    res.json({ uid: req.auth.uid, profile: req.auth.profile });
+  });
+  return router;
+};
+
+const setProfile = (uid, data) => firestore.collection('users').doc(uid).set(data);
+
+describe('createAuthMiddleware', () => {
+  let server;
+  let lenientServer;
+  let user;
+
+  before(async () => {
+    server = await startModuleServer(createProbeRouter());
+    lenientServer = await startModuleServer(
+      createProbeRouter({ requireActiveSubscription: false })
+    );
+  });
+
+  after(async () => {
+    await Promise.all([server.close(), lenientServer.close()]);
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser();
+  });
+
+  test('rejects missing and malformed tokens with 401', async () => {
+    const missing = await server.request('GET', '/whoami');
+    assert.equal(missing.status, 401);
+    assert.equal(missing.body.code, AUTH_ERROR_CODES.unauthenticated);
+
+    const malformed = await server.request('GET', '/whoami', { token: 'not-a-jwt' });
+    assert.equal(malformed.status, 401);
+    assert.equal(malformed.body.code, AUTH_ERROR_CODES.unauthenticated);
+  });
+
+  test('lets users without profile through and exposes the uid', async () => {
+    const response = await server.request('GET', '/whoami', { token: user.token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.uid, user.uid);
+    assert.equal(response.body.profile, null);
+  });
+
+  test('accepts active subscriptions and pending cancellations still in the paid period', async () => {
+    await setProfile(user.uid, { subscriptionStatus: 'active' });
+    const active = await server.request('GET', '/whoami', { token: user.token });
+    assert.equal(active.status, 200);
+
+    await setProfile(user.uid, {
+      subscriptionStatus: 'pending_cancel',
+      activeUntil: new Date(Date.now() + DAY_MS).toISOString(),
+    });
+    const pending = await server.request('GET', '/whoami', { token: user.token });
+    assert.equal(pending.status, 200);
+    assert.equal(pending.body.profile.subscriptionStatus, 'pending_cancel');
+  });
+
+  test('returns the standard 403 body for expired or canceled subscriptions', async () => {
+    await setProfile(user.uid, {
+      subscriptionStatus: 'pending_cancel',
+      activeUntil: new Date(Date.now() - DAY_MS).toISOString(),
+    });
+    const expired = await server.request('GET', '/whoami', { token: user.token });
+    assert.equal(expired.status, 403);
+    assert.equal(expired.body.code, AUTH_ERROR_CODES.subscriptionInactive);
+    assert.equal(typeof expired.body.message, 'string');
+
+    await setProfile(user.uid, { subscriptionStatus: 'canceled' });
+    const canceled = await server.request('GET', '/whoami', { token: user.token });
+    assert.equal(canceled.status, 403);
+    assert.equal(canceled.body.code, AUTH_ERROR_CODES.subscriptionInactive);
+  });
+
+  test('skips the subscription check when the router opts out', async () => {
+    await setProfile(user.uid, { subscriptionStatus: 'canceled' });
+    const response = await lenientServer.request('GET', '/whoami', { token: user.token });
+    assert.equal(response.status, 200);
+  });
+
+  test('is mounted by every registered module', async () => {
+    for (const { key, factory } of moduleRegistry) {
+      const moduleServer = await startModuleServer(factory);
+      try {
+        const response = await moduleServer.request('GET', '/');
+        assert.equal(response.status, 401, `module ${key} should require authentication`);
+        assert.equal(response.body.code, AUTH_ERROR_CODES.unauthenticated);
+      } finally {
+        await moduleServer.close();
+      }
+    }
+  });
+});
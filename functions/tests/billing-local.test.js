@@ -0,0 +1,136 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+process.env.BILLING_PROVIDER = 'local';
+
+const createCheckoutRouter = require('../src/shared/checkoutRouter');
+const accountFactory = require('../src/modules/account');
+const billingFactory = require('../src/modules/billing');
+
+const APP_ORIGIN = 'http://localhost:5173';
+
+describe('local billing provider', () => {
+  let checkout;
+  let account;
+  let billing;
+
+  const startCheckout = async overrides => {
+    const response = await checkout.request('POST', '/checkout/sessions', {
+      body: {
+        name: 'Assinante Local',
+        email: 'local@example.com',
+        successUrl: `${APP_ORIGIN}/assinatura/finalizar?session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: `${APP_ORIGIN}/assinatura`,
+        ...overrides,
+      },
+    });
+    assert.equal(response.status, 201);
+    return response.body;
+  };
+
+  const readProfile = async token => {
+    const response = await account.request('GET', '/profile', { token });
+    return response.body.profile;
+  };
+
+  before(async () => {
+    [checkout, account, billing] = await Promise.all([
+      startModuleServer(createCheckoutRouter, { parseJson: false }),
+      startModuleServer(accountFactory),
+      startModuleServer(billingFactory),
+    ]);
+  });
+
+  after(async () => {
+    await Promise.all([checkout.close(), account.close(), billing.close()]);
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+  });
+
+  test('runs signup, finalize and active profile without network', async () => {
+    const { sessionId, checkoutUrl } = await startCheckout();
+    assert.equal(checkoutUrl, `/checkout/local/${sessionId}`);
+
+    const page = await fetch(`${checkout.baseUrl}${checkoutUrl}`);
+    assert.equal(page.status, 200);
+    assert.match(await page.text(), /local@example\.com/);
+
+    const pending = await checkout.request('GET', `/checkout/sessions/${sessionId}`);
+    assert.equal(pending.body.paymentStatus, 'unpaid');
+
+    const paid = await checkout.request('POST', `${checkoutUrl}/paid`);
+    assert.equal(paid.status, 200);
+    assert.deepEqual(paid.body.events, ['checkout.session.completed', 'invoice.paid']);
+    assert.equal(
+      paid.body.redirectUrl,
+      `${APP_ORIGIN}/assinatura/finalizar?session_id=${sessionId}`
+    );
+
+    const status = await checkout.request('GET', `/checkout/sessions/${sessionId}`);
+    assert.equal(status.body.status, 'complete');
+    assert.equal(status.body.paymentStatus, 'paid');
+    assert.equal(status.body.customerEmail, 'local@example.com');
+
+    const user = await createTestUser('local@example.com');
+    const profile = await readProfile(user.token);
+    assert.equal(profile.subscriptionStatus, 'active');
+
+    const replay = await checkout.request('POST', `${checkoutUrl}/paid`);
+    assert.equal(replay.status, 409);
+  });
+
+  test('renews an existing account through the emitted webhook events', async () => {
+    const user = await createTestUser('local@example.com');
+    const { sessionId, checkoutUrl } = await startCheckout({
+      userId: user.uid,
+      context: 'renewal',
+      successUrl: `${APP_ORIGIN}/assinatura/renovar?session_id={CHECKOUT_SESSION_ID}`,
+    });
+
+    await checkout.request('POST', `${checkoutUrl}/paid`);
+    const profile = await readProfile(user.token);
+    assert.equal(profile.subscriptionStatus, 'active');
+    assert.ok(new Date(profile.activeUntil).getTime() > Date.now());
+
+    const renewed = await billing.request('POST', '/renew', {
+      token: user.token,
+      body: { sessionId },
+    });
+    assert.equal(renewed.status, 200);
+    assert.equal(renewed.body.profile.subscriptionStatus, 'active');
+  });
+
+  test('simulates a failed payment', async () => {
+    const user = await createTestUser('local@example.com');
+    const { sessionId, checkoutUrl } = await startCheckout({ userId: user.uid });
+
+    const failed = await checkout.request('POST', `${checkoutUrl}/failed`);
+    assert.equal(failed.status, 200);
+    assert.deepEqual(failed.body.events, ['invoice.payment_failed']);
+    assert.equal(failed.body.redirectUrl, `${APP_ORIGIN}/assinatura`);
+
+    const profile = await readProfile(user.token);
+    assert.equal(profile.subscriptionStatus, 'past_due');
+
+    const renewed = await billing.request('POST', '/renew', {
+      token: user.token,
+      body: { sessionId },
+    });
+    assert.equal(renewed.status, 400);
+
+    const invalid = await checkout.request('POST', `${checkoutUrl}/estorno`);
+    assert.equal(invalid.status, 400);
+  });
+});
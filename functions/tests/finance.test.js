@@ -0,0 +1,986 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const financeFactory = require('../src/modules/finance');
+
+const buildExpense = overrides => ({
+  description: 'Aluguel',
+  amount: 1500,
+  category: 'Moradia',
+  paymentMethod: 'pix',
+  date: '2024-01-31',
+  ...overrides,
+});
+
+describe('finance module', () => {
+  let server;
+  let user;
+
+  before(async () => {
+    server = await startModuleServer(financeFactory);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser();
+  });
+
+  test('rejects requests without token', async () => {
+    const response = await server.request('GET', '/expenses');
+    assert.equal(response.status, 401);
+  });
+
+  test('expands recurrences with the client schedule and links the series', async () => {
+    const response = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ recurrence: { frequency: 'monthly', occurrences: 3 } }),
+    });
+    assert.equal(response.status, 201);
+    const { items } = response.body;
+    assert.deepEqual(
+      items.map(item => item.date),
+      ['2024-01-31', '2024-02-29', '2024-03-31']
+    );
+    assert.equal(new Set(items.map(item => item.recurrenceId)).size, 1);
+    assert.deepEqual(
+      items.map(item => [item.recurrenceIndex, item.recurrenceTotal]),
+      [
+        [1, 3],
+        [2, 3],
+        [3, 3],
+      ]
+    );
+  });
+
+  test('creates every installment of a card purchase in one request', async () => {
+    const response = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({
+        amount: 100,
+        paymentMethod: 'credito',
+        cardId: 'cartao-1',
+        date: '2024-01-10',
+        installments: 3,
+      }),
+    });
+    assert.equal(response.status, 201);
+    const { items } = response.body;
+    assert.deepEqual(
+      items.map(item => [item.date, item.amount, item.recurrenceIndex, item.recurrenceTotal]),
+      [
+        ['2024-01-10', 33.34, 1, 3],
+        ['2024-02-10', 33.33, 2, 3],
+        ['2024-03-10', 33.33, 3, 3],
+      ]
+    );
+    assert.equal(new Set(items.map(item => item.recurrenceId)).size, 1);
+  });
+
+  test('keeps series metadata sent by the client without expanding again', async () => {
+    const response = await server.request('POST', '/incomes', {
+      token: user.token,
+      body: {
+        description: 'Projeto',
+        source: 'Cliente X',
+        category: 'Freelance',
+        amount: 800,
+        date: '2024-05-10',
+        recurrenceId: 'serie-1',
+        recurrenceIndex: 2,
+        recurrenceTotal: 4,
+      },
+    });
+    assert.equal(response.status, 201);
+    assert.equal(response.body.items.length, 1);
+    assert.equal(response.body.items[0].recurrenceId, 'serie-1');
+    assert.equal(response.body.items[0].recurrenceIndex, 2);
+  });
+
+  test('filters listings by year and month', async () => {
+    await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({
+        date: '2024-01-15',
+        recurrence: { frequency: 'monthly', occurrences: 14 },
+      }),
+    });
+
+    const month = await server.request('GET', '/expenses?year=2024&month=2', { token: user.token });
+    assert.equal(month.status, 200);
+    assert.deepEqual(
+      month.body.items.map(item => item.date),
+      ['2024-02-15']
+    );
+
+    const year = await server.request('GET', '/expenses?year=2025', { token: user.token });
+    assert.deepEqual(
+      year.body.items.map(item => item.date),
+      ['2025-02-15', '2025-01-15']
+    );
+
+    const all = await server.request('GET', '/expenses', { token: user.token });
+    assert.equal(all.body.items.length, 14);
+
+    const invalid = await server.request('GET', '/expenses?month=2', { token: user.token });
+    assert.equal(invalid.status, 400);
+  });
+
+  test('updates, validates and deletes records', async () => {
+    const created = await server.request('POST', '/investments', {
+      token: user.token,
+      body: {
+        description: 'CDB',
+        institution: 'Banco',
+        type: 'renda_fixa',
+        amount: 1000,
+        category: 'Renda fixa',
+        date: '2024-03-01',
+      },
+    });
+    const [investment] = created.body.items;
+
+    const invalid = await server.request('PATCH', `/investments/${investment.id}`, {
+      token: user.token,
+      body: { ...investment, type: 'cripto' },
+    });
+    assert.equal(invalid.status, 400);
+
+    const updated = await server.request('PATCH', `/investments/${investment.id}`, {
+      token: user.token,
+      body: { ...investment, amount: 1200 },
+    });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.amount, 1200);
+    assert.equal(updated.body.createdAt, investment.createdAt);
+    assert.equal(updated.body.revision, 2);
+
+    const removed = await server.request('DELETE', `/investments/${investment.id}`, {
+      token: user.token,
+    });
+    assert.equal(removed.status, 204);
+
+    const missing = await server.request('DELETE', `/investments/${investment.id}`, {
+      token: user.token,
+    });
+    assert.equal(missing.status, 404);
+  });
+
+  test('rejects stale edits with the current record', async () => {
+    const created = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: {
+        description: 'Internet',
+        category: 'Moradia',
+        paymentMethod: 'pix',
+        amount: 120,
+        date: '2024-04-10',
+      },
+    });
+    const [expense] = created.body.items;
+    assert.equal(expense.revision, 1);
+
+    const laptop = await server.request('PATCH', `/expenses/${expense.id}`, {
+      token: user.token,
+      body: { ...expense, amount: 130 },
+    });
+    assert.equal(laptop.status, 200);
+
+    const phone = await server.request('PATCH', `/expenses/${expense.id}`, {
+      token: user.token,
+      body: { ...expense, description: 'Internet fibra' },
+    });
+    assert.equal(phone.status, 409);
+    assert.equal(phone.body.current.amount, 130);
+    assert.equal(phone.body.current.revision, 2);
+
+    const missingRevision = await server.request('PATCH', `/expenses/${expense.id}`, {
+      token: user.token,
+      body: { ...expense, revision: undefined },
+    });
+    assert.equal(missingRevision.status, 400);
+
+    const listed = await server.request('GET', '/expenses', { token: user.token });
+    assert.equal(listed.body.items[0].description, 'Internet');
+  });
+
+  test('edits and resizes a series from one of its records', async () => {
+    const created = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ recurrence: { frequency: 'monthly', occurrences: 4 } }),
+    });
+    const [, second] = created.body.items;
+
+    const updated = await server.request('PATCH', `/expenses/series/${second.recurrenceId}`, {
+      token: user.token,
+      body: {
+        scope: 'following',
+        fromIndex: 2,
+        revision: second.revision,
+        total: 5,
+        record: { ...second, amount: 1600, date: '2024-02-10' },
+      },
+    });
+    assert.equal(updated.status, 200);
+    assert.deepEqual(
+      updated.body.items.map(item => [item.date, item.amount, item.recurrenceTotal]),
+      [
+        ['2024-01-31', 1500, 5],
+        ['2024-02-10', 1600, 5],
+        ['2024-03-10', 1600, 5],
+        ['2024-04-10', 1600, 5],
+        ['2024-05-10', 1600, 5],
+      ]
+    );
+
+    const stale = await server.request('PATCH', `/expenses/series/${second.recurrenceId}`, {
+      token: user.token,
+      body: { scope: 'all', fromIndex: 2, revision: second.revision, record: second },
+    });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.current.amount, 1600);
+
+    const removed = await server.request(
+      'DELETE',
+      `/expenses/series/${second.recurrenceId}?scope=following&fromIndex=3`,
+      { token: user.token }
+    );
+    assert.equal(removed.status, 200);
+    assert.equal(removed.body.removed.length, 3);
+
+    const listed = await server.request('GET', '/expenses', { token: user.token });
+    assert.deepEqual(
+      listed.body.items.map(item => item.recurrenceTotal),
+      [2, 2]
+    );
+  });
+
+  test('refuses weekly and business-day series outside a recurrence rule', async () => {
+    const weekly = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ recurrence: { frequency: 'weekly', occurrences: 4 } }),
+    });
+    assert.equal(weekly.status, 400);
+
+    const businessDay = await server.request('POST', '/incomes', {
+      token: user.token,
+      body: {
+        source: 'Empresa',
+        description: 'Salário',
+        amount: 5000,
+        category: 'Salário',
+        date: '2024-01-05',
+        recurrence: { frequency: 'business_day', occurrences: 3 },
+      },
+    });
+    assert.equal(businessDay.status, 400);
+
+    const expenses = await server.request('GET', '/expenses', { token: user.token });
+    assert.equal(expenses.body.items.length, 0);
+  });
+
+  test('materializes open-ended recurrences only up to the requested period', async () => {
+    const created = await server.request('POST', '/recurrences', {
+      token: user.token,
+      body: {
+        collection: 'expenses',
+        record: buildExpense({ description: 'Feira', date: '2024-01-01' }),
+        recurrence: { frequency: 'weekly', occurrences: null },
+      },
+    });
+    assert.equal(created.status, 201);
+    const ruleId = created.body.rule.id;
+    assert.deepEqual(
+      created.body.items.map(item => [item.date, item.recurrenceIndex, item.recurrenceTotal]),
+      [
+        ['2024-01-01', 1, null],
+        ['2024-01-08', 2, null],
+        ['2024-01-15', 3, null],
+        ['2024-01-22', 4, null],
+        ['2024-01-29', 5, null],
+      ]
+    );
+
+    const materialized = await server.request('POST', '/recurrences/materialize', {
+      token: user.token,
+      body: { year: 2024, month: 3 },
+    });
+    assert.equal(materialized.body.items.expenses.length, 8);
+    assert.equal(materialized.body.rules[0].materializedCount, 13);
+
+    const repeated = await server.request('POST', '/recurrences/materialize', {
+      token: user.token,
+      body: { year: 2024, month: 3 },
+    });
+    assert.deepEqual(repeated.body.items.expenses, []);
+
+    const ended = await server.request(
+      'DELETE',
+      `/expenses/series/${ruleId}?scope=following&fromIndex=3`,
+      { token: user.token }
+    );
+    assert.equal(ended.body.removed.length, 11);
+    assert.equal(ended.body.rule.occurrences, 2);
+
+    const salary = await server.request('POST', '/recurrences', {
+      token: user.token,
+      body: {
+        collection: 'incomes',
+        record: {
+          source: 'Empresa',
+          description: 'Salário',
+          category: 'Salário',
+          amount: 5000,
+          date: '2024-01-10',
+        },
+        recurrence: { frequency: 'business_day', businessDay: 5, occurrences: 12 },
+      },
+    });
+    assert.deepEqual(
+      salary.body.items.map(item => item.date),
+      ['2024-02-07']
+    );
+  });
+
+  test('manages categories', async () => {
+    const defaults = await server.request('GET', '/categories', { token: user.token });
+    const housing = defaults.body.categories.expenses.find(item => item.name === 'Moradia');
+    assert.equal(housing.id, 'moradia');
+    assert.equal(housing.parentId, null);
+
+    const added = await server.request('POST', '/categories/expenses', {
+      token: user.token,
+      body: { category: { id: 'aluguel', name: 'Aluguel', parentId: 'moradia', icon: '🏠' } },
+    });
+    assert.equal(added.status, 201);
+    assert.equal(added.body.category.parentId, 'moradia');
+
+    await server.request('POST', '/categories/expenses', {
+      token: user.token,
+      body: { category: 'Pets' },
+    });
+    const afterAdd = await server.request('GET', '/categories', { token: user.token });
+    const names = afterAdd.body.categories.expenses.map(item => item.name);
+    assert.ok(names.includes('Pets'));
+    assert.ok(names.includes('Aluguel'));
+
+    const duplicate = await server.request('POST', '/categories/expenses', {
+      token: user.token,
+      body: { category: 'pets' },
+    });
+    assert.equal(duplicate.status, 409);
+
+    const invalidGroup = await server.request('POST', '/categories/outros', {
+      token: user.token,
+      body: { category: 'Pets' },
+    });
+    assert.equal(invalidGroup.status, 400);
+  });
+
+  test('renames and merges categories rewriting the records that use them', async () => {
+    await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ description: 'Almoço', category: 'Alimentação' }),
+    });
+    await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ description: 'Pizza', category: 'Delivery' }),
+    });
+    await server.request('POST', '/categories/expenses', {
+      token: user.token,
+      body: { category: { id: 'delivery', name: 'Delivery', parentId: 'alimentacao' } },
+    });
+    await server.request('PUT', '/planner', {
+      token: user.token,
+      body: { year: 2024, month: 1, allocations: { Alimentação: 20, Delivery: 5 }, goals: [] },
+    });
+    const created = await server.request('POST', '/investments', {
+      token: user.token,
+      body: {
+        description: 'CDB',
+        institution: 'Banco',
+        type: 'renda_fixa',
+        amount: 1000,
+        category: 'Renda fixa',
+        date: '2024-01-10',
+      },
+    });
+    const [investment] = created.body.items;
+    assert.equal(investment.category, 'Renda fixa');
+
+    const renamed = await server.request('PATCH', '/categories/expenses/alimentacao', {
+      token: user.token,
+      body: { name: 'Comida', color: '#ff9f1c' },
+    });
+    assert.equal(renamed.status, 200);
+    assert.equal(renamed.body.items.length, 1);
+    assert.equal(renamed.body.items[0].category, 'Comida');
+    assert.equal(renamed.body.items[0].revision, 2);
+    assert.equal(renamed.body.items[0].description, 'Almoço');
+
+    const merged = await server.request('POST', '/categories/expenses/delivery/merge', {
+      token: user.token,
+      body: { targetId: 'alimentacao' },
+    });
+    assert.equal(merged.status, 200);
+    assert.ok(!merged.body.categories.expenses.some(item => item.id === 'delivery'));
+
+    const expenses = await server.request('GET', '/expenses', { token: user.token });
+    assert.deepEqual(
+      expenses.body.items.map(item => item.category),
+      ['Comida', 'Comida']
+    );
+    const planner = await server.request('GET', '/planner?year=2024&month=1', {
+      token: user.token,
+    });
+    assert.deepEqual(planner.body.allocations, { Comida: 25 });
+
+    const investmentRenamed = await server.request('PATCH', '/categories/investments/renda-fixa', {
+      token: user.token,
+      body: { name: 'Tesouro' },
+    });
+    assert.equal(investmentRenamed.status, 200);
+    assert.deepEqual(
+      investmentRenamed.body.items.map(item => [item.id, item.category]),
+      [[investment.id, 'Tesouro']]
+    );
+    const investmentMerged = await server.request(
+      'POST',
+      '/categories/investments/renda-fixa/merge',
+      { token: user.token, body: { targetId: 'renda-variavel' } }
+    );
+    assert.equal(investmentMerged.status, 200);
+    const investments = await server.request('GET', '/investments', { token: user.token });
+    assert.deepEqual(
+      investments.body.items.map(item => item.category),
+      ['Renda variável']
+    );
+
+    const conflict = await server.request('PATCH', '/categories/expenses/moradia', {
+      token: user.token,
+      body: { name: 'comida' },
+    });
+    assert.equal(conflict.status, 409);
+  });
+
+  test('replaces category rules and drops invalid entries', async () => {
+    const empty = await server.request('GET', '/category-rules', { token: user.token });
+    assert.deepEqual(empty.body.rules, []);
+
+    const saved = await server.request('PUT', '/category-rules', {
+      token: user.token,
+      body: {
+        rules: [
+          {
+            group: 'expenses',
+            field: 'description',
+            operator: 'contains',
+            value: 'uber',
+            category: 'Transporte',
+          },
+          {
+            group: 'incomes',
+            field: 'source',
+            operator: 'equals',
+            value: 'Empresa X',
+            category: 'Salário',
+          },
+          { group: 'expenses', field: 'source', operator: 'equals', value: 'X', category: 'Y' },
+        ],
+      },
+    });
+    assert.equal(saved.status, 200);
+    assert.equal(saved.body.rules.length, 2);
+    assert.ok(saved.body.rules.every(rule => rule.id));
+
+    const loaded = await server.request('GET', '/category-rules', { token: user.token });
+    assert.equal(loaded.body.rules[1].category, 'Salário');
+
+    const invalid = await server.request('PUT', '/category-rules', {
+      token: user.token,
+      body: { rules: 'uber' },
+    });
+    assert.equal(invalid.status, 400);
+  });
+
+  test('stores credit cards and links credit expenses to them', async () => {
+    const saved = await server.request('PUT', '/credit-cards', {
+      token: user.token,
+      body: {
+        cards: [
+          { id: 'nubank', name: 'Nubank', closingDay: 3, dueDay: 10 },
+          { name: 'Sem dias', closingDay: 0, dueDay: 40 },
+        ],
+      },
+    });
+    assert.equal(saved.status, 200);
+    assert.deepEqual(saved.body.cards, [
+      { id: 'nubank', name: 'Nubank', closingDay: 3, dueDay: 10 },
+    ]);
+
+    const created = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ paymentMethod: 'credito', cardId: 'nubank' }),
+    });
+    assert.equal(created.body.items[0].cardId, 'nubank');
+
+    const pix = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ paymentMethod: 'pix', cardId: 'nubank' }),
+    });
+    assert.equal(pix.body.items[0].cardId, null);
+  });
+
+  test('stores accounts and records transfers between them', async () => {
+    const saved = await server.request('PUT', '/accounts', {
+      token: user.token,
+      body: {
+        accounts: [
+          { id: 'corrente', name: 'Conta corrente', type: 'corrente', initialBalance: 1000 },
+          { id: 'corretora', name: 'Corretora', type: 'corretora' },
+          { name: 'Sem tipo', type: 'cofre' },
+        ],
+      },
+    });
+    assert.equal(saved.status, 200);
+    assert.deepEqual(saved.body.accounts, [
+      { id: 'corrente', name: 'Conta corrente', type: 'corrente', initialBalance: 1000 },
+      { id: 'corretora', name: 'Corretora', type: 'corretora', initialBalance: 0 },
+    ]);
+
+    const expense = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ accountId: 'corrente' }),
+    });
+    assert.equal(expense.body.items[0].accountId, 'corrente');
+
+    const sameAccount = await server.request('POST', '/transfers', {
+      token: user.token,
+      body: { fromAccountId: 'corrente', toAccountId: 'corrente', amount: 100, date: '2024-02-01' },
+    });
+    assert.equal(sameAccount.status, 400);
+
+    const transfer = await server.request('POST', '/transfers', {
+      token: user.token,
+      body: {
+        fromAccountId: 'corrente',
+        toAccountId: 'corretora',
+        amount: 300,
+        date: '2024-02-01',
+      },
+    });
+    assert.equal(transfer.status, 201);
+    assert.equal(transfer.body.items[0].description, 'Transferência');
+
+    const listed = await server.request('GET', '/transfers?year=2024&month=2', {
+      token: user.token,
+    });
+    assert.equal(listed.body.items.length, 1);
+    assert.equal(listed.body.items[0].toAccountId, 'corretora');
+
+    const removed = await server.request('DELETE', `/transfers/${transfer.body.items[0].id}`, {
+      token: user.token,
+    });
+    assert.equal(removed.status, 204);
+  });
+
+  test('tracks portfolio positions, withdrawals and market valuations', async () => {
+    const saved = await server.request('PUT', '/positions', {
+      token: user.token,
+      body: {
+        positions: [
+          { id: 'tesouro', name: 'Tesouro IPCA', institution: 'Tesouro', type: 'renda_fixa' },
+          { name: 'Sem tipo', type: 'cripto' },
+        ],
+      },
+    });
+    assert.equal(saved.status, 200);
+    assert.deepEqual(saved.body.positions, [
+      { id: 'tesouro', name: 'Tesouro IPCA', institution: 'Tesouro', type: 'renda_fixa' },
+    ]);
+
+    const withdrawal = await server.request('POST', '/investments', {
+      token: user.token,
+      body: {
+        description: 'Tesouro IPCA',
+        institution: 'Tesouro',
+        type: 'renda_fixa',
+        amount: 200,
+        category: 'Renda fixa',
+        date: '2024-03-01',
+        positionId: 'tesouro',
+        movement: 'resgate',
+      },
+    });
+    assert.equal(withdrawal.status, 201);
+    assert.equal(withdrawal.body.items[0].movement, 'resgate');
+    assert.equal(withdrawal.body.items[0].positionId, 'tesouro');
+
+    const invalidMovement = await server.request('POST', '/investments', {
+      token: user.token,
+      body: { ...withdrawal.body.items[0], movement: 'dividendo' },
+    });
+    assert.equal(invalidMovement.status, 400);
+
+    const valuation = await server.request('POST', '/valuations', {
+      token: user.token,
+      body: { positionId: 'tesouro', marketValue: '1050.456', date: '2024-03-31' },
+    });
+    assert.equal(valuation.status, 201);
+    assert.equal(valuation.body.items[0].marketValue, 1050.46);
+
+    const listed = await server.request('GET', '/valuations?year=2024&month=3', {
+      token: user.token,
+    });
+    assert.equal(listed.body.items.length, 1);
+  });
+
+  test('stores the income-tax flags for categories', async () => {
+    const empty = await server.request('GET', '/tax-settings', { token: user.token });
+    assert.equal(empty.status, 200);
+    assert.deepEqual(empty.body.taxSettings, {
+      deductibleCategories: [],
+      exemptIncomeCategories: [],
+    });
+
+    const saved = await server.request('PUT', '/tax-settings', {
+      token: user.token,
+      body: {
+        taxSettings: {
+          deductibleCategories: [
+            { category: 'Saúde', kind: 'educacao' },
+            { category: 'Saúde', kind: 'saude' },
+            { category: 'Lazer', kind: 'viagem' },
+          ],
+          exemptIncomeCategories: ['Dividendos', 'Dividendos', ''],
+        },
+      },
+    });
+    assert.equal(saved.status, 200);
+    assert.deepEqual(saved.body.taxSettings, {
+      deductibleCategories: [{ category: 'Saúde', kind: 'saude' }],
+      exemptIncomeCategories: ['Dividendos'],
+    });
+
+    const loaded = await server.request('GET', '/tax-settings', { token: user.token });
+    assert.deepEqual(loaded.body.taxSettings, saved.body.taxSettings);
+  });
+
+  test('saves and loads the planner by year and month', async () => {
+    const saved = await server.request('PUT', '/planner', {
+      token: user.token,
+      body: {
+        year: 2024,
+        month: 6,
+        allocations: { Moradia: 30, Lazer: 150 },
+        goals: [{ id: 'meta', label: 'Viagem', amount: 5000, monthlyReserve: 500 }],
+      },
+    });
+    assert.equal(saved.status, 204);
+
+    const loaded = await server.request('GET', '/planner?year=2024&month=6', {
+      token: user.token,
+    });
+    assert.equal(loaded.body.periodKey, '2024-06');
+    assert.deepEqual(loaded.body.allocations, { Moradia: 30, Lazer: 100 });
+    assert.equal(loaded.body.goals[0].label, 'Viagem');
+
+    const missingPeriod = await server.request('PUT', '/planner', {
+      token: user.token,
+      body: { allocations: {} },
+    });
+    assert.equal(missingPeriod.status, 400);
+  });
+
+  test('keeps carried-over balances and goal links, following category renames', async () => {
+    await server.request('PUT', '/planner', {
+      token: user.token,
+      body: {
+        year: 2024,
+        month: 7,
+        allocations: { Moradia: 40 },
+        carryOver: { Moradia: 120.456, Lazer: -30, Transporte: 'x' },
+        goals: [
+          {
+            id: 'viagem',
+            label: 'Viagem',
+            amount: 6000,
+            monthlyReserve: 500,
+            targetDate: '2025-06',
+            link: { type: 'category', value: 'Renda fixa' },
+          },
+          {
+            id: 'carro',
+            label: 'Carro',
+            amount: 20000,
+            monthlyReserve: 800,
+            targetDate: '2025-13',
+            link: { type: 'conta', value: 'x' },
+          },
+        ],
+      },
+    });
+
+    const loaded = await server.request('GET', '/planner?year=2024&month=7', {
+      token: user.token,
+    });
+    assert.deepEqual(loaded.body.carryOver, { Moradia: 120.46 });
+    assert.deepEqual(
+      loaded.body.goals.map(goal => [goal.id, goal.targetDate, goal.link]),
+      [
+        ['viagem', '2025-06', { type: 'category', value: 'Renda fixa' }],
+        ['carro', null, null],
+      ]
+    );
+
+    await server.request('POST', '/investments', {
+      token: user.token,
+      body: {
+        description: 'Tesouro Selic',
+        institution: 'Tesouro',
+        type: 'renda_fixa',
+        amount: 800,
+        category: 'Renda fixa',
+        date: '2024-07-05',
+      },
+    });
+
+    await server.request('PATCH', '/categories/expenses/moradia', {
+      token: user.token,
+      body: { name: 'Casa' },
+    });
+    await server.request('PATCH', '/categories/investments/renda-fixa', {
+      token: user.token,
+      body: { name: 'Tesouro' },
+    });
+
+    const renamed = await server.request('GET', '/planner?year=2024&month=7', {
+      token: user.token,
+    });
+    assert.deepEqual(renamed.body.allocations, { Casa: 40 });
+    assert.deepEqual(renamed.body.carryOver, { Casa: 120.46 });
+    assert.deepEqual(renamed.body.goals[0].link, { type: 'category', value: 'Tesouro' });
+    // O planner soma os aportes cuja categoria é o valor do vínculo.
+    const investments = await server.request('GET', '/investments', { token: user.token });
+    assert.deepEqual(
+      investments.body.items
+        .filter(item => item.category === renamed.body.goals[0].link.value)
+        .map(item => item.amount),
+      [800]
+    );
+  });
+
+  test('alerts once per threshold when an expense exceeds its planner share', async () => {
+    await server.request('PUT', '/planner', {
+      token: user.token,
+      body: { year: 2024, month: 3, allocations: { Moradia: 50, Lazer: 10 }, goals: [] },
+    });
+    await server.request('POST', '/incomes', {
+      token: user.token,
+      body: {
+        description: 'Salário',
+        source: 'Empresa',
+        category: 'Salário',
+        amount: 4000,
+        date: '2024-03-05',
+      },
+    });
+    const settings = await server.request('PUT', '/budget-alerts', {
+      token: user.token,
+      body: { budgetAlerts: [{ category: 'Moradia', thresholds: [100, 50, 50, -10] }] },
+    });
+    assert.deepEqual(settings.body.budgetAlerts, [{ category: 'Moradia', thresholds: [50, 100] }]);
+
+    const below = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ amount: 900, date: '2024-03-10' }),
+    });
+    assert.deepEqual(below.body.alerts, []);
+
+    const crossing = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ amount: 1200, date: '2024-03-12' }),
+    });
+    assert.deepEqual(
+      crossing.body.alerts.map(alert => [alert.id, alert.threshold]),
+      [
+        ['budget-2024-03-moradia-50', 50],
+        ['budget-2024-03-moradia-100', 100],
+      ]
+    );
+
+    const leisure = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ category: 'Lazer', amount: 350, date: '2024-03-15' }),
+    });
+    assert.deepEqual(
+      leisure.body.alerts.map(alert => alert.threshold),
+      [80]
+    );
+
+    const inbox = await server.request('GET', '/notifications', { token: user.token });
+    assert.equal(inbox.body.items.length, 3);
+    assert.ok(inbox.body.items.every(item => item.read === false));
+
+    const read = await server.request('POST', '/notifications/read', {
+      token: user.token,
+      body: { ids: ['budget-2024-03-moradia-50'] },
+    });
+    assert.equal(read.status, 204);
+    const removed = await server.request('DELETE', '/notifications/budget-2024-03-moradia-100', {
+      token: user.token,
+    });
+    assert.equal(removed.status, 204);
+
+    const updated = await server.request('GET', '/notifications', { token: user.token });
+    assert.deepEqual(
+      updated.body.items.map(item => [item.id, item.read]).sort(),
+      [
+        ['budget-2024-03-lazer-80', false],
+        ['budget-2024-03-moradia-50', true],
+      ]
+    );
+  });
+
+  test('validates attachment uploads before touching storage', async () => {
+    const created = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense(),
+    });
+    const [expense] = created.body.items;
+    const upload = body =>
+      server.request('POST', `/expenses/${expense.id}/attachments`, { token: user.token, body });
+
+    const unsupported = await upload({
+      data: Buffer.from('texto').toString('base64'),
+      contentType: 'text/plain',
+      fileName: 'nota.txt',
+    });
+    assert.equal(unsupported.status, 415);
+
+    const empty = await upload({ data: '', contentType: 'application/pdf' });
+    assert.equal(empty.status, 400);
+
+    const missingRecord = await server.request('POST', '/expenses/inexistente/attachments', {
+      token: user.token,
+      body: { data: Buffer.from('%PDF').toString('base64'), contentType: 'application/pdf' },
+    });
+    assert.equal(missingRecord.status, 404);
+
+    const missingAttachment = await server.request(
+      'DELETE',
+      `/expenses/${expense.id}/attachments/inexistente`,
+      { token: user.token }
+    );
+    assert.equal(missingAttachment.status, 404);
+
+    const removed = await server.request('DELETE', `/expenses/${expense.id}`, {
+      token: user.token,
+    });
+    assert.equal(removed.status, 204);
+  });
+
+  test('restores a backup, replacing records, settings and planners', async () => {
+    const created = await server.request('POST', '/expenses', {
+      token: user.token,
+      body: buildExpense({ description: 'Antigo' }),
+    });
+    const [previous] = created.body.items;
+    await server.request('PUT', '/planner', {
+      token: user.token,
+      body: { year: 2024, month: 1, allocations: { Moradia: 40 }, goals: [] },
+    });
+
+    const state = {
+      expenses: [
+        { ...buildExpense({ description: 'Mercado', category: 'Casa' }), id: 'gasto-1' },
+        { ...previous, amount: 1800 },
+      ],
+      incomes: [
+        {
+          id: 'receita-1',
+          source: 'Empresa',
+          description: 'Salário',
+          amount: 5000,
+          category: 'Salário',
+          date: '2024-02-05',
+        },
+      ],
+      categories: { expenses: [{ id: 'casa', name: 'Casa' }] },
+      accounts: [{ id: 'conta', name: 'Banco', type: 'corrente', initialBalance: 100 }],
+      budgetAlerts: [{ category: 'Casa', thresholds: [90] }],
+    };
+    const planners = {
+      '2024-02': {
+        allocations: { Casa: 60 },
+        goals: [{ id: 'g', label: 'Reserva', amount: 1000, monthlyReserve: 100 }],
+      },
+    };
+
+    const unsupported = await server.request('POST', '/restore', {
+      token: user.token,
+      body: { version: 99, state, planners },
+    });
+    assert.equal(unsupported.status, 400);
+
+    const invalid = await server.request('POST', '/restore', {
+      token: user.token,
+      body: { version: 1, state: { expenses: [{ id: 'x', description: 'Sem valor' }] } },
+    });
+    assert.equal(invalid.status, 400);
+    assert.match(invalid.body.message, /expenses #1/);
+    const untouched = await server.request('GET', '/expenses', { token: user.token });
+    assert.deepEqual(
+      untouched.body.items.map(item => item.description),
+      ['Antigo']
+    );
+
+    const restored = await server.request('POST', '/restore', {
+      token: user.token,
+      body: { version: 1, exportedAt: '2024-03-01T00:00:00.000Z', state, planners },
+    });
+    assert.equal(restored.status, 200);
+    assert.equal(restored.body.restored.expenses, 2);
+    assert.equal(restored.body.restored.planners, 1);
+    const status = await server.request('GET', '/restore', { token: user.token });
+    assert.equal(status.body.restore, null);
+
+    const expenses = await server.request('GET', '/expenses', { token: user.token });
+    assert.deepEqual(
+      expenses.body.items.map(item => [item.id, item.amount]).sort(),
+      [
+        [previous.id, 1800],
+        ['gasto-1', 1500],
+      ].sort()
+    );
+    assert.equal(
+      expenses.body.items.find(item => item.id === previous.id).revision,
+      previous.revision + 1
+    );
+
+    const categories = await server.request('GET', '/categories', { token: user.token });
+    assert.deepEqual(
+      categories.body.categories.expenses.map(category => category.name),
+      ['Casa']
+    );
+    const budgetAlerts = await server.request('GET', '/budget-alerts', { token: user.token });
+    assert.deepEqual(budgetAlerts.body.budgetAlerts, [{ category: 'Casa', thresholds: [90] }]);
+
+    const plannerList = await server.request('GET', '/planners', { token: user.token });
+    assert.deepEqual(Object.keys(plannerList.body.planners), ['2024-02']);
+    assert.deepEqual(plannerList.body.planners['2024-02'].allocations, { Casa: 60 });
+  });
+});
@@ -0,0 +1,84 @@
+const express = require('express');
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'painel-administrativo-br';
+
+const assertEmulatorsRunning = () => {
+  const missing = ['FIRESTORE_EMULATOR_HOST', 'FIREBASE_AUTH_EMULATOR_HOST'].filter(
+    key => !process.env[key]
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Emuladores não detectados (${missing.join(', ')}). Rode "npm run test:emulators".`
+    );
+  }
+};
+
+const startModuleServer = async (factory, { parseJson = true } = {}) => {
+  const app = express();
+  if (parseJson) {
+    app.use(express.json());
+  }
+  app.use(factory());
+  const server = await new Promise(resolve => {
+    const instance = app.listen(0, () => resolve(instance));
+  });
+  const { port } = server.address();
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  const request = async (method, path, { token, body, headers } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers,
+      },
+      body: body === undefined || typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  const close = () => new Promise(resolve => server.close(resolve));
+
+  return { baseUrl, request, close };
+};
+
+const createTestUser = async (email = `user-${Date.now()}@example.com`) => {
+  const response = await fetch(
+    `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=emulator`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password: 'senha-de-teste', returnSecureToken: true }),
+    }
+  );
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Falha ao criar usuário no emulador: ${JSON.stringify(data)}`);
+  }
+  return { uid: data.localId, token: data.idToken, email };
+};
+
+const clearFirestore = async () => {
+  await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+};
+
+const clearAuth = async () => {
+  await fetch(
+    `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/accounts`,
+    { method: 'DELETE' }
+  );
+};
+
+module.exports = {
+  PROJECT_ID,
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+};
@@ -0,0 +1,87 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const notesFactory = require('../src/modules/notes');
+const calendarFactory = require('../src/modules/calendar');
+
+describe('notes and calendar modules', () => {
+  let notesServer;
+  let calendarServer;
+  let user;
+
+  before(async () => {
+    [notesServer, calendarServer] = await Promise.all([
+      startModuleServer(notesFactory),
+      startModuleServer(calendarFactory),
+    ]);
+  });
+
+  after(async () => {
+    await Promise.all([notesServer.close(), calendarServer.close()]);
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser();
+  });
+
+  test('validates note tags and pinned flag', async () => {
+    const invalidTags = await notesServer.request('POST', '/', {
+      token: user.token,
+      body: { title: 'Ideias', tags: 'trabalho' },
+    });
+    assert.equal(invalidTags.status, 400);
+
+    const created = await notesServer.request('POST', '/', {
+      token: user.token,
+      body: { title: 'Ideias', tags: ['trabalho', 'trabalho', ' foco '], pinned: true },
+    });
+    assert.equal(created.status, 201);
+    assert.deepEqual(created.body.note.tags, ['trabalho', 'foco']);
+
+    const invalidPinned = await notesServer.request('PATCH', `/${created.body.note.id}`, {
+      token: user.token,
+      body: { pinned: 'sim' },
+    });
+    assert.equal(invalidPinned.status, 400);
+
+    const updated = await notesServer.request('PATCH', `/${created.body.note.id}`, {
+      token: user.token,
+      body: { content: 'Nova versão' },
+    });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.content, 'Nova versão');
+    assert.equal(updated.body.title, undefined);
+  });
+
+  test('rejects unknown calendar tags and malformed dates', async () => {
+    const invalidTag = await calendarServer.request('POST', '/', {
+      token: user.token,
+      body: { date: '2024-05-10', time: '09:00', title: 'Treino', tag: 'Esporte' },
+    });
+    assert.equal(invalidTag.status, 400);
+
+    const invalidDate = await calendarServer.request('POST', '/', {
+      token: user.token,
+      body: { date: '10/05/2024', time: '09:00', title: 'Treino', tag: 'Saúde' },
+    });
+    assert.equal(invalidDate.status, 400);
+
+    const created = await calendarServer.request('POST', '/', {
+      token: user.token,
+      body: { date: '2024-05-10', time: '09:00', title: 'Treino', tag: 'Saúde' },
+    });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.event.tag, 'Saúde');
+  });
+});
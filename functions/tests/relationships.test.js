@@ -0,0 +1,103 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const relationshipsFactory = require('../src/modules/relationships');
+
+describe('relationships module', () => {
+  let server;
+  let user;
+
+  const createContact = async overrides =>
+    server.request('POST', '/', {
+      token: user.token,
+      body: { name: 'Ana Souza', company: 'Acme', stage: 'Oportunidade', ...overrides },
+    });
+
+  before(async () => {
+    server = await startModuleServer(relationshipsFactory);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser();
+  });
+
+  test('rejects unknown stage, priority and channel values', async () => {
+    const invalidStage = await createContact({ stage: 'Perdido' });
+    assert.equal(invalidStage.status, 400);
+
+    const invalidChannel = await createContact({
+      interactions: [{ date: '2024-05-01T10:00:00.000Z', channel: 'Fax', summary: 'Oi' }],
+    });
+    assert.equal(invalidChannel.status, 400);
+
+    const created = await createContact();
+    assert.equal(created.status, 201);
+    assert.equal(created.body.contact.priority, 'Média');
+
+    const invalidPriority = await server.request('PATCH', `/${created.body.contact.id}`, {
+      token: user.token,
+      body: { priority: 'Urgente' },
+    });
+    assert.equal(invalidPriority.status, 400);
+  });
+
+  test('derives lastInteraction from the initial history', async () => {
+    const created = await createContact({
+      interactions: [
+        { date: '2024-05-01T10:00:00.000Z', channel: 'Ligação', summary: 'Primeiro contato' },
+        { date: '2024-05-03T10:00:00.000Z', channel: 'E-mail', summary: 'Proposta' },
+      ],
+    });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.contact.lastInteraction, '2024-05-03T10:00:00.000Z');
+    assert.equal(created.body.contact.interactions[0].summary, 'Proposta');
+  });
+
+  test('appends interactions and updates the follow-up in the same write', async () => {
+    const created = await createContact({ nextAction: '2024-06-01' });
+    const { id } = created.body.contact;
+
+    const invalid = await server.request('POST', `/${id}/interactions`, {
+      token: user.token,
+      body: { channel: 'Telegrama', summary: 'Teste' },
+    });
+    assert.equal(invalid.status, 400);
+
+    const responses = await Promise.all(
+      ['Reunião', 'Mensagem'].map(channel =>
+        server.request('POST', `/${id}/interactions`, {
+          token: user.token,
+          body: { channel, summary: `Contato por ${channel}`, nextAction: '2024-06-10' },
+        })
+      )
+    );
+    responses.forEach(response => assert.equal(response.status, 200));
+
+    const listed = await server.request('GET', '/', { token: user.token });
+    const [contact] = listed.body.contacts;
+    assert.equal(contact.interactions.length, 2);
+    assert.equal(contact.nextAction, '2024-06-10');
+    assert.equal(contact.lastInteraction, contact.interactions[0].date);
+
+    const missing = await server.request('POST', '/inexistente/interactions', {
+      token: user.token,
+      body: { channel: 'Ligação', summary: 'Teste' },
+    });
+    assert.equal(missing.status, 404);
+  });
+});
@@ -0,0 +1,116 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+const fs = require('node:fs');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const WEBHOOK_SECRET = 'whsec_test_fixture';
+process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+
+const { express, firestore, Stripe } = require('../src/shared/base');
+const { createStripeWebhookHandler } = require('../src/shared/stripeWebhook');
+
+const loadFixture = name =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'stripe', `${name}.json`), 'utf8');
+
+const signPayload = payload =>
+  Stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+const webhookFactory = () => {
+  const router = express.Router();
+  router.post('/', express.raw({ type: 'application/json' }), createStripeWebhookHandler());
+  return router;
+};
+
+describe('stripe webhook', () => {
+  let server;
+  let user;
+
+  const sendEvent = (name, { signature } = {}) => {
+    const payload = loadFixture(name);
+    return server.request('POST', '/', {
+      body: payload,
+      headers: { 'Stripe-Signature': signature ?? signPayload(payload) },
+    });
+  };
+
+  const readProfile = async () => {
+    const snapshot = await firestore.collection('users').doc(user.uid).get();
+    return snapshot.data() ?? {};
+  };
+
+  before(async () => {
+    server = await startModuleServer(webhookFactory, { parseJson: false });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser('assinante@example.com');
+  });
+
+  test('rejects payloads without a valid signature', async () => {
+    const response = await sendEvent('invoice.paid', { signature: 't=1,v1=invalida' });
+    assert.equal(response.status, 400);
+  });
+
+  test('activates the subscription after checkout and links the customer', async () => {
+    const response = await sendEvent('checkout.session.completed');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, 'applied');
+
+    const profile = await readProfile();
+    assert.equal(profile.subscriptionStatus, 'active');
+    assert.equal(profile.stripeCustomerId, 'cus_PkFixture');
+    assert.equal(profile.activeUntil, '2024-07-01T12:00:00.000Z');
+  });
+
+  test('follows the invoice lifecycle until cancellation', async () => {
+    await sendEvent('checkout.session.completed');
+
+    await sendEvent('invoice.paid');
+    let profile = await readProfile();
+    assert.equal(profile.subscriptionStatus, 'active');
+    assert.equal(profile.activeUntil, '2024-08-01T12:00:00.000Z');
+
+    await sendEvent('invoice.payment_failed');
+    profile = await readProfile();
+    assert.equal(profile.subscriptionStatus, 'past_due');
+
+    await sendEvent('customer.subscription.deleted');
+    profile = await readProfile();
+    assert.equal(profile.subscriptionStatus, 'canceled');
+    assert.equal(profile.canceledAt, '2024-08-08T12:00:00.000Z');
+  });
+
+  test('ignores redelivered events', async () => {
+    await sendEvent('checkout.session.completed');
+    await sendEvent('customer.subscription.deleted');
+
+    const redelivered = await sendEvent('checkout.session.completed');
+    assert.equal(redelivered.status, 200);
+    assert.equal(redelivered.body.status, 'duplicate');
+
+    const profile = await readProfile();
+    assert.equal(profile.subscriptionStatus, 'canceled');
+  });
+
+  test('acknowledges events for unknown customers without touching profiles', async () => {
+    await clearAuth();
+    const response = await sendEvent('invoice.paid');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, 'unmatched');
+  });
+});
@@ -0,0 +1,155 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const tasksFactory = require('../src/modules/tasks');
+
+describe('tasks module', () => {
+  let server;
+  let user;
+
+  const createTask = async overrides => {
+    const response = await server.request('POST', '/', {
+      token: user.token,
+      body: {
+        title: 'Revisar contrato',
+        dueDate: '2024-07-01',
+        priority: 'do_first',
+        ...overrides,
+      },
+    });
+    return response.body.task;
+  };
+
+  before(async () => {
+    server = await startModuleServer(tasksFactory);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser();
+  });
+
+  test('awards completion points only once per task', async () => {
+    const task = await createTask();
+
+    const completed = await server.request('PATCH', `/${task.id}/status`, {
+      token: user.token,
+      body: { status: 'completed' },
+    });
+    assert.equal(completed.status, 200);
+    assert.equal(completed.body.gamification.totalPoints, 10);
+    assert.equal(completed.body.gamification.streak, 1);
+
+    await server.request('PATCH', `/${task.id}/status`, {
+      token: user.token,
+      body: { status: 'open' },
+    });
+    const recompleted = await server.request('PATCH', `/${task.id}/status`, {
+      token: user.token,
+      body: { status: 'completed' },
+    });
+    assert.equal(recompleted.body.gamification.totalPoints, 10);
+
+    const gamification = await server.request('GET', '/gamification', { token: user.token });
+    assert.equal(gamification.body.gamification.totalPoints, 10);
+    assert.equal(gamification.body.gamification.level, 1);
+  });
+
+  test('ignores client-provided counters on create and update', async () => {
+    const task = await createTask({ pomodoros: 99 });
+    assert.equal(task.pomodoros, 0);
+
+    const updated = await server.request('PATCH', `/${task.id}`, {
+      token: user.token,
+      body: { title: 'Novo título', pomodoros: 50, status: 'completed', revision: task.revision },
+    });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.pomodoros, undefined);
+    assert.equal(updated.body.status, undefined);
+
+    const gamification = await server.request('GET', '/gamification', { token: user.token });
+    assert.equal(gamification.body.gamification.totalPoints, 0);
+  });
+
+  test('detects edits made from a stale revision', async () => {
+    const task = await createTask();
+    assert.equal(task.revision, 1);
+
+    const completed = await server.request('PATCH', `/${task.id}/status`, {
+      token: user.token,
+      body: { status: 'completed' },
+    });
+    assert.equal(completed.body.revision, 2);
+
+    const stale = await server.request('PATCH', `/${task.id}`, {
+      token: user.token,
+      body: { title: 'Título do celular', revision: task.revision },
+    });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.current.status, 'completed');
+    assert.equal(stale.body.current.revision, 2);
+
+    const merged = await server.request('PATCH', `/${task.id}`, {
+      token: user.token,
+      body: { title: 'Título do celular', revision: stale.body.current.revision },
+    });
+    assert.equal(merged.status, 200);
+    assert.equal(merged.body.revision, 3);
+  });
+
+  test('logs pomodoros, increments the task and awards points', async () => {
+    const task = await createTask();
+    const response = await server.request('POST', '/pomodoros', {
+      token: user.token,
+      body: { taskId: task.id, durationMinutes: 25 },
+    });
+    assert.equal(response.status, 201);
+    assert.equal(response.body.pomodoro.taskId, task.id);
+    assert.equal(response.body.gamification.totalPoints, 5);
+
+    const tasks = await server.request('GET', '/', { token: user.token });
+    assert.equal(tasks.body.tasks[0].pomodoros, 1);
+  });
+
+  test('rejects invalid, overlapping and orphan pomodoros', async () => {
+    const tooLong = await server.request('POST', '/pomodoros', {
+      token: user.token,
+      body: { durationMinutes: 600 },
+    });
+    assert.equal(tooLong.status, 400);
+
+    const orphan = await server.request('POST', '/pomodoros', {
+      token: user.token,
+      body: { taskId: 'inexistente', durationMinutes: 25 },
+    });
+    assert.equal(orphan.status, 404);
+
+    const first = await server.request('POST', '/pomodoros', {
+      token: user.token,
+      body: { durationMinutes: 15 },
+    });
+    assert.equal(first.status, 201);
+    const overlapping = await server.request('POST', '/pomodoros', {
+      token: user.token,
+      body: { durationMinutes: 15 },
+    });
+    assert.equal(overlapping.status, 409);
+
+    const gamification = await server.request('GET', '/gamification', { token: user.token });
+    assert.equal(gamification.body.gamification.totalPoints, 3);
+  });
+});
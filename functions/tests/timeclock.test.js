@@ -0,0 +1,125 @@
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  assertEmulatorsRunning,
+  clearAuth,
+  clearFirestore,
+  createTestUser,
+  startModuleServer,
+} = require('./helpers/emulator');
+
+assertEmulatorsRunning();
+
+const timeclockFactory = require('../src/modules/timeclock');
+
+const buildEntry = overrides => ({
+  date: '2024-03-04',
+  firstCheckIn: '09:00',
+  firstCheckOut: '12:00',
+  secondCheckIn: '13:00',
+  secondCheckOut: '18:30',
+  shiftType: 'padrao',
+  notes: '',
+  ...overrides,
+});
+
+describe('timeclock module', () => {
+  let server;
+  let user;
+
+  const createEntry = overrides =>
+    server.request('POST', '/', { token: user.token, body: buildEntry(overrides) });
+
+  before(async () => {
+    server = await startModuleServer(timeclockFactory);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    user = await createTestUser();
+  });
+
+  test('computes worked hours for each shift type', async () => {
+    const standard = await createEntry();
+    assert.equal(standard.status, 201);
+    assert.equal(standard.body.entry.workedHours, 8.5);
+
+    const homeOffice = await createEntry({
+      date: '2024-03-05',
+      firstCheckIn: '08:00',
+      firstCheckOut: '17:00',
+      secondCheckIn: '',
+      secondCheckOut: '',
+      shiftType: 'homeOffice',
+    });
+    assert.equal(homeOffice.body.entry.workedHours, 8);
+
+    const travel = await createEntry({ date: '2024-03-06', shiftType: 'viagem' });
+    assert.equal(travel.body.entry.workedHours, 8.5);
+
+    const unknown = await createEntry({ date: '2024-03-07', shiftType: 'plantao' });
+    assert.equal(unknown.status, 400);
+  });
+
+  test('rejects inverted, overlapping and incomplete segments', async () => {
+    const inverted = await createEntry({ firstCheckIn: '12:00', firstCheckOut: '09:00' });
+    assert.equal(inverted.status, 400);
+
+    const overlapping = await createEntry({ secondCheckIn: '11:30' });
+    assert.equal(overlapping.status, 400);
+
+    const incomplete = await createEntry({ secondCheckOut: '' });
+    assert.equal(incomplete.status, 400);
+
+    const invalidTime = await createEntry({ firstCheckOut: '25:00' });
+    assert.equal(invalidTime.status, 400);
+  });
+
+  test('rejects duplicate dates on create and update', async () => {
+    await createEntry();
+    const duplicate = await createEntry({ firstCheckIn: '07:00' });
+    assert.equal(duplicate.status, 409);
+
+    const other = await createEntry({ date: '2024-03-05' });
+    const moved = await server.request('PATCH', `/${other.body.entry.id}`, {
+      token: user.token,
+      body: { date: '2024-03-04' },
+    });
+    assert.equal(moved.status, 409);
+
+    const updated = await server.request('PATCH', `/${other.body.entry.id}`, {
+      token: user.token,
+      body: { secondCheckOut: '17:00' },
+    });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.entry.workedHours, 7);
+
+    const invalidUpdate = await server.request('PATCH', `/${other.body.entry.id}`, {
+      token: user.token,
+      body: { secondCheckIn: '10:00' },
+    });
+    assert.equal(invalidUpdate.status, 400);
+  });
+
+  test('filters entries by month', async () => {
+    await createEntry({ date: '2024-02-28' });
+    await createEntry({ date: '2024-03-01' });
+    await createEntry({ date: '2024-03-31' });
+
+    const march = await server.request('GET', '/?month=2024-03', { token: user.token });
+    assert.equal(march.status, 200);
+    assert.deepEqual(
+      march.body.entries.map(entry => entry.date),
+      ['2024-03-31', '2024-03-01']
+    );
+    assert.equal(march.body.totalHours, 17);
+
+    const invalid = await server.request('GET', '/?month=03-2024', { token: user.token });
+    assert.equal(invalid.status, 400);
+  });
+});
@@ -9,7 +9,8 @@ import { URL } from 'node:url';
 
 dotenv.config();
 
-const requiredEnv = ['STRIPE_SECRET_KEY', 'STRIPE_PRICE_ID'];
+const useLocalBilling = process.env.BILLING_PROVIDER?.trim() === 'local';
+const requiredEnv = useLocalBilling ? [] : ['STRIPE_SECRET_KEY', 'STRIPE_PRICE_ID'];
 const missingEnv = requiredEnv.filter(key => !process.env[key]);
 
 if (missingEnv.length > 0) {
@@ -21,9 +22,11 @@ if (missingEnv.length > 0) {
   process.exit(1);
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: '2024-06-20',
-});
+const stripe = useLocalBilling
+  ? null
+  : new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2024-06-20',
+    });
 
 const app = express();
 
@@ -53,8 +56,8 @@ const proxyPathBase = proxyUrl.pathname.endsWith('/')
   : proxyUrl.pathname;
 const proxyRequestFactory = proxyUrl.protocol === 'https:' ? httpsRequest : httpRequest;
 
-app.use('/api', (req, res) => {
-  const path = `${proxyPathBase}${req.url === '/' ? '' : req.url}`;
+const proxyToFunctions = pathPrefix => (req, res) => {
+  const path = `${proxyPathBase}${pathPrefix}${req.url === '/' ? '' : req.url}`;
   const options = {
     protocol: proxyUrl.protocol,
     hostname: proxyUrl.hostname,
@@ -89,6 +92,49 @@ app.use('/api', (req, res) => {
   });
 
   req.pipe(proxyReq, { end: true });
+};
+
+app.use('/api', proxyToFunctions(''));
+
+if (useLocalBilling) {
+  // Com o provedor local, sessões, pagamentos simulados e webhooks vivem nas Functions;
+  // o proxy atende todo /checkout e as rotas do Stripe abaixo não são alcançadas.
+  console.log('[stripe-backend] BILLING_PROVIDER=local: /checkout será atendido pelas Functions.');
+  app.use('/checkout', proxyToFunctions('/checkout'));
+}
+
+const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+// Registrado antes do express.json: a assinatura do Stripe é calculada sobre o corpo bruto.
+app.post('/checkout/webhook', express.raw({ type: 'application/json' }), async (req, res, next) => {
+  try {
+    if (!webhookSecret) {
+      return res.status(500).json({
+        message: 'Webhook do Stripe não configurado. Defina STRIPE_WEBHOOK_SECRET.',
+      });
+    }
+
+    const signature = req.headers['stripe-signature'];
+    try {
+      stripe.webhooks.constructEvent(req.body, signature, webhookSecret);
+    } catch (error) {
+      console.warn('[stripe-backend] Assinatura de webhook inválida', error.message);
+      return res.status(400).json({ message: 'Assinatura do webhook inválida.' });
+    }
+
+    const response = await fetch(`${defaultProxyTarget.replace(/\/$/, '')}/checkout/webhook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Stripe-Signature': signature,
+      },
+      body: req.body,
+    });
+    const payload = await response.json().catch(() => ({}));
+    return res.status(response.status).json(payload);
+  } catch (error) {
+    return next(error);
+  }
 });
 
 app.use(express.json());
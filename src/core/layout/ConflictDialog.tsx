@@ -0,0 +1,111 @@
+import { useState } from 'react';
+
+import { Modal } from '@shared/components/Modal/Modal';
+
+import styles from './ConflictDialog.module.css';
+
+interface ConflictField {
+  key: string;
+  label: string;
+  local: unknown;
+  remote: unknown;
+}
+
+interface ConflictDialogProps {
+  title: string;
+  fields: ConflictField[];
+  onMerge: (values: Record<string, unknown>) => void;
+  onKeepRemote: () => void;
+  onDismiss: () => void;
+}
+
+type FieldChoice = 'local' | 'remote';
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Sim' : 'Não';
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString('pt-BR');
+  }
+  return String(value);
+};
+
+const ConflictDialog = ({
+  title,
+  fields,
+  onMerge,
+  onKeepRemote,
+  onDismiss,
+}: ConflictDialogProps) => {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+
+  const handleMerge = () => {
+    onMerge(
+      Object.fromEntries(
+        fields.map(field => [
+          field.key,
+          choices[field.key] === 'remote' ? field.remote : field.local,
+        ])
+      )
+    );
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onDismiss}
+      title="Registro alterado em outro dispositivo"
+      footer={
+        <>
+          <button type="button" className={styles.secondaryButton} onClick={onKeepRemote}>
+            Manter versão do servidor
+          </button>
+          <button type="button" className={styles.primaryButton} onClick={handleMerge}>
+            Salvar mesclagem
+          </button>
+        </>
+      }
+    >
+      <p className={styles.intro}>
+        <strong>{title}</strong>: escolha qual valor manter em cada campo que difere entre este
+        dispositivo e o servidor.
+      </p>
+      <ul className={styles.fields}>
+        {fields.map(field => (
+          <li key={field.key} className={styles.field}>
+            <span className={styles.fieldLabel}>{field.label}</span>
+            <label className={styles.option}>
+              <input
+                type="radio"
+                name={`conflict-${field.key}`}
+                checked={choices[field.key] !== 'remote'}
+                onChange={() => setChoices(prev => ({ ...prev, [field.key]: 'local' }))}
+              />
+              <span>
+                Este dispositivo: <strong>{formatValue(field.local)}</strong>
+              </span>
+            </label>
+            <label className={styles.option}>
+              <input
+                type="radio"
+                name={`conflict-${field.key}`}
+                checked={choices[field.key] === 'remote'}
+                onChange={() => setChoices(prev => ({ ...prev, [field.key]: 'remote' }))}
+              />
+              <span>
+                Servidor: <strong>{formatValue(field.remote)}</strong>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </Modal>
+  );
+};
+
+export type { ConflictField };
+export { ConflictDialog };
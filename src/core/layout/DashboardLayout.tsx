@@ -7,6 +7,7 @@ import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
 import { AccountProfileModal } from '@modules/dashboard/components/AccountProfileModal';
 
 import styles from './DashboardLayout.module.css';
+import { SyncStatus } from './SyncStatus';
 
 interface DashboardLayoutProps {
   title: string;
@@ -90,11 +91,12 @@ const DashboardLayout = ({ title, subtitle, children, actions }: DashboardLayout
         <div className={styles.localWarning}>
           <strong>Modo local</strong>
           <span>
-            Sua assinatura está inativa. Novos registros ficam apenas neste dispositivo até você
-            renovar.
+            Sua assinatura está inativa. Suas alterações ficam na fila deste dispositivo e são
+            sincronizadas assim que você renovar.
           </span>
         </div>
       )}
+      <SyncStatus />
       <header className={styles.header}>
         <div className={styles.headerText}>
           <span className={styles.brandChip}>Painel Administrativo</span>
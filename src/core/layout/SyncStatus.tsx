@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+
+import { useSync } from '@core/providers/SyncProvider';
+
+import styles from './SyncStatus.module.css';
+
+const formatQueuedAt = (value: string) =>
+  new Date(value).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const SyncStatus = () => {
+  const {
+    operations,
+    isOnline,
+    canSync,
+    syncing,
+    retryOperation,
+    discardOperation,
+    resolveConflict,
+    syncNow,
+  } = useSync();
+  const [expanded, setExpanded] = useState(false);
+
+  const { pendingCount, failedCount } = useMemo(
+    () => ({
+      pendingCount: operations.filter(operation => operation.status === 'pending').length,
+      failedCount: operations.filter(operation => operation.status === 'failed').length,
+    }),
+    [operations]
+  );
+
+  if (!operations.length) {
+    return null;
+  }
+
+  const summary = [
+    pendingCount ? `${pendingCount} alteração(ões) aguardando envio` : null,
+    failedCount ? `${failedCount} com falha` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const statusMessage = !isOnline
+    ? 'Sem conexão. As alterações serão enviadas quando a internet voltar.'
+    : !canSync
+      ? 'Assinatura inativa. As alterações serão enviadas após a renovação.'
+      : syncing
+        ? 'Sincronizando...'
+        : 'As alterações pendentes são reenviadas automaticamente.';
+
+  return (
+    <section className={failedCount ? `${styles.wrapper} ${styles.hasFailures}` : styles.wrapper}>
+      <div className={styles.summary}>
+        <div className={styles.summaryText}>
+          <strong>{summary}</strong>
+          <span>{statusMessage}</span>
+        </div>
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.primaryButton}
+            onClick={syncNow}
+            disabled={!canSync || syncing || !pendingCount}
+          >
+            Sincronizar agora
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => setExpanded(prev => !prev)}
+          >
+            {expanded ? 'Ocultar detalhes' : 'Ver detalhes'}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ul className={styles.list}>
+          {operations.map(operation => (
+            <li key={operation.id} className={styles.item}>
+              <div className={styles.itemText}>
+                <span className={styles.itemLabel}>{operation.label}</span>
+                <span className={styles.itemMeta}>
+                  {operation.status === 'failed' ? 'Falhou' : 'Pendente'} · registrada em{' '}
+                  {formatQueuedAt(operation.createdAt)}
+                  {operation.attempts > 0 ? ` · ${operation.attempts} tentativa(s)` : ''}
+                </span>
+                {operation.lastError && (
+                  <span className={styles.itemError}>{operation.lastError}</span>
+                )}
+              </div>
+              <div className={styles.itemActions}>
+                {operation.conflict && (
+                  <button
+                    type="button"
+                    className={styles.primaryButton}
+                    onClick={() => void resolveConflict(operation.id)}
+                  >
+                    Resolver conflito
+                  </button>
+                )}
+                {operation.status === 'failed' && !operation.conflict && (
+                  <button
+                    type="button"
+                    className={styles.secondaryButton}
+                    onClick={() => retryOperation(operation.id)}
+                  >
+                    Tentar novamente
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className={styles.dangerButton}
+                  onClick={() => discardOperation(operation.id)}
+                >
+                  Descartar
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export { SyncStatus };
@@ -0,0 +1,582 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import toast from 'react-hot-toast';
+
+import { useAuth } from '@modules/auth/services/AuthContext';
+import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
+import { generateId } from '@shared/utils/id';
+import { ConflictDialog, type ConflictField } from '@core/layout/ConflictDialog';
+import {
+  LOCAL_MODE_ERROR,
+  buildSyncQueueKey,
+  createUnsupportedOperationError,
+  getConflictRecord,
+  getErrorMessage,
+  getErrorStatus,
+  isAccessDeniedError,
+  isRetryableSyncError,
+  readStoredValue,
+  writeStoredValue,
+  type SyncOperation,
+  type SyncOperationInput,
+  type SyncRecord,
+  type SyncSubmitResult,
+} from '@shared/services/syncQueue';
+
+import { syncConflictAdapters, syncExecutors } from './syncExecutors';
+
+const REFRESH_DELAY_MS = 2000;
+const RETRY_INTERVAL_MS = 30000;
+
+type SyncRefresh = () => Promise<void> | void;
+
+/** Valores escolhidos no diálogo, `null` para ficar com o servidor e `undefined` se fechado. */
+type MergeDecision = Record<string, unknown> | null | undefined;
+
+interface PendingMerge {
+  id: string;
+  title: string;
+  fields: ConflictField[];
+  resolve: (decision: MergeDecision) => void;
+}
+
+interface SyncContextValue {
+  operations: SyncOperation[];
+  isOnline: boolean;
+  isLocalOnly: boolean;
+  canSync: boolean;
+  syncing: boolean;
+  getToken: () => Promise<string>;
+  submit: <TData = unknown>(
+    scope: string,
+    input: SyncOperationInput
+  ) => Promise<SyncSubmitResult<TData>>;
+  hasPendingOperations: (scope: string) => boolean;
+  registerRefresh: (scope: string, refresh: SyncRefresh) => () => void;
+  retryOperation: (id: string) => void;
+  discardOperation: (id: string) => void;
+  resolveConflict: (id: string) => Promise<void>;
+  syncNow: () => void;
+}
+
+const SyncContext = createContext<SyncContextValue | undefined>(undefined);
+
+const readOnlineStatus = () => (typeof navigator === 'undefined' ? true : navigator.onLine);
+
+const isSameValue = (left: unknown, right: unknown) => {
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+  if (isEmpty(left) || isEmpty(right)) {
+    return isEmpty(left) && isEmpty(right);
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+};
+
+const listConflictingFields = (operation: SyncOperation, remote: SyncRecord) => {
+  const adapter = syncConflictAdapters[operation.scope];
+  if (!adapter) {
+    return [];
+  }
+  const local = adapter.getLocalValues(operation);
+  return Object.entries(adapter.getFields(operation))
+    .filter(([key]) => key in local && !isSameValue(local[key], remote[key]))
+    .map(([key, label]) => ({ key, label, local: local[key], remote: remote[key] }));
+};
+
+/**
+ * Fila única de escrita para usuários autenticados. Alterações feitas sem conexão ou com a
+ * assinatura suspensa ficam salvas por usuário e são reenviadas na ordem em que foram feitas
+ * assim que a sincronização volta a ser possível. Visitantes continuam apenas no dispositivo.
+ */
+function SyncProvider({ children }: { children: ReactNode }) {
+  const { user, isGuest } = useAuth();
+  const isLocalMode = useLocalMode();
+  const [isOnline, setIsOnline] = useState(readOnlineStatus);
+  const [operations, setOperations] = useState<SyncOperation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [pendingMerges, setPendingMerges] = useState<PendingMerge[]>([]);
+  const operationsRef = useRef<SyncOperation[]>([]);
+  const drainingRef = useRef(false);
+  const refreshersRef = useRef(new Map<string, SyncRefresh>());
+  const refreshTimersRef = useRef(new Map<string, number>());
+
+  const isLocalOnly = isGuest || !user;
+  const canSync = !isLocalOnly && !isLocalMode && isOnline;
+  const canSyncRef = useRef(canSync);
+  canSyncRef.current = canSync;
+  const queueKey = user && !isGuest ? buildSyncQueueKey(user.uid) : null;
+
+  useEffect(() => {
+    const stored = queueKey ? readStoredValue<SyncOperation[]>(queueKey) : null;
+    operationsRef.current = Array.isArray(stored) ? stored : [];
+    setOperations(operationsRef.current);
+  }, [queueKey]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    const timers = refreshTimersRef.current;
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const commitOperations = useCallback(
+    (updater: (prev: SyncOperation[]) => SyncOperation[]) => {
+      const next = updater(operationsRef.current);
+      operationsRef.current = next;
+      setOperations(next);
+      if (queueKey) {
+        writeStoredValue(queueKey, next);
+      }
+    },
+    [queueKey]
+  );
+
+  const hasPendingOperations = useCallback(
+    (scope: string) =>
+      operationsRef.current.some(
+        operation => operation.scope === scope && operation.status === 'pending'
+      ),
+    []
+  );
+
+  const scheduleRefresh = useCallback(
+    (scope: string, delay = REFRESH_DELAY_MS) => {
+      if (typeof window === 'undefined') {
+        return;
+      }
+      const timers = refreshTimersRef.current;
+      const current = timers.get(scope);
+      if (current) {
+        window.clearTimeout(current);
+      }
+      timers.set(
+        scope,
+        window.setTimeout(async () => {
+          timers.delete(scope);
+          const refresh = refreshersRef.current.get(scope);
+          if (!refresh || !canSyncRef.current || hasPendingOperations(scope)) {
+            return;
+          }
+          try {
+            await refresh();
+          } catch (error) {
+            console.error(`Falha ao sincronizar ${scope} em segundo plano`, error);
+          }
+        }, delay)
+      );
+    },
+    [hasPendingOperations]
+  );
+
+  const registerRefresh = useCallback((scope: string, refresh: SyncRefresh) => {
+    refreshersRef.current.set(scope, refresh);
+    return () => {
+      if (refreshersRef.current.get(scope) === refresh) {
+        refreshersRef.current.delete(scope);
+      }
+    };
+  }, []);
+
+  const getToken = useCallback(async () => {
+    if (isLocalOnly || !user) {
+      throw new Error(LOCAL_MODE_ERROR);
+    }
+    return user.getIdToken();
+  }, [isLocalOnly, user]);
+
+  const runOperation = useCallback((operation: SyncOperation, token: string) => {
+    const execute = syncExecutors[operation.scope];
+    if (!execute) {
+      throw createUnsupportedOperationError(operation);
+    }
+    return execute(operation, token);
+  }, []);
+
+  const notifyQueued = useCallback(() => {
+    const message = !isOnline
+      ? 'Você está offline. A alteração será enviada quando a conexão voltar.'
+      : isLocalMode
+        ? 'Assinatura inativa. A alteração ficará na fila até a renovação.'
+        : 'Servidor indisponível. A alteração será reenviada automaticamente.';
+    toast(message, { id: 'sync-queued' });
+  }, [isLocalMode, isOnline]);
+
+  // Sem campos divergentes a edição local é reaplicada sobre a revisão atual sem perguntar.
+  const requestMerge = useCallback((operation: SyncOperation, remote: SyncRecord) => {
+    const fields = listConflictingFields(operation, remote);
+    if (!fields.length) {
+      return Promise.resolve<MergeDecision>({});
+    }
+    return new Promise<MergeDecision>(resolve => {
+      const id = generateId();
+      setPendingMerges(prev => [
+        ...prev,
+        {
+          id,
+          title: operation.label,
+          fields,
+          resolve: decision => {
+            setPendingMerges(current => current.filter(item => item.id !== id));
+            resolve(decision);
+          },
+        },
+      ]);
+    });
+  }, []);
+
+  const drain = useCallback(async () => {
+    if (drainingRef.current || !canSyncRef.current || !user) {
+      return;
+    }
+    drainingRef.current = true;
+    setSyncing(true);
+    const blockedScopes = new Set<string>();
+    const touchedScopes = new Set<string>();
+    try {
+      const token = await user.getIdToken();
+      for (;;) {
+        const operation = operationsRef.current.find(
+          item => item.status === 'pending' && !blockedScopes.has(item.scope)
+        );
+        if (!operation || !canSyncRef.current) {
+          break;
+        }
+        try {
+          const execution = await runOperation(operation, token);
+          const remoteId = execution?.entityId;
+          const revision = execution?.revision;
+          commitOperations(prev =>
+            prev
+              .filter(item => item.id !== operation.id)
+              .map(item =>
+                operation.entityId &&
+                item.scope === operation.scope &&
+                item.entityId === operation.entityId
+                  ? {
+                      ...item,
+                      entityId: remoteId ?? item.entityId,
+                      revision: revision ?? item.revision,
+                    }
+                  : item
+              )
+          );
+          touchedScopes.add(operation.scope);
+        } catch (error) {
+          const retryable = isRetryableSyncError(error);
+          commitOperations(prev =>
+            prev.map(item =>
+              item.id === operation.id
+                ? {
+                    ...item,
+                    attempts: item.attempts + 1,
+                    lastError: getErrorMessage(error),
+                    status: retryable ? 'pending' : 'failed',
+                    conflict: getConflictRecord(error) ?? undefined,
+                  }
+                : item
+            )
+          );
+          if (!retryable) {
+            touchedScopes.add(operation.scope);
+            continue;
+          }
+          // Sem rede ou com acesso negado nenhuma outra operação vai passar agora.
+          if (isAccessDeniedError(error) || getErrorStatus(error) === undefined) {
+            break;
+          }
+          blockedScopes.add(operation.scope);
+        }
+      }
+    } catch (error) {
+      console.error('Falha ao sincronizar alterações pendentes', error);
+    } finally {
+      drainingRef.current = false;
+      setSyncing(false);
+      touchedScopes.forEach(scope => scheduleRefresh(scope, 0));
+    }
+  }, [commitOperations, runOperation, scheduleRefresh, user]);
+
+  const submit = useCallback(
+    async <TData,>(scope: string, input: SyncOperationInput): Promise<SyncSubmitResult<TData>> => {
+      if (isLocalOnly || !user) {
+        return { status: 'local' };
+      }
+      const operation: SyncOperation = {
+        ...input,
+        id: generateId(),
+        scope,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+        status: 'pending',
+      };
+
+      if (canSync && !hasPendingOperations(scope)) {
+        let attempt = operation;
+        for (;;) {
+          try {
+            const token = await user.getIdToken();
+            const execution = await runOperation(attempt, token);
+            scheduleRefresh(scope);
+            return { status: 'synced', data: execution?.data as TData | undefined };
+          } catch (error) {
+            const remote = getConflictRecord(error);
+            const adapter = syncConflictAdapters[scope];
+            if (remote && adapter) {
+              const decision = await requestMerge(attempt, remote);
+              if (!decision) {
+                scheduleRefresh(scope);
+                return { status: 'synced', data: remote as TData };
+              }
+              attempt = {
+                ...attempt,
+                revision: remote.revision,
+                payload: adapter.applyValues(attempt, decision),
+              };
+              continue;
+            }
+            if (!isRetryableSyncError(error)) {
+              return { status: 'rejected', error };
+            }
+            commitOperations(prev => [
+              ...prev,
+              { ...attempt, attempts: 1, lastError: getErrorMessage(error) },
+            ]);
+            notifyQueued();
+            return { status: 'queued' };
+          }
+        }
+      }
+
+      // Excluir um registro que nunca chegou ao servidor descarta toda a sua fila.
+      const pendingCreate =
+        input.type === 'delete' && input.entityId
+          ? operationsRef.current.find(
+              item =>
+                item.scope === scope &&
+                item.type === 'create' &&
+                item.status === 'pending' &&
+                item.entityId === input.entityId
+            )
+          : undefined;
+      if (pendingCreate) {
+        commitOperations(prev =>
+          prev.filter(item => item.scope !== scope || item.entityId !== input.entityId)
+        );
+        return { status: 'queued' };
+      }
+
+      commitOperations(prev => [...prev, operation]);
+      notifyQueued();
+      if (canSync) {
+        void drain();
+      }
+      return { status: 'queued' };
+    },
+    [
+      canSync,
+      commitOperations,
+      drain,
+      hasPendingOperations,
+      isLocalOnly,
+      notifyQueued,
+      requestMerge,
+      runOperation,
+      scheduleRefresh,
+      user,
+    ]
+  );
+
+  const pendingCount = operations.filter(operation => operation.status === 'pending').length;
+
+  useEffect(() => {
+    if (!canSync || pendingCount === 0) {
+      return;
+    }
+    void drain();
+    const timer = window.setInterval(() => void drain(), RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [canSync, drain, pendingCount]);
+
+  const retryOperation = useCallback(
+    (id: string) => {
+      commitOperations(prev =>
+        prev.map(item => (item.id === id ? { ...item, status: 'pending' } : item))
+      );
+      void drain();
+    },
+    [commitOperations, drain]
+  );
+
+  const discardOperation = useCallback(
+    (id: string) => {
+      const target = operationsRef.current.find(item => item.id === id);
+      commitOperations(prev => prev.filter(item => item.id !== id));
+      if (target) {
+        scheduleRefresh(target.scope, 0);
+      }
+    },
+    [commitOperations, scheduleRefresh]
+  );
+
+  const resolveConflict = useCallback(
+    async (id: string) => {
+      const operation = operationsRef.current.find(item => item.id === id);
+      const adapter = operation ? syncConflictAdapters[operation.scope] : undefined;
+      const remote = operation?.conflict;
+      if (!operation || !adapter || !remote) {
+        return;
+      }
+      const decision = await requestMerge(operation, remote);
+      if (decision === undefined) {
+        return;
+      }
+      if (decision === null) {
+        discardOperation(id);
+        return;
+      }
+      commitOperations(prev =>
+        prev.map(item =>
+          item.id === id
+            ? {
+                ...item,
+                revision: remote.revision,
+                payload: adapter.applyValues(item, decision),
+                status: 'pending',
+                conflict: undefined,
+                lastError: undefined,
+              }
+            : item
+        )
+      );
+      void drain();
+    },
+    [commitOperations, discardOperation, drain, requestMerge]
+  );
+
+  const syncNow = useCallback(() => {
+    commitOperations(prev => prev.map(item => ({ ...item, status: 'pending' })));
+    void drain();
+  }, [commitOperations, drain]);
+
+  const value = useMemo<SyncContextValue>(
+    () => ({
+      operations,
+      isOnline,
+      isLocalOnly,
+      canSync,
+      syncing,
+      getToken,
+      submit,
+      hasPendingOperations,
+      registerRefresh,
+      retryOperation,
+      discardOperation,
+      resolveConflict,
+      syncNow,
+    }),
+    [
+      operations,
+      isOnline,
+      isLocalOnly,
+      canSync,
+      syncing,
+      getToken,
+      submit,
+      hasPendingOperations,
+      registerRefresh,
+      retryOperation,
+      discardOperation,
+      resolveConflict,
+      syncNow,
+    ]
+  );
+
+  const activeMerge = pendingMerges[0];
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+      {activeMerge && (
+        <ConflictDialog
+          key={activeMerge.id}
+          title={activeMerge.title}
+          fields={activeMerge.fields}
+          onMerge={values => activeMerge.resolve(values)}
+          onKeepRemote={() => activeMerge.resolve(null)}
+          onDismiss={() => activeMerge.resolve(undefined)}
+        />
+      )}
+    </SyncContext.Provider>
+  );
+}
+
+function useSync() {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
+
+/**
+ * Liga um módulo à fila de sincronização. O módulo registra com `registerRefresh` como
+ * recarregar seu estado do servidor depois que as operações do escopo forem confirmadas.
+ */
+function useSyncScope(scope: string) {
+  const {
+    canSync,
+    getToken,
+    hasPendingOperations,
+    isLocalOnly,
+    registerRefresh,
+    submit: submitOperation,
+  } = useSync();
+
+  const submit = useCallback(
+    <TData,>(input: SyncOperationInput) => submitOperation<TData>(scope, input),
+    [scope, submitOperation]
+  );
+
+  const hasPendingScopeOperations = useCallback(
+    () => hasPendingOperations(scope),
+    [hasPendingOperations, scope]
+  );
+
+  const registerScopeRefresh = useCallback(
+    (refresh: SyncRefresh) => registerRefresh(scope, refresh),
+    [registerRefresh, scope]
+  );
+
+  return {
+    canSync,
+    isLocalOnly,
+    getToken,
+    submit,
+    hasPendingOperations: hasPendingScopeOperations,
+    registerRefresh: registerScopeRefresh,
+  };
+}
+
+export { SyncProvider, useSync, useSyncScope };
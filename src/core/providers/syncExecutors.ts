@@ -0,0 +1,47 @@
+import type { SyncConflictAdapter, SyncExecutor } from '@shared/services/syncQueue';
+import {
+  AUTOMATIONS_SYNC_SCOPE,
+  executeAutomationsOperation,
+} from '@modules/automations/services/automationService';
+import {
+  CALENDAR_SYNC_SCOPE,
+  executeCalendarOperation,
+} from '@modules/calendar/services/calendarService';
+import {
+  FINANCE_SYNC_SCOPE,
+  executeFinanceOperation,
+  financeConflictAdapter,
+} from '@modules/finance/services/financeService';
+import { NOTES_SYNC_SCOPE, executeNotesOperation } from '@modules/notes/services/notesService';
+import {
+  RELATIONSHIPS_SYNC_SCOPE,
+  executeRelationshipsOperation,
+} from '@modules/relationships/services/relationshipService';
+import {
+  TASKS_SYNC_SCOPE,
+  executeTasksOperation,
+  tasksConflictAdapter,
+} from '@modules/tasks/services/taskService';
+import {
+  TIMECLOCK_SYNC_SCOPE,
+  executeTimeclockOperation,
+} from '@modules/timeclock/services/timeclockService';
+
+// Registrados aqui, e não nas telas, para que a fila seja reenviada mesmo com o módulo fechado.
+const syncExecutors: Record<string, SyncExecutor> = {
+  [AUTOMATIONS_SYNC_SCOPE]: executeAutomationsOperation,
+  [CALENDAR_SYNC_SCOPE]: executeCalendarOperation,
+  [FINANCE_SYNC_SCOPE]: executeFinanceOperation,
+  [NOTES_SYNC_SCOPE]: executeNotesOperation,
+  [RELATIONSHIPS_SYNC_SCOPE]: executeRelationshipsOperation,
+  [TASKS_SYNC_SCOPE]: executeTasksOperation,
+  [TIMECLOCK_SYNC_SCOPE]: executeTimeclockOperation,
+};
+
+// Escopos cujos registros têm revisão no servidor e podem ser mesclados após um 409.
+const syncConflictAdapters: Record<string, SyncConflictAdapter> = {
+  [FINANCE_SYNC_SCOPE]: financeConflictAdapter,
+  [TASKS_SYNC_SCOPE]: tasksConflictAdapter,
+};
+
+export { syncConflictAdapters, syncExecutors };
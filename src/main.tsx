@@ -7,6 +7,7 @@ import App from './App';
 
 import '@shared/styles/global.css';
 import { FirebaseProvider } from '@core/providers/FirebaseProvider';
+import { SyncProvider } from '@core/providers/SyncProvider';
 import { AuthProvider } from '@modules/auth/services/AuthContext';
 import { AccountProvider } from '@modules/auth/services/AccountContext';
 
@@ -15,17 +16,19 @@ ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
     <FirebaseProvider>
       <AuthProvider>
         <AccountProvider>
-          <BrowserRouter future={{ v7_startTransition: true }}>
-            <App />
-          </BrowserRouter>
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              style: {
-                fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
-              },
-            }}
-          />
+          <SyncProvider>
+            <BrowserRouter future={{ v7_startTransition: true }}>
+              <App />
+            </BrowserRouter>
+            <Toaster
+              position="top-right"
+              toastOptions={{
+                style: {
+                  fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+                },
+              }}
+            />
+          </SyncProvider>
         </AccountProvider>
       </AuthProvider>
     </FirebaseProvider>
@@ -11,6 +11,7 @@ import { updateProfile as updateAuthProfile, type User } from 'firebase/auth';
 import toast from 'react-hot-toast';
 
 import type { ApiError } from '@shared/services/apiClient';
+import { fileToBase64 } from '@shared/utils/file';
 import {
   cancelAccountSubscription,
   fetchAccountProfile,
@@ -31,21 +32,6 @@ const isApiForbidden = (error: unknown) => {
   return false;
 };
 
-const fileToBase64 = (file: File) =>
-  new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (typeof reader.result !== 'string') {
-        reject(new Error('Formato de arquivo inválido.'));
-        return;
-      }
-      const parts = reader.result.split(',');
-      resolve(parts.length > 1 ? parts.pop() ?? '' : reader.result);
-    };
-    reader.onerror = () => reject(new Error('Não foi possível ler o arquivo selecionado.'));
-    reader.readAsDataURL(file);
-  });
-
 interface AccountContextValue {
   profile: AccountProfile | null;
   loading: boolean;
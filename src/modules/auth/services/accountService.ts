@@ -1,6 +1,6 @@
 import { apiRequest } from '@shared/services/apiClient';
 
-export type SubscriptionStatus = 'active' | 'pending_cancel' | 'canceled';
+export type SubscriptionStatus = 'active' | 'pending_cancel' | 'past_due' | 'canceled';
 
 export interface AccountProfile {
   displayName: string;
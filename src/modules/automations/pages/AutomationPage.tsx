@@ -1,16 +1,21 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
 import { DashboardLayout } from '@core/layout/DashboardLayout';
+import { useSyncScope } from '@core/providers/SyncProvider';
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
-import type { ApiError } from '@shared/services/apiClient';
+import { generateId } from '@shared/utils/id';
 import {
-  createAutomation,
-  deleteAutomation as deleteAutomationRemote,
+  buildRemoteCacheKey,
+  isLocalModeError,
+  readStoredValue,
+  writeStoredValue,
+} from '@shared/services/syncQueue';
+import {
+  AUTOMATIONS_GUEST_STORAGE_KEY,
+  AUTOMATIONS_SYNC_SCOPE,
   listAutomations,
-  updateAutomation,
   type AutomationRuleInput,
   type AutomationRuleResponse,
 } from '@modules/automations/services/automationService';
@@ -65,9 +70,7 @@ interface AutomationRule {
   createdAt: string;
 }
 
-const STORAGE_KEY = 'admin_panel_automations';
 const REMOTE_CACHE_PREFIX = 'admin_panel_automations_remote';
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
 
 const defaultEventsBySource: Record<AutomationEventSource, string[]> = {
   Financeiro: ['Nova despesa', 'Receita registrada', 'Investimento abaixo do planejado'],
@@ -91,20 +94,6 @@ const normalizeAutomation = (rule: AutomationRule): AutomationRule => ({
 });
 const sortAutomations = (rules: AutomationRule[]) =>
   [...rules].sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
-  const status = getErrorStatus(error);
-  return status === 401 || status === 403;
-};
 
 const mapRemoteAutomation = (rule: AutomationRuleResponse): AutomationRule => {
   const source = isEventSource(rule.source) ? rule.source : 'Manual';
@@ -130,151 +119,84 @@ const mapRemoteAutomation = (rule: AutomationRuleResponse): AutomationRule => {
 const AutomationPage = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const isGuestMode = useLocalMode();
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(AUTOMATIONS_SYNC_SCOPE);
   const [automations, setAutomations] = useState<AutomationRule[]>([]);
   const [loading, setLoading] = useState(true);
-  const refreshTimerRef = useRef<number | null>(null);
-
-  const persistGuestAutomations = useCallback((next: AutomationRule[]) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-    } catch (error) {
-      console.error('Falha ao salvar automações', error);
-    }
-  }, []);
+  const storageKey =
+    isLocalOnly || !user
+      ? AUTOMATIONS_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
 
-  const updateGuestAutomations = useCallback(
+  const updateAutomations = useCallback(
     (updater: (prev: AutomationRule[]) => AutomationRule[]) => {
       setAutomations(prev => {
         const next = sortAutomations(updater(prev).map(normalizeAutomation));
-        persistGuestAutomations(next);
+        writeStoredValue(storageKey, next);
         return next;
       });
     },
-    [persistGuestAutomations]
+    [storageKey]
   );
 
-  const loadGuestAutomations = useCallback(() => {
-    if (typeof window === 'undefined') {
-      setAutomations([]);
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(STORAGE_KEY);
-      if (!stored) {
-        setAutomations([]);
-      } else {
-        const parsed = JSON.parse(stored) as AutomationRule[];
-        setAutomations(sortAutomations(parsed.map(normalizeAutomation)));
-      }
-    } catch (error) {
-      console.error('Falha ao carregar automações salvas', error);
-      setAutomations([]);
-    }
-  }, []);
-
-  const persistRemoteAutomations = useCallback(
-    (next: AutomationRule[]) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(next));
-      } catch (error) {
-        console.warn('Falha ao salvar cache remoto de automações', error);
-      }
-    },
-    [user]
-  );
-
-  const loadRemoteAutomations = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as AutomationRule[] | null;
-      if (!parsed) {
-        return null;
-      }
-      return sortAutomations(parsed.map(normalizeAutomation));
-    } catch (error) {
-      console.warn('Falha ao carregar cache remoto de automações', error);
-      return null;
-    }
-  }, [user]);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteAutomations = useCallback(async () => {
-    const token = await getRemoteToken();
+    const token = await getToken();
     const response = await listAutomations(token);
     const normalized = sortAutomations((response.automations ?? []).map(mapRemoteAutomation));
     setAutomations(normalized);
-    persistRemoteAutomations(normalized);
-  }, [getRemoteToken, persistRemoteAutomations]);
+    writeStoredValue(storageKey, normalized);
+  }, [getToken, storageKey]);
 
-  const scheduleBackgroundSync = useCallback(() => {
-    if (typeof window === 'undefined' || isGuestMode || !user) {
-      return;
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
-    refreshTimerRef.current = window.setTimeout(() => {
-      fetchRemoteAutomations().catch(error =>
-        console.error('Falha ao sincronizar automações em segundo plano', error)
-      );
-    }, 2000);
-  }, [fetchRemoteAutomations, isGuestMode, user]);
+  useEffect(
+    () => registerRefresh(fetchRemoteAutomations),
+    [fetchRemoteAutomations, registerRefresh]
+  );
 
   useEffect(() => {
-    return () => {
-      if (refreshTimerRef.current && typeof window !== 'undefined') {
-        window.clearTimeout(refreshTimerRef.current);
-      }
-    };
-  }, []);
+    setLoading(true);
+    const stored = readStoredValue<AutomationRule[]>(storageKey);
+    setAutomations(Array.isArray(stored) ? sortAutomations(stored.map(normalizeAutomation)) : []);
 
-  useEffect(() => {
-    if (isGuestMode || !user) {
-      setLoading(true);
-      loadGuestAutomations();
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
       setLoading(false);
       return;
     }
-
-    setLoading(true);
-    const cached = loadRemoteAutomations();
-    if (cached) {
-      setAutomations(cached);
+    if (stored) {
       setLoading(false);
     }
 
     fetchRemoteAutomations()
       .then(() => setLoading(false))
       .catch(error => {
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          loadGuestAutomations();
-          setLoading(false);
-          toast.error('Sua assinatura está suspensa. As automações funcionarão apenas localmente.');
-          return;
-        }
         console.error('Erro ao carregar automações do servidor', error);
+        if (!isLocalModeError(error)) {
+          toast.error('Não foi possível carregar suas automações agora.');
+        }
         setLoading(false);
       });
-  }, [fetchRemoteAutomations, isGuestMode, loadGuestAutomations, loadRemoteAutomations, user]);
+  }, [canSync, fetchRemoteAutomations, hasPendingOperations, isLocalOnly, storageKey]);
+
+  const submitAutomationUpdate = async (
+    automationId: string,
+    label: string,
+    updates: Partial<AutomationRule>,
+    errorMessage: string
+  ) => {
+    const outcome = await submit({
+      type: 'update',
+      label,
+      entityId: automationId,
+      payload: updates,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Falha ao atualizar automação', outcome.error);
+      toast.error(errorMessage);
+      return;
+    }
+    updateAutomations(prev =>
+      prev.map(rule => (rule.id === automationId ? { ...rule, ...updates } : rule))
+    );
+  };
 
   const [form, setForm] = useState({
     name: '',
@@ -316,38 +238,24 @@ const AutomationPage = () => {
       runCount: 0,
       createdAt: now,
     };
-    const fallbackRule: AutomationRule = normalizeAutomation({
-      id:
-        typeof crypto !== 'undefined' && 'randomUUID' in crypto
-          ? crypto.randomUUID()
-          : Math.random().toString(36).slice(2),
-      ...payload,
-    } as AutomationRule);
-
-    if (isGuestMode || !user) {
-      updateGuestAutomations(prev => [fallbackRule, ...prev]);
-      toast.success('Automação criada');
-    } else {
-      try {
-        const token = await getRemoteToken();
-        const response = await createAutomation(token, payload);
-        setAutomations(prev => {
-          const next = sortAutomations([mapRemoteAutomation(response.automation), ...prev]);
-          persistRemoteAutomations(next);
-          return next;
-        });
-        toast.success('Automação criada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Falha ao criar automação', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestAutomations(prev => [fallbackRule, ...prev]);
-          toast.success('Automação registrada localmente. Renove para sincronizar.');
-        } else {
-          toast.error('Não foi possível criar a automação');
-        }
-      }
+    const id = generateId();
+    const outcome = await submit<AutomationRuleResponse>({
+      type: 'create',
+      label: `Criar automação "${payload.name}"`,
+      entityId: id,
+      payload,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Falha ao criar automação', outcome.error);
+      toast.error('Não foi possível criar a automação');
+      return;
     }
+    const createdRule =
+      outcome.status === 'synced' && outcome.data
+        ? mapRemoteAutomation(outcome.data)
+        : normalizeAutomation({ id, ...payload } as AutomationRule);
+    updateAutomations(prev => [createdRule, ...prev]);
+    toast.success('Automação criada');
 
     setForm(prev => ({
       ...prev,
@@ -364,36 +272,12 @@ const AutomationPage = () => {
     if (!target) {
       return;
     }
-
-    if (isGuestMode || !user) {
-      updateGuestAutomations(prev =>
-        prev.map(rule => (rule.id === automationId ? { ...rule, active: !rule.active } : rule))
-      );
-      return;
-    }
-
-    try {
-      const token = await getRemoteToken();
-      await updateAutomation(token, automationId, { active: !target.active });
-      setAutomations(prev => {
-        const next = prev.map(rule =>
-          rule.id === automationId ? { ...rule, active: !target.active } : rule
-        );
-        persistRemoteAutomations(next);
-        return next;
-      });
-      scheduleBackgroundSync();
-    } catch (error) {
-      console.error('Falha ao atualizar automação', error);
-      if (isAccessDeniedError(error)) {
-        updateGuestAutomations(prev =>
-          prev.map(rule => (rule.id === automationId ? { ...rule, active: !target.active } : rule))
-        );
-        toast.success('Automação atualizada localmente. Renove para sincronizar.');
-      } else {
-        toast.error('Não foi possível atualizar a automação');
-      }
-    }
+    await submitAutomationUpdate(
+      automationId,
+      `${target.active ? 'Pausar' : 'Ativar'} automação "${target.name}"`,
+      { active: !target.active },
+      'Não foi possível atualizar a automação'
+    );
   };
 
   const simulateRun = async (automationId: string) => {
@@ -401,66 +285,30 @@ const AutomationPage = () => {
     if (!target) {
       return;
     }
-    const updates = {
-      lastRun: new Date().toISOString(),
-      runCount: target.runCount + 1,
-    };
-
-    if (isGuestMode || !user) {
-      updateGuestAutomations(prev =>
-        prev.map(rule => (rule.id === automationId ? { ...rule, ...updates } : rule))
-      );
-      return;
-    }
-
-    try {
-      const token = await getRemoteToken();
-      await updateAutomation(token, automationId, updates);
-      setAutomations(prev => {
-        const next = prev.map(rule => (rule.id === automationId ? { ...rule, ...updates } : rule));
-        persistRemoteAutomations(next);
-        return next;
-      });
-      scheduleBackgroundSync();
-    } catch (error) {
-      console.error('Falha ao simular automação', error);
-      if (isAccessDeniedError(error)) {
-        updateGuestAutomations(prev =>
-          prev.map(rule =>
-            rule.id === automationId ? { ...rule, lastRun: updates.lastRun, runCount: updates.runCount } : rule
-          )
-        );
-        toast.success('Execução registrada localmente. Renove para sincronizar.');
-      } else {
-        toast.error('Não foi possível registrar a execução');
-      }
-    }
+    await submitAutomationUpdate(
+      automationId,
+      `Registrar execução de "${target.name}"`,
+      {
+        lastRun: new Date().toISOString(),
+        runCount: target.runCount + 1,
+      },
+      'Não foi possível registrar a execução'
+    );
   };
 
   const deleteAutomation = async (automationId: string) => {
-    if (isGuestMode || !user) {
-      updateGuestAutomations(prev => prev.filter(rule => rule.id !== automationId));
+    const outcome = await submit({
+      type: 'delete',
+      label: 'Remover automação',
+      entityId: automationId,
+      payload: null,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Falha ao remover automação', outcome.error);
+      toast.error('Não foi possível remover a automação');
       return;
     }
-
-    try {
-      const token = await getRemoteToken();
-      await deleteAutomationRemote(token, automationId);
-      setAutomations(prev => {
-        const next = prev.filter(rule => rule.id !== automationId);
-        persistRemoteAutomations(next);
-        return next;
-      });
-      scheduleBackgroundSync();
-    } catch (error) {
-      console.error('Falha ao remover automação', error);
-      if (isAccessDeniedError(error)) {
-        updateGuestAutomations(prev => prev.filter(rule => rule.id !== automationId));
-        toast.success('Automação removida localmente. Renove para sincronizar.');
-      } else {
-        toast.error('Não foi possível remover a automação');
-      }
-    }
+    updateAutomations(prev => prev.filter(rule => rule.id !== automationId));
   };
 
   const metrics = useMemo(() => {
@@ -826,4 +674,3 @@ const presetIdeas: Array<{
 ];
 
 export { AutomationPage };
-const buildRemoteCacheKey = (uid: string) => `${REMOTE_CACHE_PREFIX}_${uid}`;
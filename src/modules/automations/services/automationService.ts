@@ -1,4 +1,5 @@
 import { apiRequest } from '@shared/services/apiClient';
+import { createUnsupportedOperationError, type SyncExecutor } from '@shared/services/syncQueue';
 
 export interface AutomationRuleInput {
   name: string;
@@ -46,4 +47,34 @@ const deleteAutomation = (token: string, id: string) =>
     headers: authHeaders(token),
   });
 
-export { createAutomation, deleteAutomation, listAutomations, updateAutomation };
+const AUTOMATIONS_SYNC_SCOPE = 'automations';
+const AUTOMATIONS_GUEST_STORAGE_KEY = 'admin_panel_automations';
+
+const executeAutomationsOperation: SyncExecutor = async (operation, token) => {
+  const id = operation.entityId ?? '';
+  switch (operation.type) {
+    case 'create': {
+      const response = await createAutomation(token, operation.payload as AutomationRuleInput);
+      return { entityId: response.automation.id, data: response.automation };
+    }
+    case 'update':
+      return {
+        data: await updateAutomation(token, id, operation.payload as Partial<AutomationRuleInput>),
+      };
+    case 'delete':
+      await deleteAutomation(token, id);
+      return;
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
+export {
+  AUTOMATIONS_GUEST_STORAGE_KEY,
+  AUTOMATIONS_SYNC_SCOPE,
+  createAutomation,
+  deleteAutomation,
+  executeAutomationsOperation,
+  listAutomations,
+  updateAutomation,
+};
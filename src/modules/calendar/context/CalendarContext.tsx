@@ -4,22 +4,24 @@ import {
   useContext,
   useEffect,
   useMemo,
-  useRef,
   useState,
   type ReactNode,
 } from 'react';
 import toast from 'react-hot-toast';
 
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
-import type { ApiError } from '@shared/services/apiClient';
+import { useSyncScope } from '@core/providers/SyncProvider';
+import { generateId } from '@shared/utils/id';
+import { buildRemoteCacheKey, readStoredValue, writeStoredValue } from '@shared/services/syncQueue';
 
-import { createEvent, deleteEventRemote, listEvents } from '../services/calendarService';
+import {
+  CALENDAR_GUEST_STORAGE_KEY,
+  CALENDAR_SYNC_SCOPE,
+  listEvents,
+} from '../services/calendarService';
 import type { CalendarContextValue, CalendarEvent, CalendarState } from '../types/calendar';
 
-const LOCAL_STORAGE_KEY = 'calendar_events_state';
 const REMOTE_CACHE_PREFIX = 'calendar_events_state_remote';
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
 
 const initialState: CalendarState = {
   events: [],
@@ -55,228 +57,93 @@ const mapStoredEvents = (raw: unknown): CalendarEvent[] => {
     .filter((event): event is CalendarEvent => Boolean(event));
 };
 
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
-  const status = getErrorStatus(error);
-  return status === 401 || status === 403;
-};
-
-const buildRemoteCacheKey = (uid: string) => `${REMOTE_CACHE_PREFIX}_${uid}`;
-
 function CalendarProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
-  const isGuestMode = useLocalMode();
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(CALENDAR_SYNC_SCOPE);
   const [state, setState] = useState<CalendarState>(initialState);
   const [loading, setLoading] = useState(true);
-  const refreshTimerRef = useRef<number | null>(null);
-
-  const loadGuestEvents = useCallback(() => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (!stored) {
-        setState(initialState);
-        return;
-      }
-      const parsed = JSON.parse(stored) as unknown;
-      setState({ events: sortEvents(mapStoredEvents(parsed)) });
-    } catch (error) {
-      console.error('Erro ao carregar eventos locais', error);
-      setState(initialState);
-    }
-  }, []);
-
-  const persistGuest = useCallback((events: CalendarEvent[]) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(events));
-    } catch (error) {
-      console.error('Erro ao salvar eventos locais', error);
-    }
-  }, []);
-
-  const persistRemoteCache = useCallback(
-    (events: CalendarEvent[]) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(events));
-      } catch (error) {
-        console.warn('Não foi possível salvar cache remoto do calendário', error);
-      }
+  const storageKey =
+    isLocalOnly || !user
+      ? CALENDAR_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
+
+  const updateEvents = useCallback(
+    (updater: (prev: CalendarEvent[]) => CalendarEvent[]) => {
+      setState(prev => {
+        const events = updater(prev.events);
+        writeStoredValue(storageKey, events);
+        return { events };
+      });
     },
-    [user]
+    [storageKey]
   );
 
-  const loadRemoteCache = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as unknown;
-      return sortEvents(mapStoredEvents(parsed));
-    } catch (error) {
-      console.warn('Não foi possível carregar cache remoto do calendário', error);
-      return null;
-    }
-  }, [user]);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteEvents = useCallback(async () => {
-    const token = await getRemoteToken();
+    const token = await getToken();
     const response = await listEvents(token);
     const events = sortEvents(response.events ?? []);
-    persistRemoteCache(events);
+    writeStoredValue(storageKey, events);
     setState({ events });
-  }, [getRemoteToken, persistRemoteCache]);
+  }, [getToken, storageKey]);
 
-  const scheduleBackgroundSync = useCallback(() => {
-    if (typeof window === 'undefined' || isGuestMode || !user) {
-      return;
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
-    refreshTimerRef.current = window.setTimeout(() => {
-      fetchRemoteEvents().catch(error =>
-        console.error('Falha ao sincronizar eventos em segundo plano', error)
-      );
-    }, 2000);
-  }, [fetchRemoteEvents, isGuestMode, user]);
+  useEffect(() => registerRefresh(fetchRemoteEvents), [fetchRemoteEvents, registerRefresh]);
 
   useEffect(() => {
-    return () => {
-      if (refreshTimerRef.current && typeof window !== 'undefined') {
-        window.clearTimeout(refreshTimerRef.current);
-      }
-    };
-  }, []);
+    setLoading(true);
+    setState({ events: sortEvents(mapStoredEvents(readStoredValue<unknown>(storageKey))) });
 
-  useEffect(() => {
-    if (isGuestMode || !user) {
-      setLoading(true);
-      loadGuestEvents();
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
       setLoading(false);
       return;
     }
 
-    setLoading(true);
-    const cached = loadRemoteCache();
-    if (cached) {
-      setState({ events: cached });
-      setLoading(false);
-    }
-
     fetchRemoteEvents()
       .then(() => setLoading(false))
       .catch(error => {
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          loadGuestEvents();
-          setLoading(false);
-          return;
-        }
         console.error('Erro ao carregar eventos do servidor', error);
         setLoading(false);
       });
-  }, [fetchRemoteEvents, isGuestMode, loadGuestEvents, loadRemoteCache, user]);
+  }, [canSync, fetchRemoteEvents, hasPendingOperations, isLocalOnly, storageKey]);
 
   const addEvent = useCallback<CalendarContextValue['addEvent']>(
     async data => {
-      const nextEvent: CalendarEvent = {
-        ...data,
-        id: crypto.randomUUID?.() ?? `${Date.now()}`,
-      };
-
-      if (isGuestMode || !user) {
-        setState(prev => {
-          const events = sortEvents([nextEvent, ...prev.events]);
-          persistGuest(events);
-          return { events };
-        });
+      const id = generateId();
+      const outcome = await submit<CalendarEvent>({
+        type: 'create',
+        label: `Criar evento "${data.title}"`,
+        entityId: id,
+        payload: data,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao registrar evento no calendário', outcome.error);
+        toast.error('Não foi possível registrar o evento.');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const response = await createEvent(token, data);
-        setState(prev => {
-          const events = sortEvents([response.event, ...prev.events]);
-          persistRemoteCache(events);
-          return { events };
-        });
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao registrar evento no calendário', error);
-        if (isAccessDeniedError(error)) {
-          setState(prev => {
-            const events = sortEvents([nextEvent, ...prev.events]);
-            persistGuest(events);
-            return { events };
-          });
-          toast.success('Evento registrado localmente. Renove para sincronizar.');
-        }
-      }
+      const nextEvent =
+        outcome.status === 'synced' && outcome.data ? outcome.data : { ...data, id };
+      updateEvents(events => sortEvents([nextEvent, ...events]));
     },
-    [getRemoteToken, isGuestMode, persistGuest, persistRemoteCache, scheduleBackgroundSync, user]
+    [submit, updateEvents]
   );
 
   const removeEvent = useCallback<CalendarContextValue['removeEvent']>(
     async id => {
-      if (isGuestMode || !user) {
-        setState(prev => {
-          const events = prev.events.filter(event => event.id !== id);
-          persistGuest(events);
-          return { events };
-        });
+      const outcome = await submit({
+        type: 'delete',
+        label: 'Remover evento',
+        entityId: id,
+        payload: null,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover evento do calendário', outcome.error);
+        toast.error('Não foi possível remover o evento.');
         return;
       }
-
-      try {
-        const token = await getRemoteToken();
-        await deleteEventRemote(token, id);
-        setState(prev => {
-          const events = prev.events.filter(event => event.id !== id);
-          persistRemoteCache(events);
-          return { events };
-        });
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao remover evento do calendário', error);
-        if (isAccessDeniedError(error)) {
-          setState(prev => {
-            const events = prev.events.filter(event => event.id !== id);
-            persistGuest(events);
-            return { events };
-          });
-          toast.success('Evento removido localmente. Renove para sincronizar.');
-        }
-      }
+      updateEvents(events => events.filter(event => event.id !== id));
     },
-    [getRemoteToken, isGuestMode, persistGuest, persistRemoteCache, scheduleBackgroundSync, user]
+    [submit, updateEvents]
   );
 
   const value = useMemo<CalendarContextValue>(
@@ -1,4 +1,5 @@
 import { apiRequest } from '@shared/services/apiClient';
+import { createUnsupportedOperationError, type SyncExecutor } from '@shared/services/syncQueue';
 
 import type { CalendarEvent } from '../types/calendar';
 
@@ -26,4 +27,28 @@ const deleteEventRemote = (token: string, id: string) =>
     headers: authHeaders(token),
   });
 
-export { createEvent, deleteEventRemote, listEvents };
+const CALENDAR_SYNC_SCOPE = 'calendar';
+const CALENDAR_GUEST_STORAGE_KEY = 'calendar_events_state';
+
+const executeCalendarOperation: SyncExecutor = async (operation, token) => {
+  switch (operation.type) {
+    case 'create': {
+      const response = await createEvent(token, operation.payload as Omit<CalendarEvent, 'id'>);
+      return { entityId: response.event.id, data: response.event };
+    }
+    case 'delete':
+      await deleteEventRemote(token, operation.entityId ?? '');
+      return;
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
+export {
+  CALENDAR_GUEST_STORAGE_KEY,
+  CALENDAR_SYNC_SCOPE,
+  createEvent,
+  deleteEventRemote,
+  executeCalendarOperation,
+  listEvents,
+};
@@ -101,7 +101,9 @@ const AccountProfileModal = ({ isOpen, onClose }: AccountProfileModalProps) => {
       ? 'Assinatura ativa'
       : profile.subscriptionStatus === 'pending_cancel'
         ? 'Cancelamento agendado'
-        : 'Assinatura cancelada';
+        : profile.subscriptionStatus === 'past_due'
+          ? 'Pagamento pendente'
+          : 'Assinatura cancelada';
 
   const remainingDays =
     formattedActiveUntil && profile.activeUntil
@@ -120,13 +122,15 @@ const AccountProfileModal = ({ isOpen, onClose }: AccountProfileModalProps) => {
         ? `Você mantém o acesso até ${formattedActiveUntil}.${
             typeof remainingDays === 'number' ? ` Restam ${remainingDays} dias.` : ''
           }`
-        : profile.subscriptionStatus === 'canceled' && profile.canceledAt
-          ? `Cancelada em ${new Date(profile.canceledAt).toLocaleDateString('pt-BR', {
-              day: '2-digit',
-              month: 'long',
-              year: 'numeric',
-            })}.`
-          : null;
+        : profile.subscriptionStatus === 'past_due'
+          ? 'Não conseguimos processar a última cobrança. Atualize o pagamento para reativar a sincronização.'
+          : profile.subscriptionStatus === 'canceled' && profile.canceledAt
+            ? `Cancelada em ${new Date(profile.canceledAt).toLocaleDateString('pt-BR', {
+                day: '2-digit',
+                month: 'long',
+                year: 'numeric',
+              })}.`
+            : null;
 
   const showCancelButton = profile.subscriptionStatus === 'active';
 
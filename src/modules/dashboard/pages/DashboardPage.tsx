@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { DashboardLayout } from '@core/layout/DashboardLayout';
 import { useCalendar } from '@modules/calendar/context/CalendarContext';
 import { useAuth } from '@modules/auth/services/AuthContext';
+import { GuestImportWizard } from '@modules/guestImport/components/GuestImportWizard';
 import { Modal } from '@shared/components/Modal/Modal';
 
 import { AppCard } from '../components/AppCard';
@@ -81,6 +82,7 @@ const DashboardPage = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [autoOpened, setAutoOpened] = useState(false);
   const [hydrated, setHydrated] = useState(false);
+  const [isImportOpen, setImportOpen] = useState(false);
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -203,7 +205,7 @@ const DashboardPage = () => {
       </DashboardLayout>
 
       <Modal
-        isOpen={isModalOpen && reminders.length > 0}
+        isOpen={isModalOpen && reminders.length > 0 && !isImportOpen}
         title="Lembretes da semana"
         onClose={handleCloseModal}
         footer={
@@ -237,6 +239,8 @@ const DashboardPage = () => {
           )}
         </div>
       </Modal>
+
+      <GuestImportWizard onOpenChange={setImportOpen} />
     </>
   );
 };
@@ -0,0 +1,34 @@
+import type { UseFormRegisterReturn } from 'react-hook-form';
+
+import { useFinance } from '../context/FinanceContext';
+import styles from './FinanceForm.module.css';
+
+interface AccountFieldProps {
+  id: string;
+  registration: UseFormRegisterReturn;
+}
+
+/** Conta do lançamento; só aparece depois que alguma conta é cadastrada em "Configurações". */
+const AccountField = ({ id, registration }: AccountFieldProps) => {
+  const { accounts } = useFinance();
+
+  if (!accounts.length) {
+    return null;
+  }
+
+  return (
+    <div className={styles.field}>
+      <label htmlFor={id}>Conta</label>
+      <select id={id} {...registration}>
+        <option value="">Sem conta</option>
+        {accounts.map(account => (
+          <option key={account.id} value={account.id}>
+            {account.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export { AccountField };
@@ -0,0 +1,233 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { formatCurrency } from '@shared/utils/format';
+
+import { useFinance } from '../context/FinanceContext';
+import { computeAccountBalances, formatAccountName, formatAccountType } from '../utils/accounts';
+import { formatDateDisplay, sortByDateAndDescription } from '../utils/period';
+import styles from './FinanceForm.module.css';
+
+const transferSchema = z
+  .object({
+    fromAccountId: z.string().min(1, 'Escolha a conta de origem'),
+    toAccountId: z.string().min(1, 'Escolha a conta de destino'),
+    amount: z.coerce.number().positive('Informe um valor positivo'),
+    date: z.string().min(1, 'Informe a data'),
+    description: z.string().default(''),
+  })
+  .refine(values => values.fromAccountId !== values.toAccountId, {
+    message: 'Escolha contas diferentes',
+    path: ['toAccountId'],
+  });
+
+type TransferFormValues = z.infer<typeof transferSchema>;
+
+const buildDefaultValues = (): TransferFormValues => ({
+  fromAccountId: '',
+  toAccountId: '',
+  amount: 0,
+  date: new Date().toISOString().split('T')[0],
+  description: '',
+});
+
+/** Saldo atual de cada conta e registro das transferências entre elas. */
+const AccountsOverview = () => {
+  const {
+    accounts,
+    transfers,
+    expenses,
+    incomes,
+    investments,
+    creditCards,
+    addTransfer,
+    deleteTransfer,
+  } = useFinance();
+  const today = new Date().toISOString().split('T')[0];
+
+  const balances = useMemo(
+    () =>
+      computeAccountBalances(
+        { accounts, transfers, expenses, incomes, investments, creditCards },
+        today
+      ),
+    [accounts, creditCards, expenses, incomes, investments, today, transfers]
+  );
+
+  const sortedTransfers = useMemo(() => sortByDateAndDescription(transfers), [transfers]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TransferFormValues>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: buildDefaultValues(),
+  });
+
+  const onSubmit = async ({ description, ...values }: TransferFormValues) => {
+    await addTransfer({ ...values, description: description.trim() || 'Transferência' });
+    reset(buildDefaultValues());
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Remover a transferência? Os saldos das duas contas serão recalculados.')) {
+      void deleteTransfer(id);
+    }
+  };
+
+  const totalBalance = balances.reduce((sum, entry) => sum + entry.balance, 0);
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Contas</h2>
+            <p>
+              Saldo de cada conta com receitas, gastos, aportes e transferências registrados até
+              hoje. Compras no crédito pesam na conta no vencimento da fatura.
+            </p>
+          </div>
+          <span className={styles.periodChip}>Total {formatCurrency(totalBalance)}</span>
+        </div>
+
+        {accounts.length === 0 ? (
+          <div className={styles.emptyState}>
+            Cadastre suas contas e carteiras em &ldquo;Configurações&rdquo; para acompanhar os
+            saldos e registrar transferências.
+          </div>
+        ) : (
+          <>
+            <div className={styles.summaryStrip}>
+              {balances.map(entry => (
+                <div key={entry.account.id} className={styles.summaryCard}>
+                  <span>
+                    {entry.account.name} · {formatAccountType(entry.account.type)}
+                  </span>
+                  <strong>{formatCurrency(entry.balance)}</strong>
+                </div>
+              ))}
+            </div>
+
+            <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+              <div className={styles.row}>
+                <div className={styles.field}>
+                  <label htmlFor="transfer-from">De</label>
+                  <select id="transfer-from" {...register('fromAccountId')}>
+                    <option value="">Selecione</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.fromAccountId && (
+                    <span className={styles.error}>{errors.fromAccountId.message}</span>
+                  )}
+                </div>
+
+                <div className={styles.field}>
+                  <label htmlFor="transfer-to">Para</label>
+                  <select id="transfer-to" {...register('toAccountId')}>
+                    <option value="">Selecione</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.toAccountId && (
+                    <span className={styles.error}>{errors.toAccountId.message}</span>
+                  )}
+                </div>
+
+                <div className={styles.field}>
+                  <label htmlFor="transfer-amount">Valor</label>
+                  <input
+                    id="transfer-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    {...register('amount', { valueAsNumber: true })}
+                  />
+                  {errors.amount && <span className={styles.error}>{errors.amount.message}</span>}
+                </div>
+              </div>
+
+              <div className={styles.row}>
+                <div className={styles.field}>
+                  <label htmlFor="transfer-description">Descrição</label>
+                  <input
+                    id="transfer-description"
+                    placeholder="Reserva de emergência, saque..."
+                    {...register('description')}
+                  />
+                </div>
+
+                <div className={styles.field}>
+                  <label htmlFor="transfer-date">Data</label>
+                  <input id="transfer-date" type="date" {...register('date')} />
+                  {errors.date && <span className={styles.error}>{errors.date.message}</span>}
+                </div>
+              </div>
+
+              <div className={styles.actions}>
+                <button type="submit" disabled={isSubmitting}>
+                  Registrar transferência
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+
+      <div className={styles.listPanel}>
+        {sortedTransfers.length === 0 ? (
+          <div className={styles.emptyState}>Nenhuma transferência registrada.</div>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th className={styles.descriptionHeader}>Descrição</th>
+                  <th>Origem → destino</th>
+                  <th className={styles.valueHeader}>Valor</th>
+                  <th>Data</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedTransfers.map(transfer => (
+                  <tr key={transfer.id}>
+                    <td className={styles.descriptionCell}>
+                      <strong>{transfer.description}</strong>
+                    </td>
+                    <td>
+                      {formatAccountName(accounts, transfer.fromAccountId)} →{' '}
+                      {formatAccountName(accounts, transfer.toAccountId)}
+                    </td>
+                    <td className={styles.valueCell}>{formatCurrency(transfer.amount)}</td>
+                    <td className={styles.dateCell}>{formatDateDisplay(transfer.date)}</td>
+                    <td className={styles.actionCell}>
+                      <div className={styles.tableActions}>
+                        <button type="button" onClick={() => handleDelete(transfer.id)}>
+                          Remover
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export { AccountsOverview };
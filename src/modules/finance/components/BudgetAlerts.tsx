@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useFinance } from '../context/FinanceContext';
+import type { BudgetAlertSetting } from '../types/finance';
+import {
+  DEFAULT_BUDGET_THRESHOLDS,
+  getBudgetThresholds,
+  parseBudgetThresholds,
+} from '../utils/budgetAlerts';
+import { getCategoryNames, getRootCategories } from '../utils/categories';
+import { formatDateDisplay } from '../utils/period';
+import styles from './FinanceForm.module.css';
+
+const formatThresholds = (thresholds: number[]) => thresholds.join(', ');
+
+const formatMonthKey = (monthKey: string) => {
+  const [year, month] = monthKey.split('-');
+  return `${month}/${year}`;
+};
+
+/**
+ * Caixa de entrada dos avisos de orçamento e limites por categoria. Os limites valem para as
+ * categorias principais, as mesmas que recebem percentual no planner.
+ */
+const BudgetAlerts = () => {
+  const {
+    categories,
+    budgetAlerts,
+    notifications,
+    saveBudgetAlerts,
+    markNotificationsRead,
+    removeNotification,
+  } = useFinance();
+  const categoryNames = useMemo(
+    () => getCategoryNames(getRootCategories(categories.expenses)),
+    [categories.expenses]
+  );
+  const savedDrafts = useMemo<Record<string, string>>(
+    () =>
+      Object.fromEntries(
+        categoryNames.map(name => [name, formatThresholds(getBudgetThresholds(budgetAlerts, name))])
+      ),
+    [budgetAlerts, categoryNames]
+  );
+  const [drafts, setDrafts] = useState(savedDrafts);
+
+  useEffect(() => {
+    setDrafts(savedDrafts);
+  }, [savedDrafts]);
+
+  const unreadIds = notifications
+    .filter(notification => !notification.read)
+    .map(notification => notification.id);
+
+  // Categorias com os limites padrão ficam fora da lista salva.
+  const handleSave = () => {
+    const settings: BudgetAlertSetting[] = categoryNames
+      .map(category => ({ category, thresholds: parseBudgetThresholds(drafts[category] ?? '') }))
+      .filter(
+        entry => formatThresholds(entry.thresholds) !== formatThresholds(DEFAULT_BUDGET_THRESHOLDS)
+      );
+    void saveBudgetAlerts(settings);
+  };
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Alertas de orçamento</h2>
+            <p>
+              Ao registrar um gasto, avisamos quando a categoria passa de cada limite do valor
+              planejado para ela no planner do mês. Deixe o campo vazio para não receber avisos.
+            </p>
+          </div>
+          <span className={styles.periodChip}>
+            Padrão {formatThresholds(DEFAULT_BUDGET_THRESHOLDS)}%
+          </span>
+        </div>
+
+        <div className={styles.form}>
+          <div className={styles.row}>
+            {categoryNames.map(category => (
+              <div key={category} className={styles.field}>
+                <label htmlFor={`budget-alert-${category}`}>{category} (%)</label>
+                <input
+                  id={`budget-alert-${category}`}
+                  placeholder="Sem alertas"
+                  value={drafts[category] ?? ''}
+                  onChange={event =>
+                    setDrafts(prev => ({ ...prev, [category]: event.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.actions}>
+            <button type="button" onClick={handleSave}>
+              Salvar limites
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className={styles.listPanel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Avisos</h2>
+            <p>
+              {unreadIds.length
+                ? `${unreadIds.length} aviso(s) não lido(s).`
+                : 'Nenhum aviso pendente.'}
+            </p>
+          </div>
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              disabled={!unreadIds.length}
+              onClick={() => void markNotificationsRead(unreadIds)}
+            >
+              Marcar todos como lidos
+            </button>
+          </div>
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className={styles.emptyState}>Nenhum aviso recebido.</div>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th className={styles.descriptionHeader}>Aviso</th>
+                  <th>Mês</th>
+                  <th>Recebido em</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {notifications.map(notification => (
+                  <tr key={notification.id} className={notification.read ? '' : styles.unreadRow}>
+                    <td className={styles.descriptionCell}>
+                      <strong>{notification.title}</strong>
+                      <small>{notification.message}</small>
+                    </td>
+                    <td className={styles.dateCell}>{formatMonthKey(notification.monthKey)}</td>
+                    <td className={styles.dateCell}>
+                      {formatDateDisplay(notification.createdAt.slice(0, 10))}
+                    </td>
+                    <td className={styles.actionCell}>
+                      <div className={styles.tableActions}>
+                        {!notification.read && (
+                          <button
+                            type="button"
+                            onClick={() => void markNotificationsRead([notification.id])}
+                          >
+                            Marcar como lido
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => void removeNotification(notification.id)}
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export { BudgetAlerts };
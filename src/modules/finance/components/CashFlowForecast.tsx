@@ -0,0 +1,334 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { formatCurrency } from '@shared/utils/format';
+import { generateId } from '@shared/utils/id';
+
+import { useFinance } from '../context/FinanceContext';
+import { usePlannerGoals } from '../hooks/usePlannerGoals';
+import {
+  buildCashFlowForecast,
+  FORECAST_AVERAGE_WINDOW,
+  FORECAST_MONTHS,
+  type ForecastEvent,
+} from '../utils/forecast';
+import styles from './FinanceForm.module.css';
+
+const EVENTS_STORAGE_KEY = 'finance_forecast_events';
+
+const eventSchema = z.object({
+  label: z.string().trim().min(1, 'Descreva o evento'),
+  amount: z.coerce.number().positive('Informe um valor maior que zero'),
+  direction: z.enum(['saida', 'entrada']),
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, 'Escolha o mês'),
+});
+
+type EventFormValues = z.infer<typeof eventSchema>;
+
+const readStoredEvents = (): ForecastEvent[] => {
+  try {
+    const raw = window.localStorage.getItem(EVENTS_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+    return Array.isArray(parsed) ? (parsed as ForecastEvent[]) : [];
+  } catch (error) {
+    console.warn('[forecast] Falha ao ler eventos locais', error);
+    return [];
+  }
+};
+
+const formatMonthLabel = (monthKey: string) => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('pt-BR', {
+    month: 'short',
+    year: '2-digit',
+  });
+};
+
+const currencyTick = (value: number) => formatCurrency(value).replace('R$', 'R$ ');
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Saldo projetado para os próximos meses, com os meses negativos em destaque. Os eventos
+ * hipotéticos ficam só neste navegador: servem para testar cenários, não são lançamentos.
+ */
+const CashFlowForecast = () => {
+  const { accounts, expenses, incomes, investments, recurrences, creditCards } = useFinance();
+  const referenceDate = today();
+  const [year, month] = referenceDate.split('-').map(Number);
+  const goals = usePlannerGoals(year, month);
+  const [events, setEvents] = useState<ForecastEvent[]>(readStoredEvents);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(EVENTS_STORAGE_KEY, JSON.stringify(events));
+    } catch (error) {
+      console.warn('[forecast] Falha ao salvar eventos locais', error);
+    }
+  }, [events]);
+
+  const forecast = useMemo(
+    () =>
+      buildCashFlowForecast(
+        { accounts, expenses, incomes, investments, recurrences, creditCards },
+        { today: referenceDate, goals, events }
+      ),
+    [
+      accounts,
+      creditCards,
+      events,
+      expenses,
+      goals,
+      incomes,
+      investments,
+      recurrences,
+      referenceDate,
+    ]
+  );
+  const chartData = forecast.months.map(item => ({
+    ...item,
+    label: formatMonthLabel(item.monthKey),
+  }));
+  const negativeMonths = forecast.months.filter(item => item.balance < 0);
+  const monthOptions = forecast.months.map(item => item.monthKey);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<EventFormValues>({
+    resolver: zodResolver(eventSchema),
+    defaultValues: { label: '', amount: 0, direction: 'saida', monthKey: monthOptions[0] },
+  });
+
+  const onAddEvent = (values: EventFormValues) => {
+    setEvents(current => [
+      ...current,
+      {
+        id: generateId(),
+        label: values.label,
+        amount: values.direction === 'saida' ? -values.amount : values.amount,
+        monthKey: values.monthKey,
+        enabled: true,
+      },
+    ]);
+    reset({ label: '', amount: 0, direction: values.direction, monthKey: values.monthKey });
+  };
+
+  const toggleEvent = (id: string) =>
+    setEvents(current =>
+      current.map(event => (event.id === id ? { ...event, enabled: !event.enabled } : event))
+    );
+
+  const removeEvent = (id: string) =>
+    setEvents(current => current.filter(event => event.id !== id));
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Projeção de caixa</h2>
+            <p>
+              Saldo previsto para os próximos {FORECAST_MONTHS} meses com as recorrências, os
+              lançamentos já agendados, a média dos gastos avulsos dos últimos{' '}
+              {FORECAST_AVERAGE_WINDOW} meses e as reservas das metas do planner.
+            </p>
+          </div>
+          <span className={styles.periodChip}>
+            Saldo hoje {formatCurrency(forecast.startBalance)}
+          </span>
+        </div>
+
+        <div className={styles.summaryStrip}>
+          <div className={styles.summaryCard}>
+            <span>Saldo em {formatMonthLabel(monthOptions[monthOptions.length - 1])}</span>
+            <strong>{formatCurrency(forecast.months[forecast.months.length - 1].balance)}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span>Média mensal de gastos avulsos</span>
+            <strong>
+              {formatCurrency(
+                forecast.averageByCategory.reduce((sum, item) => sum + item.average, 0)
+              )}
+            </strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span>Meses no negativo</span>
+            <strong>
+              {negativeMonths.length
+                ? negativeMonths.map(item => formatMonthLabel(item.monthKey)).join(', ')
+                : 'Nenhum'}
+            </strong>
+          </div>
+        </div>
+
+        <div className={styles.forecastChart}>
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 39, 118, 0.12)" />
+              <XAxis dataKey="label" />
+              <YAxis tickFormatter={currencyTick} width={100} />
+              <Tooltip
+                formatter={value => formatCurrency(Number(value))}
+                labelFormatter={value => `Mês: ${value}`}
+              />
+              <ReferenceLine y={0} stroke="#d93025" strokeDasharray="4 4" />
+              <Area
+                dataKey="balance"
+                type="monotone"
+                stroke="#002776"
+                fill="rgba(0, 39, 118, 0.15)"
+                strokeWidth={2}
+                name="Saldo projetado"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+
+        <form onSubmit={handleSubmit(onAddEvent)} className={styles.form}>
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="forecast-event-label">Evento hipotético</label>
+              <input
+                id="forecast-event-label"
+                placeholder="IPVA, bônus, troca de carro..."
+                {...register('label')}
+              />
+              {errors.label && <span className={styles.error}>{errors.label.message}</span>}
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="forecast-event-amount">Valor</label>
+              <input
+                id="forecast-event-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register('amount', { valueAsNumber: true })}
+              />
+              {errors.amount && <span className={styles.error}>{errors.amount.message}</span>}
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="forecast-event-direction">Tipo</label>
+              <select id="forecast-event-direction" {...register('direction')}>
+                <option value="saida">Saída</option>
+                <option value="entrada">Entrada</option>
+              </select>
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="forecast-event-month">Mês</label>
+              <select id="forecast-event-month" {...register('monthKey')}>
+                {monthOptions.map(monthKey => (
+                  <option key={monthKey} value={monthKey}>
+                    {formatMonthLabel(monthKey)}
+                  </option>
+                ))}
+              </select>
+              {errors.monthKey && <span className={styles.error}>{errors.monthKey.message}</span>}
+            </div>
+          </div>
+
+          <div className={styles.actions}>
+            <button type="submit">Adicionar evento</button>
+          </div>
+        </form>
+
+        {events.length > 0 && (
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th>Considerar</th>
+                  <th className={styles.descriptionHeader}>Evento</th>
+                  <th>Mês</th>
+                  <th className={styles.valueHeader}>Valor</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map(event => (
+                  <tr key={event.id}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={event.enabled}
+                        onChange={() => toggleEvent(event.id)}
+                        aria-label={`Considerar ${event.label}`}
+                      />
+                    </td>
+                    <td className={styles.descriptionCell}>
+                      <strong>{event.label}</strong>
+                    </td>
+                    <td className={styles.dateCell}>{formatMonthLabel(event.monthKey)}</td>
+                    <td className={styles.valueCell}>{formatCurrency(event.amount)}</td>
+                    <td className={styles.actionCell}>
+                      <div className={styles.tableActions}>
+                        <button type="button" onClick={() => removeEvent(event.id)}>
+                          Remover
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className={styles.listPanel}>
+        <div className={styles.tableWrapper}>
+          <table className={styles.dataTable}>
+            <thead>
+              <tr>
+                <th>Mês</th>
+                <th className={styles.valueHeader}>Receitas</th>
+                <th className={styles.valueHeader}>Despesas</th>
+                <th className={styles.valueHeader}>Gastos médios</th>
+                <th className={styles.valueHeader}>Investimentos</th>
+                <th className={styles.valueHeader}>Metas</th>
+                <th className={styles.valueHeader}>Eventos</th>
+                <th className={styles.valueHeader}>Saldo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {forecast.months.map(item => (
+                <tr key={item.monthKey} className={item.balance < 0 ? styles.negativeRow : ''}>
+                  <td className={styles.dateCell}>{formatMonthLabel(item.monthKey)}</td>
+                  <td className={styles.valueCell}>{formatCurrency(item.incomes)}</td>
+                  <td className={styles.valueCell}>{formatCurrency(item.expenses)}</td>
+                  <td className={styles.valueCell}>{formatCurrency(item.averageSpending)}</td>
+                  <td className={styles.valueCell}>{formatCurrency(item.investments)}</td>
+                  <td className={styles.valueCell}>{formatCurrency(item.goalReserves)}</td>
+                  <td className={styles.valueCell}>{formatCurrency(item.events)}</td>
+                  <td className={styles.valueCell}>
+                    {formatCurrency(item.balance)}
+                    {item.balance < 0 && <small>Saldo negativo</small>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export { CashFlowForecast };
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+
+import { formatCurrency } from '@shared/utils/format';
+
+import { useFinance } from '../context/FinanceContext';
+import { useRecurrenceMaterialization } from '../hooks/useRecurrenceMaterialization';
+import { groupCreditCardInvoices } from '../utils/creditCard';
+import {
+  formatDateDisplay,
+  formatPeriodLabel,
+  getAvailableYears,
+  getCurrentMonth,
+  getCurrentYear,
+  matchesPeriod,
+  MONTH_OPTIONS,
+} from '../utils/period';
+import { formatRecurrenceProgress } from '../utils/recurrence';
+import styles from './FinanceForm.module.css';
+
+/** Faturas dos cartões cadastrados, filtradas pelo mês de vencimento. */
+const CreditCardInvoices = () => {
+  const { expenses, creditCards } = useFinance();
+  const [selectedYear, setSelectedYear] = useState<number>(getCurrentYear());
+  const [selectedMonth, setSelectedMonth] = useState<number>(getCurrentMonth());
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  useRecurrenceMaterialization(selectedYear, selectedMonth);
+
+  const invoices = useMemo(
+    () => groupCreditCardInvoices(expenses, creditCards),
+    [creditCards, expenses]
+  );
+
+  const yearOptions = useMemo(
+    () => getAvailableYears(invoices.map(invoice => invoice.dueDate)),
+    [invoices]
+  );
+
+  const periodInvoices = useMemo(
+    () =>
+      invoices.filter(invoice => matchesPeriod(invoice.dueDate, selectedYear, selectedMonth)),
+    [invoices, selectedMonth, selectedYear]
+  );
+
+  if (!creditCards.length) {
+    return null;
+  }
+
+  const periodLabel = formatPeriodLabel(selectedMonth, selectedYear);
+
+  return (
+    <section className={styles.panel}>
+      <div className={styles.panelHeader}>
+        <div>
+          <h2>Faturas dos cartões</h2>
+          <p>Compras no crédito agrupadas pela fatura em que serão cobradas.</p>
+        </div>
+        <span className={styles.periodChip}>Vencimento em {periodLabel}</span>
+      </div>
+
+      <div className={styles.filters}>
+        <div className={styles.filter}>
+          <label htmlFor="invoice-year">Ano</label>
+          <select
+            id="invoice-year"
+            value={selectedYear}
+            onChange={event => setSelectedYear(Number(event.target.value))}
+          >
+            {yearOptions.map(year => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.filter}>
+          <label htmlFor="invoice-month">Mês</label>
+          <select
+            id="invoice-month"
+            value={selectedMonth}
+            onChange={event => setSelectedMonth(Number(event.target.value))}
+          >
+            {MONTH_OPTIONS.map(month => (
+              <option key={month.value} value={month.value}>
+                {month.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {periodInvoices.length === 0 ? (
+        <div className={styles.emptyState}>Nenhuma fatura com vencimento em {periodLabel}.</div>
+      ) : (
+        <div className={styles.tableWrapper}>
+          <table className={styles.dataTable}>
+            <thead>
+              <tr>
+                <th className={styles.descriptionHeader}>Cartão</th>
+                <th>Fechamento</th>
+                <th>Vencimento</th>
+                <th className={styles.valueHeader}>Total</th>
+                <th>Ações</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periodInvoices.map(invoice => {
+                const key = `${invoice.card.id}|${invoice.dueDate}`;
+                const expanded = expandedKey === key;
+                return (
+                  <tr key={key}>
+                    <td className={styles.descriptionCell}>
+                      <strong>{invoice.card.name}</strong>
+                      {expanded ? (
+                        invoice.items.map(item => {
+                          const progress = formatRecurrenceProgress(
+                            item.recurrenceIndex,
+                            item.recurrenceTotal
+                          );
+                          return (
+                            <small key={item.id}>
+                              {formatDateDisplay(item.date)} · {item.description}
+                              {progress ? ` (${progress})` : ''} · {formatCurrency(item.amount)}
+                            </small>
+                          );
+                        })
+                      ) : (
+                        <small>{invoice.items.length} compra(s)</small>
+                      )}
+                    </td>
+                    <td className={styles.dateCell}>{formatDateDisplay(invoice.closingDate)}</td>
+                    <td className={styles.dateCell}>{formatDateDisplay(invoice.dueDate)}</td>
+                    <td className={styles.valueCell}>{formatCurrency(invoice.total)}</td>
+                    <td className={styles.actionCell}>
+                      <div className={styles.tableActions}>
+                        <button
+                          type="button"
+                          onClick={() => setExpandedKey(expanded ? null : key)}
+                        >
+                          {expanded ? 'Ocultar compras' : 'Ver compras'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export { CreditCardInvoices };
@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+
+import { downloadFile } from '@shared/utils/download';
+
+import { useFinance } from '../context/FinanceContext';
+import type { FinanceRestoreStatus } from '../types/finance';
+import {
+  diffFinanceBackup,
+  parseFinanceBackup,
+  type BackupSectionDiff,
+  type FinanceBackup,
+} from '../utils/backup';
+import { formatDateDisplay } from '../utils/period';
+import styles from './FinanceForm.module.css';
+
+interface PendingRestore {
+  fileName: string;
+  backup: FinanceBackup;
+  diff: BackupSectionDiff[];
+}
+
+/**
+ * Backup completo em JSON e restauração a partir dele. Antes de substituir os dados, o arquivo é
+ * validado e a prévia mostra, por seção, o que entra, sai ou muda em relação ao que existe hoje.
+ */
+const DataBackup = () => {
+  const { createBackup, getPendingRestore, restoreBackup } = useFinance();
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [interrupted, setInterrupted] = useState<FinanceRestoreStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let active = true;
+    void getPendingRestore().then(status => {
+      if (active) {
+        setInterrupted(status);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [getPendingRestore]);
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    const backup = await createBackup();
+    setIsBusy(false);
+    if (!backup) {
+      return;
+    }
+    downloadFile(
+      JSON.stringify(backup, null, 2),
+      `financas-backup-${backup.exportedAt.slice(0, 10)}.json`,
+      'application/json'
+    );
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    setPending(null);
+    setError(null);
+    try {
+      const backup = parseFinanceBackup(await file.text());
+      const current = await createBackup();
+      if (!current) {
+        return;
+      }
+      setPending({ fileName: file.name, backup, diff: diffFinanceBackup(current, backup) });
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'Não foi possível ler o backup.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) {
+      return;
+    }
+    setIsBusy(true);
+    const restored = await restoreBackup(pending.backup);
+    setInterrupted(await getPendingRestore());
+    setIsBusy(false);
+    if (restored) {
+      setPending(null);
+    }
+  };
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Backup dos dados</h2>
+            <p>
+              Baixe um arquivo JSON com lançamentos, categorias, contas, recorrências, configurações
+              e o planner de todos os meses. Os comprovantes anexados não entram no arquivo.
+            </p>
+          </div>
+        </div>
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            disabled={isBusy}
+            onClick={() => inputRef.current?.click()}
+          >
+            Restaurar de um arquivo
+          </button>
+          <button type="button" disabled={isBusy} onClick={() => void handleDownload()}>
+            Baixar backup
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={event => void handleFileChange(event)}
+        />
+        {interrupted && (
+          <p className={styles.error}>
+            A última restauração
+            {interrupted.exportedAt &&
+              `, do backup gerado em ${formatDateDisplay(interrupted.exportedAt.slice(0, 10))},`}{' '}
+            parou depois de {interrupted.completedSteps.length} de{' '}
+            {interrupted.completedSteps.length + interrupted.pendingSteps.length} etapas. Escolha o
+            mesmo arquivo e restaure de novo para concluir.
+          </p>
+        )}
+        {error && <p className={styles.error}>{error}</p>}
+      </div>
+
+      {pending && (
+        <div className={styles.listPanel}>
+          <div className={styles.panelHeader}>
+            <div>
+              <h2>Prévia da restauração</h2>
+              <p>
+                {pending.fileName}
+                {pending.backup.exportedAt &&
+                  `, gerado em ${formatDateDisplay(pending.backup.exportedAt.slice(0, 10))}`}
+                . Restaurar substitui todos os dados atuais pelos do arquivo; os avisos de orçamento
+                são mantidos.
+              </p>
+            </div>
+            <div className={styles.actions}>
+              <button
+                type="button"
+                className={styles.secondaryButton}
+                disabled={isBusy}
+                onClick={() => setPending(null)}
+              >
+                Cancelar
+              </button>
+              <button type="button" disabled={isBusy} onClick={() => void handleRestore()}>
+                {isBusy ? 'Restaurando...' : 'Restaurar backup'}
+              </button>
+            </div>
+          </div>
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th className={styles.descriptionHeader}>Seção</th>
+                  <th>Hoje</th>
+                  <th>No backup</th>
+                  <th>Novos</th>
+                  <th>Removidos</th>
+                  <th>Alterados</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.diff.map(section => (
+                  <tr
+                    key={section.key}
+                    className={section.removed ? styles.negativeRow : undefined}
+                  >
+                    <td className={styles.descriptionCell}>
+                      <strong>{section.label}</strong>
+                    </td>
+                    <td>{section.current}</td>
+                    <td>{section.incoming}</td>
+                    <td>{section.added}</td>
+                    <td>{section.removed}</td>
+                    <td>{section.changed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export { DataBackup };
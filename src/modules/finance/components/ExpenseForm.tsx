@@ -1,15 +1,18 @@
-import { useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import clsx from 'clsx';
-import toast from 'react-hot-toast';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 
 import { formatCurrency } from '@shared/utils/format';
-import { generateId } from '@shared/utils/id';
 
 import { useFinance } from '../context/FinanceContext';
-import type { Expense } from '../types/finance';
+import { useCategorySuggestion } from '../hooks/useCategorySuggestion';
+import { useRecurrenceMaterialization } from '../hooks/useRecurrenceMaterialization';
+import type { Expense, SeriesEditOptions, SeriesScope } from '../types/finance';
+import { buildCategoryOptions } from '../utils/categories';
+import { describeCategorySuggestion } from '../utils/categorization';
+import { buildCardsById, getInvoiceCycle } from '../utils/creditCard';
 import {
   formatDateDisplay,
   formatPeriodLabel,
@@ -22,11 +25,19 @@ import {
 } from '../utils/period';
 import {
   formatRecurrenceProgress,
-  generateRecurringDates,
+  isRuleBackedRecord,
+  isSeriesRecord,
+  MAX_BUSINESS_DAY,
+  MAX_RECURRENCE_OCCURRENCES,
   RECURRENCE_OPTIONS,
   RECURRENCE_VALUES,
+  toRecurrenceConfig,
 } from '../utils/recurrence';
+import { AccountField } from './AccountField';
 import styles from './FinanceForm.module.css';
+import { RecordAttachments } from './RecordAttachments';
+import { SeriesDeleteDialog } from './SeriesDeleteDialog';
+import { SeriesScopeFields } from './SeriesScopeFields';
 
 const recurrenceSchema = z.object({
   frequency: z.enum(RECURRENCE_VALUES),
@@ -37,7 +48,16 @@ const recurrenceSchema = z.object({
     })
     .int('Informe um número inteiro')
     .min(1, 'Use pelo menos 1 ocorrência')
-    .max(24, 'Limite de 24 lançamentos por recorrência'),
+    .max(
+      MAX_RECURRENCE_OCCURRENCES,
+      `Limite de ${MAX_RECURRENCE_OCCURRENCES} lançamentos por recorrência`
+    ),
+  endless: z.boolean().default(false),
+  businessDay: z.coerce
+    .number({ invalid_type_error: 'Informe o dia útil' })
+    .int('Informe um número inteiro')
+    .min(1, 'Use a partir do 1º dia útil')
+    .max(MAX_BUSINESS_DAY, `Use até o ${MAX_BUSINESS_DAY}º dia útil`),
 });
 
 const expenseSchema = z.object({
@@ -47,6 +67,13 @@ const expenseSchema = z.object({
   paymentMethod: z.enum(['dinheiro', 'debito', 'credito', 'pix', 'boleto', 'outro']),
   date: z.string().min(1, 'Informe a data'),
   excludeFromTotals: z.boolean().default(false),
+  cardId: z.string().default(''),
+  accountId: z.string().default(''),
+  installments: z.coerce
+    .number({ invalid_type_error: 'Informe o número de parcelas' })
+    .int('Informe um número inteiro')
+    .min(1, 'Use pelo menos 1 parcela')
+    .max(24, 'Limite de 24 parcelas'),
   recurrence: recurrenceSchema,
 });
 
@@ -62,12 +89,24 @@ const PAYMENT_METHOD_LABELS: Record<ExpenseFormValues['paymentMethod'], string>
 };
 
 const ExpenseForm = () => {
-  const { expenses, addExpense, updateExpense, deleteExpense, categories } = useFinance();
+  const {
+    expenses,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+    categories,
+    creditCards,
+    recurrences,
+  } = useFinance();
   const currentYear = getCurrentYear();
   const currentMonth = getCurrentMonth();
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [seriesOptions, setSeriesOptions] = useState<SeriesEditOptions>({ scope: 'single' });
+  const [pendingDelete, setPendingDelete] = useState<Expense | null>(null);
+
+  useRecurrenceMaterialization(selectedYear, selectedMonth);
 
   const yearOptions = useMemo(
     () => getAvailableYears(expenses.map(expense => expense.date)),
@@ -106,6 +145,7 @@ const ExpenseForm = () => {
     handleSubmit,
     reset,
     watch,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<ExpenseFormValues>({
     resolver: zodResolver(expenseSchema),
@@ -113,14 +153,47 @@ const ExpenseForm = () => {
       paymentMethod: 'credito',
       date: new Date().toISOString().split('T')[0],
       excludeFromTotals: false,
+      cardId: '',
+      accountId: '',
+      installments: 1,
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     },
   });
 
   const selectedFrequency = watch('recurrence.frequency');
+  const isEndless = watch('recurrence.endless');
+  const selectedPaymentMethod = watch('paymentMethod');
+  const selectedCardId = watch('cardId');
+  const selectedDate = watch('date');
+  const installmentsValue = watch('installments');
+  const descriptionValue = watch('description');
+  const categoryValue = watch('category');
+
+  const applySuggestedCategory = useCallback(
+    (category: string) => setValue('category', category, { shouldValidate: true }),
+    [setValue]
+  );
+  const categorySuggestion = useCategorySuggestion({
+    group: 'expenses',
+    input: { description: descriptionValue ?? '' },
+    currentCategory: categoryValue ?? '',
+    enabled: !editingId,
+    onApply: applySuggestedCategory,
+  });
+
+  const cardsById = useMemo(() => buildCardsById(creditCards), [creditCards]);
+  const isCardPurchase = selectedPaymentMethod === 'credito' && Boolean(selectedCardId);
+  const isInstallmentPurchase = isCardPurchase && !editingId && Number(installmentsValue) > 1;
+  const selectedCard = isCardPurchase ? cardsById.get(selectedCardId) : undefined;
+  const invoiceCycle =
+    selectedCard && selectedDate ? getInvoiceCycle(selectedDate, selectedCard) : null;
+
+  const editingExpense = editingId ? expenses.find(item => item.id === editingId) : undefined;
 
   const resetForm = () => {
     reset({
@@ -130,51 +203,42 @@ const ExpenseForm = () => {
       paymentMethod: 'credito',
       date: new Date().toISOString().split('T')[0],
       excludeFromTotals: false,
+      cardId: '',
+      accountId: '',
+      installments: 1,
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     });
   };
 
   const onSubmit = async (data: ExpenseFormValues) => {
-    const { recurrence, ...expense } = data;
+    const { recurrence, installments, cardId, accountId, ...values } = data;
+    const expense = {
+      ...values,
+      cardId: values.paymentMethod === 'credito' && cardId ? cardId : null,
+      accountId: accountId || null,
+    };
 
     if (editingId) {
-      const currentExpense = expenses.find(item => item.id === editingId);
-      await updateExpense(editingId, {
-        ...expense,
-        recurrenceId: currentExpense?.recurrenceId ?? null,
-        recurrenceIndex: currentExpense?.recurrenceIndex ?? null,
-        recurrenceTotal: currentExpense?.recurrenceTotal ?? null,
-      });
-    } else {
-      const schedule = generateRecurringDates(
-        expense.date,
-        recurrence.frequency,
-        recurrence.occurrences
+      await updateExpense(
+        editingId,
+        {
+          ...expense,
+          recurrenceId: editingExpense?.recurrenceId ?? null,
+          recurrenceIndex: editingExpense?.recurrenceIndex ?? null,
+          recurrenceTotal: editingExpense?.recurrenceTotal ?? null,
+        },
+        seriesOptions
       );
-
-      if (schedule.length === 1) {
-        await addExpense(expense);
-      } else {
-        const recurrenceId = generateId();
-        const total = schedule.length;
-
-        for (const [index, scheduledDate] of schedule.entries()) {
-          await addExpense(
-            {
-              ...expense,
-              date: scheduledDate,
-              recurrenceId,
-              recurrenceIndex: index + 1,
-              recurrenceTotal: total,
-            },
-            { silent: true }
-          );
-        }
-        toast.success(`Recorrência registrada com ${schedule.length} lançamentos de gastos`);
-      }
+    } else if (expense.cardId && installments > 1) {
+      // Cada parcela é um lançamento mensal da mesma série, então cai na fatura seguinte.
+      await addExpense(expense, { installments });
+    } else {
+      await addExpense(expense, { recurrence: toRecurrenceConfig(recurrence) });
     }
 
     resetForm();
@@ -183,6 +247,7 @@ const ExpenseForm = () => {
 
   const handleEdit = (expense: Expense) => {
     setEditingId(expense.id);
+    setSeriesOptions({ scope: 'single' });
     reset({
       description: expense.description,
       amount: expense.amount,
@@ -190,21 +255,41 @@ const ExpenseForm = () => {
       paymentMethod: expense.paymentMethod,
       date: expense.date,
       excludeFromTotals: expense.excludeFromTotals ?? false,
+      cardId: expense.cardId ?? '',
+      accountId: expense.accountId ?? '',
+      installments: 1,
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     });
   };
 
-  const handleDelete = async (id: string) => {
-    await deleteExpense(id);
-    if (editingId === id) {
+  const removeExpense = async (id: string, scope: SeriesScope = 'single') => {
+    await deleteExpense(id, scope);
+    if (editingId && (editingId === id || scope !== 'single')) {
       setEditingId(null);
       resetForm();
     }
   };
 
+  const handleDelete = (expense: Expense) => {
+    if (isSeriesRecord(expense)) {
+      setPendingDelete(expense);
+      return;
+    }
+    void removeExpense(expense.id);
+  };
+
+  const handleConfirmDelete = (scope: SeriesScope) => {
+    if (pendingDelete) {
+      void removeExpense(pendingDelete.id, scope);
+    }
+    setPendingDelete(null);
+  };
+
   const handleCancelEdit = () => {
     setEditingId(null);
     resetForm();
@@ -291,6 +376,8 @@ return (
             />
             {errors.amount && <span className={styles.error}>{errors.amount.message}</span>}
           </div>
+
+          <AccountField id="expense-account" registration={register('accountId')} />
         </div>
 
         <div className={styles.row}>
@@ -298,14 +385,18 @@ return (
             <label htmlFor="expense-category">Categoria</label>
             <select id="expense-category" {...register('category')}>
               <option value="">Selecione</option>
-              {categories.expenses.map(category => (
-                <option key={category} value={category}>
-                  {category}
+              {buildCategoryOptions(categories.expenses).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
                 </option>
               ))}
             </select>
             {errors.category && <span className={styles.error}>{errors.category.message}</span>}
-            <span className={styles.helperText}>Gerencie categorias em "Configurações".</span>
+            <span className={styles.helperText}>
+              {categorySuggestion
+                ? describeCategorySuggestion(categorySuggestion)
+                : 'Gerencie categorias e regras automáticas em "Configurações".'}
+            </span>
           </div>
 
           <div className={styles.field}>
@@ -330,17 +421,73 @@ return (
           </div>
         </div>
 
+        {selectedPaymentMethod === 'credito' && creditCards.length > 0 && (
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="expense-card">Cartão</label>
+              <select id="expense-card" {...register('cardId')}>
+                <option value="">Sem cartão vinculado</option>
+                {creditCards.map(card => (
+                  <option key={card.id} value={card.id}>
+                    {card.name}
+                  </option>
+                ))}
+              </select>
+              <span className={styles.helperText}>
+                {invoiceCycle
+                  ? `Entra na fatura que fecha em ${formatDateDisplay(
+                      invoiceCycle.closingDate
+                    )} e vence em ${formatDateDisplay(invoiceCycle.dueDate)}.`
+                  : 'Vincule um cartão para agrupar a compra na fatura correta.'}
+              </span>
+            </div>
+
+            {isCardPurchase && !editingId && (
+              <div className={styles.field}>
+                <label htmlFor="expense-installments">Parcelas</label>
+                <input
+                  id="expense-installments"
+                  type="number"
+                  min={1}
+                  max={24}
+                  {...register('installments', { valueAsNumber: true })}
+                />
+                {errors.installments && (
+                  <span className={styles.error}>{errors.installments.message}</span>
+                )}
+                <span className={styles.helperText}>
+                  Informe o valor total da compra; ele é dividido entre as faturas.
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className={styles.recurrenceBlock}>
           <div className={styles.recurrenceHeader}>
             <strong>Automatize a recorrência</strong>
             <span>Gere lançamentos futuros automaticamente sem repetir o cadastro todo mês.</span>
           </div>
 
-          {editingId ? (
+          {editingExpense && isSeriesRecord(editingExpense) ? (
+            <SeriesScopeFields
+              idPrefix="expense"
+              recurrenceIndex={editingExpense.recurrenceIndex ?? 1}
+              recurrenceTotal={editingExpense.recurrenceTotal ?? null}
+              ruleBased={isRuleBackedRecord(editingExpense, recurrences)}
+              value={seriesOptions}
+              onChange={setSeriesOptions}
+            />
+          ) : editingId ? (
             <p className={styles.recurrenceInfo}>
               Para alterar recorrências, finalize a edição e crie um novo lançamento com o intervalo
               desejado.
             </p>
+          ) : isInstallmentPurchase ? (
+            <p className={styles.recurrenceInfo}>
+              Compras parceladas já geram um lançamento por fatura. Para repetir a compra,
+              registre com uma única parcela.
+            </p>
           ) : (
             <>
               <div className={styles.recurrenceOptions}>
@@ -364,14 +511,47 @@ return (
                 ))}
               </div>
 
+              {selectedFrequency === 'business_day' && (
+                <div className={styles.recurrenceInline}>
+                  <label htmlFor="expense-recurrence-business-day">Dia útil do mês</label>
+                  <input
+                    id="expense-recurrence-business-day"
+                    type="number"
+                    min={1}
+                    max={MAX_BUSINESS_DAY}
+                    {...register('recurrence.businessDay', { valueAsNumber: true })}
+                  />
+                  <span className={styles.helperText}>
+                    Conta de segunda a sexta; feriados não são descontados.
+                  </span>
+                  {errors.recurrence?.businessDay && (
+                    <span className={styles.error}>{errors.recurrence.businessDay.message}</span>
+                  )}
+                </div>
+              )}
+
               {selectedFrequency !== 'none' && (
+                <div className={styles.recurrenceInline}>
+                  <input
+                    id="expense-recurrence-endless"
+                    type="checkbox"
+                    {...register('recurrence.endless')}
+                  />
+                  <label htmlFor="expense-recurrence-endless">Sem data de término</label>
+                  <span className={styles.helperText}>
+                    Os lançamentos futuros são criados à medida que você consulta cada mês.
+                  </span>
+                </div>
+              )}
+
+              {selectedFrequency !== 'none' && !isEndless && (
                 <div className={styles.recurrenceInline}>
                   <label htmlFor="expense-recurrence-occurrences">Quantidade de lançamentos</label>
                   <input
                     id="expense-recurrence-occurrences"
                     type="number"
                     min={1}
-                    max={24}
+                    max={MAX_RECURRENCE_OCCURRENCES}
                     {...register('recurrence.occurrences', { valueAsNumber: true })}
                   />
                   <span className={styles.helperText}>
@@ -428,6 +608,7 @@ return (
               <th>Forma</th>
               <th className={styles.metaHeader}>Parcela</th>
               <th>Data</th>
+              <th>Anexos</th>
               <th>Ações</th>
             </tr>
           </thead>
@@ -446,7 +627,8 @@ return (
                 </td>
                 <td>
                   <span className={clsx(styles.chip, styles.chipMethod)}>
-                    {PAYMENT_METHOD_LABELS[expense.paymentMethod]}
+                    {(expense.cardId && cardsById.get(expense.cardId)?.name) ||
+                      PAYMENT_METHOD_LABELS[expense.paymentMethod]}
                   </span>
                 </td>
                 <td className={styles.metaCell}>
@@ -454,12 +636,15 @@ return (
                     '—'}
                 </td>
                 <td className={styles.dateCell}>{formatDateDisplay(expense.date)}</td>
+                <td>
+                  <RecordAttachments collection="expenses" record={expense} />
+                </td>
                 <td className={styles.actionCell}>
                   <div className={styles.tableActions}>
                     <button type="button" onClick={() => handleEdit(expense)}>
                       Editar
                     </button>
-                    <button type="button" onClick={() => void handleDelete(expense.id)}>
+                    <button type="button" onClick={() => handleDelete(expense)}>
                       Remover
                     </button>
                   </div>
@@ -480,6 +665,11 @@ return (
         </>
       )}
       </div>
+      <SeriesDeleteDialog
+        record={pendingDelete}
+        onConfirm={handleConfirmDelete}
+        onClose={() => setPendingDelete(null)}
+      />
     </section>
   );
 };
@@ -19,7 +19,10 @@ import type { PieLabelRenderProps } from 'recharts';
 import { formatCurrency } from '@shared/utils/format';
 
 import { useFinance } from '../context/FinanceContext';
+import { ALL_ACCOUNTS, filterByAccount } from '../utils/accounts';
+import { CATEGORY_PALETTE, rollUpCategoryName } from '../utils/categories';
 import { matchesPeriod } from '../utils/period';
+import { buildNetWorthTimeline, getSignedInvestmentAmount } from '../utils/portfolio';
 import styles from './FinanceCharts.module.css';
 
 interface MonthlyTotals {
@@ -34,6 +37,7 @@ interface MonthlyTotals {
 interface CategoryBreakdown {
   category: string;
   value: number;
+  color: string;
   [key: string]: string | number;
 }
 
@@ -104,7 +108,7 @@ const buildMonthlyTotals = (records: ReturnType<typeof useFinance>): MonthlyTota
       return;
     }
     const bucket = ensureMonth(key);
-    bucket.investments += investment.amount;
+    bucket.investments += getSignedInvestmentAmount(investment);
   });
 
   accumulator.forEach(bucket => {
@@ -151,26 +155,59 @@ const buildCategoryBreakdown = (
     if (expense.excludeFromTotals) {
       return;
     }
+    // Subcategorias entram no total da categoria principal.
     if (matchesPeriod(expense.date, year, month)) {
-      addValue(expense.category, expense.amount);
+      addValue(rollUpCategoryName(records.categories.expenses, expense.category), expense.amount);
     }
   });
 
   const data: CategoryBreakdown[] = Array.from(accumulator.entries())
     .map(([category, value]) => ({ category, value }))
-    .sort((a, b) => b.value - a.value);
+    .sort((a, b) => b.value - a.value)
+    .map((entry, index) => ({
+      ...entry,
+      color:
+        records.categories.expenses.find(item => item.name === entry.category)?.color ??
+        CATEGORY_PALETTE[index % CATEGORY_PALETTE.length],
+    }));
 
   return data;
 };
 
-const CATEGORY_COLORS = ['#002776', '#00923f', '#ffd500', '#d93025', '#00b4d8', '#ff9f1c', '#6a4c93'];
-
 const currencyTick = (value: number) => formatCurrency(value).replace('R$', 'R$ ');
 
 const FinanceCharts = () => {
   const finance = useFinance();
+  const [accountId, setAccountId] = useState<string>(ALL_ACCOUNTS);
+
+  const records = useMemo(
+    () => ({
+      ...finance,
+      expenses: filterByAccount(finance.expenses, accountId),
+      incomes: filterByAccount(finance.incomes, accountId),
+      investments: filterByAccount(finance.investments, accountId),
+    }),
+    [accountId, finance]
+  );
 
-  const monthlyData = useMemo(() => buildMonthlyTotals(finance), [finance]);
+  const monthlyData = useMemo(() => buildMonthlyTotals(records), [records]);
+
+  // O patrimônio soma todas as contas e a carteira inteira, então ignora o filtro de conta.
+  const netWorthData = useMemo(() => {
+    const monthKeys = new Set<string>();
+    [finance.incomes, finance.expenses, finance.investments, finance.valuations].forEach(items =>
+      items.forEach(item => {
+        const key = getMonthKey(item.date);
+        if (key) {
+          monthKeys.add(key);
+        }
+      })
+    );
+    return buildNetWorthTimeline(finance, Array.from(monthKeys).sort()).map(point => ({
+      ...point,
+      label: formatMonthLabel(point.monthKey),
+    }));
+  }, [finance]);
   const [categoryMonthKey, setCategoryMonthKey] = useState<string | null>(null);
 
   useEffect(() => {
@@ -188,8 +225,8 @@ const FinanceCharts = () => {
   }, [monthlyData]);
 
   const categoryData = useMemo<CategoryBreakdown[]>(
-    () => buildCategoryBreakdown(finance, categoryMonthKey),
-    [finance, categoryMonthKey]
+    () => buildCategoryBreakdown(records, categoryMonthKey),
+    [records, categoryMonthKey]
   );
 
   const categoryOptions = useMemo(
@@ -204,7 +241,7 @@ const FinanceCharts = () => {
     [categoryData]
   );
 
-  if (monthlyData.length === 0) {
+  if (monthlyData.length === 0 && accountId === ALL_ACCOUNTS) {
     return (
       <div className={styles.emptyState}>
         Registre receitas, gastos ou investimentos para visualizar a evolução mensal.
@@ -214,6 +251,25 @@ const FinanceCharts = () => {
 
   return (
     <div className={styles.wrapper}>
+      {finance.accounts.length > 0 && (
+        <div className={styles.accountFilter}>
+          <label htmlFor="charts-account">Conta</label>
+          <select
+            id="charts-account"
+            className={styles.chartSelect}
+            value={accountId}
+            onChange={event => setAccountId(event.target.value)}
+          >
+            <option value={ALL_ACCOUNTS}>Todas as contas</option>
+            {finance.accounts.map(account => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <article className={styles.chartCard}>
         <header>
           <h3>Fluxo de caixa mensal</h3>
@@ -262,7 +318,7 @@ const FinanceCharts = () => {
       <article className={styles.chartCard}>
         <header>
           <h3>Evolução dos investimentos</h3>
-          <p>Total aplicado em cada mês.</p>
+          <p>Total aplicado em cada mês, descontados os resgates.</p>
         </header>
         <div className={styles.chart}>
           <ResponsiveContainer width="100%" height={280}>
@@ -287,6 +343,53 @@ const FinanceCharts = () => {
         </div>
       </article>
 
+      {accountId === ALL_ACCOUNTS && netWorthData.length > 0 && (
+        <article className={styles.chartCard}>
+          <header>
+            <h3>Patrimônio líquido</h3>
+            <p>Saldo em caixa e valor de mercado da carteira no fim de cada mês.</p>
+          </header>
+          <div className={styles.chart}>
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={netWorthData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 39, 118, 0.12)" />
+                <XAxis dataKey="label" />
+                <YAxis tickFormatter={currencyTick} width={100} />
+                <Tooltip
+                  formatter={value => formatCurrency(Number(value))}
+                  labelFormatter={value => `Mês: ${value}`}
+                />
+                <Legend />
+                <Line
+                  dataKey="cash"
+                  type="monotone"
+                  stroke="#00b4d8"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Caixa"
+                />
+                <Line
+                  dataKey="investments"
+                  type="monotone"
+                  stroke="#00923f"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Investimentos"
+                />
+                <Line
+                  dataKey="netWorth"
+                  type="monotone"
+                  stroke="#002776"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Patrimônio"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </article>
+      )}
+
       <article className={styles.chartCard}>
         <header className={styles.chartHeader}>
           <div>
@@ -333,8 +436,8 @@ const FinanceCharts = () => {
                         return `${percentage}%`;
                       }}
                     >
-                      {categoryData.map((entry, index) => (
-                        <Cell key={entry.category} fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]} />
+                      {categoryData.map(entry => (
+                        <Cell key={entry.category} fill={entry.color} />
                       ))}
                     </Pie>
                   </PieChart>
@@ -342,14 +445,16 @@ const FinanceCharts = () => {
               </div>
 
               <ul className={styles.categoryList}>
-                {categoryData.map((entry, index) => {
+                {categoryData.map(entry => {
                   const percentage = totalCategoryValue
                     ? ((entry.value / totalCategoryValue) * 100).toFixed(1)
                     : '0.0';
-                  const color = CATEGORY_COLORS[index % CATEGORY_COLORS.length];
                   return (
                     <li key={entry.category} className={styles.categoryListItem}>
-                      <span className={styles.categoryColor} style={{ backgroundColor: color }} />
+                      <span
+                        className={styles.categoryColor}
+                        style={{ backgroundColor: entry.color }}
+                      />
                       <div>
                         <strong>{entry.category}</strong>
                         <p>
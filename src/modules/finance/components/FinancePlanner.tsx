@@ -1,12 +1,28 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
 
 import { useAuth } from '@modules/auth/services/AuthContext';
 import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
 import { formatCurrency } from '@shared/utils/format';
 
 import { useFinance } from '../context/FinanceContext';
+import { getPlannerStorageKey, readStoredPlanner } from '../hooks/usePlannerGoals';
+import { useRecurrenceMaterialization } from '../hooks/useRecurrenceMaterialization';
 import { getPlanner, savePlanner } from '../services/financeService';
-import type { PlannerAllocations, PlannerGoal, PlannerSavePayload } from '../types/planner';
+import type {
+  PlannerAllocations,
+  PlannerCarryOver,
+  PlannerDocument,
+  PlannerGoal,
+  PlannerGoalLink,
+  PlannerSavePayload,
+} from '../types/planner';
+import {
+  buildCategoryOptions,
+  getCategoryNames,
+  getRootCategories,
+  rollUpCategoryName,
+} from '../utils/categories';
 import {
   formatPeriodLabel,
   getAvailableYears,
@@ -14,13 +30,51 @@ import {
   getCurrentYear,
   matchesPeriod,
   MONTH_OPTIONS,
+  shiftMonthKey,
 } from '../utils/period';
+import { buildCarryOver, buildGoalProgress, type GoalStatus } from '../utils/planner';
+import {
+  buildCardsById,
+  EXPENSE_VIEW_OPTIONS,
+  resolveExpenseDate,
+  type ExpenseView,
+} from '../utils/creditCard';
 import styles from './FinancePlanner.module.css';
 
 type AllocationState = PlannerAllocations;
 
 const createGoalId = () => Math.random().toString(36).slice(2, 9);
 
+const today = () => new Date().toISOString().split('T')[0];
+
+const EMPTY_GOAL_FORM = { label: '', amount: 0, monthlyReserve: 0, targetDate: '', link: '' };
+
+const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  done: 'Concluída',
+  onTrack: 'No prazo',
+  behind: 'Atrasada',
+};
+
+// O select de vínculo grava "tipo:valor" para distinguir posições de categorias.
+const encodeGoalLink = (link: PlannerGoalLink | null | undefined) =>
+  link ? `${link.type}:${link.value}` : '';
+
+const decodeGoalLink = (value: string): PlannerGoalLink | null => {
+  const separator = value.indexOf(':');
+  if (separator < 0) {
+    return null;
+  }
+  const type = value.slice(0, separator);
+  return type === 'position' || type === 'category'
+    ? { type, value: value.slice(separator + 1) }
+    : null;
+};
+
+const formatMonthKey = (monthKey: string) => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return formatPeriodLabel(month, year);
+};
+
 type CategoryGroup = 'essentials' | 'lifestyle' | 'savings' | 'other';
 
 const PRESET_KEYWORDS: Record<CategoryGroup, string[]> = {
@@ -30,7 +84,6 @@ const PRESET_KEYWORDS: Record<CategoryGroup, string[]> = {
   other: [],
 };
 const MAJOR_GROUPS: Array<Exclude<CategoryGroup, 'other'>> = ['essentials', 'lifestyle', 'savings'];
-const STORAGE_PREFIX = 'finance_planner_state';
 const DEFAULT_GOALS: PlannerGoal[] = [
   { id: createGoalId(), label: 'Reserva de emergência', amount: 3000, monthlyReserve: 250 },
 ];
@@ -97,19 +150,26 @@ const createInitialAllocations = (categories: string[]): AllocationState => {
   }, {});
 };
 
-const getStorageKey = (year: number, month: number) =>
-  `${STORAGE_PREFIX}_${year}-${String(month).padStart(2, '0')}`;
-
 const FinancePlanner = () => {
   const { user } = useAuth();
   const isGuestMode = useLocalMode();
-  const { incomes, expenses, categories } = useFinance();
+  const { incomes, expenses, investments, positions, valuations, categories, creditCards } =
+    useFinance();
 
   const currentYear = getCurrentYear();
   const currentMonth = getCurrentMonth();
 
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
+  const [expenseView, setExpenseView] = useState<ExpenseView>('competence');
+
+  useRecurrenceMaterialization(selectedYear, selectedMonth);
+
+  // O planner distribui a renda entre as categorias principais; subcategorias somam no pai.
+  const expenseCategories = useMemo(
+    () => getCategoryNames(getRootCategories(categories.expenses)),
+    [categories.expenses]
+  );
 
   const yearOptions = useMemo(() => {
     const dates = [...incomes, ...expenses].map(entry => entry.date);
@@ -121,9 +181,18 @@ const FinancePlanner = () => {
     [incomes, selectedYear, selectedMonth]
   );
 
+  const cardsById = useMemo(() => buildCardsById(creditCards), [creditCards]);
+
   const filteredExpenses = useMemo(
-    () => expenses.filter(expense => matchesPeriod(expense.date, selectedYear, selectedMonth)),
-    [expenses, selectedYear, selectedMonth]
+    () =>
+      expenses.filter(expense =>
+        matchesPeriod(
+          resolveExpenseDate(expense, expenseView, cardsById),
+          selectedYear,
+          selectedMonth
+        )
+      ),
+    [cardsById, expenseView, expenses, selectedYear, selectedMonth]
   );
 
   const totalIncome = useMemo(
@@ -137,15 +206,17 @@ const FinancePlanner = () => {
   );
 
   const initialAllocations = useMemo(
-    () => createInitialAllocations(categories.expenses),
-    [categories.expenses]
+    () => createInitialAllocations(expenseCategories),
+    [expenseCategories]
   );
 
   const [planningIncome, setPlanningIncome] = useState(() => Number(totalIncome.toFixed(2)));
   const [allocations, setAllocations] = useState<AllocationState>(initialAllocations);
   const [goals, setGoals] = useState<PlannerGoal[]>(DEFAULT_GOALS);
+  const [carryOver, setCarryOver] = useState<PlannerCarryOver>({});
+  const [carryUnspent, setCarryUnspent] = useState(true);
   const [hasLoadedStorage, setHasLoadedStorage] = useState(false);
-  const [goalForm, setGoalForm] = useState({ label: '', amount: 0, monthlyReserve: 0 });
+  const [goalForm, setGoalForm] = useState(EMPTY_GOAL_FORM);
   const remoteSaveTimeout = useRef<number | null>(null);
 
   useEffect(() => {
@@ -156,15 +227,12 @@ const FinancePlanner = () => {
     if (typeof window === 'undefined') {
       return;
     }
-    const key = getStorageKey(selectedYear, selectedMonth);
+    const key = getPlannerStorageKey(selectedYear, selectedMonth);
     const applyLocalSnapshot = () => {
       try {
         const storedRaw = window.localStorage.getItem(key);
         if (storedRaw) {
-          const parsed = JSON.parse(storedRaw) as Partial<{
-            allocations: AllocationState;
-            goals: PlannerGoal[];
-          }> | null;
+          const parsed = JSON.parse(storedRaw) as Partial<PlannerDocument> | null;
           if (parsed?.allocations) {
             setAllocations(
               normalizeAllocations({
@@ -180,14 +248,17 @@ const FinancePlanner = () => {
           } else {
             setGoals(DEFAULT_GOALS);
           }
+          setCarryOver(parsed?.carryOver ?? {});
         } else {
           setAllocations(initialAllocations);
           setGoals(DEFAULT_GOALS);
+          setCarryOver({});
         }
       } catch (error) {
         console.warn('[planner] Falha ao ler dados locais', error);
         setAllocations(initialAllocations);
         setGoals(DEFAULT_GOALS);
+        setCarryOver({});
       }
       setHasLoadedStorage(true);
     };
@@ -219,13 +290,16 @@ const FinancePlanner = () => {
           : initialAllocations;
         const nextGoals =
           response?.goals && response.goals.length > 0 ? response.goals : DEFAULT_GOALS;
+        const nextCarryOver = response?.carryOver ?? {};
         setAllocations(nextAllocations);
         setGoals(nextGoals);
+        setCarryOver(nextCarryOver);
         try {
           window.localStorage.setItem(
             key,
             JSON.stringify({
               allocations: nextAllocations,
+              carryOver: nextCarryOver,
               goals: nextGoals,
             })
           );
@@ -252,12 +326,13 @@ const FinancePlanner = () => {
     if (typeof window === 'undefined' || !hasLoadedStorage) {
       return;
     }
-    const key = getStorageKey(selectedYear, selectedMonth);
+    const key = getPlannerStorageKey(selectedYear, selectedMonth);
     try {
       window.localStorage.setItem(
         key,
         JSON.stringify({
           allocations,
+          carryOver,
           goals,
         })
       );
@@ -273,6 +348,7 @@ const FinancePlanner = () => {
       year: selectedYear,
       month: selectedMonth,
       allocations,
+      carryOver,
       goals,
     };
 
@@ -293,6 +369,7 @@ const FinancePlanner = () => {
           }, 800);
   }, [
     allocations,
+    carryOver,
     goals,
     hasLoadedStorage,
     isGuestMode,
@@ -317,30 +394,48 @@ const FinancePlanner = () => {
   const plannedExpenses = useMemo(
     () =>
       Object.entries(allocations).reduce(
-        (sum, [, percentage]) => sum + (planningIncome * percentage) / 100,
+        (sum, [category, percentage]) =>
+          sum + (planningIncome * percentage) / 100 + (carryOver[category] ?? 0),
         0
       ),
-    [allocations, planningIncome]
+    [allocations, carryOver, planningIncome]
   );
 
   const periodLabel = formatPeriodLabel(selectedMonth, selectedYear);
 
   const expensesByCategory = useMemo(() => {
     return filteredExpenses.reduce<Record<string, number>>((accumulator, expense) => {
-      accumulator[expense.category] = (accumulator[expense.category] ?? 0) + expense.amount;
+      const category = rollUpCategoryName(categories.expenses, expense.category);
+      accumulator[category] = (accumulator[category] ?? 0) + expense.amount;
       return accumulator;
     }, {});
-  }, [filteredExpenses]);
+  }, [categories.expenses, filteredExpenses]);
 
   const categoryComparisons = useMemo(() => {
-    return categories.expenses.map(category => {
+    return expenseCategories.map(category => {
       const percentage = allocations[category] ?? 0;
-      const plannedValue = (planningIncome * percentage) / 100;
+      const carried = carryOver[category] ?? 0;
+      const plannedValue = (planningIncome * percentage) / 100 + carried;
       const actualValue = expensesByCategory[category] ?? 0;
       const diff = actualValue - plannedValue;
-      return { category, percentage, plannedValue, actualValue, diff };
+      return { category, percentage, carried, plannedValue, actualValue, diff };
     });
-  }, [allocations, categories.expenses, planningIncome, expensesByCategory]);
+  }, [allocations, carryOver, expenseCategories, planningIncome, expensesByCategory]);
+
+  const goalProgress = useMemo(() => {
+    const referenceDate = today();
+    return Object.fromEntries(
+      goals.map(goal => [
+        goal.id,
+        buildGoalProgress(goal, { investments, positions, valuations }, referenceDate),
+      ])
+    );
+  }, [goals, investments, positions, valuations]);
+
+  const investmentCategoryOptions = useMemo(
+    () => buildCategoryOptions(categories.investments),
+    [categories.investments]
+  );
 
   const totalMonthlyGoals = useMemo(
     () => goals.reduce((sum, goal) => sum + Math.max(0, goal.monthlyReserve), 0),
@@ -356,12 +451,13 @@ const FinancePlanner = () => {
 
   const resetAllocations = () => {
     setAllocations(initialAllocations);
+    setCarryOver({});
   };
 
   const handleGoalFormChange = (field: keyof typeof goalForm, value: string | number) => {
     setGoalForm(prev => ({
       ...prev,
-      [field]: field === 'label' ? String(value) : Number(value) || 0,
+      [field]: typeof prev[field] === 'string' ? String(value) : Number(value) || 0,
     }));
   };
 
@@ -377,9 +473,11 @@ const FinancePlanner = () => {
         label: goalForm.label.trim(),
         amount: goalForm.amount,
         monthlyReserve: goalForm.monthlyReserve,
+        targetDate: goalForm.targetDate || null,
+        link: decodeGoalLink(goalForm.link),
       },
     ]);
-    setGoalForm({ label: '', amount: 0, monthlyReserve: 0 });
+    setGoalForm(EMPTY_GOAL_FORM);
   };
 
   const handleRemoveGoal = (id: string) => {
@@ -388,11 +486,11 @@ const FinancePlanner = () => {
 
   const normalizeAllocations = (next: AllocationState) => {
     const total = Object.values(next).reduce((sum, value) => sum + value, 0);
-    if (total === 100 || categories.expenses.length === 0) {
+    if (total === 100 || expenseCategories.length === 0) {
       return next;
     }
     const diff = 100 - total;
-    const fallbackCategory = categories.expenses.find(name => next[name] !== undefined);
+    const fallbackCategory = expenseCategories.find(name => next[name] !== undefined);
     if (fallbackCategory) {
       next[fallbackCategory] = Number((next[fallbackCategory] + diff).toFixed(2));
     }
@@ -400,7 +498,7 @@ const FinancePlanner = () => {
   };
 
   const handlePresetSelection = (preset: (typeof PRESETS)[number]) => {
-    if (categories.expenses.length === 0) {
+    if (expenseCategories.length === 0) {
       return;
     }
     const grouped: Record<CategoryGroup, string[]> = {
@@ -409,7 +507,7 @@ const FinancePlanner = () => {
       savings: [],
       other: [],
     };
-    categories.expenses.forEach(category => {
+    expenseCategories.forEach(category => {
       const group = detectCategoryGroup(category);
       grouped[group].push(category);
     });
@@ -431,7 +529,7 @@ const FinancePlanner = () => {
     });
 
     const assigned = Object.keys(next);
-    const remainingCategories = categories.expenses.filter(category => !assigned.includes(category));
+    const remainingCategories = expenseCategories.filter(category => !assigned.includes(category));
     const remainingShare = Math.max(
       0,
       100 -
@@ -447,6 +545,43 @@ const FinancePlanner = () => {
     setAllocations(normalizeAllocations({ ...next }));
   };
 
+  /**
+   * Copia percentuais e metas do mês anterior. Com "levar saldo não gasto", a sobra de cada
+   * envelope naquele mês entra como saldo anterior e soma ao valor planejado deste mês.
+   */
+  const handleRollover = async () => {
+    const previousKey = shiftMonthKey(
+      `${selectedYear}-${String(selectedMonth).padStart(2, '0')}`,
+      -1
+    );
+    const [year, month] = previousKey.split('-').map(Number);
+    let previous: PlannerDocument | null = null;
+    if (isGuestMode || !user) {
+      previous = readStoredPlanner(year, month);
+    } else {
+      try {
+        const token = await user.getIdToken();
+        previous = await getPlanner(token, { year, month });
+      } catch (error) {
+        console.error('[planner] Falha ao carregar o mês anterior', error);
+        previous = readStoredPlanner(year, month);
+      }
+    }
+    if (!previous || Object.keys(previous.allocations).length === 0) {
+      toast.error(`Nenhum planejamento salvo em ${formatPeriodLabel(month, year)}.`);
+      return;
+    }
+
+    setAllocations(normalizeAllocations({ ...initialAllocations, ...previous.allocations }));
+    if (previous.goals.length) {
+      setGoals(previous.goals);
+    }
+    setCarryOver(
+      carryUnspent ? buildCarryOver(previous, { incomes, expenses, categories }, previousKey) : {}
+    );
+    toast.success(`Planejamento de ${formatPeriodLabel(month, year)} copiado.`);
+  };
+
   return (
     <section className={styles.wrapper}>
       <header className={styles.header}>
@@ -488,6 +623,21 @@ const FinancePlanner = () => {
                 ))}
               </select>
             </div>
+            <div className={styles.filter}>
+              <label htmlFor="planner-view">Regime</label>
+              <select
+                id="planner-view"
+                value={expenseView}
+                title={EXPENSE_VIEW_OPTIONS.find(option => option.value === expenseView)?.hint}
+                onChange={event => setExpenseView(event.target.value as ExpenseView)}
+              >
+                {EXPENSE_VIEW_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
           <span className={styles.periodBadge}>Exibindo {periodLabel}</span>
         </div>
@@ -549,6 +699,45 @@ const FinancePlanner = () => {
                   }
                 />
               </label>
+              <label>
+                <span>Prazo (opcional)</span>
+                <input
+                  type="month"
+                  value={goalForm.targetDate}
+                  onChange={event => handleGoalFormChange('targetDate', event.target.value)}
+                />
+              </label>
+              <label>
+                <span>Acompanhar pelos investimentos</span>
+                <select
+                  value={goalForm.link}
+                  onChange={event => handleGoalFormChange('link', event.target.value)}
+                >
+                  <option value="">Sem vínculo</option>
+                  {positions.length > 0 && (
+                    <optgroup label="Posições da carteira">
+                      {positions.map(position => (
+                        <option
+                          key={position.id}
+                          value={encodeGoalLink({ type: 'position', value: position.id })}
+                        >
+                          {position.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  <optgroup label="Categorias de investimento">
+                    {investmentCategoryOptions.map(option => (
+                      <option
+                        key={option.value}
+                        value={encodeGoalLink({ type: 'category', value: option.value })}
+                      >
+                        {option.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                </select>
+              </label>
             </div>
             <button type="submit" className={styles.addGoalButton}>
               Adicionar meta
@@ -566,21 +755,54 @@ const FinancePlanner = () => {
                   <tr>
                     <th>Meta</th>
                     <th>Valor</th>
+                    <th>Acumulado</th>
                     <th>Reserva mensal</th>
                     <th>Previsão de conclusão</th>
+                    <th>Situação</th>
                     <th>Ações</th>
                   </tr>
                 </thead>
                 <tbody>
                   {goals.map(goal => {
-                    const monthsNeeded =
-                      goal.monthlyReserve > 0 ? Math.ceil(goal.amount / goal.monthlyReserve) : null;
+                    const progress = goalProgress[goal.id];
+                    const statusClass =
+                      progress.status === 'behind'
+                        ? styles.diffNegative
+                        : progress.status
+                        ? styles.diffPositive
+                        : undefined;
                     return (
                       <tr key={goal.id}>
                         <td>{goal.label}</td>
                         <td>{formatCurrency(goal.amount)}</td>
-                        <td>{formatCurrency(goal.monthlyReserve)}</td>
-                        <td>{monthsNeeded ? `${monthsNeeded} meses` : '—'}</td>
+                        <td>
+                          {progress.accumulated === null
+                            ? '—'
+                            : `${formatCurrency(progress.accumulated)} (${Math.round(
+                                progress.percentage
+                              )}%)`}
+                        </td>
+                        <td>
+                          {formatCurrency(goal.monthlyReserve)}
+                          {goal.link && (
+                            <small className={styles.cellHint}>
+                              Ritmo real: {formatCurrency(progress.monthlyPace)}/mês
+                            </small>
+                          )}
+                        </td>
+                        <td>
+                          {progress.projectedMonthKey
+                            ? formatMonthKey(progress.projectedMonthKey)
+                            : 'Sem aportes recentes'}
+                          {goal.targetDate && (
+                            <small className={styles.cellHint}>
+                              Prazo: {formatMonthKey(goal.targetDate)}
+                            </small>
+                          )}
+                        </td>
+                        <td className={statusClass}>
+                          {progress.status ? GOAL_STATUS_LABELS[progress.status] : '—'}
+                        </td>
                         <td>
                           <button
                             type="button"
@@ -608,16 +830,33 @@ const FinancePlanner = () => {
                 ideal deve chegar a 100%.
               </p>
             </div>
-            <button
-              type="button"
-              className={styles.resetButton}
-              onClick={resetAllocations}
-            >
-              Redefinir percentuais
-            </button>
+            <div className={styles.cardActions}>
+              <button
+                type="button"
+                className={styles.resetButton}
+                onClick={() => void handleRollover()}
+              >
+                Trazer do mês anterior
+              </button>
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={carryUnspent}
+                  onChange={event => setCarryUnspent(event.target.checked)}
+                />
+                Levar saldo não gasto
+              </label>
+              <button
+                type="button"
+                className={styles.resetButton}
+                onClick={resetAllocations}
+              >
+                Redefinir percentuais
+              </button>
+            </div>
           </div>
 
-          {categories.expenses.length === 0 ? (
+          {expenseCategories.length === 0 ? (
             <div className={styles.emptyState}>
               Cadastre categorias em &ldquo;Configurações&rdquo; para montar o planejamento.
             </div>
@@ -660,7 +899,14 @@ const FinancePlanner = () => {
                             <span>%</span>
                           </div>
                         </td>
-                        <td>{formatCurrency(entry.plannedValue)}</td>
+                        <td>
+                          {formatCurrency(entry.plannedValue)}
+                          {entry.carried > 0 && (
+                            <small className={styles.cellHint}>
+                              Inclui {formatCurrency(entry.carried)} do mês anterior
+                            </small>
+                          )}
+                        </td>
                         <td>{formatCurrency(entry.actualValue)}</td>
                         <td className={diffClass}>
                           {diff === 0 ? '—' : `${diff > 0 ? '+' : ''}${formatCurrency(diff)}`}
@@ -1,6 +1,27 @@
 import { useState } from 'react';
 
+import { formatCurrency } from '@shared/utils/format';
+import { generateId } from '@shared/utils/id';
+
 import { useFinance } from '../context/FinanceContext';
+import type {
+  AccountType,
+  CategoryRule,
+  CategoryRuleField,
+  CategoryRuleGroup,
+  CategoryRuleOperator,
+  CreditCard,
+  FinanceAccount,
+  FinanceCategory,
+} from '../types/finance';
+import { ACCOUNT_TYPE_OPTIONS, formatAccountType } from '../utils/accounts';
+import {
+  buildCategoryOptions,
+  formatCategoryLabel,
+  getRootCategories,
+  sortCategoryTree,
+} from '../utils/categories';
+import { describeCategoryRule, RULE_OPERATOR_LABELS } from '../utils/categorization';
 import styles from './FinanceSettings.module.css';
 
 const CATEGORY_GROUPS = [
@@ -15,25 +36,152 @@ const CATEGORY_GROUPS = [
 
 type GroupId = (typeof CATEGORY_GROUPS)[number]['id'];
 
+type CategoryDraft = Omit<FinanceCategory, 'id'>;
+
+const EMPTY_CATEGORY: CategoryDraft = { name: '', parentId: null, color: '#002776', icon: '' };
+
+/** Edição aberta de uma categoria; com `mergeInto`, salvar mescla em vez de alterar. */
+type CategoryEdit = CategoryDraft & { group: GroupId; id: string; mergeInto: string };
+
+type RuleDraft = Omit<CategoryRule, 'id'>;
+
+type CardDraft = Omit<CreditCard, 'id'>;
+
+const EMPTY_CARD: CardDraft = { name: '', closingDay: 1, dueDay: 10 };
+
+type AccountDraft = Omit<FinanceAccount, 'id'>;
+
+const EMPTY_ACCOUNT: AccountDraft = { name: '', type: 'corrente', initialBalance: 0 };
+
+const EMPTY_RULE: RuleDraft = {
+  group: 'expenses',
+  field: 'description',
+  operator: 'contains',
+  value: '',
+  category: '',
+};
+
 const FinanceSettings = () => {
-  const { categories, addCategory, removeCategory } = useFinance();
-  const [inputs, setInputs] = useState<Record<GroupId, string>>({
-    expenses: '',
-    incomes: '',
-    investments: '',
+  const {
+    categories,
+    categoryRules,
+    creditCards,
+    accounts,
+    addCategory,
+    mergeCategory,
+    removeCategory,
+    updateCategory,
+    saveAccounts,
+    saveCategoryRules,
+    saveCreditCards,
+  } = useFinance();
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft>(EMPTY_RULE);
+  const [cardDraft, setCardDraft] = useState<CardDraft>(EMPTY_CARD);
+  const [accountDraft, setAccountDraft] = useState<AccountDraft>(EMPTY_ACCOUNT);
+  const [categoryDrafts, setCategoryDrafts] = useState<Record<GroupId, CategoryDraft>>({
+    expenses: EMPTY_CATEGORY,
+    incomes: EMPTY_CATEGORY,
+    investments: EMPTY_CATEGORY,
   });
+  const [editing, setEditing] = useState<CategoryEdit | null>(null);
+
+  const updateCategoryDraft = (group: GroupId, changes: Partial<CategoryDraft>) =>
+    setCategoryDrafts(prev => ({ ...prev, [group]: { ...prev[group], ...changes } }));
 
   const handleAdd = async (group: GroupId) => {
-    const value = inputs[group].trim();
-    if (!value) {
+    const draft = categoryDrafts[group];
+    const name = draft.name.trim();
+    if (!name) {
       return;
     }
-    await addCategory(group, value);
-    setInputs(prev => ({ ...prev, [group]: '' }));
+    await addCategory(group, { ...draft, name });
+    updateCategoryDraft(group, { name: '', icon: '' });
   };
 
-  const handleRemove = async (group: GroupId, category: string) => {
-    await removeCategory(group, category);
+  const handleRemove = async (group: GroupId, category: FinanceCategory) => {
+    const message =
+      'Remover a categoria? Os lançamentos mantêm o nome atual e as subcategorias dela ' +
+      'passam a ser categorias principais.';
+    if (window.confirm(message)) {
+      await removeCategory(group, category.id);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) {
+      return;
+    }
+    const { group, id, mergeInto, ...changes } = editing;
+    if (mergeInto) {
+      const target = categories[group].find(item => item.id === mergeInto);
+      const message =
+        `Mesclar em "${target?.name}"? Os lançamentos, recorrências e o planner passam para ` +
+        'a categoria escolhida e esta é removida.';
+      if (!window.confirm(message)) {
+        return;
+      }
+      await mergeCategory(group, id, mergeInto);
+    } else {
+      await updateCategory(group, id, { ...changes, parentId: changes.parentId || null });
+    }
+    setEditing(null);
+  };
+
+  const handleAddRule = async () => {
+    const value = ruleDraft.value.trim();
+    if (!value || !ruleDraft.category) {
+      return;
+    }
+    await saveCategoryRules([...categoryRules, { ...ruleDraft, value, id: generateId() }]);
+    setRuleDraft(prev => ({ ...prev, value: '', category: '' }));
+  };
+
+  const handleRemoveRule = async (id: string) => {
+    await saveCategoryRules(categoryRules.filter(rule => rule.id !== id));
+  };
+
+  const isValidCardDay = (day: number) => Number.isInteger(day) && day >= 1 && day <= 31;
+
+  const handleAddCard = async () => {
+    const name = cardDraft.name.trim();
+    if (!name || !isValidCardDay(cardDraft.closingDay) || !isValidCardDay(cardDraft.dueDay)) {
+      return;
+    }
+    await saveCreditCards([...creditCards, { ...cardDraft, name, id: generateId() }]);
+    setCardDraft(EMPTY_CARD);
+  };
+
+  const handleRemoveCard = async (id: string) => {
+    if (!window.confirm('Remover o cartão? As compras vinculadas voltam a contar pela data.')) {
+      return;
+    }
+    await saveCreditCards(creditCards.filter(card => card.id !== id));
+  };
+
+  const handleAddAccount = async () => {
+    const name = accountDraft.name.trim();
+    if (!name || !Number.isFinite(accountDraft.initialBalance)) {
+      return;
+    }
+    await saveAccounts([...accounts, { ...accountDraft, name, id: generateId() }]);
+    setAccountDraft(EMPTY_ACCOUNT);
+  };
+
+  const handleRemoveAccount = async (id: string) => {
+    if (!window.confirm('Remover a conta? Os lançamentos vinculados a ela são mantidos.')) {
+      return;
+    }
+    await saveAccounts(accounts.filter(account => account.id !== id));
+  };
+
+  const handleMoveRule = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= categoryRules.length) {
+      return;
+    }
+    const next = [...categoryRules];
+    [next[index], next[target]] = [next[target], next[index]];
+    await saveCategoryRules(next);
   };
 
   return (
@@ -57,14 +205,38 @@ const FinanceSettings = () => {
             <div className={styles.formRow}>
               <input
                 type="text"
-                value={inputs[group.id]}
+                value={categoryDrafts[group.id].name}
                 placeholder="Nova categoria"
+                onChange={event => updateCategoryDraft(group.id, { name: event.target.value })}
+              />
+              <select
+                aria-label="Categoria principal"
+                value={categoryDrafts[group.id].parentId ?? ''}
                 onChange={event =>
-                  setInputs(prev => ({
-                    ...prev,
-                    [group.id]: event.target.value,
-                  }))
+                  updateCategoryDraft(group.id, { parentId: event.target.value || null })
                 }
+              >
+                <option value="">Categoria principal</option>
+                {getRootCategories(categories[group.id]).map(category => (
+                  <option key={category.id} value={category.id}>
+                    Dentro de {category.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className={styles.iconInput}
+                aria-label="Ícone"
+                placeholder="🙂"
+                value={categoryDrafts[group.id].icon}
+                onChange={event => updateCategoryDraft(group.id, { icon: event.target.value })}
+              />
+              <input
+                type="color"
+                className={styles.colorInput}
+                aria-label="Cor"
+                value={categoryDrafts[group.id].color}
+                onChange={event => updateCategoryDraft(group.id, { color: event.target.value })}
               />
               <button type="button" onClick={() => handleAdd(group.id)}>
                 Adicionar
@@ -75,19 +247,382 @@ const FinanceSettings = () => {
               <div className={styles.emptyState}>Nenhuma categoria cadastrada.</div>
             ) : (
               <ul className={styles.list}>
-                {categories[group.id].map(category => (
-                  <li key={category}>
-                    <span>{category}</span>
-                    <button type="button" onClick={() => handleRemove(group.id, category)}>
-                      Remover
-                    </button>
-                  </li>
-                ))}
+                {sortCategoryTree(categories[group.id]).map(category =>
+                  editing?.group === group.id && editing.id === category.id ? (
+                    <li key={category.id} className={styles.editingItem}>
+                      <div className={styles.formRow}>
+                        <input
+                          type="text"
+                          aria-label="Nome"
+                          value={editing.name}
+                          disabled={Boolean(editing.mergeInto)}
+                          onChange={event => setEditing({ ...editing, name: event.target.value })}
+                        />
+                        <select
+                          aria-label="Categoria principal"
+                          value={editing.parentId ?? ''}
+                          disabled={
+                            Boolean(editing.mergeInto) ||
+                            categories[group.id].some(item => item.parentId === category.id)
+                          }
+                          onChange={event =>
+                            setEditing({ ...editing, parentId: event.target.value || null })
+                          }
+                        >
+                          <option value="">Categoria principal</option>
+                          {getRootCategories(categories[group.id])
+                            .filter(item => item.id !== category.id)
+                            .map(item => (
+                              <option key={item.id} value={item.id}>
+                                Dentro de {item.name}
+                              </option>
+                            ))}
+                        </select>
+                        <input
+                          type="text"
+                          className={styles.iconInput}
+                          aria-label="Ícone"
+                          value={editing.icon}
+                          disabled={Boolean(editing.mergeInto)}
+                          onChange={event => setEditing({ ...editing, icon: event.target.value })}
+                        />
+                        <input
+                          type="color"
+                          className={styles.colorInput}
+                          aria-label="Cor"
+                          value={editing.color}
+                          disabled={Boolean(editing.mergeInto)}
+                          onChange={event => setEditing({ ...editing, color: event.target.value })}
+                        />
+                      </div>
+                      <div className={styles.formRow}>
+                        <select
+                          aria-label="Mesclar em"
+                          value={editing.mergeInto}
+                          onChange={event =>
+                            setEditing({ ...editing, mergeInto: event.target.value })
+                          }
+                        >
+                          <option value="">Não mesclar</option>
+                          {sortCategoryTree(categories[group.id])
+                            .filter(
+                              item => item.id !== category.id && item.parentId !== category.id
+                            )
+                            .map(item => (
+                              <option key={item.id} value={item.id}>
+                                Mesclar em {formatCategoryLabel(item, categories[group.id])}
+                              </option>
+                            ))}
+                        </select>
+                        <button type="button" onClick={() => void handleSaveEdit()}>
+                          {editing.mergeInto ? 'Mesclar' : 'Salvar'}
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.moveButton}
+                          onClick={() => setEditing(null)}
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </li>
+                  ) : (
+                    <li
+                      key={category.id}
+                      className={category.parentId ? styles.childItem : undefined}
+                    >
+                      <span className={styles.categoryName}>
+                        <span
+                          className={styles.colorDot}
+                          style={{ backgroundColor: category.color }}
+                        />
+                        {category.icon && <span>{category.icon}</span>}
+                        {category.name}
+                      </span>
+                      <div className={styles.ruleActions}>
+                        <button
+                          type="button"
+                          className={styles.moveButton}
+                          onClick={() =>
+                            setEditing({ ...category, group: group.id, mergeInto: '' })
+                          }
+                        >
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleRemove(group.id, category)}
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    </li>
+                  )
+                )}
               </ul>
             )}
           </article>
         ))}
       </div>
+
+      <article className={styles.card}>
+        <header>
+          <h3>Contas e carteiras</h3>
+          <p>
+            Cadastre contas correntes, poupanças, dinheiro em espécie e corretoras para saber o
+            saldo de cada uma. Transferências entre contas não entram como receita nem como gasto.
+          </p>
+        </header>
+
+        <div className={styles.formRow}>
+          <input
+            type="text"
+            value={accountDraft.name}
+            placeholder="Nome da conta"
+            onChange={event => setAccountDraft(prev => ({ ...prev, name: event.target.value }))}
+          />
+          <select
+            aria-label="Tipo de conta"
+            value={accountDraft.type}
+            onChange={event =>
+              setAccountDraft(prev => ({ ...prev, type: event.target.value as AccountType }))
+            }
+          >
+            {ACCOUNT_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <label className={styles.dayField}>
+            <span>Saldo inicial</span>
+            <input
+              type="number"
+              step="0.01"
+              value={accountDraft.initialBalance}
+              onChange={event =>
+                setAccountDraft(prev => ({ ...prev, initialBalance: Number(event.target.value) }))
+              }
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => void handleAddAccount()}
+            disabled={!accountDraft.name.trim()}
+          >
+            Adicionar conta
+          </button>
+        </div>
+
+        {accounts.length === 0 ? (
+          <div className={styles.emptyState}>Nenhuma conta cadastrada.</div>
+        ) : (
+          <ul className={styles.list}>
+            {accounts.map(account => (
+              <li key={account.id}>
+                <span>
+                  <strong>{account.name}</strong> · {formatAccountType(account.type)} · saldo
+                  inicial {formatCurrency(account.initialBalance)}
+                </span>
+                <button type="button" onClick={() => void handleRemoveAccount(account.id)}>
+                  Remover
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </article>
+
+      <article className={styles.card}>
+        <header>
+          <h3>Cartões de crédito</h3>
+          <p>
+            Informe o dia de fechamento e o de vencimento para agrupar as compras no crédito em
+            faturas e acompanhar os gastos pelo regime de caixa.
+          </p>
+        </header>
+
+        <div className={styles.formRow}>
+          <input
+            type="text"
+            value={cardDraft.name}
+            placeholder="Nome do cartão"
+            onChange={event => setCardDraft(prev => ({ ...prev, name: event.target.value }))}
+          />
+          <label className={styles.dayField}>
+            <span>Fechamento</span>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={cardDraft.closingDay}
+              onChange={event =>
+                setCardDraft(prev => ({ ...prev, closingDay: Number(event.target.value) }))
+              }
+            />
+          </label>
+          <label className={styles.dayField}>
+            <span>Vencimento</span>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={cardDraft.dueDay}
+              onChange={event =>
+                setCardDraft(prev => ({ ...prev, dueDay: Number(event.target.value) }))
+              }
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => void handleAddCard()}
+            disabled={
+              !cardDraft.name.trim() ||
+              !isValidCardDay(cardDraft.closingDay) ||
+              !isValidCardDay(cardDraft.dueDay)
+            }
+          >
+            Adicionar cartão
+          </button>
+        </div>
+
+        {creditCards.length === 0 ? (
+          <div className={styles.emptyState}>Nenhum cartão cadastrado.</div>
+        ) : (
+          <ul className={styles.list}>
+            {creditCards.map(card => (
+              <li key={card.id}>
+                <span>
+                  <strong>{card.name}</strong> · fecha dia {card.closingDay}, vence dia{' '}
+                  {card.dueDay}
+                </span>
+                <button type="button" onClick={() => void handleRemoveCard(card.id)}>
+                  Remover
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </article>
+
+      <article className={styles.card}>
+        <header>
+          <h3>Regras de categorização</h3>
+          <p>
+            Categorize automaticamente gastos e receitas digitados ou importados de extratos. A
+            primeira regra compatível da lista é aplicada; sem regra, usamos a categoria mais
+            comum nos seus lançamentos anteriores.
+          </p>
+        </header>
+
+        <div className={styles.formRow}>
+          <select
+            aria-label="Tipo de lançamento"
+            value={ruleDraft.group}
+            onChange={event => {
+              const group = event.target.value as CategoryRuleGroup;
+              setRuleDraft(prev => ({
+                ...prev,
+                group,
+                field: group === 'expenses' ? 'description' : prev.field,
+                category: '',
+              }));
+            }}
+          >
+            <option value="expenses">Gastos</option>
+            <option value="incomes">Receitas</option>
+          </select>
+          <select
+            aria-label="Campo analisado"
+            value={ruleDraft.field}
+            onChange={event =>
+              setRuleDraft(prev => ({ ...prev, field: event.target.value as CategoryRuleField }))
+            }
+          >
+            <option value="description">Descrição</option>
+            {ruleDraft.group === 'incomes' && <option value="source">Origem</option>}
+          </select>
+          <select
+            aria-label="Condição"
+            value={ruleDraft.operator}
+            onChange={event =>
+              setRuleDraft(prev => ({
+                ...prev,
+                operator: event.target.value as CategoryRuleOperator,
+              }))
+            }
+          >
+            {(Object.keys(RULE_OPERATOR_LABELS) as CategoryRuleOperator[]).map(operator => (
+              <option key={operator} value={operator}>
+                {RULE_OPERATOR_LABELS[operator]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={ruleDraft.value}
+            placeholder="Ex.: uber"
+            onChange={event => setRuleDraft(prev => ({ ...prev, value: event.target.value }))}
+          />
+          <select
+            aria-label="Categoria aplicada"
+            value={ruleDraft.category}
+            onChange={event => setRuleDraft(prev => ({ ...prev, category: event.target.value }))}
+          >
+            <option value="">Categoria</option>
+            {buildCategoryOptions(categories[ruleDraft.group]).map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void handleAddRule()}
+            disabled={!ruleDraft.value.trim() || !ruleDraft.category}
+          >
+            Adicionar regra
+          </button>
+        </div>
+
+        {categoryRules.length === 0 ? (
+          <div className={styles.emptyState}>Nenhuma regra cadastrada.</div>
+        ) : (
+          <ul className={styles.list}>
+            {categoryRules.map((rule, index) => (
+              <li key={rule.id}>
+                <span>
+                  <strong>{rule.group === 'expenses' ? 'Gastos' : 'Receitas'}:</strong>{' '}
+                  {describeCategoryRule(rule)}
+                </span>
+                <div className={styles.ruleActions}>
+                  <button
+                    type="button"
+                    className={styles.moveButton}
+                    aria-label="Subir regra"
+                    disabled={index === 0}
+                    onClick={() => void handleMoveRule(index, -1)}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.moveButton}
+                    aria-label="Descer regra"
+                    disabled={index === categoryRules.length - 1}
+                    onClick={() => void handleMoveRule(index, 1)}
+                  >
+                    ↓
+                  </button>
+                  <button type="button" onClick={() => void handleRemoveRule(rule.id)}>
+                    Remover
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </article>
     </section>
   );
 };
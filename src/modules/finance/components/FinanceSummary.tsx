@@ -1,9 +1,14 @@
 import { useMemo, useState } from 'react';
 
 import { MetricCard } from '@shared/components/MetricCard';
+import { downloadCsv } from '@shared/utils/download';
 import { formatCurrency } from '@shared/utils/format';
+import { downloadXlsx } from '@shared/utils/xlsx';
 
 import { useFinance } from '../context/FinanceContext';
+import { useRecurrenceMaterialization } from '../hooks/useRecurrenceMaterialization';
+import { ALL_ACCOUNTS, computeAccountBalances, filterByAccount } from '../utils/accounts';
+import { buildRecordsCsvRows, buildRecordsXlsxSheets } from '../utils/exports';
 import {
   formatPeriodLabel,
   getAvailableYears,
@@ -12,39 +17,84 @@ import {
   matchesPeriod,
   MONTH_OPTIONS,
 } from '../utils/period';
+import {
+  buildCardsById,
+  EXPENSE_VIEW_OPTIONS,
+  resolveExpenseDate,
+  type ExpenseView,
+} from '../utils/creditCard';
+import { toSignedInvestments } from '../utils/portfolio';
+import { getPeriodEnd } from '../utils/recurrence';
 import styles from './FinanceSummary.module.css';
 
 const FinanceSummary = () => {
-  const { expenses, incomes, investments } = useFinance();
+  const { expenses, incomes, investments, creditCards, accounts, transfers } = useFinance();
   const currentYear = getCurrentYear();
   const currentMonth = getCurrentMonth();
 
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
+  const [expenseView, setExpenseView] = useState<ExpenseView>('competence');
+  const [accountId, setAccountId] = useState<string>(ALL_ACCOUNTS);
+
+  useRecurrenceMaterialization(selectedYear, selectedMonth);
 
   const yearOptions = useMemo(() => {
     const dates = [...expenses, ...incomes, ...investments].map(entry => entry.date);
     return getAvailableYears(dates);
   }, [expenses, incomes, investments]);
 
+  const cardsById = useMemo(() => buildCardsById(creditCards), [creditCards]);
+
   const filteredExpenses = useMemo(
-    () => expenses.filter(expense => matchesPeriod(expense.date, selectedYear, selectedMonth)),
-    [expenses, selectedYear, selectedMonth]
+    () =>
+      filterByAccount(expenses, accountId).filter(expense =>
+        matchesPeriod(
+          resolveExpenseDate(expense, expenseView, cardsById),
+          selectedYear,
+          selectedMonth
+        )
+      ),
+    [accountId, cardsById, expenseView, expenses, selectedYear, selectedMonth]
   );
 
   const filteredIncomes = useMemo(
-    () => incomes.filter(income => matchesPeriod(income.date, selectedYear, selectedMonth)),
-    [incomes, selectedYear, selectedMonth]
+    () =>
+      filterByAccount(incomes, accountId).filter(income =>
+        matchesPeriod(income.date, selectedYear, selectedMonth)
+      ),
+    [accountId, incomes, selectedYear, selectedMonth]
   );
 
   const filteredInvestments = useMemo(
     () =>
-      investments.filter(investment =>
+      filterByAccount(investments, accountId).filter(investment =>
         matchesPeriod(investment.date, selectedYear, selectedMonth)
       ),
-    [investments, selectedYear, selectedMonth]
+    [accountId, investments, selectedYear, selectedMonth]
   );
 
+  // Saldo acumulado até o fim do período, da conta filtrada ou da soma de todas.
+  const accountsBalance = useMemo(() => {
+    const balances = computeAccountBalances(
+      { accounts, expenses, incomes, investments, transfers, creditCards },
+      getPeriodEnd(selectedYear, selectedMonth)
+    );
+    return balances
+      .filter(entry => accountId === ALL_ACCOUNTS || entry.account.id === accountId)
+      .reduce((sum, entry) => sum + entry.balance, 0);
+  }, [
+    accountId,
+    accounts,
+    creditCards,
+    expenses,
+    incomes,
+    investments,
+    selectedMonth,
+    selectedYear,
+    transfers,
+  ]);
+
   const totals = useMemo(() => {
     const computeTotals = (items: { amount: number; excludeFromTotals?: boolean }[]) =>
       items.reduce(
@@ -66,7 +116,7 @@ const FinanceSummary = () => {
 
     const incomeTotals = computeTotals(filteredIncomes);
     const expenseTotals = computeTotals(filteredExpenses);
-    const investmentTotals = computeTotals(filteredInvestments);
+    const investmentTotals = computeTotals(toSignedInvestments(filteredInvestments));
 
     return {
       totalIncomes: incomeTotals.includedAmount,
@@ -86,6 +136,16 @@ const FinanceSummary = () => {
 
   const periodLabel = formatPeriodLabel(selectedMonth, selectedYear);
 
+  // Exporta exatamente o que o resumo está contando: mesmo período, regime e conta.
+  const exportSource = {
+    expenses: filteredExpenses,
+    incomes: filteredIncomes,
+    investments: filteredInvestments,
+    accounts,
+    creditCards,
+  };
+  const exportFileName = `financas-${selectedYear}-${String(selectedMonth).padStart(2, '0')}`;
+
   return (
     <section className={styles.container}>
       <div className={styles.filters}>
@@ -118,8 +178,56 @@ const FinanceSummary = () => {
               ))}
             </select>
           </div>
+          <div className={styles.filter}>
+            <label htmlFor="summary-view">Regime</label>
+            <select
+              id="summary-view"
+              value={expenseView}
+              title={EXPENSE_VIEW_OPTIONS.find(option => option.value === expenseView)?.hint}
+              onChange={event => setExpenseView(event.target.value as ExpenseView)}
+            >
+              {EXPENSE_VIEW_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {accounts.length > 0 && (
+            <div className={styles.filter}>
+              <label htmlFor="summary-account">Conta</label>
+              <select
+                id="summary-account"
+                value={accountId}
+                onChange={event => setAccountId(event.target.value)}
+              >
+                <option value={ALL_ACCOUNTS}>Todas as contas</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        <div className={styles.exportActions}>
+          <span className={styles.periodBadge}>Período: {periodLabel}</span>
+          <button
+            type="button"
+            onClick={() => downloadCsv(buildRecordsCsvRows(exportSource), `${exportFileName}.csv`)}
+          >
+            Exportar CSV
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              downloadXlsx(buildRecordsXlsxSheets(exportSource), `${exportFileName}.xlsx`)
+            }
+          >
+            Exportar XLSX
+          </button>
         </div>
-        <span className={styles.periodBadge}>Período: {periodLabel}</span>
       </div>
 
       <div className={styles.wrapper}>
@@ -155,6 +263,15 @@ const FinanceSummary = () => {
           icon={<span>S</span>}
           footnote="Diferença entre receitas e gastos"
         />
+        {accounts.length > 0 && (
+          <MetricCard
+            label={accountId === ALL_ACCOUNTS ? 'Saldo em contas' : 'Saldo da conta'}
+            value={formatCurrency(accountsBalance)}
+            trend={accountsBalance >= 0 ? 'positive' : 'negative'}
+            icon={<span>C</span>}
+            footnote="Acumulado até o fim do período, com transferências"
+          />
+        )}
       </div>
 
       <div className={styles.excludedTotals}>
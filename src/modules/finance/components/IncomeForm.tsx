@@ -1,15 +1,17 @@
-import { useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import clsx from 'clsx';
-import toast from 'react-hot-toast';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 
 import { formatCurrency } from '@shared/utils/format';
-import { generateId } from '@shared/utils/id';
 
 import { useFinance } from '../context/FinanceContext';
-import type { Income } from '../types/finance';
+import { useCategorySuggestion } from '../hooks/useCategorySuggestion';
+import { useRecurrenceMaterialization } from '../hooks/useRecurrenceMaterialization';
+import type { Income, SeriesEditOptions, SeriesScope } from '../types/finance';
+import { buildCategoryOptions } from '../utils/categories';
+import { describeCategorySuggestion } from '../utils/categorization';
 import {
   formatDateDisplay,
   formatPeriodLabel,
@@ -22,11 +24,19 @@ import {
 } from '../utils/period';
 import {
   formatRecurrenceProgress,
-  generateRecurringDates,
+  isRuleBackedRecord,
+  isSeriesRecord,
+  MAX_BUSINESS_DAY,
+  MAX_RECURRENCE_OCCURRENCES,
   RECURRENCE_OPTIONS,
   RECURRENCE_VALUES,
+  toRecurrenceConfig,
 } from '../utils/recurrence';
+import { AccountField } from './AccountField';
 import styles from './FinanceForm.module.css';
+import { RecordAttachments } from './RecordAttachments';
+import { SeriesDeleteDialog } from './SeriesDeleteDialog';
+import { SeriesScopeFields } from './SeriesScopeFields';
 
 const recurrenceSchema = z.object({
   frequency: z.enum(RECURRENCE_VALUES),
@@ -37,7 +47,16 @@ const recurrenceSchema = z.object({
     })
     .int('Informe um número inteiro')
     .min(1, 'Use pelo menos 1 ocorrência')
-    .max(24, 'Limite de 24 lançamentos por recorrência'),
+    .max(
+      MAX_RECURRENCE_OCCURRENCES,
+      `Limite de ${MAX_RECURRENCE_OCCURRENCES} lançamentos por recorrência`
+    ),
+  endless: z.boolean().default(false),
+  businessDay: z.coerce
+    .number({ invalid_type_error: 'Informe o dia útil' })
+    .int('Informe um número inteiro')
+    .min(1, 'Use a partir do 1º dia útil')
+    .max(MAX_BUSINESS_DAY, `Use até o ${MAX_BUSINESS_DAY}º dia útil`),
 });
 
 const incomeSchema = z.object({
@@ -47,18 +66,24 @@ const incomeSchema = z.object({
   amount: z.coerce.number().positive('Informe um valor positivo'),
   date: z.string().min(1, 'Informe a data'),
   excludeFromTotals: z.boolean().default(false),
+  accountId: z.string().default(''),
   recurrence: recurrenceSchema,
 });
 
 type IncomeFormValues = z.infer<typeof incomeSchema>;
 
 const IncomeForm = () => {
-  const { incomes, addIncome, updateIncome, deleteIncome, categories } = useFinance();
+  const { incomes, addIncome, updateIncome, deleteIncome, categories, recurrences } =
+    useFinance();
   const currentYear = getCurrentYear();
   const currentMonth = getCurrentMonth();
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [seriesOptions, setSeriesOptions] = useState<SeriesEditOptions>({ scope: 'single' });
+  const [pendingDelete, setPendingDelete] = useState<Income | null>(null);
+
+  useRecurrenceMaterialization(selectedYear, selectedMonth);
 
   const yearOptions = useMemo(
     () => getAvailableYears(incomes.map(income => income.date)),
@@ -97,20 +122,42 @@ const IncomeForm = () => {
     handleSubmit,
     reset,
     watch,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<IncomeFormValues>({
     resolver: zodResolver(incomeSchema),
     defaultValues: {
       date: new Date().toISOString().split('T')[0],
       excludeFromTotals: false,
+      accountId: '',
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     },
   });
 
   const selectedFrequency = watch('recurrence.frequency');
+  const isEndless = watch('recurrence.endless');
+  const descriptionValue = watch('description');
+  const sourceValue = watch('source');
+  const categoryValue = watch('category');
+
+  const applySuggestedCategory = useCallback(
+    (category: string) => setValue('category', category, { shouldValidate: true }),
+    [setValue]
+  );
+  const categorySuggestion = useCategorySuggestion({
+    group: 'incomes',
+    input: { description: descriptionValue ?? '', source: sourceValue ?? '' },
+    currentCategory: categoryValue ?? '',
+    enabled: !editingId,
+    onApply: applySuggestedCategory,
+  });
+
+  const editingIncome = editingId ? incomes.find(item => item.id === editingId) : undefined;
 
   const resetForm = () => {
     reset({
@@ -120,51 +167,33 @@ const IncomeForm = () => {
       amount: 0,
       date: new Date().toISOString().split('T')[0],
       excludeFromTotals: false,
+      accountId: '',
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     });
   };
 
   const onSubmit = async (data: IncomeFormValues) => {
-    const { recurrence, ...income } = data;
+    const { recurrence, accountId, ...values } = data;
+    const income = { ...values, accountId: accountId || null };
 
     if (editingId) {
-      const currentIncome = incomes.find(item => item.id === editingId);
-      await updateIncome(editingId, {
-        ...income,
-        recurrenceId: currentIncome?.recurrenceId ?? null,
-        recurrenceIndex: currentIncome?.recurrenceIndex ?? null,
-        recurrenceTotal: currentIncome?.recurrenceTotal ?? null,
-      });
-    } else {
-      const schedule = generateRecurringDates(
-        income.date,
-        recurrence.frequency,
-        recurrence.occurrences
+      await updateIncome(
+        editingId,
+        {
+          ...income,
+          recurrenceId: editingIncome?.recurrenceId ?? null,
+          recurrenceIndex: editingIncome?.recurrenceIndex ?? null,
+          recurrenceTotal: editingIncome?.recurrenceTotal ?? null,
+        },
+        seriesOptions
       );
-
-      if (schedule.length === 1) {
-        await addIncome(income);
-      } else {
-        const recurrenceId = generateId();
-        const total = schedule.length;
-
-        for (const [index, scheduledDate] of schedule.entries()) {
-          await addIncome(
-            {
-              ...income,
-              date: scheduledDate,
-              recurrenceId,
-              recurrenceIndex: index + 1,
-              recurrenceTotal: total,
-            },
-            { silent: true }
-          );
-        }
-        toast.success(`Recorrência registrada com ${schedule.length} receitas`);
-      }
+    } else {
+      await addIncome(income, { recurrence: toRecurrenceConfig(recurrence) });
     }
 
     resetForm();
@@ -173,6 +202,7 @@ const IncomeForm = () => {
 
   const handleEdit = (income: Income) => {
     setEditingId(income.id);
+    setSeriesOptions({ scope: 'single' });
     reset({
       source: income.source,
       description: income.description,
@@ -180,21 +210,39 @@ const IncomeForm = () => {
       amount: income.amount,
       date: income.date,
       excludeFromTotals: income.excludeFromTotals ?? false,
+      accountId: income.accountId ?? '',
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     });
   };
 
-  const handleDelete = async (id: string) => {
-    await deleteIncome(id);
-    if (editingId === id) {
+  const removeIncome = async (id: string, scope: SeriesScope = 'single') => {
+    await deleteIncome(id, scope);
+    if (editingId && (editingId === id || scope !== 'single')) {
       setEditingId(null);
       resetForm();
     }
   };
 
+  const handleDelete = (income: Income) => {
+    if (isSeriesRecord(income)) {
+      setPendingDelete(income);
+      return;
+    }
+    void removeIncome(income.id);
+  };
+
+  const handleConfirmDelete = (scope: SeriesScope) => {
+    if (pendingDelete) {
+      void removeIncome(pendingDelete.id, scope);
+    }
+    setPendingDelete(null);
+  };
+
   const handleCancelEdit = () => {
     setEditingId(null);
     resetForm();
@@ -280,6 +328,8 @@ const IncomeForm = () => {
               <span className={styles.error}>{errors.description.message}</span>
             )}
           </div>
+
+          <AccountField id="income-account" registration={register('accountId')} />
         </div>
 
         <div className={styles.row}>
@@ -287,14 +337,18 @@ const IncomeForm = () => {
             <label htmlFor="income-category">Categoria</label>
             <select id="income-category" {...register('category')}>
               <option value="">Selecione</option>
-              {categories.incomes.map(category => (
-                <option key={category} value={category}>
-                  {category}
+              {buildCategoryOptions(categories.incomes).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
                 </option>
               ))}
             </select>
             {errors.category && <span className={styles.error}>{errors.category.message}</span>}
-            <span className={styles.helperText}>Gerencie categorias em "Configurações".</span>
+            <span className={styles.helperText}>
+              {categorySuggestion
+                ? describeCategorySuggestion(categorySuggestion)
+                : 'Gerencie categorias e regras automáticas em "Configurações".'}
+            </span>
           </div>
 
           <div className={styles.field}>
@@ -322,7 +376,16 @@ const IncomeForm = () => {
             <span>Cadastre salários, dividendos e outras entradas que se repetem automaticamente.</span>
           </div>
 
-          {editingId ? (
+          {editingIncome && isSeriesRecord(editingIncome) ? (
+            <SeriesScopeFields
+              idPrefix="income"
+              recurrenceIndex={editingIncome.recurrenceIndex ?? 1}
+              recurrenceTotal={editingIncome.recurrenceTotal ?? null}
+              ruleBased={isRuleBackedRecord(editingIncome, recurrences)}
+              value={seriesOptions}
+              onChange={setSeriesOptions}
+            />
+          ) : editingId ? (
             <p className={styles.recurrenceInfo}>
               Edite a receita individual. Para ajustar recorrência, crie um novo lançamento com o
               intervalo desejado.
@@ -350,14 +413,47 @@ const IncomeForm = () => {
                 ))}
               </div>
 
+              {selectedFrequency === 'business_day' && (
+                <div className={styles.recurrenceInline}>
+                  <label htmlFor="income-recurrence-business-day">Dia útil do mês</label>
+                  <input
+                    id="income-recurrence-business-day"
+                    type="number"
+                    min={1}
+                    max={MAX_BUSINESS_DAY}
+                    {...register('recurrence.businessDay', { valueAsNumber: true })}
+                  />
+                  <span className={styles.helperText}>
+                    Conta de segunda a sexta; feriados não são descontados.
+                  </span>
+                  {errors.recurrence?.businessDay && (
+                    <span className={styles.error}>{errors.recurrence.businessDay.message}</span>
+                  )}
+                </div>
+              )}
+
               {selectedFrequency !== 'none' && (
+                <div className={styles.recurrenceInline}>
+                  <input
+                    id="income-recurrence-endless"
+                    type="checkbox"
+                    {...register('recurrence.endless')}
+                  />
+                  <label htmlFor="income-recurrence-endless">Sem data de término</label>
+                  <span className={styles.helperText}>
+                    Os lançamentos futuros são criados à medida que você consulta cada mês.
+                  </span>
+                </div>
+              )}
+
+              {selectedFrequency !== 'none' && !isEndless && (
                 <div className={styles.recurrenceInline}>
                   <label htmlFor="income-recurrence-occurrences">Quantidade de lançamentos</label>
                   <input
                     id="income-recurrence-occurrences"
                     type="number"
                     min={1}
-                    max={24}
+                    max={MAX_RECURRENCE_OCCURRENCES}
                     {...register('recurrence.occurrences', { valueAsNumber: true })}
                   />
                   <span className={styles.helperText}>
@@ -414,6 +510,7 @@ const IncomeForm = () => {
               <th className={styles.valueHeader}>Valor</th>
               <th className={styles.metaHeader}>Parcela</th>
               <th>Data</th>
+              <th>Anexos</th>
               <th>Ações</th>
             </tr>
           </thead>
@@ -435,12 +532,15 @@ const IncomeForm = () => {
                   {formatRecurrenceProgress(income.recurrenceIndex, income.recurrenceTotal) ?? '—'}
                 </td>
                 <td className={styles.dateCell}>{formatDateDisplay(income.date)}</td>
+                <td>
+                  <RecordAttachments collection="incomes" record={income} />
+                </td>
                 <td className={styles.actionCell}>
                   <div className={styles.tableActions}>
                     <button type="button" onClick={() => handleEdit(income)}>
                       Editar
                     </button>
-                    <button type="button" onClick={() => void handleDelete(income.id)}>
+                    <button type="button" onClick={() => handleDelete(income)}>
                       Remover
                     </button>
                   </div>
@@ -461,6 +561,11 @@ const IncomeForm = () => {
         </>
       )}
       </div>
+      <SeriesDeleteDialog
+        record={pendingDelete}
+        onConfirm={handleConfirmDelete}
+        onClose={() => setPendingDelete(null)}
+      />
     </section>
   );
 };
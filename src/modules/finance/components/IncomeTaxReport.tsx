@@ -0,0 +1,379 @@
+import { useEffect, useMemo, useState } from 'react';
+import jsPDF from 'jspdf';
+
+import { downloadCsv } from '@shared/utils/download';
+import { formatCurrency } from '@shared/utils/format';
+
+import { useFinance } from '../context/FinanceContext';
+import type { TaxDeductionKind, TaxSettings } from '../types/finance';
+import { buildCategoryOptions } from '../utils/categories';
+import { formatDateDisplay, getAvailableYears, getCurrentYear } from '../utils/period';
+import {
+  buildTaxReport,
+  buildTaxReportCsvRows,
+  formatDeductionKind,
+  TAX_DEDUCTION_OPTIONS,
+  TAX_REPORT_SECTIONS,
+  type TaxReport,
+} from '../utils/taxReport';
+import styles from './FinanceForm.module.css';
+
+const exportTaxReportPdf = (report: TaxReport) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const marginX = 14;
+  const marginY = 18;
+  const contentWidth = 182;
+  let cursorY = marginY;
+
+  const ensureSpace = (height: number) => {
+    if (cursorY + height > 280) {
+      doc.addPage();
+      cursorY = marginY;
+    }
+  };
+
+  const drawSection = (title: string, total: number) => {
+    ensureSpace(18);
+    cursorY += 4;
+    doc.setFillColor(0, 39, 118);
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.rect(marginX, cursorY, contentWidth, 8, 'F');
+    doc.text(title, marginX + 2, cursorY + 5.5);
+    doc.text(formatCurrency(total), marginX + contentWidth - 2, cursorY + 5.5, { align: 'right' });
+    cursorY += 10;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(0, 0, 0);
+  };
+
+  const drawRow = (label: string, value: string, detail?: string) => {
+    const lines = doc.splitTextToSize(label, contentWidth - 50) as string[];
+    const height = lines.length * 5 + (detail ? 4 : 1);
+    ensureSpace(height);
+    doc.text(lines, marginX + 2, cursorY + 4);
+    doc.text(value, marginX + contentWidth - 2, cursorY + 4, { align: 'right' });
+    if (detail) {
+      doc.setFontSize(8);
+      doc.setTextColor(90, 90, 90);
+      doc.text(detail, marginX + 2, cursorY + lines.length * 5 + 2);
+      doc.setFontSize(10);
+      doc.setTextColor(0, 0, 0);
+    }
+    cursorY += height;
+  };
+
+  const drawEmpty = () => drawRow('Nada a declarar nesta ficha.', '');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(0, 39, 118);
+  doc.text(`Imposto de renda ${report.year + 1}`, marginX, cursorY);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(0, 0, 0);
+  doc.text(`Ano-calendário ${report.year}`, marginX, cursorY + 7);
+  doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, marginX, cursorY + 13);
+  cursorY += 16;
+
+  drawSection(TAX_REPORT_SECTIONS.taxableIncome, report.totals.taxableIncome);
+  if (!report.taxableIncome.length) drawEmpty();
+  report.taxableIncome.forEach(item => drawRow(item.source, formatCurrency(item.total)));
+
+  drawSection(TAX_REPORT_SECTIONS.exemptIncome, report.totals.exemptIncome);
+  if (!report.exemptIncome.length) drawEmpty();
+  report.exemptIncome.forEach(item => drawRow(item.source, formatCurrency(item.total)));
+
+  drawSection(TAX_REPORT_SECTIONS.deductions, report.totals.deductions);
+  if (!report.deductions.length) drawEmpty();
+  report.deductions.forEach(group => {
+    doc.setFont('helvetica', 'bold');
+    drawRow(`${formatDeductionKind(group.kind)} · ${group.category}`, formatCurrency(group.total));
+    doc.setFont('helvetica', 'normal');
+    group.items.forEach(item =>
+      drawRow(
+        `${formatDateDisplay(item.paidAt)} · ${item.description}`,
+        formatCurrency(item.amount)
+      )
+    );
+  });
+
+  drawSection(TAX_REPORT_SECTIONS.assets, report.totals.assets);
+  if (!report.assets.length) drawEmpty();
+  report.assets.forEach(item =>
+    drawRow(
+      item.institution,
+      formatCurrency(item.balance),
+      `Situação em 31/12/${report.year - 1}: ${formatCurrency(item.previousBalance)} · ` +
+        `valor de mercado em 31/12/${report.year}: ${formatCurrency(item.marketValue)}`
+    )
+  );
+
+  doc.save(`irpf-${report.year}.pdf`);
+};
+
+/** Relatório de apoio à declaração do IRPF, com as marcações de categorias usadas nele. */
+const IncomeTaxReport = () => {
+  const {
+    incomes,
+    expenses,
+    investments,
+    positions,
+    valuations,
+    creditCards,
+    categories,
+    taxSettings,
+    saveTaxSettings,
+  } = useFinance();
+  // A declaração é entregue no ano seguinte ao ano-calendário.
+  const [year, setYear] = useState<number>(getCurrentYear() - 1);
+  const [draft, setDraft] = useState<TaxSettings>(taxSettings);
+
+  useEffect(() => {
+    setDraft(taxSettings);
+  }, [taxSettings]);
+
+  const yearOptions = useMemo(() => {
+    const dates = [...incomes, ...expenses, ...investments].map(item => item.date);
+    return getAvailableYears([...dates, `${getCurrentYear() - 1}-01-01`]).filter(
+      option => option <= getCurrentYear()
+    );
+  }, [expenses, incomes, investments]);
+
+  const report = useMemo(
+    () =>
+      buildTaxReport(
+        {
+          incomes,
+          expenses,
+          investments,
+          positions,
+          valuations,
+          creditCards,
+          categories,
+          taxSettings,
+        },
+        year
+      ),
+    [
+      categories,
+      creditCards,
+      expenses,
+      incomes,
+      investments,
+      positions,
+      taxSettings,
+      valuations,
+      year,
+    ]
+  );
+
+  const getDeductionKind = (category: string) =>
+    draft.deductibleCategories.find(entry => entry.category === category)?.kind ?? '';
+
+  const setDeductionKind = (category: string, kind: TaxDeductionKind | '') =>
+    setDraft(prev => ({
+      ...prev,
+      deductibleCategories: [
+        ...prev.deductibleCategories.filter(entry => entry.category !== category),
+        ...(kind ? [{ category, kind }] : []),
+      ],
+    }));
+
+  const toggleExempt = (category: string, exempt: boolean) =>
+    setDraft(prev => ({
+      ...prev,
+      exemptIncomeCategories: exempt
+        ? [...prev.exemptIncomeCategories, category]
+        : prev.exemptIncomeCategories.filter(entry => entry !== category),
+    }));
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(taxSettings);
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Imposto de renda</h2>
+            <p>
+              Totais do ano-calendário organizados pelas fichas da declaração. Confira os valores
+              com os informes oficiais antes de declarar.
+            </p>
+          </div>
+          <span className={styles.periodChip}>Declaração {year + 1}</span>
+        </div>
+
+        <div className={styles.filters}>
+          <div className={styles.filter}>
+            <label htmlFor="tax-year">Ano-calendário</label>
+            <select
+              id="tax-year"
+              value={year}
+              onChange={event => setYear(Number(event.target.value))}
+            >
+              {yearOptions.map(option => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className={styles.summaryStrip}>
+          <div className={styles.summaryCard}>
+            <span>Rendimentos tributáveis</span>
+            <strong>{formatCurrency(report.totals.taxableIncome)}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span>Rendimentos isentos</span>
+            <strong>{formatCurrency(report.totals.exemptIncome)}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span>Pagamentos dedutíveis</span>
+            <strong>{formatCurrency(report.totals.deductions)}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span>Bens e direitos em 31/12</span>
+            <strong>{formatCurrency(report.totals.assets)}</strong>
+          </div>
+        </div>
+
+        <div className={styles.actions}>
+          <button type="button" onClick={() => exportTaxReportPdf(report)}>
+            Exportar PDF
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => downloadCsv(buildTaxReportCsvRows(report), `irpf-${year}.csv`)}
+          >
+            Exportar CSV
+          </button>
+        </div>
+
+        <div className={styles.form}>
+          <div className={styles.recurrenceHeader}>
+            <strong>Marcações</strong>
+            <span>
+              Indique quais categorias de gasto são dedutíveis e quais receitas são isentas. As
+              demais receitas entram como tributáveis.
+            </span>
+          </div>
+
+          <div className={styles.row}>
+            {buildCategoryOptions(categories.expenses).map(({ value: category, label }) => (
+              <div key={category} className={styles.field}>
+                <label htmlFor={`tax-expense-${category}`}>{label}</label>
+                <select
+                  id={`tax-expense-${category}`}
+                  value={getDeductionKind(category)}
+                  onChange={event =>
+                    setDeductionKind(category, event.target.value as TaxDeductionKind | '')
+                  }
+                >
+                  <option value="">Não dedutível</option>
+                  {TAX_DEDUCTION_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.row}>
+            {buildCategoryOptions(categories.incomes).map(({ value: category, label }) => (
+              <div key={category} className={styles.recurrenceInline}>
+                <input
+                  id={`tax-income-${category}`}
+                  type="checkbox"
+                  checked={draft.exemptIncomeCategories.includes(category)}
+                  onChange={event => toggleExempt(category, event.target.checked)}
+                />
+                <label htmlFor={`tax-income-${category}`}>{label} é isenta</label>
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.actions}>
+            <button type="button" disabled={!hasChanges} onClick={() => saveTaxSettings(draft)}>
+              Salvar marcações
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className={styles.listPanel}>
+        <div className={styles.tableWrapper}>
+          <table className={styles.dataTable}>
+            <thead>
+              <tr>
+                <th className={styles.descriptionHeader}>Ficha / item</th>
+                <th className={styles.valueHeader}>31/12/{year - 1}</th>
+                <th className={styles.valueHeader}>Valor em {year}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className={styles.descriptionCell}>
+                  <strong>{TAX_REPORT_SECTIONS.taxableIncome}</strong>
+                  {report.taxableIncome.map(item => (
+                    <small key={item.source}>
+                      {item.source} · {formatCurrency(item.total)}
+                    </small>
+                  ))}
+                </td>
+                <td className={styles.valueCell}>—</td>
+                <td className={styles.valueCell}>{formatCurrency(report.totals.taxableIncome)}</td>
+              </tr>
+              <tr>
+                <td className={styles.descriptionCell}>
+                  <strong>{TAX_REPORT_SECTIONS.exemptIncome}</strong>
+                  {report.exemptIncome.map(item => (
+                    <small key={item.source}>
+                      {item.source} · {formatCurrency(item.total)}
+                    </small>
+                  ))}
+                </td>
+                <td className={styles.valueCell}>—</td>
+                <td className={styles.valueCell}>{formatCurrency(report.totals.exemptIncome)}</td>
+              </tr>
+              <tr>
+                <td className={styles.descriptionCell}>
+                  <strong>{TAX_REPORT_SECTIONS.deductions}</strong>
+                  {report.deductions.map(group => (
+                    <small key={group.category}>
+                      {formatDeductionKind(group.kind)} · {group.category} · {group.items.length}{' '}
+                      pagamento(s) · {formatCurrency(group.total)}
+                    </small>
+                  ))}
+                </td>
+                <td className={styles.valueCell}>—</td>
+                <td className={styles.valueCell}>{formatCurrency(report.totals.deductions)}</td>
+              </tr>
+              <tr>
+                <td className={styles.descriptionCell}>
+                  <strong>{TAX_REPORT_SECTIONS.assets}</strong>
+                  {report.assets.map(item => (
+                    <small key={item.institution}>
+                      {item.institution} · {formatCurrency(item.previousBalance)} →{' '}
+                      {formatCurrency(item.balance)} (mercado {formatCurrency(item.marketValue)})
+                    </small>
+                  ))}
+                </td>
+                <td className={styles.valueCell}>{formatCurrency(report.totals.previousAssets)}</td>
+                <td className={styles.valueCell}>{formatCurrency(report.totals.assets)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export { IncomeTaxReport };
@@ -1,15 +1,15 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import clsx from 'clsx';
-import toast from 'react-hot-toast';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 
 import { formatCurrency } from '@shared/utils/format';
-import { generateId } from '@shared/utils/id';
 
 import { useFinance } from '../context/FinanceContext';
-import type { Investment } from '../types/finance';
+import { useRecurrenceMaterialization } from '../hooks/useRecurrenceMaterialization';
+import type { Investment, SeriesEditOptions, SeriesScope } from '../types/finance';
+import { buildCategoryOptions } from '../utils/categories';
 import {
   formatDateDisplay,
   formatPeriodLabel,
@@ -20,13 +20,27 @@ import {
   MONTH_OPTIONS,
   sortByDateAndDescription,
 } from '../utils/period';
+import {
+  getSignedInvestmentAmount,
+  INVESTMENT_MOVEMENT_OPTIONS,
+  INVESTMENT_TYPE_LABELS,
+  toSignedInvestments,
+} from '../utils/portfolio';
 import {
   formatRecurrenceProgress,
-  generateRecurringDates,
+  isRuleBackedRecord,
+  isSeriesRecord,
+  MAX_BUSINESS_DAY,
+  MAX_RECURRENCE_OCCURRENCES,
   RECURRENCE_OPTIONS,
   RECURRENCE_VALUES,
+  toRecurrenceConfig,
 } from '../utils/recurrence';
+import { AccountField } from './AccountField';
 import styles from './FinanceForm.module.css';
+import { RecordAttachments } from './RecordAttachments';
+import { SeriesDeleteDialog } from './SeriesDeleteDialog';
+import { SeriesScopeFields } from './SeriesScopeFields';
 
 const recurrenceSchema = z.object({
   frequency: z.enum(RECURRENCE_VALUES),
@@ -37,7 +51,16 @@ const recurrenceSchema = z.object({
     })
     .int('Informe um número inteiro')
     .min(1, 'Use pelo menos 1 ocorrência')
-    .max(24, 'Limite de 24 lançamentos por recorrência'),
+    .max(
+      MAX_RECURRENCE_OCCURRENCES,
+      `Limite de ${MAX_RECURRENCE_OCCURRENCES} lançamentos por recorrência`
+    ),
+  endless: z.boolean().default(false),
+  businessDay: z.coerce
+    .number({ invalid_type_error: 'Informe o dia útil' })
+    .int('Informe um número inteiro')
+    .min(1, 'Use a partir do 1º dia útil')
+    .max(MAX_BUSINESS_DAY, `Use até o ${MAX_BUSINESS_DAY}º dia útil`),
 });
 
 const investmentSchema = z.object({
@@ -48,29 +71,36 @@ const investmentSchema = z.object({
   type: z.enum(['renda_fixa', 'renda_variavel', 'fundo', 'poupanca', 'outro']),
   expectedReturn: z.coerce.number().min(0, 'O rendimento esperado deve ser positivo').optional(),
   date: z.string().min(1, 'Informe a data'),
+  accountId: z.string().default(''),
+  positionId: z.string().default(''),
+  movement: z.enum(['aporte', 'resgate']).default('aporte'),
   recurrence: recurrenceSchema,
 });
 
 type InvestmentFormValues = z.infer<typeof investmentSchema>;
 
-const INVESTMENT_TYPE_LABELS: Record<InvestmentFormValues['type'], string> = {
-  renda_fixa: 'Renda fixa',
-  renda_variavel: 'Renda variável',
-  fundo: 'Fundo',
-  poupanca: 'Poupança',
-  outro: 'Outro',
-};
-
 const InvestmentForm = () => {
-  const { investments, addInvestment, updateInvestment, deleteInvestment, categories } = useFinance();
+  const {
+    investments,
+    addInvestment,
+    updateInvestment,
+    deleteInvestment,
+    categories,
+    recurrences,
+    positions,
+  } = useFinance();
   const currentYear = getCurrentYear();
   const currentMonth = getCurrentMonth();
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [seriesOptions, setSeriesOptions] = useState<SeriesEditOptions>({ scope: 'single' });
+  const [pendingDelete, setPendingDelete] = useState<Investment | null>(null);
   const tableScrollRef = useRef<HTMLDivElement | null>(null);
   const [scrollMetrics, setScrollMetrics] = useState({ size: 100, offset: 0, enabled: false });
 
+  useRecurrenceMaterialization(selectedYear, selectedMonth);
+
   const yearOptions = useMemo(
     () => getAvailableYears(investments.map(investment => investment.date)),
     [investments]
@@ -85,7 +115,11 @@ const InvestmentForm = () => {
 
   const periodLabel = formatPeriodLabel(selectedMonth, selectedYear);
   const totalInvestmentsAmount = useMemo(
-    () => filteredInvestments.reduce((sum, investment) => sum + investment.amount, 0),
+    () =>
+      toSignedInvestments(filteredInvestments).reduce(
+        (sum, investment) => sum + investment.amount,
+        0
+      ),
     [filteredInvestments]
   );
 
@@ -163,14 +197,22 @@ const InvestmentForm = () => {
     defaultValues: {
       date: new Date().toISOString().split('T')[0],
       type: 'renda_fixa',
+      accountId: '',
+      positionId: '',
+      movement: 'aporte',
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     },
   });
 
   const selectedFrequency = watch('recurrence.frequency');
+  const isEndless = watch('recurrence.endless');
+
+  const editingInvestment = editingId ? investments.find(item => item.id === editingId) : undefined;
 
   const resetForm = () => {
     reset({
@@ -181,55 +223,40 @@ const InvestmentForm = () => {
       type: 'renda_fixa',
       expectedReturn: undefined,
       date: new Date().toISOString().split('T')[0],
+      accountId: '',
+      positionId: '',
+      movement: 'aporte',
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     });
   };
 
   const onSubmit = async (data: InvestmentFormValues) => {
-    const { recurrence, expectedReturn, ...rest } = data;
+    const { recurrence, expectedReturn, accountId, positionId, ...rest } = data;
     const payload = {
       ...rest,
       expectedReturn: expectedReturn ?? undefined,
+      accountId: accountId || null,
+      positionId: positionId || null,
     };
 
     if (editingId) {
-      const currentInvestment = investments.find(item => item.id === editingId);
-      await updateInvestment(editingId, {
-        ...payload,
-        recurrenceId: currentInvestment?.recurrenceId ?? null,
-        recurrenceIndex: currentInvestment?.recurrenceIndex ?? null,
-        recurrenceTotal: currentInvestment?.recurrenceTotal ?? null,
-      });
-    } else {
-      const schedule = generateRecurringDates(
-        payload.date,
-        recurrence.frequency,
-        recurrence.occurrences
+      await updateInvestment(
+        editingId,
+        {
+          ...payload,
+          recurrenceId: editingInvestment?.recurrenceId ?? null,
+          recurrenceIndex: editingInvestment?.recurrenceIndex ?? null,
+          recurrenceTotal: editingInvestment?.recurrenceTotal ?? null,
+        },
+        seriesOptions
       );
-
-      if (schedule.length === 1) {
-        await addInvestment(payload);
-      } else {
-        const recurrenceId = generateId();
-        const total = schedule.length;
-
-        for (const [index, scheduledDate] of schedule.entries()) {
-          await addInvestment(
-            {
-              ...payload,
-              date: scheduledDate,
-              recurrenceId,
-              recurrenceIndex: index + 1,
-              recurrenceTotal: total,
-            },
-            { silent: true }
-          );
-        }
-        toast.success(`Recorrência registrada com ${schedule.length} aportes`);
-      }
+    } else {
+      await addInvestment(payload, { recurrence: toRecurrenceConfig(recurrence) });
     }
 
     resetForm();
@@ -238,6 +265,7 @@ const InvestmentForm = () => {
 
   const handleEdit = (investment: Investment) => {
     setEditingId(investment.id);
+    setSeriesOptions({ scope: 'single' });
     reset({
       description: investment.description,
       category: investment.category,
@@ -246,21 +274,41 @@ const InvestmentForm = () => {
       type: investment.type,
       expectedReturn: investment.expectedReturn ?? undefined,
       date: investment.date,
+      accountId: investment.accountId ?? '',
+      positionId: investment.positionId ?? '',
+      movement: investment.movement ?? 'aporte',
       recurrence: {
         frequency: 'none',
         occurrences: 6,
+        endless: false,
+        businessDay: 5,
       },
     });
   };
 
-  const handleDelete = async (id: string) => {
-    await deleteInvestment(id);
-    if (editingId === id) {
+  const removeInvestment = async (id: string, scope: SeriesScope = 'single') => {
+    await deleteInvestment(id, scope);
+    if (editingId && (editingId === id || scope !== 'single')) {
       setEditingId(null);
       resetForm();
     }
   };
 
+  const handleDelete = (investment: Investment) => {
+    if (isSeriesRecord(investment)) {
+      setPendingDelete(investment);
+      return;
+    }
+    void removeInvestment(investment.id);
+  };
+
+  const handleConfirmDelete = (scope: SeriesScope) => {
+    if (pendingDelete) {
+      void removeInvestment(pendingDelete.id, scope);
+    }
+    setPendingDelete(null);
+  };
+
   const handleCancelEdit = () => {
     setEditingId(null);
     resetForm();
@@ -278,7 +326,7 @@ const InvestmentForm = () => {
         </div>
         <div className={styles.summaryStrip}>
           <div className={styles.summaryCard}>
-            <span>Total aplicado</span>
+            <span>Aplicado no período</span>
             <strong>{formatCurrency(totalInvestmentsAmount)}</strong>
           </div>
           <div className={styles.summaryCard}>
@@ -337,15 +385,17 @@ const InvestmentForm = () => {
             <label htmlFor="investment-category">Categoria</label>
             <select id="investment-category" {...register('category')}>
               <option value="">Selecione</option>
-              {categories.investments.map(category => (
-                <option key={category} value={category}>
-                  {category}
+              {buildCategoryOptions(categories.investments).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
                 </option>
               ))}
             </select>
             {errors.category && <span className={styles.error}>{errors.category.message}</span>}
             <span className={styles.helperText}>Gerencie categorias em "Configurações".</span>
           </div>
+
+          <AccountField id="investment-account" registration={register('accountId')} />
         </div>
 
         <div className={styles.row}>
@@ -374,7 +424,7 @@ const InvestmentForm = () => {
           </div>
 
           <div className={styles.field}>
-            <label htmlFor="investment-amount">Valor aplicado</label>
+            <label htmlFor="investment-amount">Valor</label>
             <input
               id="investment-amount"
               type="number"
@@ -386,6 +436,36 @@ const InvestmentForm = () => {
           </div>
         </div>
 
+        <div className={styles.row}>
+          <div className={styles.field}>
+            <label htmlFor="investment-movement">Movimentação</label>
+            <select id="investment-movement" {...register('movement')}>
+              {INVESTMENT_MOVEMENT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {positions.length > 0 && (
+            <div className={styles.field}>
+              <label htmlFor="investment-position">Posição</label>
+              <select id="investment-position" {...register('positionId')}>
+                <option value="">Sem posição</option>
+                {positions.map(position => (
+                  <option key={position.id} value={position.id}>
+                    {position.name}
+                  </option>
+                ))}
+              </select>
+              <span className={styles.helperText}>
+                Vincule para acompanhar o retorno na carteira.
+              </span>
+            </div>
+          )}
+        </div>
+
         <div className={styles.row}>
           <div className={styles.field}>
             <label htmlFor="investment-return">Rendimento esperado (%)</label>
@@ -414,7 +494,16 @@ const InvestmentForm = () => {
             <span>Automatize investimentos mensais e acompanhe os compromissos de longo prazo.</span>
           </div>
 
-          {editingId ? (
+          {editingInvestment && isSeriesRecord(editingInvestment) ? (
+            <SeriesScopeFields
+              idPrefix="investment"
+              recurrenceIndex={editingInvestment.recurrenceIndex ?? 1}
+              recurrenceTotal={editingInvestment.recurrenceTotal ?? null}
+              ruleBased={isRuleBackedRecord(editingInvestment, recurrences)}
+              value={seriesOptions}
+              onChange={setSeriesOptions}
+            />
+          ) : editingId ? (
             <p className={styles.recurrenceInfo}>
               Ajuste aportes individuais. Para uma nova recorrência, crie um lançamento dedicado.
             </p>
@@ -441,7 +530,40 @@ const InvestmentForm = () => {
                 ))}
               </div>
 
+              {selectedFrequency === 'business_day' && (
+                <div className={styles.recurrenceInline}>
+                  <label htmlFor="investment-recurrence-business-day">Dia útil do mês</label>
+                  <input
+                    id="investment-recurrence-business-day"
+                    type="number"
+                    min={1}
+                    max={MAX_BUSINESS_DAY}
+                    {...register('recurrence.businessDay', { valueAsNumber: true })}
+                  />
+                  <span className={styles.helperText}>
+                    Conta de segunda a sexta; feriados não são descontados.
+                  </span>
+                  {errors.recurrence?.businessDay && (
+                    <span className={styles.error}>{errors.recurrence.businessDay.message}</span>
+                  )}
+                </div>
+              )}
+
               {selectedFrequency !== 'none' && (
+                <div className={styles.recurrenceInline}>
+                  <input
+                    id="investment-recurrence-endless"
+                    type="checkbox"
+                    {...register('recurrence.endless')}
+                  />
+                  <label htmlFor="investment-recurrence-endless">Sem data de término</label>
+                  <span className={styles.helperText}>
+                    Os lançamentos futuros são criados à medida que você consulta cada mês.
+                  </span>
+                </div>
+              )}
+
+              {selectedFrequency !== 'none' && !isEndless && (
                 <div className={styles.recurrenceInline}>
                   <label htmlFor="investment-recurrence-occurrences">
                     Quantidade de lançamentos
@@ -450,7 +572,7 @@ const InvestmentForm = () => {
                     id="investment-recurrence-occurrences"
                     type="number"
                     min={1}
-                    max={24}
+                    max={MAX_RECURRENCE_OCCURRENCES}
                     {...register('recurrence.occurrences', { valueAsNumber: true })}
                   />
                   <span className={styles.helperText}>
@@ -499,6 +621,7 @@ const InvestmentForm = () => {
                   <th>Rendimento esp.</th>
                   <th className={styles.metaHeader}>Parcela</th>
                   <th>Data</th>
+                  <th>Anexos</th>
                   <th>Ações</th>
                 </tr>
               </thead>
@@ -513,8 +636,13 @@ const InvestmentForm = () => {
                       <span className={clsx(styles.chip, styles.chipType)}>
                         {INVESTMENT_TYPE_LABELS[investment.type]}
                       </span>
+                      {investment.movement === 'resgate' && (
+                        <span className={clsx(styles.chip, styles.chipMethod)}>Resgate</span>
+                      )}
+                    </td>
+                    <td className={styles.valueCell}>
+                      {formatCurrency(getSignedInvestmentAmount(investment))}
                     </td>
-                    <td className={styles.valueCell}>{formatCurrency(investment.amount)}</td>
                     <td className={styles.metaCell}>
                       {typeof investment.expectedReturn === 'number'
                         ? `${investment.expectedReturn.toFixed(2)}% a.a.`
@@ -527,12 +655,15 @@ const InvestmentForm = () => {
                       ) ?? '—'}
                     </td>
                     <td className={styles.dateCell}>{formatDateDisplay(investment.date)}</td>
+                    <td>
+                      <RecordAttachments collection="investments" record={investment} />
+                    </td>
                     <td className={styles.actionCell}>
                       <div className={styles.tableActions}>
                         <button type="button" onClick={() => handleEdit(investment)}>
                           Editar
                         </button>
-                        <button type="button" onClick={() => void handleDelete(investment.id)}>
+                        <button type="button" onClick={() => handleDelete(investment)}>
                           Remover
                         </button>
                       </div>
@@ -572,12 +703,17 @@ const InvestmentForm = () => {
         </div>
         <div className={styles.tableFooter}>
           <span>
-            Total aplicado: <strong>{formatCurrency(totalInvestmentsAmount)}</strong>
+            Aplicado no período: <strong>{formatCurrency(totalInvestmentsAmount)}</strong>
           </span>
         </div>
         </>
       )}
       </div>
+      <SeriesDeleteDialog
+        record={pendingDelete}
+        onConfirm={handleConfirmDelete}
+        onClose={() => setPendingDelete(null)}
+      />
     </section>
   );
 };
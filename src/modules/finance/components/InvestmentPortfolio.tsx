@@ -0,0 +1,386 @@
+import { useMemo, type ChangeEvent } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { formatCurrency } from '@shared/utils/format';
+import { generateId } from '@shared/utils/id';
+
+import { useFinance } from '../context/FinanceContext';
+import { formatDateDisplay, sortByDateAndDescription } from '../utils/period';
+import {
+  buildAllocationByType,
+  INVESTMENT_TYPE_LABELS,
+  parseValuationCsv,
+  summarizePortfolio,
+} from '../utils/portfolio';
+import { decodeStatementFile } from '../utils/statementImport';
+import styles from './FinanceForm.module.css';
+
+const positionSchema = z.object({
+  name: z.string().trim().min(1, 'Dê um nome à posição'),
+  institution: z.string().default(''),
+  type: z.enum(['renda_fixa', 'renda_variavel', 'fundo', 'poupanca', 'outro']),
+});
+
+const valuationSchema = z.object({
+  positionId: z.string().min(1, 'Escolha a posição'),
+  marketValue: z.coerce.number().min(0, 'Informe um valor positivo'),
+  date: z.string().min(1, 'Informe a data'),
+});
+
+type PositionFormValues = z.infer<typeof positionSchema>;
+type ValuationFormValues = z.infer<typeof valuationSchema>;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/** Posições da carteira com valor de mercado, retorno e alocação por tipo. */
+const InvestmentPortfolio = () => {
+  const { positions, valuations, investments, savePositions, addValuations, deleteValuation } =
+    useFinance();
+
+  const summaries = useMemo(
+    () => summarizePortfolio({ positions, investments, valuations }),
+    [investments, positions, valuations]
+  );
+  const allocation = useMemo(
+    () => buildAllocationByType({ positions, investments, valuations }),
+    [investments, positions, valuations]
+  );
+  const sortedValuations = useMemo(
+    () =>
+      sortByDateAndDescription(
+        valuations.map(valuation => ({
+          ...valuation,
+          description: positions.find(item => item.id === valuation.positionId)?.name ?? '',
+        }))
+      ),
+    [positions, valuations]
+  );
+
+  const totals = summaries.reduce(
+    (acc, summary) => ({
+      marketValue: acc.marketValue + summary.marketValue,
+      costBasis: acc.costBasis + summary.costBasis,
+      realized: acc.realized + summary.realizedReturn,
+      unrealized: acc.unrealized + summary.unrealizedReturn,
+    }),
+    { marketValue: 0, costBasis: 0, realized: 0, unrealized: 0 }
+  );
+
+  const positionForm = useForm<PositionFormValues>({
+    resolver: zodResolver(positionSchema),
+    defaultValues: { name: '', institution: '', type: 'renda_fixa' },
+  });
+  const valuationForm = useForm<ValuationFormValues>({
+    resolver: zodResolver(valuationSchema),
+    defaultValues: { positionId: '', marketValue: 0, date: today() },
+  });
+
+  const onCreatePosition = async (values: PositionFormValues) => {
+    await savePositions([
+      ...positions,
+      { ...values, institution: values.institution.trim(), id: generateId() },
+    ]);
+    positionForm.reset({ name: '', institution: '', type: values.type });
+  };
+
+  const onAddValuation = async (values: ValuationFormValues) => {
+    await addValuations([values]);
+    valuationForm.reset({ positionId: values.positionId, marketValue: 0, date: today() });
+  };
+
+  const handleRemovePosition = (id: string) => {
+    const message =
+      'Remover a posição? Os aportes vinculados continuam registrados e passam a contar ' +
+      'pelo valor aplicado.';
+    if (window.confirm(message)) {
+      void savePositions(positions.filter(position => position.id !== id));
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const result = parseValuationCsv(await decodeStatementFile(file), positions);
+      if (result.unmatched.length) {
+        toast.error(`Posições não encontradas: ${result.unmatched.join(', ')}`);
+      }
+      if (result.invalid) {
+        toast.error(`${result.invalid} linha(s) com valor negativo ou ilegível foram ignoradas.`);
+      }
+      if (!result.valuations.length) {
+        toast.error('Nenhuma avaliação encontrada no arquivo.');
+        return;
+      }
+      await addValuations(result.valuations);
+    } catch (error) {
+      console.error('Erro ao importar avaliações', error);
+      toast.error(error instanceof Error ? error.message : 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  const positionErrors = positionForm.formState.errors;
+  const valuationErrors = valuationForm.formState.errors;
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Carteira</h2>
+            <p>
+              Agrupe aportes e resgates por posição e registre o valor de mercado de tempos em
+              tempos para acompanhar o retorno.
+            </p>
+          </div>
+          <span className={styles.periodChip}>
+            Valor atual {formatCurrency(totals.marketValue)}
+          </span>
+        </div>
+
+        {summaries.length > 0 && (
+          <div className={styles.summaryStrip}>
+            <div className={styles.summaryCard}>
+              <span>Custo aplicado</span>
+              <strong>{formatCurrency(totals.costBasis)}</strong>
+            </div>
+            <div className={styles.summaryCard}>
+              <span>Retorno realizado</span>
+              <strong>{formatCurrency(totals.realized)}</strong>
+            </div>
+            <div className={styles.summaryCard}>
+              <span>Retorno não realizado</span>
+              <strong>{formatCurrency(totals.unrealized)}</strong>
+            </div>
+          </div>
+        )}
+
+        {allocation.length > 0 && (
+          <div className={styles.summaryStrip}>
+            {allocation.map(slice => (
+              <div key={slice.type} className={styles.summaryCard}>
+                <span>
+                  {slice.label} · {formatShare(slice.share)}
+                </span>
+                <strong>{formatCurrency(slice.value)}</strong>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={positionForm.handleSubmit(onCreatePosition)} className={styles.form}>
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="position-name">Nova posição</label>
+              <input
+                id="position-name"
+                placeholder="Tesouro IPCA 2035, ITSA4..."
+                {...positionForm.register('name')}
+              />
+              {positionErrors.name && (
+                <span className={styles.error}>{positionErrors.name.message}</span>
+              )}
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="position-institution">Instituição</label>
+              <input
+                id="position-institution"
+                placeholder="Banco, Corretora..."
+                {...positionForm.register('institution')}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="position-type">Tipo</label>
+              <select id="position-type" {...positionForm.register('type')}>
+                {Object.entries(INVESTMENT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className={styles.actions}>
+            <button type="submit" disabled={positionForm.formState.isSubmitting}>
+              Criar posição
+            </button>
+          </div>
+        </form>
+
+        {positions.length > 0 && (
+          <form onSubmit={valuationForm.handleSubmit(onAddValuation)} className={styles.form}>
+            <div className={styles.row}>
+              <div className={styles.field}>
+                <label htmlFor="valuation-position">Posição avaliada</label>
+                <select id="valuation-position" {...valuationForm.register('positionId')}>
+                  <option value="">Selecione</option>
+                  {positions.map(position => (
+                    <option key={position.id} value={position.id}>
+                      {position.name}
+                    </option>
+                  ))}
+                </select>
+                {valuationErrors.positionId && (
+                  <span className={styles.error}>{valuationErrors.positionId.message}</span>
+                )}
+              </div>
+
+              <div className={styles.field}>
+                <label htmlFor="valuation-value">Valor de mercado</label>
+                <input
+                  id="valuation-value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...valuationForm.register('marketValue', { valueAsNumber: true })}
+                />
+                {valuationErrors.marketValue && (
+                  <span className={styles.error}>{valuationErrors.marketValue.message}</span>
+                )}
+              </div>
+
+              <div className={styles.field}>
+                <label htmlFor="valuation-date">Data</label>
+                <input id="valuation-date" type="date" {...valuationForm.register('date')} />
+                {valuationErrors.date && (
+                  <span className={styles.error}>{valuationErrors.date.message}</span>
+                )}
+              </div>
+            </div>
+
+            <div className={styles.row}>
+              <div className={styles.field}>
+                <label htmlFor="valuation-file">Importar avaliações (CSV)</label>
+                <input
+                  id="valuation-file"
+                  type="file"
+                  accept=".csv,.txt"
+                  onChange={event => void handleImport(event)}
+                />
+                <span className={styles.helperText}>
+                  Colunas data;ativo;valor, com datas dd/mm/aaaa e o nome da posição em
+                  &ldquo;ativo&rdquo;.
+                </span>
+              </div>
+            </div>
+
+            <div className={styles.actions}>
+              <button type="submit" disabled={valuationForm.formState.isSubmitting}>
+                Registrar avaliação
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className={styles.listPanel}>
+        {summaries.length === 0 ? (
+          <div className={styles.emptyState}>
+            Nenhuma posição cadastrada. Crie uma posição e vincule os aportes a ela.
+          </div>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th className={styles.descriptionHeader}>Posição</th>
+                  <th>Tipo</th>
+                  <th className={styles.valueHeader}>Custo</th>
+                  <th className={styles.valueHeader}>Valor de mercado</th>
+                  <th className={styles.valueHeader}>Realizado</th>
+                  <th className={styles.valueHeader}>Não realizado</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map(summary => (
+                  <tr key={summary.position.id}>
+                    <td className={styles.descriptionCell}>
+                      <strong>{summary.position.name}</strong>
+                      {summary.position.institution && (
+                        <small>{summary.position.institution}</small>
+                      )}
+                    </td>
+                    <td>{INVESTMENT_TYPE_LABELS[summary.position.type]}</td>
+                    <td className={styles.valueCell}>{formatCurrency(summary.costBasis)}</td>
+                    <td className={styles.valueCell}>
+                      {formatCurrency(summary.marketValue)}
+                      <small>
+                        {summary.lastValuationDate
+                          ? `Avaliado em ${formatDateDisplay(summary.lastValuationDate)}`
+                          : 'Sem avaliação'}
+                      </small>
+                    </td>
+                    <td className={styles.valueCell}>{formatCurrency(summary.realizedReturn)}</td>
+                    <td className={styles.valueCell}>
+                      {formatCurrency(summary.unrealizedReturn)}
+                      {summary.costBasis > 0 && (
+                        <small>{formatShare(summary.unrealizedReturn / summary.costBasis)}</small>
+                      )}
+                    </td>
+                    <td className={styles.actionCell}>
+                      <div className={styles.tableActions}>
+                        <button
+                          type="button"
+                          onClick={() => handleRemovePosition(summary.position.id)}
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {sortedValuations.length > 0 && (
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th className={styles.descriptionHeader}>Avaliação</th>
+                  <th className={styles.valueHeader}>Valor de mercado</th>
+                  <th>Data</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedValuations.map(valuation => (
+                  <tr key={valuation.id}>
+                    <td className={styles.descriptionCell}>
+                      <strong>{valuation.description || 'Posição removida'}</strong>
+                    </td>
+                    <td className={styles.valueCell}>{formatCurrency(valuation.marketValue)}</td>
+                    <td className={styles.dateCell}>{formatDateDisplay(valuation.date)}</td>
+                    <td className={styles.actionCell}>
+                      <div className={styles.tableActions}>
+                        <button type="button" onClick={() => void deleteValuation(valuation.id)}>
+                          Remover
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export { InvestmentPortfolio };
@@ -1,5 +1,15 @@
 import { useMemo, useState } from 'react';
 
+import { formatCurrency } from '@shared/utils/format';
+
+import { useFinance } from '../context/FinanceContext';
+import { getPortfolioValue } from '../utils/portfolio';
+import {
+  formatTaxRegime,
+  simulateInvestment,
+  type SimulationResult,
+  type TaxRegime,
+} from '../utils/simulation';
 import styles from './InvestmentSimulator.module.css';
 
 interface ScenarioConfig {
@@ -7,82 +17,72 @@ interface ScenarioConfig {
   label: string;
   defaultRate: number;
   description: string;
+  taxRegime: TaxRegime;
 }
 
+const DEFAULT_INFLATION_RATE = 0.045;
+
 const SCENARIOS: ScenarioConfig[] = [
   {
     id: 'poupanca',
     label: 'Poupança',
     defaultRate: 0.065,
     description: 'Rentabilidade aproximada de 6,5% ao ano, baixo risco.',
+    taxRegime: { kind: 'exempt' },
+  },
+  {
+    id: 'lci_lca',
+    label: 'LCI / LCA',
+    defaultRate: 0.095,
+    description: 'Letras de crédito imobiliário e do agronegócio, sem IR para pessoa física.',
+    taxRegime: { kind: 'exempt' },
   },
   {
     id: 'renda_fixa',
     label: 'Renda fixa indexada ao CDI',
     defaultRate: 0.11,
     description: 'Títulos prefixados ou indexados ao CDI, risco moderado.',
+    taxRegime: { kind: 'regressive' },
   },
   {
     id: 'fundo_imobiliario',
     label: 'Fundos imobiliários',
     defaultRate: 0.12,
-    description: 'Exposição a FIIs, renda recorrente com volatilidade moderada.',
+    description: 'Exposição a FIIs; o ganho é tributado como na venda das cotas.',
+    taxRegime: { kind: 'flat', rate: 0.2 },
   },
   {
     id: 'etf_exterior',
     label: 'ETF internacional (S&P 500)',
     defaultRate: 0.09,
     description: 'Replica indices globais; considerar risco cambial.',
+    taxRegime: { kind: 'flat', rate: 0.15 },
   },
   {
     id: 'bitcoin',
     label: 'Bitcoin',
     defaultRate: 0.25,
     description: 'Ativo volátil com alto potencial de retorno e risco elevado.',
+    taxRegime: { kind: 'flat', rate: 0.15 },
   },
   {
     id: 'renda_variavel',
     label: 'Carteira diversificada de ações',
     defaultRate: 0.15,
     description: 'Estratégia agressiva com potencial de maior retorno e risco elevado.',
+    taxRegime: { kind: 'flat', rate: 0.15 },
   },
 ];
 
-interface SimulationResultCore {
-  futureValue: number;
-  totalInvested: number;
-  totalProfit: number;
-}
-
-const calculateFutureValueCore = (
-  initialAmount: number,
-  monthlyContribution: number,
-  years: number,
-  annualRate: number
-): SimulationResultCore => {
-  const months = years * 12;
-  const monthlyRate = annualRate / 12;
-
-  let accumulated = initialAmount * Math.pow(1 + monthlyRate, months);
-
-  if (monthlyRate > 0) {
-    accumulated += monthlyContribution * ((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate);
-  } else {
-    accumulated += monthlyContribution * months;
-  }
-
-  const totalInvested = initialAmount + monthlyContribution * months;
-  const totalProfit = accumulated - totalInvested;
-
-  return { futureValue: accumulated, totalInvested, totalProfit };
-};
-
-interface SimulationResult extends SimulationResultCore {
+interface ScenarioResult extends SimulationResult {
   scenario: ScenarioConfig;
 }
 
 const InvestmentSimulator = () => {
+  const { positions, investments, valuations } = useFinance();
   const [initialAmount, setInitialAmount] = useState(5000);
+  const [useCurrentBalance, setUseCurrentBalance] = useState(false);
+  const [inflationRate, setInflationRate] = useState(DEFAULT_INFLATION_RATE);
   const [monthlyContribution, setMonthlyContribution] = useState(500);
   const [years, setYears] = useState(5);
   const [customRates, setCustomRates] = useState<Record<string, number>>(() =>
@@ -93,16 +93,29 @@ const InvestmentSimulator = () => {
     setCustomRates(prev => ({ ...prev, [id]: value }));
   };
 
-  const results = useMemo(() => {
+  const currentBalance = useMemo(
+    () => Math.max(0, getPortfolioValue({ positions, investments, valuations })),
+    [investments, positions, valuations]
+  );
+  const startingAmount = useCurrentBalance ? currentBalance : initialAmount;
+
+  const results = useMemo<ScenarioResult[]>(() => {
     return SCENARIOS.map(config => {
       const annualRate = customRates[config.id] ?? config.defaultRate;
-      const result = calculateFutureValueCore(initialAmount, monthlyContribution, years, annualRate);
+      const result = simulateInvestment({
+        initialAmount: startingAmount,
+        monthlyContribution,
+        years,
+        annualRate,
+        inflationRate,
+        taxRegime: config.taxRegime,
+      });
       return {
         ...result,
         scenario: { ...config, defaultRate: annualRate },
       };
-    }).sort((a, b) => b.futureValue - a.futureValue);
-  }, [initialAmount, monthlyContribution, years, customRates]);
+    }).sort((a, b) => b.netValue - a.netValue);
+  }, [startingAmount, monthlyContribution, years, inflationRate, customRates]);
 
   const bestScenario = results[0];
 
@@ -122,9 +135,18 @@ const InvestmentSimulator = () => {
             type="number"
             min="0"
             step="100"
-            value={initialAmount}
+            value={useCurrentBalance ? currentBalance.toFixed(2) : initialAmount}
+            disabled={useCurrentBalance}
             onChange={event => setInitialAmount(Number(event.target.value))}
           />
+          <label className={styles.checkboxField}>
+            <input
+              type="checkbox"
+              checked={useCurrentBalance}
+              onChange={event => setUseCurrentBalance(event.target.checked)}
+            />
+            Usar saldo atual dos investimentos
+          </label>
         </div>
 
         <div className={styles.field}>
@@ -150,6 +172,18 @@ const InvestmentSimulator = () => {
             onChange={event => setYears(Number(event.target.value))}
           />
         </div>
+
+        <div className={styles.field}>
+          <label htmlFor="sim-inflation">Inflação esperada (IPCA % a.a.)</label>
+          <input
+            id="sim-inflation"
+            type="number"
+            min="0"
+            step="0.1"
+            value={(inflationRate * 100).toFixed(2)}
+            onChange={event => setInflationRate(Number(event.target.value) / 100)}
+          />
+        </div>
       </div>
 
       <div className={styles.tableScroll}>
@@ -159,8 +193,10 @@ const InvestmentSimulator = () => {
               <th>Cenário</th>
               <th>Rentabilidade a.a.</th>
               <th>Total investido</th>
-              <th>Valor projetado</th>
-              <th>Lucro estimado</th>
+              <th>Valor bruto</th>
+              <th>Impostos</th>
+              <th>Valor líquido</th>
+              <th>Valor real</th>
             </tr>
           </thead>
           <tbody>
@@ -187,15 +223,22 @@ const InvestmentSimulator = () => {
                       <span>%</span>
                     </div>
                   </td>
+                  <td>{formatCurrency(result.totalInvested)}</td>
+                  <td>
+                    {formatCurrency(result.grossValue)}
+                    <small>Lucro {formatCurrency(result.grossProfit)}</small>
+                  </td>
                   <td>
-                    R${' '}
-                    {result.totalInvested.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                    {formatCurrency(result.incomeTax + result.iof)}
+                    <small>{formatTaxRegime(result.scenario.taxRegime)}</small>
                   </td>
                   <td>
-                    R$ {result.futureValue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                    {formatCurrency(result.netValue)}
+                    <small>Lucro {formatCurrency(result.netProfit)}</small>
                   </td>
                   <td>
-                    R$ {result.totalProfit.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                    {formatCurrency(result.realValue)}
+                    <small>A preços de hoje</small>
                   </td>
                 </tr>
               );
@@ -206,8 +249,9 @@ const InvestmentSimulator = () => {
 
       {bestScenario && (
         <footer className={styles.footer}>
-          <strong>Melhor retorno estimado:</strong> {bestScenario.scenario.label} com saldo projetado de{' '}
-          R$ {bestScenario.futureValue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}.
+          <strong>Melhor retorno líquido estimado:</strong> {bestScenario.scenario.label} com saldo
+          de {formatCurrency(bestScenario.netValue)} após impostos, ou{' '}
+          {formatCurrency(bestScenario.realValue)} descontada a inflação.
           <div className={styles.tips}>
             <p>
               Dica: consulte taxas atualizadas em fontes como Banco Central (Selic/CDI), plataformas de
@@ -215,6 +259,10 @@ const InvestmentSimulator = () => {
               CoinMarketCap para cripto). Utilize o campo de rentabilidade para refletir o cenário mais
               realista.
             </p>
+            <p>
+              Os impostos seguem as regras para pessoa física e não consideram isenções por
+              volume de vendas nem a compensação de prejuízos.
+            </p>
           </div>
         </footer>
       )}
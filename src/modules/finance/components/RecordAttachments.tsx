@@ -0,0 +1,142 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+
+import { Modal } from '@shared/components/Modal/Modal';
+
+import { useFinance } from '../context/FinanceContext';
+import type { CategoryGroup, FinanceAttachment } from '../types/finance';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  formatFileSize,
+  isImageAttachment,
+} from '../utils/attachments';
+import { formatDateDisplay } from '../utils/period';
+import styles from './FinanceForm.module.css';
+
+interface RecordAttachmentsProps {
+  collection: CategoryGroup;
+  record: { id: string; description: string; attachments?: FinanceAttachment[] };
+}
+
+/**
+ * Célula da tabela de lançamentos com a miniatura do primeiro comprovante. Ao clicar, abre o
+ * visualizador, onde dá para enviar novos arquivos ou remover os existentes.
+ */
+const RecordAttachments = ({ collection, record }: RecordAttachmentsProps) => {
+  const { uploadAttachment, removeAttachment } = useFinance();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const attachments = record.attachments ?? [];
+  const [first] = attachments;
+  const selected = attachments.find(item => item.id === selectedId) ?? first;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    setIsUploading(true);
+    await uploadAttachment(collection, record.id, file);
+    setIsUploading(false);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className={styles.attachmentThumb}
+        title={attachments.length ? 'Ver anexos' : 'Anexar comprovante'}
+        onClick={() => setIsOpen(true)}
+      >
+        {!first ? (
+          <span>+ Anexar</span>
+        ) : isImageAttachment(first) ? (
+          <img src={first.url} alt={first.name} loading="lazy" />
+        ) : (
+          <span>PDF</span>
+        )}
+        {attachments.length > 1 && (
+          <span className={styles.attachmentCount}>{attachments.length}</span>
+        )}
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title={`Anexos de "${record.description}"`}
+        footer={
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => setIsOpen(false)}
+            >
+              Fechar
+            </button>
+            <button
+              type="button"
+              disabled={isUploading || attachments.length >= MAX_ATTACHMENTS}
+              onClick={() => inputRef.current?.click()}
+            >
+              {isUploading ? 'Enviando...' : 'Adicionar arquivo'}
+            </button>
+          </div>
+        }
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          hidden
+          onChange={event => void handleFileChange(event)}
+        />
+        {!selected ? (
+          <div className={styles.emptyState}>
+            Nenhum comprovante anexado. Envie imagens JPG, PNG ou WEBP ou PDFs de até 4MB.
+          </div>
+        ) : (
+          <div className={styles.attachmentViewer}>
+            {isImageAttachment(selected) ? (
+              <img src={selected.url} alt={selected.name} />
+            ) : (
+              <iframe src={selected.url} title={selected.name} />
+            )}
+            <ul className={styles.attachmentList}>
+              {attachments.map(attachment => (
+                <li
+                  key={attachment.id}
+                  className={attachment.id === selected.id ? styles.attachmentActive : undefined}
+                >
+                  <button type="button" onClick={() => setSelectedId(attachment.id)}>
+                    <strong>{attachment.name}</strong>
+                    <small>
+                      {formatFileSize(attachment.size)} ·{' '}
+                      {formatDateDisplay(attachment.uploadedAt.slice(0, 10))}
+                    </small>
+                  </button>
+                  <div className={styles.tableActions}>
+                    <a href={attachment.url} target="_blank" rel="noreferrer">
+                      Abrir
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => void removeAttachment(collection, record.id, attachment.id)}
+                    >
+                      Remover
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export { RecordAttachments };
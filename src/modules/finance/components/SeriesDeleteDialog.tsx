@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+
+import { Modal } from '@shared/components/Modal/Modal';
+
+import type { SeriesScope } from '../types/finance';
+import { SERIES_SCOPE_OPTIONS } from '../utils/recurrence';
+import styles from './FinanceForm.module.css';
+
+interface SeriesDeleteDialogProps {
+  record: {
+    description: string;
+    recurrenceIndex?: number | null;
+    recurrenceTotal?: number | null;
+  } | null;
+  onConfirm: (scope: SeriesScope) => void;
+  onClose: () => void;
+}
+
+const SeriesDeleteDialog = ({ record, onConfirm, onClose }: SeriesDeleteDialogProps) => {
+  const [scope, setScope] = useState<SeriesScope>('single');
+
+  const handleClose = () => {
+    setScope('single');
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    onConfirm(scope);
+    setScope('single');
+  };
+
+  return (
+    <Modal
+      isOpen={Boolean(record)}
+      onClose={handleClose}
+      title="Remover lançamento recorrente"
+      footer={
+        <div className={styles.actions}>
+          <button type="button" className={styles.secondaryButton} onClick={handleClose}>
+            Cancelar
+          </button>
+          <button type="button" onClick={handleConfirm}>
+            Remover
+          </button>
+        </div>
+      }
+    >
+      {record && (
+        <div className={styles.form}>
+          <p className={styles.recurrenceInfo}>
+            <strong>{record.description}</strong> é o lançamento {record.recurrenceIndex} de{' '}
+            {record.recurrenceTotal} da série. O que deseja remover?
+          </p>
+          <div className={styles.recurrenceOptions}>
+            {SERIES_SCOPE_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={clsx(
+                  styles.recurrenceOption,
+                  scope === option.value && styles.recurrenceOptionActive
+                )}
+              >
+                <input
+                  type="radio"
+                  name="series-delete-scope"
+                  value={option.value}
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                />
+                <span>{option.label}</span>
+                <small>{option.description}</small>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export { SeriesDeleteDialog };
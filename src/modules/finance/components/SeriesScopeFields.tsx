@@ -0,0 +1,88 @@
+import clsx from 'clsx';
+
+import type { SeriesEditOptions } from '../types/finance';
+import {
+  MAX_RECURRENCE_OCCURRENCES,
+  MAX_SERIES_LENGTH,
+  SERIES_SCOPE_OPTIONS,
+} from '../utils/recurrence';
+import styles from './FinanceForm.module.css';
+
+interface SeriesScopeFieldsProps {
+  idPrefix: string;
+  recurrenceIndex: number;
+  /** `null` quando a série não tem data de término. */
+  recurrenceTotal: number | null;
+  /** Séries criadas por uma regra seguem o calendário dela e aceitam mais lançamentos. */
+  ruleBased?: boolean;
+  value: SeriesEditOptions;
+  onChange: (value: SeriesEditOptions) => void;
+}
+
+/** Escolha de quais lançamentos da série recebem a edição e do novo tamanho da série. */
+const SeriesScopeFields = ({
+  idPrefix,
+  recurrenceIndex,
+  recurrenceTotal,
+  ruleBased = false,
+  value,
+  onChange,
+}: SeriesScopeFieldsProps) => (
+  <>
+    <p className={styles.recurrenceInfo}>
+      {recurrenceTotal === null
+        ? `Este é o lançamento ${recurrenceIndex} de uma série sem data de término.`
+        : `Este é o lançamento ${recurrenceIndex} de ${recurrenceTotal} da série.`}{' '}
+      Escolha onde aplicar as alterações.
+      {ruleBased && ' As datas seguem a regra da recorrência e só mudam no lançamento isolado.'}
+    </p>
+    <div className={styles.recurrenceOptions}>
+      {SERIES_SCOPE_OPTIONS.map(option => (
+        <label
+          key={option.value}
+          className={clsx(
+            styles.recurrenceOption,
+            value.scope === option.value && styles.recurrenceOptionActive
+          )}
+        >
+          <input
+            type="radio"
+            name={`${idPrefix}-series-scope`}
+            value={option.value}
+            checked={value.scope === option.value}
+            onChange={() => onChange({ ...value, scope: option.value })}
+          />
+          <span>{option.label}</span>
+          <small>{option.description}</small>
+        </label>
+      ))}
+    </div>
+
+    {value.scope !== 'single' && (
+      <div className={styles.recurrenceInline}>
+        <label htmlFor={`${idPrefix}-series-total`}>Total de lançamentos da série</label>
+        <input
+          id={`${idPrefix}-series-total`}
+          type="number"
+          min={recurrenceIndex}
+          max={ruleBased ? MAX_RECURRENCE_OCCURRENCES : MAX_SERIES_LENGTH}
+          placeholder={recurrenceTotal === null ? 'Sem término' : undefined}
+          value={value.total ?? recurrenceTotal ?? ''}
+          onChange={event =>
+            onChange({
+              ...value,
+              total: event.target.value === '' ? undefined : Number(event.target.value),
+            })
+          }
+        />
+        <span className={styles.helperText}>
+          Aumente para estender a série ou reduza para encerrá-la antes. Lançamentos além do novo
+          total são removidos.
+          {recurrenceTotal === null && ' Deixe em branco para manter a série sem término.'}
+        </span>
+      </div>
+    )}
+  </>
+);
+
+export { SeriesScopeFields };
@@ -0,0 +1,568 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+
+import { formatCurrency } from '@shared/utils/format';
+
+import { useFinance } from '../context/FinanceContext';
+import type { Expense } from '../types/finance';
+import { buildCategoryOptions, getCategoryNames } from '../utils/categories';
+import { createCategorySuggester, describeCategorySuggestion } from '../utils/categorization';
+import { formatDateDisplay } from '../utils/period';
+import {
+  CSV_PRESETS,
+  decodeStatementFile,
+  findDuplicateEntries,
+  isOfxContent,
+  parseCsv,
+  parseOfx,
+  type CsvColumnRef,
+  type CsvImportConfig,
+  type CsvPresetId,
+  type StatementEntry,
+} from '../utils/statementImport';
+import styles from './FinanceForm.module.css';
+
+type StatementFormat = 'ofx' | CsvPresetId | 'custom';
+
+interface CustomCsvValues {
+  delimiter: CsvImportConfig['delimiter'];
+  dateFormat: CsvImportConfig['dateFormat'];
+  decimalSeparator: CsvImportConfig['decimalSeparator'];
+  date: string;
+  description: string;
+  amount: string;
+  invertSign: boolean;
+}
+
+interface ParsedStatement {
+  entries: StatementEntry[];
+  error: string | null;
+}
+
+const PAYMENT_METHOD_OPTIONS: Array<{ value: Expense['paymentMethod']; label: string }> = [
+  { value: 'debito', label: 'Cartão de débito' },
+  { value: 'credito', label: 'Cartão de crédito' },
+  { value: 'pix', label: 'PIX' },
+  { value: 'boleto', label: 'Boleto' },
+  { value: 'dinheiro', label: 'Dinheiro' },
+  { value: 'outro', label: 'Outro' },
+];
+
+const INITIAL_CUSTOM_VALUES: CustomCsvValues = {
+  delimiter: ';',
+  dateFormat: 'dd/mm/yyyy',
+  decimalSeparator: ',',
+  date: 'Data',
+  description: 'Descrição',
+  amount: 'Valor',
+  invertSign: false,
+};
+
+const toColumnRef = (value: string): CsvColumnRef => {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+};
+
+const buildCustomConfig = (values: CustomCsvValues): CsvImportConfig => ({
+  delimiter: values.delimiter,
+  dateFormat: values.dateFormat,
+  decimalSeparator: values.decimalSeparator,
+  columns: {
+    date: toColumnRef(values.date),
+    description: values.description
+      .split('+')
+      .map(toColumnRef)
+      .filter(ref => ref !== ''),
+    amount: toColumnRef(values.amount),
+  },
+  invertSign: values.invertSign,
+});
+
+const StatementImport = () => {
+  const { expenses, incomes, categories, categoryRules, addExpense, addIncome } = useFinance();
+  const [format, setFormat] = useState<StatementFormat>('ofx');
+  const [customValues, setCustomValues] = useState<CustomCsvValues>(INITIAL_CUSTOM_VALUES);
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<Expense['paymentMethod']>('debito');
+  const [expenseCategory, setExpenseCategory] = useState('');
+  const [incomeCategory, setIncomeCategory] = useState('');
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  const parsed = useMemo<ParsedStatement>(() => {
+    if (!content) {
+      return { entries: [], error: null };
+    }
+    try {
+      if (format === 'ofx') {
+        return { entries: parseOfx(content), error: null };
+      }
+      const preset = CSV_PRESETS.find(item => item.id === format);
+      const config = preset ? preset.config : buildCustomConfig(customValues);
+      return { entries: parseCsv(content, config), error: null };
+    } catch (error) {
+      return {
+        entries: [],
+        error: error instanceof Error ? error.message : 'Não foi possível ler o arquivo.',
+      };
+    }
+  }, [content, customValues, format]);
+
+  const duplicates = useMemo(
+    () => findDuplicateEntries(parsed.entries, expenses, incomes),
+    [expenses, incomes, parsed.entries]
+  );
+
+  useEffect(() => {
+    setSelected(
+      new Set(parsed.entries.filter(entry => !duplicates.has(entry.id)).map(entry => entry.id))
+    );
+  }, [duplicates, parsed.entries]);
+
+  const totals = useMemo(
+    () =>
+      parsed.entries.reduce(
+        (acc, entry) => {
+          if (!selected.has(entry.id)) {
+            return acc;
+          }
+          return entry.kind === 'debit'
+            ? { ...acc, debits: acc.debits + entry.amount }
+            : { ...acc, credits: acc.credits + entry.amount };
+        },
+        { debits: 0, credits: 0 }
+      ),
+    [parsed.entries, selected]
+  );
+
+  const suggestions = useMemo(() => {
+    const suggestExpense = createCategorySuggester(
+      'expenses',
+      categoryRules,
+      expenses,
+      getCategoryNames(categories.expenses)
+    );
+    const suggestIncome = createCategorySuggester(
+      'incomes',
+      categoryRules,
+      incomes,
+      getCategoryNames(categories.incomes)
+    );
+    return new Map(
+      parsed.entries.map(entry => [
+        entry.id,
+        entry.kind === 'debit'
+          ? suggestExpense({ description: entry.description })
+          : suggestIncome({ description: entry.description, source: entry.description }),
+      ])
+    );
+  }, [categories, categoryRules, expenses, incomes, parsed.entries]);
+
+  const resolveCategory = (entry: StatementEntry) =>
+    categoryOverrides[entry.id] ??
+    suggestions.get(entry.id)?.category ??
+    (entry.kind === 'debit' ? expenseCategory : incomeCategory);
+
+  const handleFormatChange = (nextFormat: StatementFormat) => {
+    setFormat(nextFormat);
+    const preset = CSV_PRESETS.find(item => item.id === nextFormat);
+    if (preset) {
+      setPaymentMethod(preset.paymentMethod);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const text = await decodeStatementFile(file);
+      if (isOfxContent(text)) {
+        setFormat('ofx');
+      } else if (format === 'ofx') {
+        handleFormatChange('nubank');
+      }
+      setCategoryOverrides({});
+      setFileName(file.name);
+      setContent(text);
+    } catch (error) {
+      console.error('Erro ao ler extrato', error);
+      toast.error('Não foi possível ler o arquivo selecionado.');
+    }
+  };
+
+  const toggleEntry = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(parsed.entries.map(entry => entry.id)) : new Set());
+  };
+
+  const handleClear = () => {
+    setContent('');
+    setFileName('');
+    setCategoryOverrides({});
+  };
+
+  const handleImport = async () => {
+    const chosen = parsed.entries.filter(entry => selected.has(entry.id));
+    const missingCategory = chosen.find(entry => !resolveCategory(entry));
+    if (missingCategory) {
+      toast.error(`Selecione a categoria de "${missingCategory.description}"`);
+      return;
+    }
+
+    setImporting(true);
+    try {
+      for (const entry of chosen) {
+        const base = {
+          description: entry.description,
+          amount: entry.amount,
+          category: resolveCategory(entry),
+          date: entry.date,
+          excludeFromTotals: false,
+        };
+        if (entry.kind === 'debit') {
+          await addExpense({ ...base, paymentMethod }, { silent: true });
+        } else {
+          await addIncome({ ...base, source: entry.description }, { silent: true });
+        }
+      }
+      toast.success(`${chosen.length} lançamento(s) importado(s) do extrato`);
+      handleClear();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const allChecked = parsed.entries.length > 0 && selected.size === parsed.entries.length;
+
+  return (
+    <section className={styles.wrapper}>
+      <div className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <div>
+            <h2>Importar extrato bancário</h2>
+            <p>
+              Envie um arquivo OFX ou CSV do seu banco. Débitos viram gastos e créditos viram
+              receitas; revise a prévia antes de confirmar.
+            </p>
+          </div>
+          {fileName && <span className={styles.periodChip}>{fileName}</span>}
+        </div>
+
+        <div className={styles.form}>
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="statement-format">Formato</label>
+              <select
+                id="statement-format"
+                value={format}
+                onChange={event => handleFormatChange(event.target.value as StatementFormat)}
+              >
+                <option value="ofx">OFX</option>
+                {CSV_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>
+                    CSV · {preset.label}
+                  </option>
+                ))}
+                <option value="custom">CSV · Personalizado</option>
+              </select>
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="statement-file">Arquivo</label>
+              <input
+                id="statement-file"
+                type="file"
+                accept=".ofx,.csv,.txt"
+                onChange={event => void handleFileChange(event)}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="statement-payment">Forma de pagamento dos gastos</label>
+              <select
+                id="statement-payment"
+                value={paymentMethod}
+                onChange={event => setPaymentMethod(event.target.value as Expense['paymentMethod'])}
+              >
+                {PAYMENT_METHOD_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {format === 'custom' && (
+            <div className={styles.row}>
+              <div className={styles.field}>
+                <label htmlFor="statement-delimiter">Separador</label>
+                <select
+                  id="statement-delimiter"
+                  value={customValues.delimiter}
+                  onChange={event =>
+                    setCustomValues(prev => ({
+                      ...prev,
+                      delimiter: event.target.value as CustomCsvValues['delimiter'],
+                    }))
+                  }
+                >
+                  <option value=";">Ponto e vírgula (;)</option>
+                  <option value=",">Vírgula (,)</option>
+                </select>
+              </div>
+              <div className={styles.field}>
+                <label htmlFor="statement-date-format">Formato da data</label>
+                <select
+                  id="statement-date-format"
+                  value={customValues.dateFormat}
+                  onChange={event =>
+                    setCustomValues(prev => ({
+                      ...prev,
+                      dateFormat: event.target.value as CustomCsvValues['dateFormat'],
+                    }))
+                  }
+                >
+                  <option value="dd/mm/yyyy">DD/MM/AAAA</option>
+                  <option value="yyyy-mm-dd">AAAA-MM-DD</option>
+                </select>
+              </div>
+              <div className={styles.field}>
+                <label htmlFor="statement-decimal">Separador decimal</label>
+                <select
+                  id="statement-decimal"
+                  value={customValues.decimalSeparator}
+                  onChange={event =>
+                    setCustomValues(prev => ({
+                      ...prev,
+                      decimalSeparator: event.target.value as CustomCsvValues['decimalSeparator'],
+                    }))
+                  }
+                >
+                  <option value=",">Vírgula (1.234,56)</option>
+                  <option value=".">Ponto (1,234.56)</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {format === 'custom' && (
+            <div className={styles.row}>
+              {(['date', 'description', 'amount'] as const).map(column => (
+                <div key={column} className={styles.field}>
+                  <label htmlFor={`statement-column-${column}`}>
+                    {column === 'date'
+                      ? 'Coluna da data'
+                      : column === 'description'
+                        ? 'Coluna da descrição'
+                        : 'Coluna do valor'}
+                  </label>
+                  <input
+                    id={`statement-column-${column}`}
+                    value={customValues[column]}
+                    onChange={event =>
+                      setCustomValues(prev => ({ ...prev, [column]: event.target.value }))
+                    }
+                  />
+                </div>
+              ))}
+              <span className={styles.helperText}>
+                Use o nome do cabeçalho ou a posição da coluna (1, 2, 3...). Combine descrições com
+                "+", por exemplo: Histórico+Descrição.
+              </span>
+            </div>
+          )}
+
+          {format === 'custom' && (
+            <label className={styles.checkboxField}>
+              <input
+                type="checkbox"
+                checked={customValues.invertSign}
+                onChange={event =>
+                  setCustomValues(prev => ({ ...prev, invertSign: event.target.checked }))
+                }
+              />
+              <div>
+                <strong>Valores positivos são gastos</strong>
+                <p className={styles.checkboxDescription}>
+                  Marque para faturas de cartão, que listam compras sem sinal negativo.
+                </p>
+              </div>
+            </label>
+          )}
+
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="statement-expense-category">Categoria padrão dos gastos</label>
+              <select
+                id="statement-expense-category"
+                value={expenseCategory}
+                onChange={event => setExpenseCategory(event.target.value)}
+              >
+                <option value="">Selecione</option>
+                {buildCategoryOptions(categories.expenses).map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className={styles.field}>
+              <label htmlFor="statement-income-category">Categoria padrão das receitas</label>
+              <select
+                id="statement-income-category"
+                value={incomeCategory}
+                onChange={event => setIncomeCategory(event.target.value)}
+              >
+                <option value="">Selecione</option>
+                {buildCategoryOptions(categories.incomes).map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <span className={styles.helperText}>
+              Usadas quando nenhuma regra de categorização ou lançamento anterior indica a
+              categoria.
+            </span>
+          </div>
+        </div>
+
+        {parsed.error && <span className={styles.error}>{parsed.error}</span>}
+      </div>
+
+      {content && !parsed.error && (
+        <div className={styles.listPanel}>
+          {parsed.entries.length === 0 ? (
+            <div className={styles.emptyState}>
+              Nenhum lançamento encontrado no arquivo. Confira o formato selecionado.
+            </div>
+          ) : (
+            <>
+              <div className={styles.tableWrapper}>
+                <table className={styles.dataTable}>
+                  <thead>
+                    <tr>
+                      <th>
+                        <input
+                          type="checkbox"
+                          aria-label="Selecionar todos"
+                          checked={allChecked}
+                          onChange={event => toggleAll(event.target.checked)}
+                        />
+                      </th>
+                      <th className={styles.descriptionHeader}>Descrição</th>
+                      <th className={styles.valueHeader}>Valor</th>
+                      <th>Tipo</th>
+                      <th>Categoria</th>
+                      <th>Data</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.entries.map(entry => {
+                      const options =
+                        buildCategoryOptions(
+                          entry.kind === 'debit' ? categories.expenses : categories.incomes
+                        );
+                      const suggestion = suggestions.get(entry.id);
+                      return (
+                        <tr key={entry.id}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              aria-label={`Importar ${entry.description}`}
+                              checked={selected.has(entry.id)}
+                              onChange={() => toggleEntry(entry.id)}
+                            />
+                          </td>
+                          <td className={styles.descriptionCell}>
+                            <strong>{entry.description}</strong>
+                            {duplicates.has(entry.id) && (
+                              <span className={styles.excludedBadge}>Já cadastrado</span>
+                            )}
+                          </td>
+                          <td className={styles.valueCell}>{formatCurrency(entry.amount)}</td>
+                          <td>
+                            <span className={clsx(styles.chip, styles.chipMethod)}>
+                              {entry.kind === 'debit' ? 'Gasto' : 'Receita'}
+                            </span>
+                          </td>
+                          <td>
+                            <select
+                              aria-label={`Categoria de ${entry.description}`}
+                              title={
+                                suggestion && !categoryOverrides[entry.id]
+                                  ? describeCategorySuggestion(suggestion)
+                                  : undefined
+                              }
+                              value={resolveCategory(entry)}
+                              onChange={event =>
+                                setCategoryOverrides(prev => ({
+                                  ...prev,
+                                  [entry.id]: event.target.value,
+                                }))
+                              }
+                            >
+                              <option value="">Selecione</option>
+                              {options.map(option => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className={styles.dateCell}>{formatDateDisplay(entry.date)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className={styles.tableFooter}>
+                <span>
+                  Gastos selecionados: <strong>{formatCurrency(totals.debits)}</strong>
+                </span>
+                <span>
+                  Receitas selecionadas: <strong>{formatCurrency(totals.credits)}</strong>
+                </span>
+              </div>
+            </>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              onClick={() => void handleImport()}
+              disabled={importing || selected.size === 0}
+            >
+              {importing ? 'Importando...' : `Importar ${selected.size} lançamento(s)`}
+            </button>
+            <button type="button" className={styles.secondaryButton} onClick={handleClear}>
+              Descartar arquivo
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export { StatementImport };
@@ -11,41 +11,162 @@ import {
 import toast from 'react-hot-toast';
 
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
+import { useSyncScope } from '@core/providers/SyncProvider';
+import { fileToBase64 } from '@shared/utils/file';
 import { generateId } from '@shared/utils/id';
-import type { ApiError } from '@shared/services/apiClient';
+import {
+  buildRemoteCacheKey,
+  isLocalModeError,
+  readStoredValue,
+  writeStoredValue,
+} from '@shared/services/syncQueue';
 
 import type {
+  BudgetAlertSetting,
   CategoriesState,
   CategoryGroup,
+  CategoryRule,
+  CreditCard,
   Expense,
+  FinanceAccount,
+  FinanceActionOptions,
+  FinanceAttachment,
+  FinanceCategory,
   FinanceContextValue,
+  FinanceNotification,
   FinanceState,
   Income,
   Investment,
+  PortfolioPosition,
+  RecurrenceRule,
+  SeriesEditOptions,
+  SeriesScope,
+  TaxSettings,
+  Transfer,
+  Valuation,
 } from '../types/finance';
 import {
-  addCategoryRemote,
-  createRecord,
-  deleteRecord,
+  EMPTY_TAX_SETTINGS,
+  FINANCE_GUEST_STORAGE_KEY,
+  FINANCE_SYNC_SCOPE,
+  deleteAttachmentRemote,
+  getAccounts,
+  getBudgetAlerts,
   getCategories,
+  getCategoryRules,
+  getCreditCards,
+  getNotifications,
+  getPlanners,
+  getPositions,
+  getRecurrences,
+  getRestoreStatus,
+  getTaxSettings,
   listRecords,
-  removeCategoryRemote,
-  updateRecord,
+  restoreBackupRemote,
+  uploadAttachmentRemote,
+  type CategoryMigrationResponse,
+  type CreatedRecordsResponse,
+  type FinanceCollection,
+  type FinanceRecordInput,
+  type MaterializedRecurrencesResponse,
+  type RecurrenceCreatedResponse,
 } from '../services/financeService';
-
-const LOCAL_STORAGE_KEY = 'guest_finance_state';
-const buildRemoteCacheKey = (uid: string) => `finance_remote_cache_${uid}`;
+import {
+  readStoredPlanner,
+  readStoredPlanners,
+  renameStoredPlannerCategory,
+  replaceStoredPlanners,
+} from '../hooks/usePlannerGoals';
+import { ALL_ACCOUNTS, computeAccountBalances, filterByAccount } from '../utils/accounts';
+import { validateAttachmentFile } from '../utils/attachments';
+import { buildFinanceBackup } from '../utils/backup';
+import { findBudgetAlerts, mergeNotifications } from '../utils/budgetAlerts';
+import { buildInstallmentSeries } from '../utils/creditCard';
+import {
+  buildDefaultCategories,
+  isSameCategoryName,
+  mergeCategoryList,
+  normalizeCategoryList,
+  renameCategoryReferences,
+} from '../utils/categories';
+import { formatDateDisplay, formatPeriodLabel } from '../utils/period';
+import { INVESTMENT_TYPE_LABELS, toSignedInvestments } from '../utils/portfolio';
+import {
+  applySeriesDelete,
+  applySeriesUpdate,
+  buildRecurrenceRule,
+  getPeriodEnd,
+  getRecurrenceOccurrence,
+  hasPendingOccurrences,
+  isSeriesRecord,
+  materializeRecurrenceRule,
+  materializeRecurrences,
+  MAX_RECURRENCE_OCCURRENCES,
+  MAX_SERIES_LENGTH,
+  type RecurrenceConfig,
+  type SeriesChange,
+} from '../utils/recurrence';
+
+type FinanceRecord = Expense | Income | Investment;
+
+const REMOTE_CACHE_PREFIX = 'finance_remote_cache';
+
+const RECORD_MESSAGES: Record<
+  FinanceCollection,
+  {
+    label: string;
+    created: string;
+    updated: string;
+    removed: string;
+    createError: string;
+    updateError: string;
+    removeError: string;
+  }
+> = {
+  expenses: {
+    label: 'gasto',
+    created: 'Gasto registrado com sucesso',
+    updated: 'Gasto atualizado',
+    removed: 'Gasto removido',
+    createError: 'Erro ao registrar gasto',
+    updateError: 'Erro ao atualizar gasto',
+    removeError: 'Erro ao remover gasto',
+  },
+  incomes: {
+    label: 'receita',
+    created: 'Receita registrada com sucesso',
+    updated: 'Receita atualizada',
+    removed: 'Receita removida',
+    createError: 'Erro ao registrar receita',
+    updateError: 'Erro ao atualizar receita',
+    removeError: 'Erro ao remover receita',
+  },
+  investments: {
+    label: 'investimento',
+    created: 'Investimento registrado com sucesso',
+    updated: 'Investimento atualizado',
+    removed: 'Investimento removido',
+    createError: 'Erro ao registrar investimento',
+    updateError: 'Erro ao atualizar investimento',
+    removeError: 'Erro ao remover investimento',
+  },
+};
 
 const initialState: FinanceState = {
   expenses: [],
   incomes: [],
   investments: [],
-  categories: {
-    expenses: ['Moradia', 'Alimentação', 'Transporte', 'Educação'],
-    incomes: ['Salário', 'Freelance', 'Investimentos', 'Outros'],
-    investments: ['Renda fixa', 'Renda variável', 'Poupança', 'Fundo'],
-  },
+  categories: buildDefaultCategories(),
+  categoryRules: [],
+  creditCards: [],
+  recurrences: [],
+  accounts: [],
+  transfers: [],
+  positions: [],
+  valuations: [],
+  taxSettings: EMPTY_TAX_SETTINGS,
+  budgetAlerts: [],
+  notifications: [],
 };
 
 const FinanceContext = createContext<FinanceContextValue | undefined>(undefined);
@@ -55,34 +176,35 @@ const mapExcludeFlag = <T extends { excludeFromTotals?: boolean }>(record: T) =>
   excludeFromTotals: Boolean(record.excludeFromTotals),
 });
 
+const mapCategoryList = (raw: FinanceCategory[] | undefined, group: CategoryGroup) => {
+  const list = normalizeCategoryList(raw);
+  return list.length ? list : initialState.categories[group];
+};
+
+// Dados guardados antes das subcategorias trazem só os nomes de cada grupo.
+const mapCategories = (raw: Partial<CategoriesState> | null | undefined): CategoriesState => ({
+  expenses: mapCategoryList(raw?.expenses, 'expenses'),
+  incomes: mapCategoryList(raw?.incomes, 'incomes'),
+  investments: mapCategoryList(raw?.investments, 'investments'),
+});
+
 const mapGuestState = (raw: Partial<FinanceState> | null | undefined): FinanceState => ({
   expenses: (raw?.expenses ?? []).map(mapExcludeFlag),
   incomes: (raw?.incomes ?? []).map(mapExcludeFlag),
   investments: (raw?.investments ?? []).map(mapExcludeFlag),
-  categories: {
-    expenses: raw?.categories?.expenses ?? initialState.categories.expenses,
-    incomes: raw?.categories?.incomes ?? initialState.categories.incomes,
-    investments: raw?.categories?.investments ?? initialState.categories.investments,
-  },
+  categories: mapCategories(raw?.categories),
+  categoryRules: raw?.categoryRules ?? [],
+  creditCards: raw?.creditCards ?? [],
+  recurrences: raw?.recurrences ?? [],
+  accounts: raw?.accounts ?? [],
+  transfers: raw?.transfers ?? [],
+  positions: raw?.positions ?? [],
+  valuations: raw?.valuations ?? [],
+  taxSettings: raw?.taxSettings ?? EMPTY_TAX_SETTINGS,
+  budgetAlerts: raw?.budgetAlerts ?? [],
+  notifications: raw?.notifications ?? [],
 });
 
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
-
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
-  const status = getErrorStatus(error);
-  return status === 401 || status === 403;
-};
-
 const sortByDateDesc = <T extends { date?: string }>(a: T, b: T) =>
   (b.date ?? '').localeCompare(a.date ?? '');
 
@@ -98,100 +220,82 @@ const mergeRecords = <T extends { id: string; date?: string }>(current: T[], upd
 const removeRecord = <T extends { id: string }>(current: T[], id: string) =>
   current.filter(item => item.id !== id);
 
+const upsertRules = (current: RecurrenceRule[], updates: RecurrenceRule[]) => {
+  const map = new Map(current.map(rule => [rule.id, rule]));
+  updates.forEach(rule => map.set(rule.id, rule));
+  return Array.from(map.values());
+};
+
+const notifyBudgetAlerts = (alerts: FinanceNotification[]) =>
+  alerts.forEach(alert =>
+    alert.threshold >= 100
+      ? toast.error(alert.title, { id: alert.id })
+      : toast(alert.title, { id: alert.id, icon: '⚠️' })
+  );
+
 const sumIncluded = <T extends { amount: number; excludeFromTotals?: boolean }>(items: T[]) =>
   items.reduce((acc, item) => (item.excludeFromTotals ? acc : acc + item.amount), 0);
 
+const normalizeRecord = (collection: FinanceCollection, record: FinanceRecord): FinanceRecord =>
+  mapExcludeFlag(collection === 'investments' ? normalizeInvestment(record as Investment) : record);
+
 function FinanceProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
-  const shouldUseLocalData = useLocalMode();
-  const isGuestMode = shouldUseLocalData;
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(FINANCE_SYNC_SCOPE);
   const [state, setState] = useState<FinanceState>(initialState);
   const [isLoading, setIsLoading] = useState(true);
-  const refreshTimerRef = useRef<number | null>(null);
+  const storageKey =
+    isLocalOnly || !user
+      ? FINANCE_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
 
-  const persistGuestState = useCallback((next: FinanceState) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(next));
-    } catch (error) {
-      console.error('Erro ao salvar dados financeiros locais', error);
-    }
-  }, []);
-  const persistRemoteCache = useCallback(
-    (next: FinanceState) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(next));
-      } catch (error) {
-        console.warn('Não foi possível armazenar cache remoto de finanças', error);
-      }
+  const updateState = useCallback(
+    (updater: (prev: FinanceState) => FinanceState) => {
+      setState(prev => {
+        const next = updater(prev);
+        if (next !== prev) {
+          writeStoredValue(storageKey, next);
+        }
+        return next;
+      });
     },
-    [user]
+    [storageKey]
   );
 
-  const loadRemoteCache = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as Partial<FinanceState> | null;
-      if (!parsed) {
-        return null;
-      }
-      return mapGuestState(parsed);
-    } catch (error) {
-      console.warn('Não foi possível ler cache remoto de finanças', error);
-      return null;
-    }
-  }, [user]);
-
-  const loadGuestState = useCallback(() => {
-    if (typeof window === 'undefined') {
-      setIsLoading(false);
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (!stored) {
-        setState(initialState);
-        setIsLoading(false);
-        return;
-      }
-      const parsed = JSON.parse(stored) as Partial<FinanceState> | null;
-      const next = mapGuestState(parsed);
-      setState(next);
-    } catch (error) {
-      console.error('Erro ao carregar dados financeiros locais', error);
-      setState(initialState);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteState = useCallback(async (): Promise<FinanceState> => {
-    const token = await getRemoteToken();
-    const [expensesResponse, incomesResponse, investmentsResponse, categoriesResponse] =
-      await Promise.all([
-        listRecords<Expense>(token, 'expenses'),
-        listRecords<Income>(token, 'incomes'),
-        listRecords<Investment>(token, 'investments'),
-        getCategories(token),
-      ]);
+    const token = await getToken();
+    const [
+      expensesResponse,
+      incomesResponse,
+      investmentsResponse,
+      categoriesResponse,
+      categoryRules,
+      creditCards,
+      recurrences,
+      accounts,
+      transfersResponse,
+      positions,
+      valuationsResponse,
+      taxSettings,
+      budgetAlerts,
+      notifications,
+    ] = await Promise.all([
+      listRecords<Expense>(token, 'expenses'),
+      listRecords<Income>(token, 'incomes'),
+      listRecords<Investment>(token, 'investments'),
+      getCategories(token),
+      getCategoryRules(token),
+      getCreditCards(token),
+      getRecurrences(token),
+      getAccounts(token),
+      listRecords<Transfer>(token, 'transfers'),
+      getPositions(token),
+      listRecords<Valuation>(token, 'valuations'),
+      getTaxSettings(token),
+      getBudgetAlerts(token),
+      getNotifications(token),
+    ]);
     const snapshot: FinanceState = {
       expenses: expensesResponse.items.map(mapExcludeFlag),
       incomes: incomesResponse.items.map(mapExcludeFlag),
@@ -201,70 +305,55 @@ function FinanceProvider({ children }: { children: ReactNode }) {
           expectedReturn: item.expectedReturn ?? undefined,
         })
       ),
-      categories: categoriesResponse ?? initialState.categories,
+      categories: mapCategories(categoriesResponse),
+      categoryRules,
+      creditCards,
+      recurrences,
+      accounts,
+      transfers: transfersResponse.items,
+      positions,
+      valuations: valuationsResponse.items,
+      taxSettings,
+      budgetAlerts,
+      notifications,
     };
-    persistRemoteCache(snapshot);
+    writeStoredValue(storageKey, snapshot);
     return snapshot;
-  }, [getRemoteToken, persistRemoteCache]);
+  }, [getToken, storageKey]);
 
-  const scheduleBackgroundSync = useCallback(() => {
-    if (typeof window === 'undefined' || isGuestMode || !user) {
-      return;
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
-    refreshTimerRef.current = window.setTimeout(async () => {
-      try {
-        const snapshot = await fetchRemoteState();
-        setState(snapshot);
-      } catch (error) {
-        console.error('Falha ao sincronizar dados em segundo plano', error);
-      } finally {
-        if (refreshTimerRef.current) {
-          window.clearTimeout(refreshTimerRef.current);
-          refreshTimerRef.current = null;
-        }
-      }
-    }, 2000);
-  }, [fetchRemoteState, isGuestMode, user]);
+  useEffect(
+    () => registerRefresh(async () => setState(await fetchRemoteState())),
+    [fetchRemoteState, registerRefresh]
+  );
 
   useEffect(() => {
-    if (isGuestMode || !user) {
-      setIsLoading(true);
-      loadGuestState();
-      return;
-    }
-
     let active = true;
     setIsLoading(true);
-    const cached = loadRemoteCache();
-    if (cached) {
-      setState(cached);
+    const stored = readStoredValue<Partial<FinanceState>>(storageKey);
+    setState(stored ? mapGuestState(stored) : initialState);
+
+    // Enquanto houver alterações na fila, o cache local é a versão mais recente.
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
+      setIsLoading(false);
+      return;
+    }
+    if (stored) {
       setIsLoading(false);
     }
     fetchRemoteState()
       .then(snapshot => {
         if (active) {
           setState(snapshot);
-          setIsLoading(false);
         }
       })
       .catch(error => {
         if (!active) {
           return;
         }
-        if ((error as Error)?.message === LOCAL_MODE_ERROR) {
-          loadGuestState();
-          return;
-        }
-        if (isAccessDeniedError(error)) {
-          toast.error('Sua assinatura está suspensa. Os dados serão mantidos localmente.');
-          loadGuestState();
-          return;
-        }
         console.error('Erro ao carregar dados financeiros do servidor', error);
-        toast.error('Não foi possível carregar seus dados financeiros agora.');
+        if (!isLocalModeError(error)) {
+          toast.error('Não foi possível carregar seus dados financeiros agora.');
+        }
       })
       .finally(() => {
         if (active) {
@@ -275,550 +364,1036 @@ function FinanceProvider({ children }: { children: ReactNode }) {
     return () => {
       active = false;
     };
-  }, [fetchRemoteState, isGuestMode, loadGuestState, loadRemoteCache, user]);
+  }, [canSync, fetchRemoteState, hasPendingOperations, isLocalOnly, storageKey]);
 
-  useEffect(() => {
-    return () => {
-      if (refreshTimerRef.current && typeof window !== 'undefined') {
-        window.clearTimeout(refreshTimerRef.current);
-      }
-    };
-  }, []);
+  const updateRecords = useCallback(
+    (collection: FinanceCollection, updater: (items: FinanceRecord[]) => FinanceRecord[]) =>
+      updateState(prev => ({ ...prev, [collection]: updater(prev[collection]) })),
+    [updateState]
+  );
 
-  const updateGuestState = useCallback(
-    (updater: (prev: FinanceState) => FinanceState) => {
-      setState(prev => {
-        const next = updater(prev);
-        persistGuestState(next);
-        return next;
+  const createRecurrence = useCallback(
+    async (
+      collection: FinanceCollection,
+      record: FinanceRecordInput,
+      recurrence: RecurrenceConfig,
+      options?: FinanceActionOptions
+    ) => {
+      const messages = RECORD_MESSAGES[collection];
+      const id = generateId();
+      const outcome = await submit<RecurrenceCreatedResponse>({
+        type: 'createRecurrence',
+        label: `Criar recorrência de ${messages.label} "${record.description}"`,
+        entityId: id,
+        payload: { id, collection, record, recurrence },
       });
+      if (outcome.status === 'rejected') {
+        console.error(`Erro ao criar recorrência de ${messages.label}`, outcome.error);
+        toast.error(messages.createError);
+        return;
+      }
+
+      let created: RecurrenceCreatedResponse;
+      if (outcome.status === 'synced' && outcome.data) {
+        created = outcome.data;
+      } else {
+        const rule = buildRecurrenceRule(id, collection, record, recurrence);
+        const [year, month] = getRecurrenceOccurrence(rule, 1).split('-').map(Number);
+        created = materializeRecurrenceRule<FinanceRecord>(rule, getPeriodEnd(year, month));
+      }
+      updateState(prev => ({
+        ...prev,
+        recurrences: upsertRules(prev.recurrences, [created.rule]),
+        [collection]: mergeRecords(
+          prev[collection] as FinanceRecord[],
+          created.items.map(item => normalizeRecord(collection, item))
+        ),
+      }));
+      if (!options?.silent) {
+        toast.success('Recorrência registrada');
+      }
     },
-    [persistGuestState]
+    [submit, updateState]
   );
 
-  const addExpense = useCallback<FinanceContextValue['addExpense']>(
-    async (expense, options) => {
-      const notifySuccess = () => {
-        if (!options?.silent) {
-          toast.success('Gasto registrado com sucesso');
-        }
-      };
+  const createFinanceRecord = useCallback(
+    async (
+      collection: FinanceCollection,
+      record: FinanceRecordInput,
+      options?: FinanceActionOptions
+    ) => {
+      if (options?.recurrence && options.recurrence.frequency !== 'none') {
+        await createRecurrence(collection, record, options.recurrence, options);
+        return;
+      }
+      const messages = RECORD_MESSAGES[collection];
+      const id = generateId();
+      const installments = options?.installments ?? 1;
+      const outcome = await submit<CreatedRecordsResponse<FinanceRecord>>({
+        type: 'create',
+        label:
+          installments > 1
+            ? `Registrar compra parcelada "${record.description}" em ${installments}x`
+            : `Registrar ${messages.label} "${record.description}"`,
+        entityId: id,
+        payload: { collection, record: installments > 1 ? { ...record, installments } : record },
+      });
+      if (outcome.status === 'rejected') {
+        console.error(`Erro ao registrar ${messages.label}`, outcome.error);
+        toast.error(messages.createError);
+        return;
+      }
 
-      const registerLocally = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          expenses: [
-            mapExcludeFlag({
-              ...expense,
-              id: generateId(),
-            }),
-            ...prev.expenses,
-          ],
-        }));
-      };
+      const synced = outcome.status === 'synced' ? outcome.data : undefined;
+      const created = synced
+        ? synced.items
+        : installments > 1
+        ? buildInstallmentSeries(record, installments, generateId()).map(
+            (item, index) => ({ ...item, id: index === 0 ? id : generateId() } as FinanceRecord)
+          )
+        : [{ ...record, id } as FinanceRecord];
+      // Sem resposta do servidor, os alertas saem do planner guardado neste navegador; quando a
+      // fila sincronizar, o servidor grava os mesmos avisos, com os mesmos IDs.
+      const alerts =
+        collection !== 'expenses'
+          ? []
+          : synced
+          ? synced.alerts
+          : findBudgetAlerts(
+              state,
+              created as Expense[],
+              readStoredPlanner,
+              new Date().toISOString()
+            );
+      updateState(prev => ({
+        ...prev,
+        [collection]: mergeRecords(
+          prev[collection] as FinanceRecord[],
+          created.map(item => normalizeRecord(collection, item))
+        ),
+        notifications: mergeNotifications(prev.notifications, alerts),
+      }));
+      if (!options?.silent) {
+        toast.success(
+          created.length > 1
+            ? `Compra parcelada registrada em ${created.length} faturas`
+            : messages.created
+        );
+      }
+      notifyBudgetAlerts(alerts);
+    },
+    [createRecurrence, state, submit, updateState]
+  );
 
-      if (isGuestMode || !user) {
-        registerLocally();
-        notifySuccess();
+  const materializingRef = useRef(new Set<string>());
+
+  // Recorrências só viram lançamentos quando o período é consultado pela primeira vez.
+  const materializePeriod = useCallback(
+    async (year: number, month: number) => {
+      const until = getPeriodEnd(year, month);
+      const key = `${year}-${month}`;
+      if (
+        materializingRef.current.has(key) ||
+        !state.recurrences.some(rule => hasPendingOccurrences(rule, until))
+      ) {
         return;
       }
+      materializingRef.current.add(key);
       try {
-        const token = await getRemoteToken();
-        const created = await createRecord<Expense>(token, 'expenses', expense);
-        setState(prev => ({
-          ...prev,
-          expenses: mergeRecords(prev.expenses, created),
-        }));
-        notifySuccess();
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao registrar despesa', error);
-        if (isAccessDeniedError(error)) {
-          registerLocally();
-          toast.success('Gasto registrado localmente. Renove para sincronizar.');
+        const outcome = await submit<MaterializedRecurrencesResponse>({
+          type: 'materializeRecurrences',
+          label: `Gerar lançamentos recorrentes até ${formatPeriodLabel(month, year)}`,
+          payload: { year, month },
+        });
+        if (outcome.status === 'rejected') {
+          console.error('Erro ao gerar lançamentos recorrentes', outcome.error);
           return;
         }
-        toast.error('Erro ao registrar gasto');
+        const result =
+          outcome.status === 'synced' && outcome.data
+            ? outcome.data
+            : materializeRecurrences<FinanceRecord>(state.recurrences, until);
+        updateState(prev => ({
+          ...prev,
+          recurrences: upsertRules(prev.recurrences, result.rules),
+          expenses: mergeRecords(
+            prev.expenses,
+            result.items.expenses.map(item => normalizeRecord('expenses', item) as Expense)
+          ),
+          incomes: mergeRecords(
+            prev.incomes,
+            result.items.incomes.map(item => normalizeRecord('incomes', item) as Income)
+          ),
+          investments: mergeRecords(
+            prev.investments,
+            result.items.investments.map(
+              item => normalizeRecord('investments', item) as Investment
+            )
+          ),
+        }));
+      } finally {
+        materializingRef.current.delete(key);
       }
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [state.recurrences, submit, updateState]
   );
 
-  const addIncome = useCallback<FinanceContextValue['addIncome']>(
-    async (income, options) => {
-      const notifySuccess = () => {
-        if (!options?.silent) {
-          toast.success('Receita registrada com sucesso');
-        }
-      };
+  const applySeriesChange = useCallback(
+    (collection: FinanceCollection, recurrenceId: string, change: SeriesChange<FinanceRecord>) => {
+      const removed = new Set(change.removed);
+      const { rule } = change;
+      updateState(prev => ({
+        ...prev,
+        recurrences:
+          rule === undefined
+            ? prev.recurrences
+            : rule
+              ? upsertRules(prev.recurrences, [rule])
+              : prev.recurrences.filter(item => item.id !== recurrenceId),
+        [collection]: mergeRecords(
+          (prev[collection] as FinanceRecord[]).filter(item => !removed.has(item.id)),
+          change.items.map(item => normalizeRecord(collection, item))
+        ),
+      }));
+    },
+    [updateState]
+  );
 
-      const registerLocally = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          incomes: [
-            mapExcludeFlag({
-              ...income,
-              id: generateId(),
-            }),
-            ...prev.incomes,
-          ],
-        }));
-      };
+  // Uma única operação na fila, para que o servidor altere a série inteira numa transação.
+  const updateSeries = useCallback(
+    async (
+      collection: FinanceCollection,
+      anchor: FinanceRecord,
+      record: FinanceRecordInput,
+      options: SeriesEditOptions & { scope: Exclude<SeriesScope, 'single'> }
+    ) => {
+      const messages = RECORD_MESSAGES[collection];
+      const rule = state.recurrences.find(item => item.id === anchor.recurrenceId);
+      const maxLength = rule ? MAX_RECURRENCE_OCCURRENCES : MAX_SERIES_LENGTH;
+      const fromIndex = anchor.recurrenceIndex ?? 1;
+      const { total } = options;
+      if (
+        total !== undefined &&
+        (!Number.isInteger(total) || total < fromIndex || total > maxLength)
+      ) {
+        toast.error(`A série deve ter entre ${fromIndex} e ${maxLength} lançamentos`);
+        return;
+      }
 
-      if (isGuestMode || !user) {
-        registerLocally();
-        notifySuccess();
+      const outcome = await submit<SeriesChange<FinanceRecord>>({
+        type: 'updateSeries',
+        label: `Atualizar série de ${messages.label} "${record.description}"`,
+        entityId: anchor.id,
+        revision: anchor.revision ?? 0,
+        payload: {
+          collection,
+          record,
+          recurrenceId: anchor.recurrenceId,
+          scope: options.scope,
+          fromIndex,
+          total,
+        },
+      });
+      if (outcome.status === 'rejected') {
+        console.error(`Erro ao atualizar série de ${messages.label}`, outcome.error);
+        toast.error(messages.updateError);
         return;
       }
-      try {
-        const token = await getRemoteToken();
-        const created = await createRecord<Income>(token, 'incomes', income);
-        setState(prev => ({
-          ...prev,
-          incomes: mergeRecords(prev.incomes, created),
-        }));
-        notifySuccess();
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao registrar receita', error);
-        if (isAccessDeniedError(error)) {
-          registerLocally();
-          toast.success('Receita registrada localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Erro ao registrar receita');
+
+      applySeriesChange(
+        collection,
+        anchor.recurrenceId ?? '',
+        outcome.status === 'synced' && outcome.data
+          ? outcome.data
+          : applySeriesUpdate(
+              state[collection] as FinanceRecord[],
+              anchor,
+              record as Omit<FinanceRecord, 'id'>,
+              options,
+              generateId,
+              rule
+            )
+      );
+      toast.success('Lançamentos da série atualizados');
+    },
+    [applySeriesChange, state, submit]
+  );
+
+  const deleteSeries = useCallback(
+    async (
+      collection: FinanceCollection,
+      anchor: FinanceRecord,
+      scope: Exclude<SeriesScope, 'single'>
+    ) => {
+      const messages = RECORD_MESSAGES[collection];
+      const outcome = await submit<SeriesChange<FinanceRecord>>({
+        type: 'deleteSeries',
+        label: `Remover série de ${messages.label} "${anchor.description}"`,
+        entityId: anchor.id,
+        payload: {
+          collection,
+          recurrenceId: anchor.recurrenceId,
+          scope,
+          fromIndex: anchor.recurrenceIndex,
+        },
+      });
+      if (outcome.status === 'rejected') {
+        console.error(`Erro ao remover série de ${messages.label}`, outcome.error);
+        toast.error(messages.removeError);
+        return;
       }
+
+      applySeriesChange(
+        collection,
+        anchor.recurrenceId ?? '',
+        outcome.status === 'synced' && outcome.data
+          ? outcome.data
+          : applySeriesDelete(
+              state[collection] as FinanceRecord[],
+              anchor,
+              scope,
+              state.recurrences.find(item => item.id === anchor.recurrenceId)
+            )
+      );
+      toast.success('Lançamentos da série removidos');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [applySeriesChange, state, submit]
+  );
+
+  const updateFinanceRecord = useCallback(
+    async (
+      collection: FinanceCollection,
+      id: string,
+      record: FinanceRecordInput,
+      options?: SeriesEditOptions
+    ) => {
+      const messages = RECORD_MESSAGES[collection];
+      const current = (state[collection] as FinanceRecord[]).find(item => item.id === id);
+      if (current && options && options.scope !== 'single' && isSeriesRecord(current)) {
+        await updateSeries(collection, current, record, { ...options, scope: options.scope });
+        return;
+      }
+      const outcome = await submit<FinanceRecord>({
+        type: 'update',
+        label: `Atualizar ${messages.label} "${record.description}"`,
+        entityId: id,
+        revision: current?.revision ?? 0,
+        payload: { collection, record },
+      });
+      if (outcome.status === 'rejected') {
+        console.error(`Erro ao atualizar ${messages.label}`, outcome.error);
+        toast.error(messages.updateError);
+        return;
+      }
+
+      const updated =
+        outcome.status === 'synced' && outcome.data
+          ? outcome.data
+          : { ...record, revision: current?.revision };
+      // A edição não devolve os anexos, que só mudam pelas rotas próprias.
+      updateRecords(collection, items =>
+        mergeRecords(items, [
+          normalizeRecord(collection, {
+            ...updated,
+            id,
+            attachments: current?.attachments,
+          } as FinanceRecord),
+        ])
+      );
+      toast.success(messages.updated);
+    },
+    [state, submit, updateRecords, updateSeries]
+  );
+
+  const deleteFinanceRecord = useCallback(
+    async (collection: FinanceCollection, id: string, scope: SeriesScope = 'single') => {
+      const messages = RECORD_MESSAGES[collection];
+      const current = (state[collection] as FinanceRecord[]).find(item => item.id === id);
+      if (current && scope !== 'single' && isSeriesRecord(current)) {
+        await deleteSeries(collection, current, scope);
+        return;
+      }
+      const outcome = await submit({
+        type: 'delete',
+        label: `Remover ${messages.label}`,
+        entityId: id,
+        payload: { collection },
+      });
+      if (outcome.status === 'rejected') {
+        console.error(`Erro ao remover ${messages.label}`, outcome.error);
+        toast.error(messages.removeError);
+        return;
+      }
+
+      updateRecords(collection, items => removeRecord(items, id));
+      toast.success(messages.removed);
+    },
+    [deleteSeries, state, submit, updateRecords]
+  );
+
+  const addExpense = useCallback<FinanceContextValue['addExpense']>(
+    (expense, options) => createFinanceRecord('expenses', expense, options),
+    [createFinanceRecord]
+  );
+
+  const addIncome = useCallback<FinanceContextValue['addIncome']>(
+    (income, options) => createFinanceRecord('incomes', income, options),
+    [createFinanceRecord]
   );
 
   const addInvestment = useCallback<FinanceContextValue['addInvestment']>(
-    async (investment, options) => {
-      const record: Omit<Investment, 'id'> = {
-        ...investment,
-        expectedReturn: investment.expectedReturn ?? undefined,
-      };
-
-      const notifySuccess = () => {
-        if (!options?.silent) {
-          toast.success('Investimento registrado com sucesso');
-        }
-      };
+    (investment, options) =>
+      createFinanceRecord(
+        'investments',
+        { ...investment, expectedReturn: investment.expectedReturn ?? undefined },
+        options
+      ),
+    [createFinanceRecord]
+  );
 
-      const registerLocally = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          investments: [
-            mapExcludeFlag({
-              ...record,
-              id: generateId(),
-            }),
-            ...prev.investments,
-          ],
-        }));
-      };
+  const updateExpense = useCallback<FinanceContextValue['updateExpense']>(
+    (id, expense, options) => updateFinanceRecord('expenses', id, expense, options),
+    [updateFinanceRecord]
+  );
+
+  const updateIncome = useCallback<FinanceContextValue['updateIncome']>(
+    (id, income, options) => updateFinanceRecord('incomes', id, income, options),
+    [updateFinanceRecord]
+  );
+
+  const updateInvestment = useCallback<FinanceContextValue['updateInvestment']>(
+    (id, investment, options) =>
+      updateFinanceRecord(
+        'investments',
+        id,
+        { ...investment, expectedReturn: investment.expectedReturn ?? undefined },
+        options
+      ),
+    [updateFinanceRecord]
+  );
+
+  const deleteExpense = useCallback<FinanceContextValue['deleteExpense']>(
+    (id, scope) => deleteFinanceRecord('expenses', id, scope),
+    [deleteFinanceRecord]
+  );
 
-      if (isGuestMode || !user) {
-        registerLocally();
-        notifySuccess();
+  const deleteIncome = useCallback<FinanceContextValue['deleteIncome']>(
+    (id, scope) => deleteFinanceRecord('incomes', id, scope),
+    [deleteFinanceRecord]
+  );
+
+  const deleteInvestment = useCallback<FinanceContextValue['deleteInvestment']>(
+    (id, scope) => deleteFinanceRecord('investments', id, scope),
+    [deleteFinanceRecord]
+  );
+
+  const setRecordAttachments = useCallback(
+    (collection: FinanceCollection, id: string, attachments: FinanceAttachment[]) =>
+      updateRecords(collection, items =>
+        items.map(item => (item.id === id ? { ...item, attachments } : item))
+      ),
+    [updateRecords]
+  );
+
+  // Registros ainda na fila não existem no servidor, então o anexo espera a sincronização.
+  const ensureAttachmentsAvailable = useCallback(() => {
+    if (!canSync || hasPendingOperations()) {
+      toast.error(
+        isLocalOnly
+          ? 'Anexos ficam disponíveis ao entrar com sua conta.'
+          : 'Aguarde a sincronização dos lançamentos para gerenciar anexos.'
+      );
+      return false;
+    }
+    return true;
+  }, [canSync, hasPendingOperations, isLocalOnly]);
+
+  const uploadAttachment = useCallback<FinanceContextValue['uploadAttachment']>(
+    async (collection, id, file) => {
+      if (!ensureAttachmentsAvailable()) {
+        return;
+      }
+      const current = (state[collection] as FinanceRecord[]).find(item => item.id === id);
+      const invalid = validateAttachmentFile(file, current?.attachments?.length ?? 0);
+      if (invalid) {
+        toast.error(invalid);
         return;
       }
       try {
-        const token = await getRemoteToken();
-        const created = await createRecord<Investment>(token, 'investments', {
-          ...record,
-          expectedReturn: record.expectedReturn ?? undefined,
+        const token = await getToken();
+        const data = await fileToBase64(file);
+        const { attachments } = await uploadAttachmentRemote(token, collection, id, {
+          data,
+          contentType: file.type,
+          fileName: file.name,
         });
-        setState(prev => ({
-          ...prev,
-          investments: mergeRecords(
-            prev.investments,
-            created.map(normalizeInvestment)
-          ),
-        }));
-        notifySuccess();
-        scheduleBackgroundSync();
+        setRecordAttachments(collection, id, attachments);
+        toast.success('Anexo enviado');
       } catch (error) {
-        console.error('Erro ao registrar investimento', error);
-        if (isAccessDeniedError(error)) {
-          registerLocally();
-          toast.success('Investimento registrado localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Erro ao registrar investimento');
+        console.error('Erro ao enviar anexo', error);
+        toast.error(error instanceof Error ? error.message : 'Erro ao enviar anexo');
       }
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [ensureAttachmentsAvailable, getToken, setRecordAttachments, state]
   );
 
-  const updateExpense = useCallback<FinanceContextValue['updateExpense']>(
-    async (id, expense) => {
-      const updateLocal = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          expenses: prev.expenses.map(item => (item.id === id ? { ...expense, id } : item)),
-        }));
-      };
-
-      if (isGuestMode || !user) {
-        updateLocal();
-        toast.success('Gasto atualizado');
+  const removeAttachment = useCallback<FinanceContextValue['removeAttachment']>(
+    async (collection, id, attachmentId) => {
+      if (!ensureAttachmentsAvailable()) {
         return;
       }
-
       try {
-        const token = await getRemoteToken();
-        const updated = await updateRecord<Expense>(token, 'expenses', id, expense);
-        setState(prev => ({
-          ...prev,
-          expenses: mergeRecords(prev.expenses, [{ ...updated, id }]),
-        }));
-        toast.success('Gasto atualizado');
-        scheduleBackgroundSync();
+        const token = await getToken();
+        const { attachments } = await deleteAttachmentRemote(token, collection, id, attachmentId);
+        setRecordAttachments(collection, id, attachments);
+        toast.success('Anexo removido');
       } catch (error) {
-        console.error('Erro ao atualizar despesa', error);
-        if (isAccessDeniedError(error)) {
-          updateLocal();
-          toast.success('Gasto atualizado localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Erro ao atualizar gasto');
+        console.error('Erro ao remover anexo', error);
+        toast.error('Erro ao remover anexo');
       }
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [ensureAttachmentsAvailable, getToken, setRecordAttachments]
   );
 
-  const updateIncome = useCallback<FinanceContextValue['updateIncome']>(
-    async (id, income) => {
-      const updateLocal = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          incomes: prev.incomes.map(item => (item.id === id ? { ...income, id } : item)),
-        }));
-      };
+  const addCategory = useCallback<FinanceContextValue['addCategory']>(
+    async (group, input) => {
+      const name = input.name.trim();
+      if (!name) {
+        toast.error('Informe um nome válido');
+        return;
+      }
+      if (state.categories[group].some(item => isSameCategoryName(item.name, name))) {
+        toast.error('Categoria já cadastrada');
+        return;
+      }
 
-      if (isGuestMode || !user) {
-        updateLocal();
-        toast.success('Receita atualizada');
+      const category: FinanceCategory = { ...input, name, id: generateId() };
+      const outcome = await submit({
+        type: 'addCategory',
+        label: `Adicionar categoria "${name}"`,
+        payload: { group, category },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar categoria', outcome.error);
+        toast.error('Erro ao cadastrar categoria');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const updated = await updateRecord<Income>(token, 'incomes', id, income);
-        setState(prev => ({
+      updateState(prev => {
+        if (prev.categories[group].some(item => isSameCategoryName(item.name, name))) {
+          return prev;
+        }
+        return {
           ...prev,
-          incomes: mergeRecords(prev.incomes, [{ ...updated, id }]),
-        }));
-        toast.success('Receita atualizada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao atualizar receita', error);
-        if (isAccessDeniedError(error)) {
-          updateLocal();
-          toast.success('Receita atualizada localmente. Renove para sincronizar.');
-          return;
+          categories: {
+            ...prev.categories,
+            [group]: normalizeCategoryList([category, ...prev.categories[group]]),
+          },
+        };
+      });
+      toast.success('Categoria adicionada');
+    },
+    [state.categories, submit, updateState]
+  );
+
+  // Com a resposta do servidor, os registros regravados chegam com a nova revisão; offline, a
+  // mesma troca de nome é feita localmente e enviada quando a fila sincronizar.
+  const applyCategoryMigration = useCallback(
+    (
+      group: CategoryGroup,
+      list: FinanceCategory[],
+      rename: { from: string; to: string } | null,
+      migrated?: CategoryMigrationResponse
+    ) => {
+      updateState(prev => {
+        const next: FinanceState = {
+          ...prev,
+          ...(rename ? renameCategoryReferences(prev, group, rename.from, rename.to) : {}),
+          categories: { ...prev.categories, [group]: list },
+        };
+        if (!migrated) {
+          return next;
         }
-        toast.error('Erro ao atualizar receita');
+        return {
+          ...next,
+          [group]: mergeRecords(
+            next[group] as FinanceRecord[],
+            migrated.items.map(item => normalizeRecord(group, item))
+          ),
+          recurrences: upsertRules(next.recurrences, migrated.rules),
+        };
+      });
+      if (rename && group !== 'incomes') {
+        renameStoredPlannerCategory(group, rename.from, rename.to);
       }
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [updateState]
   );
 
-  const updateInvestment = useCallback<FinanceContextValue['updateInvestment']>(
-    async (id, investment) => {
-      const payload = {
-        ...investment,
-        expectedReturn: investment.expectedReturn ?? undefined,
-      };
-
-      const updateLocal = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          investments: prev.investments.map(item => (item.id === id ? { ...payload, id } : item)),
-        }));
-      };
+  const updateCategory = useCallback<FinanceContextValue['updateCategory']>(
+    async (group, id, changes) => {
+      const current = state.categories[group].find(item => item.id === id);
+      if (!current) {
+        toast.error('Categoria não encontrada');
+        return;
+      }
+      const name = changes.name?.trim() || current.name;
+      if (
+        state.categories[group].some(item => item.id !== id && isSameCategoryName(item.name, name))
+      ) {
+        toast.error('Categoria já cadastrada');
+        return;
+      }
+      if (changes.parentId && state.categories[group].some(item => item.parentId === id)) {
+        toast.error('Categorias com subcategorias não podem ter pai');
+        return;
+      }
 
-      if (isGuestMode || !user) {
-        updateLocal();
-        toast.success('Investimento atualizado');
+      const isRename = name !== current.name;
+      const outcome = await submit<CategoryMigrationResponse>({
+        type: 'updateCategory',
+        label: isRename
+          ? `Renomear categoria "${current.name}" para "${name}"`
+          : `Atualizar categoria "${name}"`,
+        payload: { group, id, changes: { ...changes, name } },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao atualizar categoria', outcome.error);
+        toast.error('Erro ao atualizar categoria');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const updated = await updateRecord<Investment>(token, 'investments', id, {
-          ...payload,
-          expectedReturn: payload.expectedReturn ?? undefined,
-        });
-        setState(prev => ({
-          ...prev,
-          investments: mergeRecords(prev.investments, [normalizeInvestment(updated)]),
-        }));
-        toast.success('Investimento atualizado');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao atualizar investimento', error);
-        if (isAccessDeniedError(error)) {
-          updateLocal();
-          toast.success('Investimento atualizado localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Erro ao atualizar investimento');
+      const migrated = outcome.status === 'synced' ? outcome.data : undefined;
+      const list =
+        migrated?.categories[group] ??
+        normalizeCategoryList(
+          state.categories[group].map(item =>
+            item.id === id ? { ...item, ...changes, name } : item
+          )
+        );
+      applyCategoryMigration(
+        group,
+        list,
+        isRename ? { from: current.name, to: name } : null,
+        migrated
+      );
+      toast.success(isRename ? 'Categoria renomeada' : 'Categoria atualizada');
+    },
+    [applyCategoryMigration, state.categories, submit]
+  );
+
+  const mergeCategory = useCallback<FinanceContextValue['mergeCategory']>(
+    async (group, id, targetId) => {
+      const source = state.categories[group].find(item => item.id === id);
+      const target = state.categories[group].find(item => item.id === targetId);
+      if (!source || !target || source.id === target.id) {
+        toast.error('Escolha outra categoria do mesmo grupo');
+        return;
+      }
+      if (target.parentId === source.id) {
+        toast.error('Mescle a subcategoria na categoria principal');
+        return;
+      }
+
+      const outcome = await submit<CategoryMigrationResponse>({
+        type: 'mergeCategory',
+        label: `Mesclar categoria "${source.name}" em "${target.name}"`,
+        payload: { group, id, targetId },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao mesclar categorias', outcome.error);
+        toast.error('Erro ao mesclar categorias');
+        return;
       }
+
+      const migrated = outcome.status === 'synced' ? outcome.data : undefined;
+      applyCategoryMigration(
+        group,
+        migrated?.categories[group] ?? mergeCategoryList(state.categories[group], id, targetId),
+        { from: source.name, to: target.name },
+        migrated
+      );
+      toast.success(`"${source.name}" mesclada em "${target.name}"`);
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [applyCategoryMigration, state.categories, submit]
   );
 
-  const deleteExpense = useCallback<FinanceContextValue['deleteExpense']>(
-    async id => {
-      const removeLocal = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          expenses: prev.expenses.filter(item => item.id !== id),
-        }));
-      };
+  const removeCategory = useCallback<FinanceContextValue['removeCategory']>(
+    async (group, id) => {
+      const category = state.categories[group].find(item => item.id === id);
+      if (!category) {
+        toast.error('Categoria não encontrada');
+        return;
+      }
 
-      if (isGuestMode || !user) {
-        removeLocal();
-        toast.success('Gasto removido');
+      const outcome = await submit({
+        type: 'removeCategory',
+        label: `Remover categoria "${category.name}"`,
+        payload: { group, category: category.name },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover categoria', outcome.error);
+        toast.error('Erro ao remover categoria');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await deleteRecord(token, 'expenses', id);
-        setState(prev => ({
-          ...prev,
-          expenses: removeRecord(prev.expenses, id),
-        }));
-        toast.success('Gasto removido');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao remover despesa', error);
-        if (isAccessDeniedError(error)) {
-          removeLocal();
-          toast.success('Gasto removido localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Erro ao remover gasto');
+      updateState(prev => ({
+        ...prev,
+        categories: {
+          ...prev.categories,
+          [group]: normalizeCategoryList(prev.categories[group].filter(item => item.id !== id)),
+        },
+      }));
+      toast.success('Categoria removida');
+    },
+    [state.categories, submit, updateState]
+  );
+
+  const saveCategoryRules = useCallback<FinanceContextValue['saveCategoryRules']>(
+    async rules => {
+      const outcome = await submit<CategoryRule[]>({
+        type: 'saveCategoryRules',
+        label: 'Salvar regras de categorização',
+        payload: { rules },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar regras de categorização', outcome.error);
+        toast.error('Erro ao salvar regras de categorização');
+        return;
       }
+
+      const saved = outcome.status === 'synced' && outcome.data ? outcome.data : rules;
+      updateState(prev => ({ ...prev, categoryRules: saved }));
+      toast.success('Regras de categorização atualizadas');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
-  const deleteIncome = useCallback<FinanceContextValue['deleteIncome']>(
-    async id => {
-      const removeLocal = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          incomes: prev.incomes.filter(item => item.id !== id),
-        }));
-      };
+  const saveCreditCards = useCallback<FinanceContextValue['saveCreditCards']>(
+    async cards => {
+      const outcome = await submit<CreditCard[]>({
+        type: 'saveCreditCards',
+        label: 'Salvar cartões de crédito',
+        payload: { cards },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar cartões de crédito', outcome.error);
+        toast.error('Erro ao salvar cartões de crédito');
+        return;
+      }
+
+      const saved = outcome.status === 'synced' && outcome.data ? outcome.data : cards;
+      updateState(prev => ({ ...prev, creditCards: saved }));
+      toast.success('Cartões de crédito atualizados');
+    },
+    [submit, updateState]
+  );
 
-      if (isGuestMode || !user) {
-        removeLocal();
-        toast.success('Receita removida');
+  const saveAccounts = useCallback<FinanceContextValue['saveAccounts']>(
+    async accounts => {
+      const outcome = await submit<FinanceAccount[]>({
+        type: 'saveAccounts',
+        label: 'Salvar contas',
+        payload: { accounts },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar contas', outcome.error);
+        toast.error('Erro ao salvar contas');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await deleteRecord(token, 'incomes', id);
-        setState(prev => ({
-          ...prev,
-          incomes: removeRecord(prev.incomes, id),
-        }));
-        toast.success('Receita removida');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao remover receita', error);
-        if (isAccessDeniedError(error)) {
-          removeLocal();
-          toast.success('Receita removida localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Erro ao remover receita');
+      const saved = outcome.status === 'synced' && outcome.data ? outcome.data : accounts;
+      updateState(prev => ({ ...prev, accounts: saved }));
+      toast.success('Contas atualizadas');
+    },
+    [submit, updateState]
+  );
+
+  const addTransfer = useCallback<FinanceContextValue['addTransfer']>(
+    async transfer => {
+      if (transfer.fromAccountId === transfer.toAccountId) {
+        toast.error('Escolha contas diferentes para a transferência');
+        return;
       }
+      const id = generateId();
+      const outcome = await submit<CreatedRecordsResponse<Transfer>>({
+        type: 'create',
+        label: `Registrar transferência "${transfer.description}"`,
+        entityId: id,
+        payload: { collection: 'transfers', record: transfer },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao registrar transferência', outcome.error);
+        toast.error('Erro ao registrar transferência');
+        return;
+      }
+
+      const created =
+        outcome.status === 'synced' && outcome.data
+          ? outcome.data.items
+          : [{ ...transfer, id }];
+      updateState(prev => ({ ...prev, transfers: mergeRecords(prev.transfers, created) }));
+      toast.success('Transferência registrada');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
-  const deleteInvestment = useCallback<FinanceContextValue['deleteInvestment']>(
+  const deleteTransfer = useCallback<FinanceContextValue['deleteTransfer']>(
     async id => {
-      const removeLocal = () => {
-        updateGuestState(prev => ({
-          ...prev,
-          investments: prev.investments.filter(item => item.id !== id),
-        }));
-      };
+      const outcome = await submit({
+        type: 'delete',
+        label: 'Remover transferência',
+        entityId: id,
+        payload: { collection: 'transfers' },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover transferência', outcome.error);
+        toast.error('Erro ao remover transferência');
+        return;
+      }
+
+      updateState(prev => ({ ...prev, transfers: removeRecord(prev.transfers, id) }));
+      toast.success('Transferência removida');
+    },
+    [submit, updateState]
+  );
 
-      if (isGuestMode || !user) {
-        removeLocal();
-        toast.success('Investimento removido');
+  const savePositions = useCallback<FinanceContextValue['savePositions']>(
+    async positions => {
+      const outcome = await submit<PortfolioPosition[]>({
+        type: 'savePositions',
+        label: 'Salvar posições da carteira',
+        payload: { positions },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar posições', outcome.error);
+        toast.error('Erro ao salvar posições');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await deleteRecord(token, 'investments', id);
-        setState(prev => ({
-          ...prev,
-          investments: removeRecord(prev.investments, id),
-        }));
-        toast.success('Investimento removido');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao remover investimento', error);
-        if (isAccessDeniedError(error)) {
-          removeLocal();
-          toast.success('Investimento removido localmente. Renove para sincronizar.');
-          return;
+      const saved = outcome.status === 'synced' && outcome.data ? outcome.data : positions;
+      updateState(prev => ({ ...prev, positions: saved }));
+      toast.success('Posições atualizadas');
+    },
+    [submit, updateState]
+  );
+
+  const addValuations = useCallback<FinanceContextValue['addValuations']>(
+    async valuations => {
+      let saved = 0;
+      for (const valuation of valuations) {
+        const id = generateId();
+        const outcome = await submit<CreatedRecordsResponse<Valuation>>({
+          type: 'create',
+          label: `Registrar avaliação de ${formatDateDisplay(valuation.date)}`,
+          entityId: id,
+          payload: { collection: 'valuations', record: valuation },
+        });
+        if (outcome.status === 'rejected') {
+          console.error('Erro ao registrar avaliação', outcome.error);
+          continue;
         }
-        toast.error('Erro ao remover investimento');
+
+        const created =
+          outcome.status === 'synced' && outcome.data
+            ? outcome.data.items
+            : [{ ...valuation, id }];
+        updateState(prev => ({ ...prev, valuations: mergeRecords(prev.valuations, created) }));
+        saved += 1;
+      }
+
+      if (saved < valuations.length) {
+        toast.error(`${valuations.length - saved} avaliação(ões) não puderam ser registradas`);
+      }
+      if (saved) {
+        toast.success(saved === 1 ? 'Avaliação registrada' : `${saved} avaliações registradas`);
       }
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
-  const addCategory = useCallback<FinanceContextValue['addCategory']>(
-    async (group, category) => {
-      const normalized = category.trim();
-      if (!normalized) {
-        toast.error('Informe um nome válido');
+  const deleteValuation = useCallback<FinanceContextValue['deleteValuation']>(
+    async id => {
+      const outcome = await submit({
+        type: 'delete',
+        label: 'Remover avaliação',
+        entityId: id,
+        payload: { collection: 'valuations' },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover avaliação', outcome.error);
+        toast.error('Erro ao remover avaliação');
         return;
       }
 
-      const addLocalCategory = () => {
-        let added = false;
-        setState(prev => {
-          if (prev.categories[group].some(item => item.toLowerCase() === normalized.toLowerCase())) {
-            toast.error('Categoria já cadastrada');
-            return prev;
-          }
-          added = true;
-          const next: FinanceState = {
-            ...prev,
-            categories: {
-              ...prev.categories,
-              [group]: [normalized, ...prev.categories[group]],
-            },
-          };
-          persistGuestState(next);
-          return next;
-        });
-        if (added) {
-          toast.success('Categoria adicionada');
-        }
-        return added;
-      };
+      updateState(prev => ({ ...prev, valuations: removeRecord(prev.valuations, id) }));
+      toast.success('Avaliação removida');
+    },
+    [submit, updateState]
+  );
 
-      if (isGuestMode || !user) {
-        addLocalCategory();
+  const saveTaxSettings = useCallback<FinanceContextValue['saveTaxSettings']>(
+    async taxSettings => {
+      const outcome = await submit<TaxSettings>({
+        type: 'saveTaxSettings',
+        label: 'Salvar marcações do imposto de renda',
+        payload: { taxSettings },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar marcações do imposto de renda', outcome.error);
+        toast.error('Erro ao salvar marcações do imposto de renda');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await addCategoryRemote(token, group, normalized);
-        setState(prev => {
-          if (prev.categories[group].some(item => item.toLowerCase() === normalized.toLowerCase())) {
-            return prev;
-          }
-          return {
-            ...prev,
-            categories: {
-              ...prev.categories,
-              [group]: [normalized, ...prev.categories[group]],
-            },
-          };
-        });
-        toast.success('Categoria adicionada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao salvar categoria', error);
-        if (isAccessDeniedError(error)) {
-          const added = addLocalCategory();
-          if (added) {
-            toast.success('Categoria salva localmente. Renove para sincronizar.');
-          }
-          return;
-        }
-        toast.error('Erro ao cadastrar categoria');
+      const saved = outcome.status === 'synced' && outcome.data ? outcome.data : taxSettings;
+      updateState(prev => ({ ...prev, taxSettings: saved }));
+      toast.success('Marcações do imposto de renda atualizadas');
+    },
+    [submit, updateState]
+  );
+
+  const saveBudgetAlerts = useCallback<FinanceContextValue['saveBudgetAlerts']>(
+    async budgetAlerts => {
+      const outcome = await submit<BudgetAlertSetting[]>({
+        type: 'saveBudgetAlerts',
+        label: 'Salvar alertas de orçamento',
+        payload: { budgetAlerts },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao salvar alertas de orçamento', outcome.error);
+        toast.error('Erro ao salvar alertas de orçamento');
+        return;
       }
+
+      const saved = outcome.status === 'synced' && outcome.data ? outcome.data : budgetAlerts;
+      updateState(prev => ({ ...prev, budgetAlerts: saved }));
+      toast.success('Alertas de orçamento atualizados');
     },
-    [getRemoteToken, isGuestMode, persistGuestState, scheduleBackgroundSync, user]
+    [submit, updateState]
   );
 
-  const removeCategory = useCallback<FinanceContextValue['removeCategory']>(
-    async (group, category) => {
-      const removeLocalCategory = () => {
-        let removed = false;
-        setState(prev => {
-          if (!prev.categories[group].includes(category)) {
-            toast.error('Categoria não encontrada');
-            return prev;
-          }
-          removed = true;
-          const next: FinanceState = {
-            ...prev,
-            categories: {
-              ...prev.categories,
-              [group]: prev.categories[group].filter(item => item !== category),
-            },
-          };
-          persistGuestState(next);
-          return next;
-        });
-        if (removed) {
-          toast.success('Categoria removida');
-        }
-        return removed;
-      };
+  const markNotificationsRead = useCallback<FinanceContextValue['markNotificationsRead']>(
+    async ids => {
+      if (!ids.length) {
+        return;
+      }
+      const outcome = await submit({
+        type: 'markNotificationsRead',
+        label: ids.length === 1 ? 'Marcar aviso como lido' : 'Marcar avisos como lidos',
+        payload: { ids },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao marcar avisos como lidos', outcome.error);
+        toast.error('Erro ao marcar avisos como lidos');
+        return;
+      }
+
+      const readIds = new Set(ids);
+      updateState(prev => ({
+        ...prev,
+        notifications: prev.notifications.map(notification =>
+          readIds.has(notification.id) ? { ...notification, read: true } : notification
+        ),
+      }));
+    },
+    [submit, updateState]
+  );
 
-      if (isGuestMode || !user) {
-        removeLocalCategory();
+  const removeNotification = useCallback<FinanceContextValue['removeNotification']>(
+    async id => {
+      const outcome = await submit({
+        type: 'deleteNotification',
+        label: 'Remover aviso',
+        payload: { id },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover aviso', outcome.error);
+        toast.error('Erro ao remover aviso');
         return;
       }
 
+      updateState(prev => ({ ...prev, notifications: removeRecord(prev.notifications, id) }));
+    },
+    [submit, updateState]
+  );
+
+  const isGuestStorage = isLocalOnly || !user;
+
+  // Conectado, o planner de cada mês vem do servidor: o armazenamento local só guarda os meses
+  // abertos neste aparelho, então um backup montado com ele sairia incompleto.
+  const createBackup = useCallback<FinanceContextValue['createBackup']>(async () => {
+    let planners = readStoredPlanners();
+    if (!isGuestStorage && canSync) {
       try {
-        const token = await getRemoteToken();
-        await removeCategoryRemote(token, group, category);
-        setState(prev => ({
-          ...prev,
-          categories: {
-            ...prev.categories,
-            [group]: prev.categories[group].filter(item => item !== category),
-          },
+        planners = await getPlanners(await getToken());
+      } catch (error) {
+        console.error('Erro ao carregar planners para o backup', error);
+        toast.error('Não foi possível carregar os planners. Tente gerar o backup novamente.');
+        return null;
+      }
+    }
+    return buildFinanceBackup(state, planners, new Date().toISOString());
+  }, [canSync, getToken, isGuestStorage, state]);
+
+  // A restauração troca tudo de uma vez, então não passa pela fila: no modo conectado precisa
+  // do servidor e de nenhuma alteração pendente que pudesse sobrescrever o backup depois.
+  const restoreBackup = useCallback<FinanceContextValue['restoreBackup']>(
+    async backup => {
+      if (isGuestStorage) {
+        updateState(prev => ({
+          ...mapGuestState(backup.state),
+          notifications: prev.notifications,
         }));
-        toast.success('Categoria removida');
-        scheduleBackgroundSync();
+        replaceStoredPlanners(backup.planners);
+        toast.success('Backup restaurado');
+        return true;
+      }
+      if (!canSync || hasPendingOperations()) {
+        toast.error('Conecte-se e aguarde a sincronização para restaurar o backup.');
+        return false;
+      }
+      try {
+        const token = await getToken();
+        await restoreBackupRemote(token, backup);
+        setState(await fetchRemoteState());
+        replaceStoredPlanners(backup.planners);
+        toast.success('Backup restaurado');
+        return true;
       } catch (error) {
-        console.error('Erro ao remover categoria', error);
-        if (isAccessDeniedError(error)) {
-          const removed = removeLocalCategory();
-          if (removed) {
-            toast.success('Categoria removida localmente. Renove para sincronizar.');
-          }
-          return;
-        }
-        toast.error('Erro ao remover categoria');
+        console.error('Erro ao restaurar backup', error);
+        toast.error(error instanceof Error ? error.message : 'Erro ao restaurar backup');
+        return false;
       }
     },
-    [getRemoteToken, isGuestMode, persistGuestState, scheduleBackgroundSync, user]
+    [canSync, fetchRemoteState, getToken, hasPendingOperations, isGuestStorage, updateState]
   );
 
-  const getBalanceSnapshot = () => {
-    const totalExpenses = sumIncluded(state.expenses);
+  const getPendingRestore = useCallback<FinanceContextValue['getPendingRestore']>(async () => {
+    if (isGuestStorage || !canSync) {
+      return null;
+    }
+    try {
+      return await getRestoreStatus(await getToken());
+    } catch (error) {
+      console.error('Erro ao consultar a restauração', error);
+      return null;
+    }
+  }, [canSync, getToken, isGuestStorage]);
+
+  const getBalanceSnapshot = (accountId: string = ALL_ACCOUNTS) => {
+    const totalExpenses = sumIncluded(filterByAccount(state.expenses, accountId));
 
-    const totalIncomes = sumIncluded(state.incomes);
-    const totalInvestments = sumIncluded(state.investments);
+    const totalIncomes = sumIncluded(filterByAccount(state.incomes, accountId));
+    const totalInvestments = sumIncluded(
+      toSignedInvestments(filterByAccount(state.investments, accountId))
+    );
 
     return {
       totalExpenses,
       totalIncomes,
       totalInvestments,
       netBalance: totalIncomes - totalExpenses,
+      accountBalances: computeAccountBalances(state),
     };
   };
 
@@ -830,14 +1405,34 @@ function FinanceProvider({ children }: { children: ReactNode }) {
       addExpense,
       addIncome,
       addInvestment,
+      addTransfer,
+      addValuations,
+      createBackup,
       updateExpense,
       updateIncome,
       updateInvestment,
       deleteExpense,
       deleteIncome,
       deleteInvestment,
+      deleteTransfer,
+      deleteValuation,
       getBalanceSnapshot,
+      getPendingRestore,
+      markNotificationsRead,
+      materializePeriod,
+      mergeCategory,
       removeCategory,
+      removeAttachment,
+      removeNotification,
+      restoreBackup,
+      saveAccounts,
+      saveBudgetAlerts,
+      saveCategoryRules,
+      saveCreditCards,
+      savePositions,
+      saveTaxSettings,
+      updateCategory,
+      uploadAttachment,
     }),
     [
       state,
@@ -846,13 +1441,33 @@ function FinanceProvider({ children }: { children: ReactNode }) {
       addExpense,
       addIncome,
       addInvestment,
+      addTransfer,
+      addValuations,
+      createBackup,
       updateExpense,
       updateIncome,
       updateInvestment,
       deleteExpense,
       deleteIncome,
       deleteInvestment,
+      deleteTransfer,
+      deleteValuation,
+      getPendingRestore,
+      markNotificationsRead,
+      materializePeriod,
+      mergeCategory,
       removeCategory,
+      removeAttachment,
+      removeNotification,
+      restoreBackup,
+      saveAccounts,
+      saveBudgetAlerts,
+      saveCategoryRules,
+      saveCreditCards,
+      savePositions,
+      saveTaxSettings,
+      updateCategory,
+      uploadAttachment,
     ]
   );
 
@@ -870,7 +1485,10 @@ function useFinance() {
 }
 
 export { FinanceProvider, useFinance };
+// Aportes gravados antes de o servidor guardar a categoria chegam sem ela; o rótulo do tipo
+// coincide com as categorias padrão, então as metas vinculadas por categoria voltam a somá-los.
 const normalizeInvestment = (item: Investment): Investment => ({
   ...item,
+  category: item.category || INVESTMENT_TYPE_LABELS[item.type] || '',
   expectedReturn: item.expectedReturn ?? undefined,
 });
@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useRef } from 'react';
+
+import { useFinance } from '../context/FinanceContext';
+import type { CategoryRuleGroup } from '../types/finance';
+import { getCategoryNames } from '../utils/categories';
+import { createCategorySuggester, type CategorizationInput } from '../utils/categorization';
+
+interface UseCategorySuggestionOptions {
+  group: CategoryRuleGroup;
+  input: CategorizationInput;
+  currentCategory: string;
+  enabled: boolean;
+  onApply: (category: string) => void;
+}
+
+/**
+ * Preenche a categoria enquanto o usuário digita. Uma escolha manual nunca é sobrescrita: a
+ * sugestão só substitui um campo vazio ou a própria sugestão aplicada anteriormente.
+ */
+const useCategorySuggestion = ({
+  group,
+  input,
+  currentCategory,
+  enabled,
+  onApply,
+}: UseCategorySuggestionOptions) => {
+  const { categoryRules, categories, expenses, incomes } = useFinance();
+  const autoAppliedRef = useRef<string | null>(null);
+
+  const suggest = useMemo(
+    () =>
+      createCategorySuggester(
+        group,
+        categoryRules,
+        group === 'expenses' ? expenses : incomes,
+        getCategoryNames(categories[group])
+      ),
+    [categories, categoryRules, expenses, group, incomes]
+  );
+
+  const { description, source } = input;
+  const suggestion = useMemo(
+    () => (description.trim() || source?.trim() ? suggest({ description, source }) : null),
+    [description, source, suggest]
+  );
+
+  useEffect(() => {
+    if (!enabled || !suggestion) {
+      return;
+    }
+    if (currentCategory && currentCategory !== autoAppliedRef.current) {
+      return;
+    }
+    autoAppliedRef.current = suggestion.category;
+    if (currentCategory !== suggestion.category) {
+      onApply(suggestion.category);
+    }
+  }, [currentCategory, enabled, onApply, suggestion]);
+
+  return suggestion && suggestion.category === currentCategory ? suggestion : null;
+};
+
+export { useCategorySuggestion };
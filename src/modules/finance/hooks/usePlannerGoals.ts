@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '@modules/auth/services/AuthContext';
+import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
+
+import { getPlanner } from '../services/financeService';
+import type { CategoryGroup } from '../types/finance';
+import type { PlannerDocument, PlannerGoal } from '../types/planner';
+import { renameAllocations } from '../utils/categories';
+
+const PLANNER_STORAGE_PREFIX = 'finance_planner_state';
+
+/** Chave do planner do mês no localStorage, compartilhada com a tela do planner. */
+const getPlannerStorageKey = (year: number, month: number) =>
+  `${PLANNER_STORAGE_PREFIX}_${year}-${String(month).padStart(2, '0')}`;
+
+/** Planner do mês guardado neste navegador, ou `null` se não houver. */
+const readStoredPlanner = (year: number, month: number): PlannerDocument | null => {
+  try {
+    const raw = window.localStorage.getItem(getPlannerStorageKey(year, month));
+    const parsed = raw ? (JSON.parse(raw) as Partial<PlannerDocument> | null) : null;
+    if (!parsed) {
+      return null;
+    }
+    return {
+      allocations: parsed.allocations ?? {},
+      carryOver: parsed.carryOver ?? {},
+      goals: Array.isArray(parsed.goals) ? parsed.goals : [],
+    };
+  } catch (error) {
+    console.warn('[planner] Falha ao ler dados locais', error);
+    return null;
+  }
+};
+
+const readStoredGoals = (year: number, month: number) =>
+  readStoredPlanner(year, month)?.goals ?? [];
+
+/**
+ * Leva para o novo nome, após renomear ou mesclar, o que o planner guarda neste navegador: nos
+ * gastos, os percentuais e saldos por categoria; nos investimentos, as metas vinculadas.
+ */
+const renameStoredPlannerCategory = (group: CategoryGroup, from: string, to: string) => {
+  try {
+    Object.keys(window.localStorage)
+      .filter(key => key.startsWith(PLANNER_STORAGE_PREFIX))
+      .forEach(key => {
+        const parsed = JSON.parse(
+          window.localStorage.getItem(key) ?? 'null'
+        ) as Partial<PlannerDocument> | null;
+        if (!parsed) {
+          return;
+        }
+        const next =
+          group === 'expenses'
+            ? {
+                ...parsed,
+                allocations: renameAllocations(parsed.allocations ?? {}, from, to),
+                carryOver: renameAllocations(parsed.carryOver ?? {}, from, to, Infinity),
+              }
+            : {
+                ...parsed,
+                goals: (parsed.goals ?? []).map(goal =>
+                  goal.link?.type === 'category' && goal.link.value === from
+                    ? { ...goal, link: { ...goal.link, value: to } }
+                    : goal
+                ),
+              };
+        window.localStorage.setItem(key, JSON.stringify(next));
+      });
+  } catch (error) {
+    console.warn('[planner] Falha ao atualizar dados locais', error);
+  }
+};
+
+/** Todos os planners guardados neste navegador, pela chave AAAA-MM do mês. */
+const readStoredPlanners = (): Record<string, PlannerDocument> => {
+  try {
+    return Object.keys(window.localStorage)
+      .filter(key => key.startsWith(`${PLANNER_STORAGE_PREFIX}_`))
+      .reduce<Record<string, PlannerDocument>>((planners, key) => {
+        const periodKey = key.slice(PLANNER_STORAGE_PREFIX.length + 1);
+        const [year, month] = periodKey.split('-').map(Number);
+        const planner = readStoredPlanner(year, month);
+        if (planner) {
+          planners[periodKey] = planner;
+        }
+        return planners;
+      }, {});
+  } catch (error) {
+    console.warn('[planner] Falha ao ler dados locais', error);
+    return {};
+  }
+};
+
+/** Troca os planners deste navegador pelos informados, como na restauração de um backup. */
+const replaceStoredPlanners = (planners: Record<string, PlannerDocument>) => {
+  try {
+    Object.keys(window.localStorage)
+      .filter(key => key.startsWith(`${PLANNER_STORAGE_PREFIX}_`))
+      .forEach(key => window.localStorage.removeItem(key));
+    Object.entries(planners).forEach(([periodKey, planner]) => {
+      window.localStorage.setItem(
+        `${PLANNER_STORAGE_PREFIX}_${periodKey}`,
+        JSON.stringify({
+          allocations: planner.allocations,
+          carryOver: planner.carryOver ?? {},
+          goals: planner.goals,
+        })
+      );
+    });
+  } catch (error) {
+    console.warn('[planner] Falha ao atualizar dados locais', error);
+  }
+};
+
+/** Metas salvas no planner do mês, sem os exemplos que a tela do planner mostra quando vazia. */
+const usePlannerGoals = (year: number, month: number) => {
+  const { user } = useAuth();
+  const isGuestMode = useLocalMode();
+  const [goals, setGoals] = useState<PlannerGoal[]>([]);
+
+  useEffect(() => {
+    if (isGuestMode || !user) {
+      setGoals(readStoredGoals(year, month));
+      return;
+    }
+
+    let active = true;
+    const fetchGoals = async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await getPlanner(token, { year, month });
+        if (active) {
+          setGoals(response?.goals ?? []);
+        }
+      } catch (error) {
+        console.error('[planner] Falha ao carregar dados do usuário', error);
+        if (active) {
+          setGoals(readStoredGoals(year, month));
+        }
+      }
+    };
+    void fetchGoals();
+
+    return () => {
+      active = false;
+    };
+  }, [isGuestMode, month, user, year]);
+
+  return goals;
+};
+
+export {
+  getPlannerStorageKey,
+  readStoredPlanner,
+  readStoredPlanners,
+  renameStoredPlannerCategory,
+  replaceStoredPlanners,
+  usePlannerGoals,
+};
@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+
+import { useFinance } from '../context/FinanceContext';
+
+/** Gera os lançamentos recorrentes que vencem até o período exibido, se ainda faltarem. */
+const useRecurrenceMaterialization = (year: number, month: number) => {
+  const { loading, materializePeriod } = useFinance();
+
+  useEffect(() => {
+    if (!loading) {
+      void materializePeriod(year, month);
+    }
+  }, [loading, materializePeriod, month, year]);
+};
+
+export { useRecurrenceMaterialization };
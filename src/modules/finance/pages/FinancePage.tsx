@@ -4,15 +4,23 @@ import { useNavigate } from 'react-router-dom';
 import { DashboardLayout } from '@core/layout/DashboardLayout';
 
 import { FinanceProvider, useFinance } from '../context/FinanceContext';
+import { AccountsOverview } from '../components/AccountsOverview';
+import { BudgetAlerts } from '../components/BudgetAlerts';
+import { CashFlowForecast } from '../components/CashFlowForecast';
+import { CreditCardInvoices } from '../components/CreditCardInvoices';
+import { DataBackup } from '../components/DataBackup';
 import { ExpenseForm } from '../components/ExpenseForm';
 import { FinanceAssistantWidget } from '../components/FinanceAssistantWidget';
 import { FinanceCharts } from '../components/FinanceCharts';
 import { FinanceSummary } from '../components/FinanceSummary';
 import { IncomeForm } from '../components/IncomeForm';
+import { IncomeTaxReport } from '../components/IncomeTaxReport';
 import { InvestmentForm } from '../components/InvestmentForm';
+import { InvestmentPortfolio } from '../components/InvestmentPortfolio';
 import { InvestmentSimulator } from '../components/InvestmentSimulator';
 import { FinanceSettings } from '../components/FinanceSettings';
 import { FinancePlanner } from '../components/FinancePlanner';
+import { StatementImport } from '../components/StatementImport';
 import styles from './FinancePage.module.css';
 
 const TABS = [
@@ -20,8 +28,13 @@ const TABS = [
   { id: 'expenses', label: 'Gastos' },
   { id: 'incomes', label: 'Receitas' },
   { id: 'investments', label: 'Investimentos' },
+  { id: 'accounts', label: 'Contas' },
+  { id: 'import', label: 'Importar extrato' },
   { id: 'planner', label: 'Planner' },
+  { id: 'alerts', label: 'Avisos' },
+  { id: 'taxes', label: 'Imposto de renda' },
   { id: 'settings', label: 'Configurações' },
+  { id: 'backup', label: 'Backup' },
 ] as const;
 
 type TabId = (typeof TABS)[number]['id'];
@@ -37,30 +50,48 @@ const FinancePage = () => {
 const FinanceDashboard = () => {
   const [activeTab, setActiveTab] = useState<TabId>('overview');
   const navigate = useNavigate();
-  const { loading } = useFinance();
+  const { loading, notifications } = useFinance();
+  const unreadCount = notifications.filter(notification => !notification.read).length;
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'expenses':
-        return <ExpenseForm />;
+        return (
+          <div className={styles.expensesArea}>
+            <ExpenseForm />
+            <CreditCardInvoices />
+          </div>
+        );
       case 'incomes':
         return <IncomeForm />;
       case 'investments':
         return (
           <div className={styles.investmentsArea}>
             <InvestmentForm />
+            <InvestmentPortfolio />
             <InvestmentSimulator />
           </div>
         );
+      case 'accounts':
+        return <AccountsOverview />;
+      case 'import':
+        return <StatementImport />;
       case 'planner':
         return <FinancePlanner />;
+      case 'alerts':
+        return <BudgetAlerts />;
+      case 'taxes':
+        return <IncomeTaxReport />;
       case 'settings':
         return <FinanceSettings />;
+      case 'backup':
+        return <DataBackup />;
       default:
         return (
           <div className={styles.overview}>
             <FinanceSummary />
             <FinanceCharts />
+            <CashFlowForecast />
             <div className={styles.helperCard}>
               <h2>Como usar</h2>
               <p>
@@ -73,6 +104,9 @@ const FinanceDashboard = () => {
                 <li>Cadastre receitas para acompanhar o fluxo de caixa.</li>
                 <li>Registre gastos e associe uma categoria para análises.</li>
                 <li>Controle investimentos e rendimentos esperados.</li>
+                <li>Separe o saldo por conta e registre transferências entre elas.</li>
+                <li>Importe extratos OFX ou CSV do banco para evitar digitação manual.</li>
+                <li>Exporte o período em CSV ou XLSX e guarde backups completos em JSON.</li>
                 <li>Defina metas e distribuições personalizadas de orçamento.</li>
               </ul>
             </div>
@@ -107,7 +141,7 @@ const FinanceDashboard = () => {
                 className={tab.id === activeTab ? styles.activeTab : styles.tabButton}
                 onClick={() => setActiveTab(tab.id)}
               >
-                {tab.label}
+                {tab.id === 'alerts' && unreadCount ? `${tab.label} (${unreadCount})` : tab.label}
               </button>
             ))}
           </nav>
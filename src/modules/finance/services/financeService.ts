@@ -1,19 +1,177 @@
 import { apiRequest } from '@shared/services/apiClient';
+import {
+  createUnsupportedOperationError,
+  type SyncConflictAdapter,
+  type SyncExecutor,
+} from '@shared/services/syncQueue';
 
-import type { CategoriesState, Expense, Income, Investment } from '../types/finance';
+import type {
+  BudgetAlertSetting,
+  CategoriesState,
+  CategoryChanges,
+  CategoryRule,
+  CreditCard,
+  Expense,
+  FinanceAccount,
+  FinanceAttachment,
+  FinanceCategory,
+  FinanceNotification,
+  FinanceRestoreStatus,
+  Income,
+  Investment,
+  PortfolioPosition,
+  RecurrenceRule,
+  SeriesScope,
+  TaxSettings,
+  Transfer,
+  Valuation,
+} from '../types/finance';
 import type { PlannerDocument, PlannerSavePayload } from '../types/planner';
+import type { FinanceBackup } from '../utils/backup';
+import type { RecurrenceConfig, SeriesChange } from '../utils/recurrence';
 
 type FinanceRecord = Expense | Income | Investment;
+type FinanceRecordInput = Omit<Expense, 'id'> | Omit<Income, 'id'> | Omit<Investment, 'id'>;
+type FinanceCollection = 'expenses' | 'incomes' | 'investments';
+/** Coleções com CRUD na API. Transferências e avaliações ficam fora de séries e conflitos. */
+type StoredCollection = FinanceCollection | 'transfers' | 'valuations';
+type StoredRecord = FinanceRecord | Transfer | Valuation;
 
-interface ListResponse<T extends FinanceRecord> {
+interface FinanceRecordOperation {
+  collection: FinanceCollection;
+  record: FinanceRecordInput;
+}
+
+interface TransferOperation {
+  collection: 'transfers';
+  record: Omit<Transfer, 'id'>;
+}
+
+interface ValuationOperation {
+  collection: 'valuations';
+  record: Omit<Valuation, 'id'>;
+}
+
+interface FinanceSeriesOperation extends FinanceRecordOperation {
+  recurrenceId: string;
+  scope: Exclude<SeriesScope, 'single'>;
+  fromIndex: number;
+  total?: number;
+}
+
+interface FinanceRecurrenceOperation extends FinanceRecordOperation {
+  id: string;
+  recurrence: RecurrenceConfig;
+}
+
+/** `category` é o nome nas operações antigas, ainda possíveis na fila de quem estava offline. */
+interface FinanceCategoryOperation {
+  group: keyof CategoriesState;
+  category: FinanceCategory | string;
+}
+
+interface CategoryRemoveOperation {
+  group: keyof CategoriesState;
+  category: string;
+}
+
+interface CategoryUpdateOperation {
+  group: keyof CategoriesState;
+  id: string;
+  changes: CategoryChanges;
+}
+
+interface CategoryMergeOperation {
+  group: keyof CategoriesState;
+  id: string;
+  targetId: string;
+}
+
+interface ListResponse<T extends StoredRecord> {
   items: T[];
   totalAmount: number;
 }
 
+/** Lançamentos criados e, nos gastos, os avisos de orçamento que eles dispararam. */
+interface CreatedRecordsResponse<T extends StoredRecord = StoredRecord> {
+  items: T[];
+  alerts: FinanceNotification[];
+}
+
+interface AttachmentPayload {
+  data: string;
+  contentType: string;
+  fileName?: string;
+}
+
+/** Lista de anexos do registro depois da alteração. */
+interface AttachmentsResponse {
+  attachments: FinanceAttachment[];
+}
+
 interface CategoriesResponse {
   categories: CategoriesState;
 }
 
+/** Categorias atualizadas e o que o servidor regravou com o novo nome. */
+interface CategoryMigrationResponse extends CategoriesResponse {
+  items: FinanceRecord[];
+  rules: RecurrenceRule[];
+}
+
+interface CategoryRulesResponse {
+  rules: CategoryRule[];
+}
+
+interface CreditCardsResponse {
+  cards: CreditCard[];
+}
+
+interface AccountsResponse {
+  accounts: FinanceAccount[];
+}
+
+interface PositionsResponse {
+  positions: PortfolioPosition[];
+}
+
+interface TaxSettingsResponse {
+  taxSettings: TaxSettings;
+}
+
+interface BudgetAlertsResponse {
+  budgetAlerts: BudgetAlertSetting[];
+}
+
+interface NotificationsResponse {
+  items: FinanceNotification[];
+}
+
+interface RecurrencesResponse {
+  rules: RecurrenceRule[];
+}
+
+interface RecurrenceCreatedResponse {
+  rule: RecurrenceRule;
+  items: FinanceRecord[];
+}
+
+interface MaterializedRecurrencesResponse extends RecurrencesResponse {
+  items: Record<FinanceCollection, FinanceRecord[]>;
+}
+
+interface PlannersResponse {
+  planners: Record<string, PlannerDocument>;
+}
+
+interface RestoreResponse {
+  restored: Record<StoredCollection | 'recurrences' | 'planners', number>;
+}
+
+interface RestoreStatusResponse {
+  restore: FinanceRestoreStatus | null;
+}
+
 interface PlannerResponse extends PlannerDocument {
   periodKey: string;
 }
@@ -35,9 +193,9 @@ const withQuery = (path: string, params?: Record<string, string | number | undef
 
 const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
 
-const listRecords = async <T extends FinanceRecord>(
+const listRecords = async <T extends StoredRecord = FinanceRecord>(
   token: string,
-  collection: 'expenses' | 'incomes' | 'investments',
+  collection: StoredCollection,
   params?: { year?: number; month?: number }
 ) => {
   const endpoint = withQuery(`/finance/${collection}`, {
@@ -54,22 +212,22 @@ const listRecords = async <T extends FinanceRecord>(
   };
 };
 
-const createRecord = async <T extends FinanceRecord>(
+const createRecord = async <T extends StoredRecord>(
   token: string,
-  collection: 'expenses' | 'incomes' | 'investments',
+  collection: StoredCollection,
   payload: Omit<T, 'id'>
 ) => {
-  const response = await apiRequest<{ items: T[] }>(`/finance/${collection}`, {
+  const response = await apiRequest<CreatedRecordsResponse<T>>(`/finance/${collection}`, {
     method: 'POST',
     headers: authHeaders(token),
     body: JSON.stringify(payload),
   });
-  return response.items;
+  return { items: response.items, alerts: response.alerts ?? [] };
 };
 
 const updateRecord = async <T extends FinanceRecord>(
   token: string,
-  collection: 'expenses' | 'incomes' | 'investments',
+  collection: FinanceCollection,
   id: string,
   payload: Omit<T, 'id'>
 ) =>
@@ -81,7 +239,7 @@ const updateRecord = async <T extends FinanceRecord>(
 
 const deleteRecord = async (
   token: string,
-  collection: 'expenses' | 'incomes' | 'investments',
+  collection: StoredCollection,
   id: string
 ) =>
   apiRequest<void>(`/finance/${collection}/${id}`, {
@@ -89,6 +247,84 @@ const deleteRecord = async (
     headers: authHeaders(token),
   });
 
+const updateSeriesRemote = async <T extends FinanceRecord>(
+  token: string,
+  collection: FinanceCollection,
+  recurrenceId: string,
+  payload: {
+    scope: Exclude<SeriesScope, 'single'>;
+    fromIndex: number;
+    revision: number;
+    record: FinanceRecordInput;
+    total?: number;
+  }
+) =>
+  apiRequest<SeriesChange<T>>(`/finance/${collection}/series/${recurrenceId}`, {
+    method: 'PATCH',
+    headers: authHeaders(token),
+    body: JSON.stringify(payload),
+  });
+
+const deleteSeriesRemote = async <T extends FinanceRecord>(
+  token: string,
+  collection: FinanceCollection,
+  recurrenceId: string,
+  params: { scope: Exclude<SeriesScope, 'single'>; fromIndex: number }
+) =>
+  apiRequest<SeriesChange<T>>(
+    withQuery(`/finance/${collection}/series/${recurrenceId}`, params),
+    {
+      method: 'DELETE',
+      headers: authHeaders(token),
+    }
+  );
+
+// Uploads não entram na fila offline: o arquivo em base64 pesaria no armazenamento local.
+const uploadAttachmentRemote = (
+  token: string,
+  collection: FinanceCollection,
+  id: string,
+  payload: AttachmentPayload
+) =>
+  apiRequest<AttachmentsResponse>(`/finance/${collection}/${id}/attachments`, {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify(payload),
+  });
+
+const deleteAttachmentRemote = (
+  token: string,
+  collection: FinanceCollection,
+  id: string,
+  attachmentId: string
+) =>
+  apiRequest<AttachmentsResponse>(`/finance/${collection}/${id}/attachments/${attachmentId}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  });
+
+const getRecurrences = async (token: string) => {
+  const response = await apiRequest<RecurrencesResponse | null>('/finance/recurrences', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.rules ?? [];
+};
+
+const createRecurrenceRemote = (token: string, payload: FinanceRecurrenceOperation) =>
+  apiRequest<RecurrenceCreatedResponse>('/finance/recurrences', {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify(payload),
+  });
+
+const materializeRecurrencesRemote = (token: string, period: { year: number; month: number }) =>
+  apiRequest<MaterializedRecurrencesResponse>('/finance/recurrences/materialize', {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify(period),
+  });
+
 const getCategories = async (token: string) => {
   const response = await apiRequest<CategoriesResponse | null>('/finance/categories', {
     method: 'GET',
@@ -97,13 +333,31 @@ const getCategories = async (token: string) => {
   return response?.categories ?? null;
 };
 
-const addCategoryRemote = (token: string, group: keyof CategoriesState, category: string) =>
+const addCategoryRemote = (
+  token: string,
+  group: keyof CategoriesState,
+  category: FinanceCategory | string
+) =>
   apiRequest<void>(`/finance/categories/${group}`, {
     method: 'POST',
     headers: authHeaders(token),
     body: JSON.stringify({ category }),
   });
 
+const updateCategoryRemote = (token: string, { group, id, changes }: CategoryUpdateOperation) =>
+  apiRequest<CategoryMigrationResponse>(`/finance/categories/${group}/${id}`, {
+    method: 'PATCH',
+    headers: authHeaders(token),
+    body: JSON.stringify(changes),
+  });
+
+const mergeCategoryRemote = (token: string, { group, id, targetId }: CategoryMergeOperation) =>
+  apiRequest<CategoryMigrationResponse>(`/finance/categories/${group}/${id}/merge`, {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify({ targetId }),
+  });
+
 const removeCategoryRemote = (
   token: string,
   group: keyof CategoriesState,
@@ -114,6 +368,131 @@ const removeCategoryRemote = (
     headers: authHeaders(token),
   });
 
+const getCategoryRules = async (token: string) => {
+  const response = await apiRequest<CategoryRulesResponse | null>('/finance/category-rules', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.rules ?? [];
+};
+
+const saveCategoryRulesRemote = async (token: string, rules: CategoryRule[]) => {
+  const response = await apiRequest<CategoryRulesResponse>('/finance/category-rules', {
+    method: 'PUT',
+    headers: authHeaders(token),
+    body: JSON.stringify({ rules }),
+  });
+  return response.rules;
+};
+
+const getCreditCards = async (token: string) => {
+  const response = await apiRequest<CreditCardsResponse | null>('/finance/credit-cards', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.cards ?? [];
+};
+
+const saveCreditCardsRemote = async (token: string, cards: CreditCard[]) => {
+  const response = await apiRequest<CreditCardsResponse>('/finance/credit-cards', {
+    method: 'PUT',
+    headers: authHeaders(token),
+    body: JSON.stringify({ cards }),
+  });
+  return response.cards;
+};
+
+const getAccounts = async (token: string) => {
+  const response = await apiRequest<AccountsResponse | null>('/finance/accounts', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.accounts ?? [];
+};
+
+const saveAccountsRemote = async (token: string, accounts: FinanceAccount[]) => {
+  const response = await apiRequest<AccountsResponse>('/finance/accounts', {
+    method: 'PUT',
+    headers: authHeaders(token),
+    body: JSON.stringify({ accounts }),
+  });
+  return response.accounts;
+};
+
+const getPositions = async (token: string) => {
+  const response = await apiRequest<PositionsResponse | null>('/finance/positions', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.positions ?? [];
+};
+
+const savePositionsRemote = async (token: string, positions: PortfolioPosition[]) => {
+  const response = await apiRequest<PositionsResponse>('/finance/positions', {
+    method: 'PUT',
+    headers: authHeaders(token),
+    body: JSON.stringify({ positions }),
+  });
+  return response.positions;
+};
+
+const EMPTY_TAX_SETTINGS: TaxSettings = { deductibleCategories: [], exemptIncomeCategories: [] };
+
+const getTaxSettings = async (token: string) => {
+  const response = await apiRequest<TaxSettingsResponse | null>('/finance/tax-settings', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.taxSettings ?? EMPTY_TAX_SETTINGS;
+};
+
+const saveTaxSettingsRemote = async (token: string, taxSettings: TaxSettings) => {
+  const response = await apiRequest<TaxSettingsResponse>('/finance/tax-settings', {
+    method: 'PUT',
+    headers: authHeaders(token),
+    body: JSON.stringify({ taxSettings }),
+  });
+  return response.taxSettings;
+};
+
+const getBudgetAlerts = async (token: string) => {
+  const response = await apiRequest<BudgetAlertsResponse | null>('/finance/budget-alerts', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.budgetAlerts ?? [];
+};
+
+const saveBudgetAlertsRemote = async (token: string, budgetAlerts: BudgetAlertSetting[]) => {
+  const response = await apiRequest<BudgetAlertsResponse>('/finance/budget-alerts', {
+    method: 'PUT',
+    headers: authHeaders(token),
+    body: JSON.stringify({ budgetAlerts }),
+  });
+  return response.budgetAlerts;
+};
+
+const getNotifications = async (token: string) => {
+  const response = await apiRequest<NotificationsResponse | null>('/finance/notifications', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.items ?? [];
+};
+
+const markNotificationsReadRemote = (token: string, ids: string[]) =>
+  apiRequest<void>('/finance/notifications/read', {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify({ ids }),
+  });
+
+const deleteNotificationRemote = (token: string, id: string) =>
+  apiRequest<void>(`/finance/notifications/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  });
+
 const getPlanner = async (token: string, params: { year: number; month: number }) =>
   apiRequest<PlannerResponse | null>(
     withQuery('/finance/planner', {
@@ -133,14 +512,249 @@ const savePlanner = (token: string, payload: PlannerSavePayload) =>
     body: JSON.stringify(payload),
   });
 
+/** Planners de todos os meses, pela chave AAAA-MM, para o backup completo. */
+const getPlanners = async (token: string) => {
+  const response = await apiRequest<PlannersResponse | null>('/finance/planners', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.planners ?? {};
+};
+
+/** Substitui todos os dados financeiros do usuário pelos do backup, validado antes no servidor. */
+const restoreBackupRemote = (token: string, backup: FinanceBackup) =>
+  apiRequest<RestoreResponse>('/finance/restore', {
+    method: 'POST',
+    headers: authHeaders(token),
+    body: JSON.stringify(backup),
+  });
+
+/** Restauração que começou e não terminou, se houver. */
+const getRestoreStatus = async (token: string) => {
+  const response = await apiRequest<RestoreStatusResponse | null>('/finance/restore', {
+    method: 'GET',
+    headers: authHeaders(token),
+  });
+  return response?.restore ?? null;
+};
+
+const FINANCE_SYNC_SCOPE = 'finance';
+const FINANCE_GUEST_STORAGE_KEY = 'guest_finance_state';
+
+const executeFinanceOperation: SyncExecutor = async (operation, token) => {
+  const id = operation.entityId ?? '';
+  switch (operation.type) {
+    case 'create': {
+      const { collection, record } = operation.payload as
+        | FinanceRecordOperation
+        | TransferOperation
+        | ValuationOperation;
+      const created = await createRecord<StoredRecord>(token, collection, record);
+      return { entityId: created.items[0]?.id, data: created };
+    }
+    case 'update': {
+      const { collection, record } = operation.payload as FinanceRecordOperation;
+      const updated = await updateRecord<FinanceRecord>(token, collection, id, {
+        ...record,
+        revision: operation.revision ?? 0,
+      });
+      return { revision: updated.revision, data: updated };
+    }
+    case 'delete':
+      await deleteRecord(
+        token,
+        (
+          operation.payload as Pick<
+            FinanceRecordOperation | TransferOperation | ValuationOperation,
+            'collection'
+          >
+        ).collection,
+        id
+      );
+      return;
+    case 'updateSeries': {
+      const { collection, recurrenceId, scope, fromIndex, record, total } =
+        operation.payload as FinanceSeriesOperation;
+      const change = await updateSeriesRemote<FinanceRecord>(token, collection, recurrenceId, {
+        scope,
+        fromIndex,
+        record,
+        total,
+        revision: operation.revision ?? 0,
+      });
+      return {
+        revision: change.items.find(item => item.id === id)?.revision,
+        data: change,
+      };
+    }
+    case 'deleteSeries': {
+      const { collection, recurrenceId, scope, fromIndex } =
+        operation.payload as Omit<FinanceSeriesOperation, 'record'>;
+      return {
+        data: await deleteSeriesRemote(token, collection, recurrenceId, { scope, fromIndex }),
+      };
+    }
+    case 'createRecurrence': {
+      const created = await createRecurrenceRemote(
+        token,
+        operation.payload as FinanceRecurrenceOperation
+      );
+      return { entityId: created.rule.id, data: created };
+    }
+    case 'materializeRecurrences': {
+      const period = operation.payload as { year: number; month: number };
+      return { data: await materializeRecurrencesRemote(token, period) };
+    }
+    case 'addCategory': {
+      const { group, category } = operation.payload as FinanceCategoryOperation;
+      await addCategoryRemote(token, group, category);
+      return;
+    }
+    case 'updateCategory':
+      return {
+        data: await updateCategoryRemote(token, operation.payload as CategoryUpdateOperation),
+      };
+    case 'mergeCategory':
+      return {
+        data: await mergeCategoryRemote(token, operation.payload as CategoryMergeOperation),
+      };
+    case 'removeCategory': {
+      const { group, category } = operation.payload as CategoryRemoveOperation;
+      await removeCategoryRemote(token, group, category);
+      return;
+    }
+    case 'saveCategoryRules': {
+      const { rules } = operation.payload as CategoryRulesResponse;
+      return { data: await saveCategoryRulesRemote(token, rules) };
+    }
+    case 'saveCreditCards': {
+      const { cards } = operation.payload as CreditCardsResponse;
+      return { data: await saveCreditCardsRemote(token, cards) };
+    }
+    case 'saveAccounts': {
+      const { accounts } = operation.payload as AccountsResponse;
+      return { data: await saveAccountsRemote(token, accounts) };
+    }
+    case 'savePositions': {
+      const { positions } = operation.payload as PositionsResponse;
+      return { data: await savePositionsRemote(token, positions) };
+    }
+    case 'saveTaxSettings': {
+      const { taxSettings } = operation.payload as TaxSettingsResponse;
+      return { data: await saveTaxSettingsRemote(token, taxSettings) };
+    }
+    case 'saveBudgetAlerts': {
+      const { budgetAlerts } = operation.payload as BudgetAlertsResponse;
+      return { data: await saveBudgetAlertsRemote(token, budgetAlerts) };
+    }
+    case 'markNotificationsRead': {
+      const { ids } = operation.payload as { ids: string[] };
+      await markNotificationsReadRemote(token, ids);
+      return;
+    }
+    case 'deleteNotification': {
+      const { id: notificationId } = operation.payload as { id: string };
+      await deleteNotificationRemote(token, notificationId);
+      return;
+    }
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
+const CONFLICT_FIELDS: Record<FinanceCollection, Record<string, string>> = {
+  expenses: {
+    description: 'Descrição',
+    category: 'Categoria',
+    paymentMethod: 'Forma de pagamento',
+    cardId: 'Cartão',
+    accountId: 'Conta',
+    amount: 'Valor',
+    date: 'Data',
+    excludeFromTotals: 'Fora dos totais',
+  },
+  incomes: {
+    source: 'Fonte',
+    description: 'Descrição',
+    category: 'Categoria',
+    accountId: 'Conta',
+    amount: 'Valor',
+    date: 'Data',
+    excludeFromTotals: 'Fora dos totais',
+  },
+  investments: {
+    description: 'Descrição',
+    institution: 'Instituição',
+    type: 'Tipo',
+    category: 'Categoria',
+    amount: 'Valor',
+    expectedReturn: 'Retorno esperado',
+    accountId: 'Conta',
+    positionId: 'Posição',
+    movement: 'Movimentação',
+    date: 'Data',
+    excludeFromTotals: 'Fora dos totais',
+  },
+};
+
+const financeConflictAdapter: SyncConflictAdapter = {
+  getFields: operation =>
+    CONFLICT_FIELDS[(operation.payload as FinanceRecordOperation).collection] ?? {},
+  getLocalValues: operation => ({ ...(operation.payload as FinanceRecordOperation).record }),
+  applyValues: (operation, values) => {
+    const payload = operation.payload as FinanceRecordOperation;
+    return { ...payload, record: { ...payload.record, ...values } };
+  },
+};
+
+export type {
+  CategoryMigrationResponse,
+  CreatedRecordsResponse,
+  FinanceCollection,
+  FinanceRecordInput,
+  MaterializedRecurrencesResponse,
+  RecurrenceCreatedResponse,
+};
 export {
+  EMPTY_TAX_SETTINGS,
+  FINANCE_GUEST_STORAGE_KEY,
+  FINANCE_SYNC_SCOPE,
   addCategoryRemote,
   createRecord,
+  createRecurrenceRemote,
+  deleteAttachmentRemote,
+  deleteNotificationRemote,
   deleteRecord,
+  deleteSeriesRemote,
+  executeFinanceOperation,
+  financeConflictAdapter,
+  getAccounts,
+  getBudgetAlerts,
   getCategories,
+  getCategoryRules,
+  getCreditCards,
+  getNotifications,
   getPlanner,
+  getPlanners,
+  getPositions,
+  getRecurrences,
+  getRestoreStatus,
+  getTaxSettings,
   listRecords,
+  markNotificationsReadRemote,
+  materializeRecurrencesRemote,
+  mergeCategoryRemote,
   removeCategoryRemote,
+  restoreBackupRemote,
+  saveAccountsRemote,
+  saveBudgetAlertsRemote,
+  saveCategoryRulesRemote,
+  saveCreditCardsRemote,
   savePlanner,
+  savePositionsRemote,
+  saveTaxSettingsRemote,
+  updateCategoryRemote,
   updateRecord,
+  updateSeriesRemote,
+  uploadAttachmentRemote,
 };
@@ -1,3 +1,17 @@
+import type { FinanceBackup } from '../utils/backup';
+import type { RecurrenceConfig, RecurrenceFrequency } from '../utils/recurrence';
+
+/** Comprovante guardado no Storage; o envio e a remoção passam pela API. */
+export interface FinanceAttachment {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  path: string;
+  url: string;
+  uploadedAt: string;
+}
+
 interface BaseRecord {
   id: string;
   description: string;
@@ -8,35 +22,208 @@ interface BaseRecord {
   recurrenceIndex?: number | null;
   recurrenceTotal?: number | null;
   excludeFromTotals?: boolean;
+  /** Conta ou carteira que recebe ou paga o lançamento. */
+  accountId?: string | null;
+  attachments?: FinanceAttachment[];
+  revision?: number;
 }
 
 export interface Expense extends BaseRecord {
   paymentMethod: 'dinheiro' | 'debito' | 'credito' | 'pix' | 'boleto' | 'outro';
+  /** Cartão cuja fatura paga a compra; apenas para `credito`. */
+  cardId?: string | null;
 }
 
 export interface Income extends BaseRecord {
   source: string;
 }
 
+export type InvestmentMovement = 'aporte' | 'resgate';
+
 export interface Investment extends BaseRecord {
   type: 'renda_fixa' | 'renda_variavel' | 'fundo' | 'poupanca' | 'outro';
   institution: string;
   expectedReturn?: number;
+  /** Posição da carteira que recebe o aporte ou de onde sai o resgate. */
+  positionId?: string | null;
+  /** Ausente nos registros antigos, que são sempre aportes. */
+  movement?: InvestmentMovement;
 }
 
 export type CategoryGroup = 'expenses' | 'incomes' | 'investments';
 
-export type CategoriesState = Record<CategoryGroup, string[]>;
+/**
+ * Categoria com ID estável. Os lançamentos guardam o nome, por isso renomear e mesclar regravam
+ * os registros; subcategorias têm apenas um nível.
+ */
+export interface FinanceCategory {
+  id: string;
+  name: string;
+  parentId: string | null;
+  color: string;
+  /** Emoji exibido ao lado do nome; vazio quando não definido. */
+  icon: string;
+}
+
+export type CategoriesState = Record<CategoryGroup, FinanceCategory[]>;
+
+export type CategoryChanges = Partial<Omit<FinanceCategory, 'id'>>;
+
+export type CategoryRuleGroup = Exclude<CategoryGroup, 'investments'>;
+
+export type CategoryRuleField = 'description' | 'source';
+
+export type CategoryRuleOperator = 'contains' | 'equals' | 'startsWith';
+
+export interface CategoryRule {
+  id: string;
+  group: CategoryRuleGroup;
+  field: CategoryRuleField;
+  operator: CategoryRuleOperator;
+  value: string;
+  category: string;
+}
+
+export interface CreditCard {
+  id: string;
+  name: string;
+  closingDay: number;
+  dueDay: number;
+}
+
+export type AccountType = 'corrente' | 'poupanca' | 'carteira' | 'corretora' | 'outro';
+
+export interface FinanceAccount {
+  id: string;
+  name: string;
+  type: AccountType;
+  /** Saldo da conta antes do primeiro lançamento registrado. */
+  initialBalance: number;
+}
+
+/** Movimentação entre duas contas; não conta como receita nem como gasto. */
+export interface Transfer {
+  id: string;
+  description: string;
+  amount: number;
+  date: string;
+  fromAccountId: string;
+  toAccountId: string;
+  notes?: string;
+  revision?: number;
+}
+
+export interface AccountBalance {
+  account: FinanceAccount;
+  balance: number;
+  inflows: number;
+  outflows: number;
+}
+
+/** Ativo ou aplicação acompanhada na carteira, agregando aportes, resgates e avaliações. */
+export interface PortfolioPosition {
+  id: string;
+  name: string;
+  institution: string;
+  type: Investment['type'];
+}
+
+/** Valor de mercado de uma posição numa data, informado manualmente ou importado de CSV. */
+export interface Valuation {
+  id: string;
+  positionId: string;
+  marketValue: number;
+  date: string;
+  notes?: string;
+  revision?: number;
+}
+
+export type TaxDeductionKind = 'saude' | 'educacao' | 'previdencia';
+
+/** Marcações usadas no relatório do IRPF: gastos dedutíveis e receitas isentas por categoria. */
+export interface TaxSettings {
+  deductibleCategories: Array<{ category: string; kind: TaxDeductionKind }>;
+  exemptIncomeCategories: string[];
+}
+
+/** Percentuais do planejado no planner que disparam aviso; lista vazia desliga a categoria. */
+export interface BudgetAlertSetting {
+  category: string;
+  thresholds: number[];
+}
+
+/** Aviso da caixa de entrada. O ID vem do mês, da categoria e do limite atingido. */
+export interface FinanceNotification {
+  id: string;
+  kind: 'budget';
+  title: string;
+  message: string;
+  category: string;
+  monthKey: string;
+  threshold: number;
+  read: boolean;
+  createdAt: string;
+}
+
+export type RecurrenceTemplate =
+  | Omit<Expense, 'id' | 'date'>
+  | Omit<Income, 'id' | 'date'>
+  | Omit<Investment, 'id' | 'date'>;
+
+/** Regra que gera os lançamentos de uma série conforme os períodos são consultados. */
+export interface RecurrenceRule {
+  id: string;
+  collection: CategoryGroup;
+  frequency: Exclude<RecurrenceFrequency, 'none'>;
+  /** `null` quando a recorrência não tem data de término. */
+  occurrences: number | null;
+  businessDay: number | null;
+  startDate: string;
+  /** Quantas ocorrências já viraram lançamentos. */
+  materializedCount: number;
+  template: RecurrenceTemplate;
+}
 
 export interface FinanceState {
   expenses: Expense[];
   incomes: Income[];
   investments: Investment[];
   categories: CategoriesState;
+  categoryRules: CategoryRule[];
+  creditCards: CreditCard[];
+  recurrences: RecurrenceRule[];
+  accounts: FinanceAccount[];
+  transfers: Transfer[];
+  positions: PortfolioPosition[];
+  valuations: Valuation[];
+  taxSettings: TaxSettings;
+  budgetAlerts: BudgetAlertSetting[];
+  notifications: FinanceNotification[];
+}
+
+/** Restauração que parou no meio; restaurar o mesmo arquivo de novo conclui o que falta. */
+export interface FinanceRestoreStatus {
+  startedAt: string;
+  /** Data de geração do backup que estava sendo restaurado. */
+  exportedAt: string;
+  completedSteps: string[];
+  pendingSteps: string[];
 }
 
 export interface FinanceActionOptions {
   silent?: boolean;
+  /** Cria uma regra de recorrência em vez de um lançamento único. */
+  recurrence?: RecurrenceConfig;
+  /** Divide uma compra no cartão em parcelas mensais, todas gravadas na mesma requisição. */
+  installments?: number;
+}
+
+export type SeriesScope = 'single' | 'following' | 'all';
+
+export interface SeriesEditOptions {
+  scope: SeriesScope;
+  /** Nova quantidade de lançamentos da série; omitido, mantém o tamanho atual. */
+  total?: number;
 }
 
 export interface FinanceContextValue extends FinanceState {
@@ -44,18 +231,58 @@ export interface FinanceContextValue extends FinanceState {
   addExpense: (expense: Omit<Expense, 'id'>, options?: FinanceActionOptions) => Promise<void>;
   addIncome: (income: Omit<Income, 'id'>, options?: FinanceActionOptions) => Promise<void>;
   addInvestment: (investment: Omit<Investment, 'id'>, options?: FinanceActionOptions) => Promise<void>;
-  updateExpense: (id: string, expense: Omit<Expense, 'id'>) => Promise<void>;
-  updateIncome: (id: string, income: Omit<Income, 'id'>) => Promise<void>;
-  updateInvestment: (id: string, investment: Omit<Investment, 'id'>) => Promise<void>;
-  deleteExpense: (id: string) => Promise<void>;
-  deleteIncome: (id: string) => Promise<void>;
-  deleteInvestment: (id: string) => Promise<void>;
-  addCategory: (group: CategoryGroup, category: string) => Promise<void>;
-  removeCategory: (group: CategoryGroup, category: string) => Promise<void>;
-  getBalanceSnapshot: () => {
+  updateExpense: (
+    id: string,
+    expense: Omit<Expense, 'id'>,
+    options?: SeriesEditOptions
+  ) => Promise<void>;
+  updateIncome: (
+    id: string,
+    income: Omit<Income, 'id'>,
+    options?: SeriesEditOptions
+  ) => Promise<void>;
+  updateInvestment: (
+    id: string,
+    investment: Omit<Investment, 'id'>,
+    options?: SeriesEditOptions
+  ) => Promise<void>;
+  deleteExpense: (id: string, scope?: SeriesScope) => Promise<void>;
+  deleteIncome: (id: string, scope?: SeriesScope) => Promise<void>;
+  deleteInvestment: (id: string, scope?: SeriesScope) => Promise<void>;
+  uploadAttachment: (collection: CategoryGroup, id: string, file: File) => Promise<void>;
+  removeAttachment: (collection: CategoryGroup, id: string, attachmentId: string) => Promise<void>;
+  addCategory: (group: CategoryGroup, category: Omit<FinanceCategory, 'id'>) => Promise<void>;
+  updateCategory: (group: CategoryGroup, id: string, changes: CategoryChanges) => Promise<void>;
+  mergeCategory: (group: CategoryGroup, id: string, targetId: string) => Promise<void>;
+  removeCategory: (group: CategoryGroup, id: string) => Promise<void>;
+  saveCategoryRules: (rules: CategoryRule[]) => Promise<void>;
+  saveCreditCards: (cards: CreditCard[]) => Promise<void>;
+  saveAccounts: (accounts: FinanceAccount[]) => Promise<void>;
+  addTransfer: (transfer: Omit<Transfer, 'id'>) => Promise<void>;
+  deleteTransfer: (id: string) => Promise<void>;
+  savePositions: (positions: PortfolioPosition[]) => Promise<void>;
+  addValuations: (valuations: Array<Omit<Valuation, 'id'>>) => Promise<void>;
+  deleteValuation: (id: string) => Promise<void>;
+  saveTaxSettings: (taxSettings: TaxSettings) => Promise<void>;
+  saveBudgetAlerts: (budgetAlerts: BudgetAlertSetting[]) => Promise<void>;
+  markNotificationsRead: (ids: string[]) => Promise<void>;
+  removeNotification: (id: string) => Promise<void>;
+  materializePeriod: (year: number, month: number) => Promise<void>;
+  /**
+   * Foto completa dos dados, com os planners de todos os meses, pronta para virar JSON; resolve
+   * `null` se os planners do servidor não puderem ser lidos.
+   */
+  createBackup: () => Promise<FinanceBackup | null>;
+  /** Substitui os dados pelos do backup; resolve `false` se a restauração não aconteceu. */
+  restoreBackup: (backup: FinanceBackup) => Promise<boolean>;
+  /** Restauração interrompida no servidor; `null` se não houver nenhuma ou sem conexão. */
+  getPendingRestore: () => Promise<FinanceRestoreStatus | null>;
+  /** Totais de todas as contas ou, com `accountId`, apenas dos lançamentos daquela conta. */
+  getBalanceSnapshot: (accountId?: string) => {
     totalExpenses: number;
     totalIncomes: number;
     totalInvestments: number;
     netBalance: number;
+    accountBalances: AccountBalance[];
   };
 }
@@ -1,14 +1,27 @@
 export type PlannerAllocations = Record<string, number>;
 
+/** Saldo não gasto que cada categoria trouxe do mês anterior, em reais. */
+export type PlannerCarryOver = Record<string, number>;
+
+/** Posição da carteira (pelo ID) ou categoria de investimento (pelo nome) que acumula a meta. */
+export interface PlannerGoalLink {
+  type: 'position' | 'category';
+  value: string;
+}
+
 export interface PlannerGoal {
   id: string;
   label: string;
   amount: number;
   monthlyReserve: number;
+  /** Mês (AAAA-MM) em que a meta deve estar completa. */
+  targetDate?: string | null;
+  link?: PlannerGoalLink | null;
 }
 
 export interface PlannerDocument {
   allocations: PlannerAllocations;
+  carryOver?: PlannerCarryOver;
   goals: PlannerGoal[];
   updatedAt?: string;
 }
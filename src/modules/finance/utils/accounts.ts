@@ -0,0 +1,88 @@
+import type {
+  AccountBalance,
+  AccountType,
+  FinanceAccount,
+  FinanceState,
+  Transfer,
+} from '../types/finance';
+import { buildCardsById, resolveExpenseDate } from './creditCard';
+import { getSignedInvestmentAmount } from './portfolio';
+
+export const ACCOUNT_TYPE_OPTIONS: Array<{ value: AccountType; label: string }> = [
+  { value: 'corrente', label: 'Conta corrente' },
+  { value: 'poupanca', label: 'Poupança' },
+  { value: 'carteira', label: 'Dinheiro em espécie' },
+  { value: 'corretora', label: 'Corretora' },
+  { value: 'outro', label: 'Outra' },
+];
+
+/** Valor do filtro que considera os lançamentos de todas as contas. */
+export const ALL_ACCOUNTS = 'all';
+
+export const formatAccountType = (type: AccountType) =>
+  ACCOUNT_TYPE_OPTIONS.find(option => option.value === type)?.label ?? 'Outra';
+
+export const formatAccountName = (accounts: FinanceAccount[], accountId?: string | null) =>
+  accounts.find(account => account.id === accountId)?.name ?? 'Conta removida';
+
+export const filterByAccount = <T extends { accountId?: string | null }>(
+  items: T[],
+  accountId: string
+) => (accountId === ALL_ACCOUNTS ? items : items.filter(item => item.accountId === accountId));
+
+export const filterTransfersByAccount = (transfers: Transfer[], accountId: string) =>
+  accountId === ALL_ACCOUNTS
+    ? transfers
+    : transfers.filter(
+        transfer => transfer.fromAccountId === accountId || transfer.toAccountId === accountId
+      );
+
+type BalanceSource = Pick<
+  FinanceState,
+  'accounts' | 'expenses' | 'incomes' | 'investments' | 'transfers' | 'creditCards'
+>;
+
+/**
+ * Saldo de cada conta até `until` (inclusive). O saldo segue o dinheiro que de fato saiu ou
+ * entrou: compras no crédito pesam na data de vencimento da fatura, aportes saem da conta que
+ * os pagou, resgates voltam para ela e lançamentos fora dos totais continuam contando, já que
+ * movimentaram a conta.
+ */
+export const computeAccountBalances = (source: BalanceSource, until?: string): AccountBalance[] => {
+  const balances = new Map<string, AccountBalance>(
+    source.accounts.map(account => [
+      account.id,
+      { account, balance: account.initialBalance, inflows: 0, outflows: 0 },
+    ])
+  );
+  const cardsById = buildCardsById(source.creditCards);
+  const move = (accountId: string | null | undefined, date: string, amount: number) => {
+    const entry = accountId ? balances.get(accountId) : undefined;
+    if (!entry || (until && date > until)) {
+      return;
+    }
+    entry.balance += amount;
+    if (amount >= 0) {
+      entry.inflows += amount;
+    } else {
+      entry.outflows -= amount;
+    }
+  };
+
+  source.incomes.forEach(income => move(income.accountId, income.date, income.amount));
+  source.expenses.forEach(expense =>
+    move(expense.accountId, resolveExpenseDate(expense, 'cash', cardsById), -expense.amount)
+  );
+  source.investments.forEach(investment =>
+    move(investment.accountId, investment.date, -getSignedInvestmentAmount(investment))
+  );
+  source.transfers.forEach(transfer => {
+    move(transfer.fromAccountId, transfer.date, -transfer.amount);
+    move(transfer.toAccountId, transfer.date, transfer.amount);
+  });
+
+  return Array.from(balances.values()).map(entry => ({
+    ...entry,
+    balance: Number(entry.balance.toFixed(2)),
+  }));
+};
@@ -0,0 +1,34 @@
+import type { FinanceAttachment } from '../types/finance';
+
+/** Mesmos limites que o servidor aplica em `/finance/:collection/:id/attachments`. */
+export const ATTACHMENT_MAX_SIZE = 4 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+];
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(',');
+
+export const isImageAttachment = (attachment: Pick<FinanceAttachment, 'contentType'>) =>
+  attachment.contentType.startsWith('image/');
+
+/** Mensagem de erro para arquivos que o servidor recusaria, ou `null` quando pode enviar. */
+export const validateAttachmentFile = (file: File, currentCount: number) => {
+  if (currentCount >= MAX_ATTACHMENTS) {
+    return `Cada registro aceita até ${MAX_ATTACHMENTS} anexos.`;
+  }
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return 'Envie imagens JPG, PNG ou WEBP ou arquivos PDF.';
+  }
+  if (file.size > ATTACHMENT_MAX_SIZE) {
+    return 'Escolha um arquivo de até 4MB.';
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
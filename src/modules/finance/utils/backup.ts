@@ -0,0 +1,470 @@
+import { z } from 'zod';
+
+import type { FinanceState } from '../types/finance';
+import type { PlannerDocument } from '../types/planner';
+import { parseBudgetThresholds } from './budgetAlerts';
+import { normalizeCategoryList } from './categories';
+import { MAX_BUSINESS_DAY, MAX_RECURRENCE_OCCURRENCES, RECURRENCE_VALUES } from './recurrence';
+
+/** Aumente ao mudar o formato; o servidor recusa versões que não conhece. */
+export const FINANCE_BACKUP_VERSION = 1;
+export const FINANCE_BACKUP_FORMAT = 'financas-backup';
+
+export interface FinanceBackup {
+  format: typeof FINANCE_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Os avisos ficam de fora da restauração: são gerados de novo pelos próximos lançamentos. */
+  state: FinanceState;
+  /** Planner de cada mês pela chave AAAA-MM. */
+  planners: Record<string, PlannerDocument>;
+}
+
+export interface BackupSectionDiff {
+  key: string;
+  label: string;
+  current: number;
+  incoming: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const list = <T extends z.ZodTypeAny>(item: T) => z.array(item).default([]);
+
+/** Lista das configurações: como no servidor, itens incompletos são descartados sem erro. */
+const validItems = <Output>(item: z.ZodType<Output, z.ZodTypeDef, unknown>) =>
+  z
+    .array(z.unknown())
+    .default([])
+    .transform(items =>
+      items.flatMap(value => {
+        const result = item.safeParse(value);
+        return result.success ? [result.data] : [];
+      })
+    );
+
+const text = z.string().trim();
+const requiredText = text.min(1);
+const date = z.string().regex(DATE_PATTERN);
+const id = requiredText.refine(value => !value.includes('/'));
+const optionalId = z.string().nullish().catch(null);
+const positiveInteger = z.number().int().positive();
+
+const templateFields = {
+  description: requiredText,
+  amount: z.number().finite().nonnegative(),
+  category: requiredText,
+  excludeFromTotals: z.boolean().optional(),
+  accountId: optionalId,
+  notes: text.optional(),
+};
+
+const expenseTemplateSchema = z.object({
+  ...templateFields,
+  paymentMethod: z.enum(['dinheiro', 'debito', 'credito', 'pix', 'boleto', 'outro']),
+  cardId: optionalId,
+});
+
+const incomeTemplateSchema = z.object({ ...templateFields, source: requiredText });
+
+const investmentTemplateSchema = z.object({
+  ...templateFields,
+  type: z.enum(['renda_fixa', 'renda_variavel', 'fundo', 'poupanca', 'outro']),
+  institution: requiredText,
+  expectedReturn: z
+    .number()
+    .finite()
+    .nullish()
+    .transform(value => value ?? undefined),
+  positionId: optionalId,
+  movement: z.enum(['aporte', 'resgate']).optional(),
+});
+
+// `createdAt` segue para o servidor, que mantém a data de criação original.
+const recordFields = {
+  id,
+  date,
+  createdAt: z.string().optional(),
+  revision: z.number().optional(),
+};
+
+const recurrenceLinkFields = {
+  recurrenceId: optionalId,
+  recurrenceIndex: positiveInteger.nullish().catch(null),
+  recurrenceTotal: positiveInteger.nullish().catch(null),
+};
+
+type RecurrenceLink = { recurrenceId?: string | null; recurrenceIndex?: number | null };
+
+// Como no servidor, um vínculo incompleto com a série é descartado em vez de recusar o item.
+const withRecurrenceLink = <T extends RecurrenceLink>(record: T) =>
+  record.recurrenceId && record.recurrenceIndex
+    ? record
+    : { ...record, recurrenceId: null, recurrenceIndex: null, recurrenceTotal: null };
+
+const expenseSchema = expenseTemplateSchema
+  .extend({ ...recordFields, ...recurrenceLinkFields })
+  .transform(withRecurrenceLink);
+
+const incomeSchema = incomeTemplateSchema
+  .extend({ ...recordFields, ...recurrenceLinkFields })
+  .transform(withRecurrenceLink);
+
+const investmentSchema = investmentTemplateSchema
+  .extend({ ...recordFields, ...recurrenceLinkFields })
+  .transform(withRecurrenceLink);
+
+const recurrenceFields = {
+  id,
+  frequency: z.enum(RECURRENCE_VALUES).exclude(['none']),
+  occurrences: z.number().int().min(1).max(MAX_RECURRENCE_OCCURRENCES).nullable().default(null),
+  businessDay: z.number().int().min(1).max(MAX_BUSINESS_DAY).nullable().default(null),
+  startDate: date,
+  materializedCount: z.number().int().nonnegative().default(0),
+};
+
+const recurrenceSchema = z
+  .discriminatedUnion('collection', [
+    z.object({
+      ...recurrenceFields,
+      collection: z.literal('expenses'),
+      template: expenseTemplateSchema,
+    }),
+    z.object({
+      ...recurrenceFields,
+      collection: z.literal('incomes'),
+      template: incomeTemplateSchema,
+    }),
+    z.object({
+      ...recurrenceFields,
+      collection: z.literal('investments'),
+      template: investmentTemplateSchema,
+    }),
+  ])
+  .refine(rule => rule.frequency !== 'business_day' || rule.businessDay !== null, {
+    path: ['businessDay'],
+  })
+  .transform(rule => ({
+    ...rule,
+    materializedCount: Math.min(rule.materializedCount, rule.occurrences ?? Infinity),
+  }));
+
+const categorySchema = z.union([
+  requiredText,
+  z.object({
+    id: text.optional(),
+    name: requiredText,
+    parentId: z.string().nullish(),
+    color: z.string().optional(),
+    icon: z.string().optional(),
+  }),
+]);
+
+const categoryRuleSchema = z
+  .object({
+    id,
+    group: z.enum(['expenses', 'incomes']),
+    field: z.enum(['description', 'source']),
+    operator: z.enum(['contains', 'equals', 'startsWith']),
+    value: requiredText,
+    category: requiredText,
+  })
+  .refine(rule => rule.field === 'description' || rule.group === 'incomes');
+
+const cardDay = z.number().int().min(1).max(31);
+
+const stateSchema = z.object({
+  expenses: list(expenseSchema),
+  incomes: list(incomeSchema),
+  investments: list(investmentSchema),
+  categories: z
+    .object({
+      expenses: validItems(categorySchema),
+      incomes: validItems(categorySchema),
+      investments: validItems(categorySchema),
+    })
+    .optional(),
+  categoryRules: validItems(categoryRuleSchema),
+  creditCards: validItems(
+    z.object({ id, name: requiredText, closingDay: cardDay, dueDay: cardDay })
+  ),
+  recurrences: list(recurrenceSchema),
+  accounts: validItems(
+    z.object({
+      id,
+      name: requiredText,
+      type: z.enum(['corrente', 'poupanca', 'carteira', 'corretora', 'outro']),
+      initialBalance: z.number().finite().default(0),
+    })
+  ),
+  transfers: list(
+    z
+      .object({
+        ...recordFields,
+        description: requiredText.catch('Transferência'),
+        amount: z.number().finite().positive(),
+        fromAccountId: requiredText,
+        toAccountId: requiredText,
+        notes: text.optional(),
+      })
+      .refine(transfer => transfer.fromAccountId !== transfer.toAccountId, {
+        path: ['toAccountId'],
+      })
+  ),
+  positions: validItems(
+    z.object({
+      id,
+      name: requiredText,
+      institution: text.default(''),
+      type: investmentTemplateSchema.shape.type,
+    })
+  ),
+  valuations: list(
+    z.object({
+      ...recordFields,
+      positionId: requiredText,
+      marketValue: z.number().finite().nonnegative(),
+      notes: text.optional(),
+    })
+  ),
+  taxSettings: z
+    .object({
+      deductibleCategories: validItems(
+        z.object({ category: requiredText, kind: z.enum(['saude', 'educacao', 'previdencia']) })
+      ),
+      exemptIncomeCategories: validItems(requiredText),
+    })
+    .default({}),
+  budgetAlerts: validItems(
+    z.object({
+      category: requiredText,
+      thresholds: z.array(z.number()).transform(values => parseBudgetThresholds(values.join(' '))),
+    })
+  ),
+});
+
+const ID_SECTIONS = [
+  'expenses',
+  'incomes',
+  'investments',
+  'transfers',
+  'valuations',
+  'recurrences',
+] as const;
+
+// Lançamentos e recorrências viram documentos pelo ID, então um ID repetido recusa o backup.
+const stateWithUniqueIds = stateSchema.superRefine((state, context) => {
+  ID_SECTIONS.forEach(section => {
+    const ids = new Set<string>();
+    state[section].forEach((item, index) => {
+      if (ids.has(item.id)) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: [section, index, 'id'] });
+      }
+      ids.add(item.id);
+    });
+  });
+});
+
+const plannerGoalSchema = z.object({
+  id,
+  label: requiredText,
+  amount: z.number().finite().positive(),
+  monthlyReserve: z.number().finite().positive(),
+  targetDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/)
+    .nullish()
+    .catch(null),
+  link: z
+    .object({ type: z.enum(['position', 'category']), value: requiredText })
+    .nullish()
+    .catch(null),
+});
+
+const plannerSchema = z.object({
+  allocations: z.record(z.number().finite()).default({}),
+  carryOver: z.record(z.number().finite()).default({}),
+  goals: validItems(plannerGoalSchema),
+});
+
+const backupSchema = z.object({
+  format: z.literal(FINANCE_BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string().default(''),
+  state: stateWithUniqueIds,
+  planners: z.record(z.string().regex(/^\d{4}-\d{2}$/), plannerSchema).default({}),
+});
+
+const SECTION_LABELS: Record<string, string> = {
+  expenses: 'Gastos',
+  incomes: 'Receitas',
+  investments: 'Investimentos',
+  categories: 'Categorias',
+  categoryRules: 'Regras de categoria',
+  creditCards: 'Cartões',
+  recurrences: 'Recorrências',
+  accounts: 'Contas',
+  transfers: 'Transferências',
+  positions: 'Posições',
+  valuations: 'Cotações',
+  taxSettings: 'Configurações do IR',
+  budgetAlerts: 'Alertas de orçamento',
+  notifications: 'Avisos',
+  planners: 'Planners',
+};
+
+/** "Gastos #3, campo amount" a partir do caminho do zod, para apontar o item com problema. */
+const formatIssue = (issue: z.ZodIssue) => {
+  const [root, section, index, ...rest] = issue.path;
+  if (root !== 'state' && root !== 'planners') {
+    return root === 'version' || root === 'format'
+      ? 'O arquivo não é um backup das finanças.'
+      : `Campo "${issue.path.join('.')}" inválido.`;
+  }
+  if (root === 'planners') {
+    return `Planner ${String(section)} inválido.`;
+  }
+  const label = SECTION_LABELS[String(section)] ?? String(section);
+  const item = typeof index === 'number' ? ` #${index + 1}` : index ? ` (${index})` : '';
+  const field = rest.length ? `, campo "${rest.join('.')}"` : '';
+  return `${label}${item}${field}: valor inválido.`;
+};
+
+export const buildFinanceBackup = (
+  state: FinanceState,
+  planners: Record<string, PlannerDocument>,
+  exportedAt: string
+): FinanceBackup => ({
+  format: FINANCE_BACKUP_FORMAT,
+  version: FINANCE_BACKUP_VERSION,
+  exportedAt,
+  state,
+  planners,
+});
+
+/** Lê o conteúdo do arquivo; lança um erro com mensagem para o usuário se algo não bater. */
+export const parseFinanceBackup = (content: string): FinanceBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  const result = backupSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(formatIssue(result.error.issues[0]));
+  }
+  if (result.data.version > FINANCE_BACKUP_VERSION) {
+    throw new Error(`Backup da versão ${result.data.version}, mais nova que a deste app.`);
+  }
+  // O schema já descarta o que o servidor também descartaria, então o resultado serve tanto para
+  // a restauração local quanto para a prévia. Os avisos não são restaurados.
+  const { categories, ...state } = result.data.state;
+  return {
+    ...result.data,
+    format: FINANCE_BACKUP_FORMAT,
+    state: {
+      ...state,
+      categories: {
+        expenses: normalizeCategoryList(categories?.expenses),
+        incomes: normalizeCategoryList(categories?.incomes),
+        investments: normalizeCategoryList(categories?.investments),
+      },
+      notifications: [],
+    },
+  };
+};
+
+// Campos de controle que mudam a cada gravação e não contam como alteração do conteúdo.
+const IGNORED_KEYS = new Set(['revision', 'createdAt', 'updatedAt', 'attachments']);
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => !IGNORED_KEYS.has(key))
+      .sort()
+      .map(key => `${key}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// O schema descarta os campos que o app não usa; a comparação fica só com os que o item lido do
+// arquivo tem, para que esse descarte não conte como alteração.
+const pickKeys = (value: unknown, reference: unknown) =>
+  isPlainObject(value) && isPlainObject(reference)
+    ? Object.fromEntries(Object.keys(reference).map(key => [key, value[key]]))
+    : value;
+
+const diffSection = (
+  key: string,
+  current: Array<[string, unknown]>,
+  incoming: Array<[string, unknown]>
+): BackupSectionDiff => {
+  const currentMap = new Map(current);
+  const incomingIds = new Set(incoming.map(([id]) => id));
+  const added = incoming.filter(([id]) => !currentMap.has(id)).length;
+  const changed = incoming.filter(
+    ([id, value]) =>
+      currentMap.has(id) &&
+      stableStringify(pickKeys(currentMap.get(id), value)) !== stableStringify(value)
+  ).length;
+  return {
+    key,
+    label: SECTION_LABELS[key] ?? key,
+    current: current.length,
+    incoming: incoming.length,
+    added,
+    removed: current.filter(([id]) => !incomingIds.has(id)).length,
+    changed,
+  };
+};
+
+const byId = <T extends { id: string }>(items: T[]): Array<[string, unknown]> =>
+  items.map(item => [item.id, item]);
+
+/**
+ * Prévia da restauração, seção por seção: quantos itens existem hoje, quantos o backup traz e,
+ * comparando pelo ID, quantos entram, saem ou mudam. Os avisos não entram na conta.
+ */
+export const diffFinanceBackup = (
+  current: Pick<FinanceBackup, 'state' | 'planners'>,
+  incoming: Pick<FinanceBackup, 'state' | 'planners'>
+): BackupSectionDiff[] => {
+  const categoriesOf = (state: FinanceState) =>
+    (['expenses', 'incomes', 'investments'] as const).flatMap(group =>
+      state.categories[group].map(
+        category => [`${group}:${category.id}`, category] as [string, unknown]
+      )
+    );
+  const byCategory = (items: Array<{ category: string }>): Array<[string, unknown]> =>
+    items.map(item => [item.category, item]);
+  const a = current.state;
+  const b = incoming.state;
+
+  return [
+    diffSection('expenses', byId(a.expenses), byId(b.expenses)),
+    diffSection('incomes', byId(a.incomes), byId(b.incomes)),
+    diffSection('investments', byId(a.investments), byId(b.investments)),
+    diffSection('transfers', byId(a.transfers), byId(b.transfers)),
+    diffSection('recurrences', byId(a.recurrences), byId(b.recurrences)),
+    diffSection('categories', categoriesOf(a), categoriesOf(b)),
+    diffSection('categoryRules', byId(a.categoryRules), byId(b.categoryRules)),
+    diffSection('accounts', byId(a.accounts), byId(b.accounts)),
+    diffSection('creditCards', byId(a.creditCards), byId(b.creditCards)),
+    diffSection('positions', byId(a.positions), byId(b.positions)),
+    diffSection('valuations', byId(a.valuations), byId(b.valuations)),
+    diffSection('budgetAlerts', byCategory(a.budgetAlerts), byCategory(b.budgetAlerts)),
+    diffSection('taxSettings', [['ir', a.taxSettings]], [['ir', b.taxSettings]]),
+    diffSection('planners', Object.entries(current.planners), Object.entries(incoming.planners)),
+  ];
+};
@@ -0,0 +1,106 @@
+import { formatCurrency } from '@shared/utils/format';
+
+import type {
+  BudgetAlertSetting,
+  Expense,
+  FinanceNotification,
+  FinanceState,
+} from '../types/finance';
+import type { PlannerDocument } from '../types/planner';
+import { rollUpCategoryName, toCategoryId } from './categories';
+
+export const DEFAULT_BUDGET_THRESHOLDS = [80, 100];
+export const MAX_BUDGET_THRESHOLDS = 5;
+export const MAX_BUDGET_THRESHOLD = 500;
+
+type BudgetSource = Pick<FinanceState, 'expenses' | 'incomes' | 'categories' | 'budgetAlerts'>;
+
+export const getBudgetThresholds = (settings: BudgetAlertSetting[], category: string) =>
+  settings.find(entry => entry.category === category)?.thresholds ?? DEFAULT_BUDGET_THRESHOLDS;
+
+/** Lê "80, 100" como percentuais válidos, em ordem e sem repetição, como o servidor grava. */
+export const parseBudgetThresholds = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,;\s]+/)
+        .map(part => Math.round(Number(part.replace('%', ''))))
+        .filter(part => Number.isFinite(part) && part > 0 && part <= MAX_BUDGET_THRESHOLD)
+    )
+  )
+    .sort((a, b) => a - b)
+    .slice(0, MAX_BUDGET_THRESHOLDS);
+
+const sumAmounts = (items: Array<{ amount: number }>) =>
+  items.reduce((sum, item) => sum + item.amount, 0);
+
+/**
+ * Repete no navegador a conta que o servidor faz ao registrar um gasto: o planejado é o
+ * percentual da categoria principal sobre as receitas do mês mais o saldo trazido do mês
+ * anterior, o gasto soma as subcategorias e cada limite cruzado pelos novos lançamentos vira um
+ * aviso com ID fixo por mês.
+ */
+export const findBudgetAlerts = (
+  source: BudgetSource,
+  created: Expense[],
+  getPlanner: (
+    year: number,
+    month: number
+  ) => Pick<PlannerDocument, 'allocations' | 'carryOver'> | null,
+  createdAt: string
+): FinanceNotification[] => {
+  const categories = source.categories.expenses;
+  const monthKeys = Array.from(new Set(created.map(expense => expense.date.slice(0, 7))));
+
+  return monthKeys.flatMap(monthKey => {
+    const [year, month] = monthKey.split('-');
+    const planner = getPlanner(Number(year), Number(month));
+    const allocations = planner?.allocations ?? {};
+    const carryOver = planner?.carryOver ?? {};
+    const inMonth = <T extends { date: string }>(items: T[]) =>
+      items.filter(item => item.date.startsWith(monthKey));
+    const income = sumAmounts(inMonth(source.incomes));
+    const spentIn = (items: Expense[], category: string) =>
+      sumAmounts(
+        inMonth(items).filter(item => rollUpCategoryName(categories, item.category) === category)
+      );
+    const touched = Array.from(
+      new Set(inMonth(created).map(item => rollUpCategoryName(categories, item.category)))
+    );
+
+    return touched.flatMap(category => {
+      const planned = (income * (allocations[category] ?? 0)) / 100 + (carryOver[category] ?? 0);
+      if (planned <= 0) {
+        return [];
+      }
+      const previous = spentIn(source.expenses, category);
+      const total = previous + spentIn(created, category);
+      const before = (previous / planned) * 100;
+      const after = (total / planned) * 100;
+      return getBudgetThresholds(source.budgetAlerts, category)
+        .filter(threshold => before < threshold && after >= threshold)
+        .map(threshold => ({
+          id: `budget-${monthKey}-${toCategoryId(category)}-${threshold}`,
+          kind: 'budget' as const,
+          title: `${category} atingiu ${threshold}% do orçamento`,
+          message: `${formatCurrency(total)} gastos de ${formatCurrency(
+            planned
+          )} planejados para ${month}/${year}.`,
+          category,
+          monthKey,
+          threshold,
+          read: false,
+          createdAt,
+        }));
+    });
+  });
+};
+
+/** Acrescenta os avisos novos no topo, ignorando os IDs que já estão na caixa de entrada. */
+export const mergeNotifications = (
+  current: FinanceNotification[],
+  incoming: FinanceNotification[]
+) => {
+  const known = new Set(current.map(notification => notification.id));
+  return [...incoming.filter(notification => !known.has(notification.id)), ...current];
+};
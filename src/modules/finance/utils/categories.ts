@@ -0,0 +1,194 @@
+import type {
+  CategoriesState,
+  CategoryGroup,
+  FinanceCategory,
+  FinanceState,
+} from '../types/finance';
+
+export const CATEGORY_PALETTE = [
+  '#002776',
+  '#00923f',
+  '#ffd500',
+  '#d93025',
+  '#00b4d8',
+  '#ff9f1c',
+  '#6a4c93',
+];
+
+export const DEFAULT_CATEGORY_NAMES: Record<CategoryGroup, string[]> = {
+  expenses: ['Moradia', 'Alimentação', 'Transporte', 'Educação'],
+  incomes: ['Salário', 'Freelance', 'Investimentos', 'Outros'],
+  investments: ['Renda fixa', 'Renda variável', 'Poupança', 'Fundo'],
+};
+
+/** Mesmo ID que o servidor deriva para as listas antigas, que guardavam só os nomes. */
+export const toCategoryId = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'categoria';
+
+export const isSameCategoryName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Converte listas antigas e completa campos ausentes com as mesmas regras do servidor: nomes
+ * únicos sem diferenciar maiúsculas e subcategorias apenas abaixo de uma categoria raiz.
+ */
+export const normalizeCategoryList = (
+  raw: Array<string | Partial<FinanceCategory>> | undefined
+): FinanceCategory[] => {
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  const items = (raw ?? []).flatMap((entry, index) => {
+    const source = typeof entry === 'string' ? { name: entry } : entry;
+    const name = source?.name?.trim() ?? '';
+    const id = source?.id?.trim() || (name && toCategoryId(name));
+    if (!name || names.has(name.toLowerCase()) || ids.has(id)) {
+      return [];
+    }
+    names.add(name.toLowerCase());
+    ids.add(id);
+    return [
+      {
+        id,
+        name,
+        parentId: source.parentId || null,
+        color: source.color || CATEGORY_PALETTE[index % CATEGORY_PALETTE.length],
+        icon: source.icon ?? '',
+      },
+    ];
+  });
+  const rootIds = new Set(items.filter(item => !item.parentId).map(item => item.id));
+  return items.map(item =>
+    item.parentId && !rootIds.has(item.parentId) ? { ...item, parentId: null } : item
+  );
+};
+
+export const buildDefaultCategories = (): CategoriesState => ({
+  expenses: normalizeCategoryList(DEFAULT_CATEGORY_NAMES.expenses),
+  incomes: normalizeCategoryList(DEFAULT_CATEGORY_NAMES.incomes),
+  investments: normalizeCategoryList(DEFAULT_CATEGORY_NAMES.investments),
+});
+
+export const getCategoryNames = (list: FinanceCategory[]) => list.map(category => category.name);
+
+export const getRootCategories = (list: FinanceCategory[]) =>
+  list.filter(category => !category.parentId);
+
+/** Categorias raiz, cada uma seguida das suas subcategorias. */
+export const sortCategoryTree = (list: FinanceCategory[]) =>
+  getRootCategories(list).flatMap(root => [
+    root,
+    ...list.filter(category => category.parentId === root.id),
+  ]);
+
+export const formatCategoryLabel = (category: FinanceCategory, list: FinanceCategory[]) => {
+  const parent = category.parentId ? list.find(item => item.id === category.parentId) : null;
+  const name = parent ? `${parent.name} › ${category.name}` : category.name;
+  return category.icon ? `${category.icon} ${name}` : name;
+};
+
+/** Opções de select com o caminho completo, mantendo o nome como valor gravado no registro. */
+export const buildCategoryOptions = (list: FinanceCategory[]) =>
+  sortCategoryTree(list).map(category => ({
+    value: category.name,
+    label: formatCategoryLabel(category, list),
+  }));
+
+/** Categoria raiz de um nome gravado no registro; nomes sem cadastro continuam como estão. */
+export const getRootCategory = (list: FinanceCategory[], name: string) => {
+  const category = list.find(item => item.name === name);
+  if (!category?.parentId) {
+    return category;
+  }
+  return list.find(item => item.id === category.parentId) ?? category;
+};
+
+export const rollUpCategoryName = (list: FinanceCategory[], name: string) =>
+  getRootCategory(list, name)?.name ?? name;
+
+/** Soma o valor de `from` ao de `to`; `limit` segura os percentuais do planner em 100. */
+export const renameAllocations = (
+  allocations: Record<string, number>,
+  from: string,
+  to: string,
+  limit = 100
+) => {
+  if (allocations[from] === undefined) {
+    return allocations;
+  }
+  const { [from]: moved, ...rest } = allocations;
+  return { ...rest, [to]: Math.min(limit, (rest[to] ?? 0) + moved) };
+};
+
+type CategoryReferences = Pick<
+  FinanceState,
+  | 'expenses'
+  | 'incomes'
+  | 'investments'
+  | 'recurrences'
+  | 'categoryRules'
+  | 'taxSettings'
+  | 'budgetAlerts'
+>;
+
+/**
+ * Aplica no estado local a mesma migração que o servidor faz ao renomear ou mesclar: troca o
+ * nome nos lançamentos, nos modelos das recorrências, nas regras, nas marcações do IR e nos
+ * limites dos alertas de orçamento.
+ */
+export const renameCategoryReferences = (
+  state: CategoryReferences,
+  group: CategoryGroup,
+  from: string,
+  to: string
+): CategoryReferences => {
+  const rename = <T extends { category: string }>(item: T) =>
+    item.category === from ? { ...item, category: to } : item;
+  const { deductibleCategories, exemptIncomeCategories } = state.taxSettings;
+  const keepTargetFlag = deductibleCategories.some(entry => entry.category === to);
+  const keepTargetAlert = state.budgetAlerts.some(entry => entry.category === to);
+
+  return {
+    expenses: group === 'expenses' ? state.expenses.map(rename) : state.expenses,
+    incomes: group === 'incomes' ? state.incomes.map(rename) : state.incomes,
+    investments: group === 'investments' ? state.investments.map(rename) : state.investments,
+    recurrences: state.recurrences.map(rule =>
+      rule.collection === group && rule.template.category === from
+        ? { ...rule, template: { ...rule.template, category: to } }
+        : rule
+    ),
+    categoryRules: state.categoryRules.map(rule => (rule.group === group ? rename(rule) : rule)),
+    taxSettings: {
+      deductibleCategories:
+        group === 'expenses'
+          ? deductibleCategories
+              .filter(entry => !(keepTargetFlag && entry.category === from))
+              .map(rename)
+          : deductibleCategories,
+      exemptIncomeCategories:
+        group === 'incomes'
+          ? Array.from(new Set(exemptIncomeCategories.map(name => (name === from ? to : name))))
+          : exemptIncomeCategories,
+    },
+    budgetAlerts:
+      group === 'expenses'
+        ? state.budgetAlerts
+            .filter(entry => !(keepTargetAlert && entry.category === from))
+            .map(rename)
+        : state.budgetAlerts,
+  };
+};
+
+/** Resultado local de uma mescla: a origem sai e as subcategorias dela passam para o destino. */
+export const mergeCategoryList = (list: FinanceCategory[], id: string, targetId: string) => {
+  const target = list.find(category => category.id === targetId);
+  const newParentId = target?.parentId ?? targetId;
+  return list
+    .filter(category => category.id !== id)
+    .map(category =>
+      category.parentId === id ? { ...category, parentId: newParentId } : category
+    );
+};
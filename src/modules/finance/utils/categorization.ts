@@ -0,0 +1,123 @@
+import type { CategoryRule, CategoryRuleGroup, CategoryRuleOperator } from '../types/finance';
+
+export interface CategorizationInput {
+  description: string;
+  source?: string;
+}
+
+export type CategorySuggestion =
+  | { category: string; origin: 'rule'; rule: CategoryRule }
+  | { category: string; origin: 'history' };
+
+interface HistoryRecord extends CategorizationInput {
+  category: string;
+}
+
+type CategoryCounts = Map<string, Map<string, number>>;
+
+export const RULE_OPERATOR_LABELS: Record<CategoryRuleOperator, string> = {
+  contains: 'contém',
+  equals: 'é igual a',
+  startsWith: 'começa com',
+};
+
+const normalizeText = (value: string | undefined) =>
+  (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Remove números e pontuação para que "Uber *Trip 1234" e "UBER TRIP" contem como iguais. */
+const toHistoryKey = (value: string | undefined) =>
+  normalizeText(value)
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toKeyword = (value: string | undefined) =>
+  toHistoryKey(value)
+    .split(' ')
+    .find(word => word.length >= 3) ?? '';
+
+export const matchesCategoryRule = (rule: CategoryRule, input: CategorizationInput) => {
+  const target = normalizeText(rule.field === 'source' ? input.source : input.description);
+  const value = normalizeText(rule.value);
+  if (!target || !value) {
+    return false;
+  }
+  switch (rule.operator) {
+    case 'equals':
+      return target === value;
+    case 'startsWith':
+      return target.startsWith(value);
+    default:
+      return target.includes(value);
+  }
+};
+
+export const describeCategoryRule = (rule: CategoryRule) =>
+  `${rule.field === 'source' ? 'Origem' : 'Descrição'} ${RULE_OPERATOR_LABELS[rule.operator]} ` +
+  `"${rule.value}" → ${rule.category}`;
+
+const countCategory = (counts: CategoryCounts, key: string, category: string) => {
+  if (!key) {
+    return;
+  }
+  const byCategory = counts.get(key) ?? new Map<string, number>();
+  byCategory.set(category, (byCategory.get(category) ?? 0) + 1);
+  counts.set(key, byCategory);
+};
+
+const pickMostFrequent = (counts: CategoryCounts, key: string, available: Set<string>) => {
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [category, count] of counts.get(key) ?? []) {
+    if (available.has(category) && count > bestCount) {
+      best = category;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Monta uma função que sugere a categoria de um lançamento. As regras do usuário têm prioridade
+ * e são avaliadas na ordem cadastrada; sem regra compatível, a sugestão vem da categoria mais
+ * usada em lançamentos anteriores com a mesma descrição, origem ou palavra inicial.
+ */
+export const createCategorySuggester = (
+  group: CategoryRuleGroup,
+  rules: CategoryRule[],
+  history: HistoryRecord[],
+  availableCategories: string[]
+) => {
+  const available = new Set(availableCategories);
+  const groupRules = rules.filter(rule => rule.group === group && available.has(rule.category));
+  const bySource: CategoryCounts = new Map();
+  const byDescription: CategoryCounts = new Map();
+  const byKeyword: CategoryCounts = new Map();
+  history.forEach(record => {
+    countCategory(bySource, normalizeText(record.source), record.category);
+    countCategory(byDescription, toHistoryKey(record.description), record.category);
+    countCategory(byKeyword, toKeyword(record.description), record.category);
+  });
+
+  return (input: CategorizationInput): CategorySuggestion | null => {
+    const rule = groupRules.find(item => matchesCategoryRule(item, input));
+    if (rule) {
+      return { category: rule.category, origin: 'rule', rule };
+    }
+    const learned =
+      pickMostFrequent(byDescription, toHistoryKey(input.description), available) ??
+      pickMostFrequent(bySource, normalizeText(input.source), available) ??
+      pickMostFrequent(byKeyword, toKeyword(input.description), available);
+    return learned ? { category: learned, origin: 'history' } : null;
+  };
+};
+
+export const describeCategorySuggestion = (suggestion: CategorySuggestion) =>
+  suggestion.origin === 'rule'
+    ? `Categoria sugerida pela regra: ${describeCategoryRule(suggestion.rule)}`
+    : 'Categoria sugerida com base nos seus lançamentos anteriores';
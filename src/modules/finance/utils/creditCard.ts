@@ -0,0 +1,126 @@
+import type { CreditCard, Expense } from '../types/finance';
+import { generateRecurringDates } from './recurrence';
+
+export type ExpenseView = 'competence' | 'cash';
+
+export const EXPENSE_VIEW_OPTIONS: Array<{ value: ExpenseView; label: string; hint: string }> = [
+  {
+    value: 'competence',
+    label: 'Competência',
+    hint: 'Gastos no mês da compra.',
+  },
+  {
+    value: 'cash',
+    label: 'Caixa',
+    hint: 'Compras no crédito contam no mês de vencimento da fatura.',
+  },
+];
+
+export interface InvoiceCycle {
+  closingDate: string;
+  dueDate: string;
+}
+
+export interface CreditCardInvoice extends InvoiceCycle {
+  card: CreditCard;
+  total: number;
+  items: Expense[];
+}
+
+const padNumber = (value: number) => value.toString().padStart(2, '0');
+
+const buildClampedDate = (year: number, monthIndex: number, day: number) => {
+  const normalized = new Date(year, monthIndex, 1);
+  const lastDay = new Date(normalized.getFullYear(), normalized.getMonth() + 1, 0).getDate();
+  return `${normalized.getFullYear()}-${padNumber(normalized.getMonth() + 1)}-${padNumber(
+    Math.min(day, lastDay)
+  )}`;
+};
+
+/**
+ * Calcula em qual fatura uma compra entra. Compras feitas a partir do dia de fechamento vão
+ * para o ciclo seguinte, e o vencimento cai no mês do fechamento ou no próximo, conforme o dia.
+ */
+export const getInvoiceCycle = (purchaseDate: string, card: CreditCard): InvoiceCycle | null => {
+  const [year, month, day] = purchaseDate.split('-').map(Number);
+  if (!year || !month || !day) {
+    return null;
+  }
+  const closingThisMonth = buildClampedDate(year, month - 1, card.closingDay);
+  const closingMonthIndex = purchaseDate >= closingThisMonth ? month : month - 1;
+  const dueMonthIndex =
+    card.dueDay > card.closingDay ? closingMonthIndex : closingMonthIndex + 1;
+  return {
+    closingDate: buildClampedDate(year, closingMonthIndex, card.closingDay),
+    dueDate: buildClampedDate(year, dueMonthIndex, card.dueDay),
+  };
+};
+
+export const buildCardsById = (cards: CreditCard[]) =>
+  new Map(cards.map(card => [card.id, card]));
+
+const findExpenseCard = (expense: Expense, cardsById: Map<string, CreditCard>) =>
+  expense.paymentMethod === 'credito' && expense.cardId ? cardsById.get(expense.cardId) : undefined;
+
+/** Data usada nos filtros de período: a da compra ou, no regime de caixa, a do vencimento. */
+export const resolveExpenseDate = (
+  expense: Expense,
+  view: ExpenseView,
+  cardsById: Map<string, CreditCard>
+) => {
+  if (view === 'competence') {
+    return expense.date;
+  }
+  const card = findExpenseCard(expense, cardsById);
+  return (card && getInvoiceCycle(expense.date, card)?.dueDate) || expense.date;
+};
+
+/** Agrupa as compras no crédito por cartão e vencimento, da fatura mais recente para a mais antiga. */
+export const groupCreditCardInvoices = (expenses: Expense[], cards: CreditCard[]) => {
+  const cardsById = buildCardsById(cards);
+  const invoices = new Map<string, CreditCardInvoice>();
+  expenses.forEach(expense => {
+    const card = findExpenseCard(expense, cardsById);
+    const cycle = card ? getInvoiceCycle(expense.date, card) : null;
+    if (!card || !cycle) {
+      return;
+    }
+    const key = `${card.id}|${cycle.dueDate}`;
+    const invoice = invoices.get(key) ?? { ...cycle, card, total: 0, items: [] };
+    invoice.items.push(expense);
+    if (!expense.excludeFromTotals) {
+      invoice.total += expense.amount;
+    }
+    invoices.set(key, invoice);
+  });
+  return Array.from(invoices.values()).sort(
+    (a, b) => b.dueDate.localeCompare(a.dueDate) || a.card.name.localeCompare(b.card.name)
+  );
+};
+
+/** Divide o valor da compra em parcelas; a diferença de centavos fica na primeira. */
+export const splitInstallments = (total: number, count: number) => {
+  const totalCents = Math.round(total * 100);
+  const baseCents = Math.floor(totalCents / count);
+  return Array.from({ length: count }, (_, index) =>
+    index === 0 ? (totalCents - baseCents * (count - 1)) / 100 : baseCents / 100
+  );
+};
+
+/** Parcelas como lançamentos mensais da mesma série, na mesma forma que o servidor grava. */
+export const buildInstallmentSeries = <T extends { amount: number; date: string }>(
+  purchase: T,
+  count: number,
+  recurrenceId: string
+) => {
+  const schedule = generateRecurringDates(purchase.date, 'monthly', count);
+  const amounts = splitInstallments(purchase.amount, schedule.length);
+  return schedule.map((date, index) => ({
+    ...purchase,
+    amount: amounts[index],
+    date,
+    recurrenceId,
+    recurrenceIndex: index + 1,
+    recurrenceTotal: schedule.length,
+  }));
+};
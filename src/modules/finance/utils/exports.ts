@@ -0,0 +1,112 @@
+import type { XlsxSheet } from '@shared/utils/xlsx';
+
+import type { CreditCard, Expense, FinanceAccount, Income, Investment } from '../types/finance';
+import { formatDateDisplay } from './period';
+import { getSignedInvestmentAmount, INVESTMENT_TYPE_LABELS } from './portfolio';
+
+type Row = Array<string | number>;
+
+export interface RecordExportSource {
+  expenses: Expense[];
+  incomes: Income[];
+  investments: Investment[];
+  accounts: FinanceAccount[];
+  creditCards: CreditCard[];
+}
+
+const PAYMENT_METHOD_LABELS: Record<Expense['paymentMethod'], string> = {
+  credito: 'Cartão de crédito',
+  debito: 'Cartão de débito',
+  dinheiro: 'Dinheiro',
+  pix: 'PIX',
+  boleto: 'Boleto',
+  outro: 'Outro',
+};
+
+const RECORD_COLUMNS = [
+  'Data',
+  'Descrição',
+  'Categoria',
+  'Valor',
+  'Conta',
+  'Detalhe',
+  'Parcela',
+  'Fora do total',
+];
+
+const EXPORT_SECTIONS = [
+  { key: 'expenses', label: 'Gastos' },
+  { key: 'incomes', label: 'Receitas' },
+  { key: 'investments', label: 'Investimentos' },
+] as const;
+
+type RecordLike = Expense | Income | Investment;
+
+const byDate = (a: RecordLike, b: RecordLike) =>
+  a.date.localeCompare(b.date) || a.description.localeCompare(b.description);
+
+/**
+ * Linhas de cada coleção com as mesmas colunas. Resgates saem com valor negativo, como entram
+ * nos totais do resumo, e o detalhe traz o que é próprio de cada tipo de lançamento.
+ */
+const buildRecordRows = (source: RecordExportSource) => {
+  const accountNames = new Map(source.accounts.map(account => [account.id, account.name]));
+  const cardNames = new Map(source.creditCards.map(card => [card.id, card.name]));
+
+  const toRow = (record: RecordLike, amount: number, detail: string): Row => [
+    formatDateDisplay(record.date),
+    record.description,
+    record.category,
+    amount,
+    (record.accountId && accountNames.get(record.accountId)) || '',
+    detail,
+    record.recurrenceIndex && record.recurrenceTotal
+      ? `${record.recurrenceIndex}/${record.recurrenceTotal}`
+      : '',
+    record.excludeFromTotals ? 'Sim' : '',
+  ];
+
+  return {
+    expenses: [...source.expenses].sort(byDate).map(expense => {
+      const card = expense.cardId ? cardNames.get(expense.cardId) : undefined;
+      const method = PAYMENT_METHOD_LABELS[expense.paymentMethod] ?? expense.paymentMethod;
+      return toRow(expense, expense.amount, card ? `${method} · ${card}` : method);
+    }),
+    incomes: [...source.incomes]
+      .sort(byDate)
+      .map(income => toRow(income, income.amount, income.source)),
+    investments: [...source.investments]
+      .sort(byDate)
+      .map(investment =>
+        toRow(
+          investment,
+          getSignedInvestmentAmount(investment),
+          [
+            investment.movement === 'resgate' ? 'Resgate' : 'Aporte',
+            INVESTMENT_TYPE_LABELS[investment.type] ?? investment.type,
+            investment.institution,
+          ]
+            .filter(Boolean)
+            .join(' · ')
+        )
+      ),
+  };
+};
+
+/** CSV único, com a coluna "Tipo" separando gastos, receitas e investimentos. */
+export const buildRecordsCsvRows = (source: RecordExportSource): Row[] => {
+  const rows = buildRecordRows(source);
+  return [
+    ['Tipo', ...RECORD_COLUMNS],
+    ...EXPORT_SECTIONS.flatMap(section => rows[section.key].map(row => [section.label, ...row])),
+  ];
+};
+
+/** Uma aba por coleção, todas com cabeçalho mesmo quando o período não tem lançamentos. */
+export const buildRecordsXlsxSheets = (source: RecordExportSource): XlsxSheet[] => {
+  const rows = buildRecordRows(source);
+  return EXPORT_SECTIONS.map(section => ({
+    name: section.label,
+    rows: [RECORD_COLUMNS, ...rows[section.key]],
+  }));
+};
@@ -0,0 +1,210 @@
+import type { Expense, FinanceState, RecurrenceRule } from '../types/finance';
+import type { PlannerGoal } from '../types/planner';
+import { buildCardsById, resolveExpenseDate } from './creditCard';
+import { shiftMonthKey } from './period';
+import { getCashBalance, getSignedInvestmentAmount } from './portfolio';
+import { getRecurrenceOccurrence } from './recurrence';
+
+export const FORECAST_MONTHS = 12;
+
+/** Meses fechados usados na média de gastos avulsos por categoria. */
+export const FORECAST_AVERAGE_WINDOW = 3;
+
+/** Acontecimento hipotético de um mês: positivo para entradas, negativo para saídas. */
+export interface ForecastEvent {
+  id: string;
+  label: string;
+  amount: number;
+  monthKey: string;
+  enabled: boolean;
+}
+
+export interface ForecastMonth {
+  monthKey: string;
+  incomes: number;
+  expenses: number;
+  averageSpending: number;
+  investments: number;
+  goalReserves: number;
+  events: number;
+  net: number;
+  balance: number;
+}
+
+export interface CashFlowForecast {
+  startBalance: number;
+  averageByCategory: Array<{ category: string; average: number }>;
+  months: ForecastMonth[];
+}
+
+type ForecastSource = Pick<
+  FinanceState,
+  'accounts' | 'expenses' | 'incomes' | 'investments' | 'recurrences' | 'creditCards'
+>;
+
+interface ForecastOptions {
+  /** Data de hoje (AAAA-MM-DD); o que vence até ela já está no saldo inicial. */
+  today: string;
+  goals: PlannerGoal[];
+  events: ForecastEvent[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** Limite de ocorrências por regra no horizonte; uma série semanal soma cerca de 53 no ano. */
+const MAX_PROJECTED_PER_RULE = 60;
+
+const projectRule = (rule: RecurrenceRule, after: string, until: string) => {
+  const dates: string[] = [];
+  let index = rule.materializedCount + 1;
+  while (
+    dates.length < MAX_PROJECTED_PER_RULE &&
+    (rule.occurrences === null || index <= rule.occurrences)
+  ) {
+    const date = getRecurrenceOccurrence(rule, index);
+    if (date > until) {
+      break;
+    }
+    if (date > after) {
+      dates.push(date);
+    }
+    index += 1;
+  }
+  return dates;
+};
+
+/**
+ * Projeta o caixa mês a mês a partir do saldo de hoje. Entram os lançamentos já agendados
+ * (parcelas e séries geradas), as próximas ocorrências das regras de recorrência, a média dos
+ * gastos avulsos por categoria, as reservas mensais das metas do planner e os eventos
+ * hipotéticos ativos. No mês corrente, a média só cobre o que ainda não foi gasto.
+ */
+export const buildCashFlowForecast = (
+  source: ForecastSource,
+  { today, goals, events }: ForecastOptions
+): CashFlowForecast => {
+  const currentKey = today.slice(0, 7);
+  const monthKeys = Array.from({ length: FORECAST_MONTHS }, (_, index) =>
+    shiftMonthKey(currentKey, index)
+  );
+  const horizonEnd = `${monthKeys[monthKeys.length - 1]}-31`;
+  const cardsById = buildCardsById(source.creditCards);
+  const months = new Map<string, ForecastMonth>(
+    monthKeys.map(monthKey => [
+      monthKey,
+      {
+        monthKey,
+        incomes: 0,
+        expenses: 0,
+        averageSpending: 0,
+        investments: 0,
+        goalReserves: 0,
+        events: 0,
+        net: 0,
+        balance: 0,
+      },
+    ])
+  );
+  const addTo = (date: string, field: 'incomes' | 'expenses' | 'investments', amount: number) => {
+    const entry = months.get(date.slice(0, 7));
+    if (entry && date > today && date <= horizonEnd) {
+      entry[field] += amount;
+    }
+  };
+
+  // O que está fora dos totais não entra na projeção, assim como fica fora da média abaixo.
+  const isIncluded = (item: { excludeFromTotals?: boolean }) => !item.excludeFromTotals;
+
+  source.incomes.filter(isIncluded).forEach(income => addTo(income.date, 'incomes', income.amount));
+  source.expenses
+    .filter(isIncluded)
+    .forEach(expense =>
+      addTo(resolveExpenseDate(expense, 'cash', cardsById), 'expenses', expense.amount)
+    );
+  source.investments
+    .filter(isIncluded)
+    .forEach(investment =>
+      addTo(investment.date, 'investments', getSignedInvestmentAmount(investment))
+    );
+
+  source.recurrences.forEach(rule => {
+    if (!isIncluded(rule.template)) {
+      return;
+    }
+    projectRule(rule, today, horizonEnd).forEach(date => {
+      const template = rule.template;
+      if (rule.collection === 'expenses') {
+        const expense = { ...template, id: rule.id, date } as Expense;
+        addTo(resolveExpenseDate(expense, 'cash', cardsById), 'expenses', template.amount);
+      } else if (rule.collection === 'incomes') {
+        addTo(date, 'incomes', template.amount);
+      } else {
+        addTo(date, 'investments', getSignedInvestmentAmount(template));
+      }
+    });
+  });
+
+  // Gastos recorrentes já entram pelas séries; a média cobre só os avulsos.
+  const windowStart = `${shiftMonthKey(currentKey, -FORECAST_AVERAGE_WINDOW)}-01`;
+  const windowEnd = `${shiftMonthKey(currentKey, -1)}-31`;
+  const oneOffExpenses = source.expenses.filter(
+    expense => !expense.recurrenceId && isIncluded(expense)
+  );
+  const sumByCategory = (items: Expense[]) =>
+    items.reduce(
+      (totals, expense) =>
+        totals.set(expense.category, (totals.get(expense.category) ?? 0) + expense.amount),
+      new Map<string, number>()
+    );
+  const windowTotals = sumByCategory(
+    oneOffExpenses.filter(expense => expense.date >= windowStart && expense.date <= windowEnd)
+  );
+  const spentThisMonth = sumByCategory(
+    oneOffExpenses.filter(expense => expense.date.startsWith(currentKey) && expense.date <= today)
+  );
+  const averageByCategory = Array.from(windowTotals.entries())
+    .map(([category, total]) => ({
+      category,
+      average: roundCents(total / FORECAST_AVERAGE_WINDOW),
+    }))
+    .sort((a, b) => b.average - a.average);
+  const averageTotal = averageByCategory.reduce((sum, item) => sum + item.average, 0);
+  const remainingThisMonth = averageByCategory.reduce(
+    (sum, item) => sum + Math.max(0, item.average - (spentThisMonth.get(item.category) ?? 0)),
+    0
+  );
+
+  const goalReserves = goals.reduce((sum, goal) => sum + (goal.monthlyReserve || 0), 0);
+  const startBalance = getCashBalance(source, today);
+  let balance = startBalance;
+
+  const projected = monthKeys.map(monthKey => {
+    const entry = months.get(monthKey)!;
+    entry.averageSpending = monthKey === currentKey ? remainingThisMonth : averageTotal;
+    entry.goalReserves = goalReserves;
+    entry.events = events
+      .filter(event => event.enabled && event.monthKey === monthKey)
+      .reduce((sum, event) => sum + event.amount, 0);
+    entry.net =
+      entry.incomes -
+      entry.expenses -
+      entry.averageSpending -
+      entry.investments -
+      entry.goalReserves +
+      entry.events;
+    balance += entry.net;
+    return {
+      ...entry,
+      incomes: roundCents(entry.incomes),
+      expenses: roundCents(entry.expenses),
+      averageSpending: roundCents(entry.averageSpending),
+      investments: roundCents(entry.investments),
+      goalReserves: roundCents(entry.goalReserves),
+      events: roundCents(entry.events),
+      net: roundCents(entry.net),
+      balance: roundCents(balance),
+    };
+  });
+
+  return { startBalance, averageByCategory, months: projected };
+};
@@ -41,6 +41,8 @@ const getAvailableYears = (dates: string[]) => {
     }
   });
   years.add(getCurrentYear());
+  // O ano seguinte fica sempre disponível para abrir os meses de recorrências sem término.
+  years.add(getCurrentYear() + 1);
   return Array.from(years).sort((a, b) => a - b);
 };
 
@@ -52,6 +54,13 @@ const formatPeriodLabel = (month: number, year: number) => {
 const toMonthKey = (date: Date) =>
   `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
 
+/** Avança ou recua `offset` meses numa chave AAAA-MM. */
+const shiftMonthKey = (monthKey: string, offset: number) => {
+  const [year, month] = monthKey.split('-').map(Number);
+  const total = year * 12 + (month - 1) + offset;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}`;
+};
+
 const formatDateDisplay = (value: string) => {
   const [year, month, day] = value.split('-');
   if (!year || !month || !day) {
@@ -87,6 +96,7 @@ export {
   getCurrentYear,
   matchesPeriod,
   safeDate,
+  shiftMonthKey,
   formatDateDisplay,
   sortByDateAndDescription,
   toMonthKey,
@@ -0,0 +1,131 @@
+import type { FinanceState, Investment } from '../types/finance';
+import type { PlannerCarryOver, PlannerDocument, PlannerGoal } from '../types/planner';
+import { rollUpCategoryName } from './categories';
+import { shiftMonthKey } from './period';
+import { getSignedInvestmentAmount, summarizePosition } from './portfolio';
+
+/** Meses fechados usados para medir o ritmo real de aportes das metas vinculadas. */
+export const GOAL_PACE_WINDOW = 3;
+
+export type GoalStatus = 'done' | 'onTrack' | 'behind';
+
+export interface GoalProgress {
+  /** `null` quando a meta não está vinculada a investimentos. */
+  accumulated: number | null;
+  remaining: number;
+  percentage: number;
+  /** Aporte mensal usado na projeção: o ritmo real dos vínculos ou a reserva planejada. */
+  monthlyPace: number;
+  projectedMonthKey: string | null;
+  /** `null` para metas sem vínculo e sem prazo, que não têm com o que comparar. */
+  status: GoalStatus | null;
+}
+
+type GoalSource = Pick<FinanceState, 'investments' | 'positions' | 'valuations'>;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const sumSigned = (items: Investment[]) =>
+  items.reduce((sum, item) => sum + getSignedInvestmentAmount(item), 0);
+
+const getLinkedInvestments = (goal: PlannerGoal, investments: Investment[]) => {
+  const { link } = goal;
+  if (!link) {
+    return [];
+  }
+  return investments.filter(item =>
+    link.type === 'position' ? item.positionId === link.value : item.category === link.value
+  );
+};
+
+/**
+ * Progresso de uma meta até `today` (AAAA-MM-DD). Vinculada a uma posição, acumula o valor de
+ * mercado dela; vinculada a uma categoria, o saldo de aportes menos resgates. O ritmo é a média
+ * líquida dos últimos meses fechados e, sem vínculo, a reserva mensal planejada. Com prazo, a
+ * meta está em dia se a conclusão projetada não passa dele; sem prazo, se o ritmo cobre a
+ * reserva planejada.
+ */
+export const buildGoalProgress = (
+  goal: PlannerGoal,
+  source: GoalSource,
+  today: string
+): GoalProgress => {
+  const currentKey = today.slice(0, 7);
+  const linked = getLinkedInvestments(goal, source.investments);
+  const position =
+    goal.link?.type === 'position'
+      ? source.positions.find(item => item.id === goal.link?.value)
+      : undefined;
+
+  let accumulated: number | null = null;
+  let monthlyPace = goal.monthlyReserve;
+  if (goal.link) {
+    accumulated = position
+      ? summarizePosition(position, source.investments, source.valuations, today).marketValue
+      : roundCents(sumSigned(linked.filter(item => item.date <= today)));
+    const windowStart = `${shiftMonthKey(currentKey, -GOAL_PACE_WINDOW)}-01`;
+    const windowEnd = `${shiftMonthKey(currentKey, -1)}-31`;
+    monthlyPace = roundCents(
+      sumSigned(linked.filter(item => item.date >= windowStart && item.date <= windowEnd)) /
+        GOAL_PACE_WINDOW
+    );
+  }
+
+  const remaining = roundCents(Math.max(0, goal.amount - (accumulated ?? 0)));
+  const percentage =
+    accumulated === null ? 0 : Math.min(100, Math.max(0, (accumulated / goal.amount) * 100));
+  const projectedMonthKey =
+    remaining === 0
+      ? currentKey
+      : monthlyPace > 0
+      ? shiftMonthKey(currentKey, Math.ceil(remaining / monthlyPace))
+      : null;
+
+  let status: GoalStatus | null = null;
+  if (remaining === 0) {
+    status = 'done';
+  } else if (goal.targetDate) {
+    status = projectedMonthKey && projectedMonthKey <= goal.targetDate ? 'onTrack' : 'behind';
+  } else if (goal.link) {
+    status = monthlyPace >= goal.monthlyReserve ? 'onTrack' : 'behind';
+  }
+
+  return { accumulated, remaining, percentage, monthlyPace, projectedMonthKey, status };
+};
+
+type EnvelopeSource = Pick<FinanceState, 'incomes' | 'expenses' | 'categories'>;
+
+/**
+ * Sobra de cada envelope no mês (AAAA-MM): o planejado sobre as receitas do mês, somado ao
+ * saldo que ele já trazia, menos o gasto por competência. Só saldos positivos seguem adiante.
+ */
+export const buildCarryOver = (
+  planner: Pick<PlannerDocument, 'allocations' | 'carryOver'>,
+  source: EnvelopeSource,
+  monthKey: string
+): PlannerCarryOver => {
+  const income = source.incomes
+    .filter(income => income.date.startsWith(monthKey))
+    .reduce((sum, income) => sum + income.amount, 0);
+  const spent = source.expenses
+    .filter(expense => expense.date.startsWith(monthKey))
+    .reduce<Record<string, number>>((totals, expense) => {
+      const category = rollUpCategoryName(source.categories.expenses, expense.category);
+      totals[category] = (totals[category] ?? 0) + expense.amount;
+      return totals;
+    }, {});
+  const categories = new Set([
+    ...Object.keys(planner.allocations),
+    ...Object.keys(planner.carryOver ?? {}),
+  ]);
+
+  return Array.from(categories).reduce<PlannerCarryOver>((carryOver, category) => {
+    const planned =
+      (income * (planner.allocations[category] ?? 0)) / 100 + (planner.carryOver?.[category] ?? 0);
+    const unspent = roundCents(planned - (spent[category] ?? 0));
+    if (unspent > 0) {
+      carryOver[category] = unspent;
+    }
+    return carryOver;
+  }, {});
+};
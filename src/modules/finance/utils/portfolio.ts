@@ -0,0 +1,285 @@
+import type {
+  FinanceState,
+  Investment,
+  InvestmentMovement,
+  PortfolioPosition,
+  Valuation,
+} from '../types/finance';
+import { buildCardsById, resolveExpenseDate } from './creditCard';
+import { readCsvRows, type CsvImportConfig } from './statementImport';
+
+export const INVESTMENT_TYPE_LABELS: Record<Investment['type'], string> = {
+  renda_fixa: 'Renda fixa',
+  renda_variavel: 'Renda variável',
+  fundo: 'Fundo',
+  poupanca: 'Poupança',
+  outro: 'Outro',
+};
+
+export const INVESTMENT_MOVEMENT_OPTIONS: Array<{ value: InvestmentMovement; label: string }> = [
+  { value: 'aporte', label: 'Aporte' },
+  { value: 'resgate', label: 'Resgate' },
+];
+
+/** Aportes somam e resgates subtraem nos totais de investimento e no saldo das contas. */
+export const getSignedInvestmentAmount = (investment: Pick<Investment, 'amount' | 'movement'>) =>
+  investment.movement === 'resgate' ? -investment.amount : investment.amount;
+
+/** Investimentos com o valor já assinado, para somas que ignoram o tipo de movimento. */
+export const toSignedInvestments = <T extends Pick<Investment, 'amount' | 'movement'>>(
+  items: T[]
+) => items.map(item => ({ ...item, amount: getSignedInvestmentAmount(item) }));
+
+export interface PositionSummary {
+  position: PortfolioPosition;
+  contributions: number;
+  withdrawals: number;
+  /** Custo do que continua aplicado depois dos resgates. */
+  costBasis: number;
+  marketValue: number;
+  lastValuationDate: string | null;
+  realizedReturn: number;
+  unrealizedReturn: number;
+}
+
+export interface AllocationSlice {
+  type: Investment['type'];
+  label: string;
+  value: number;
+  share: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+type PositionEvent =
+  | { kind: 'movement'; date: string; investment: Investment }
+  | { kind: 'valuation'; date: string; valuation: Valuation };
+
+/**
+ * Consolida aportes, resgates e avaliações de uma posição até `until` (inclusive). Resgates
+ * baixam o custo na proporção que representam do valor de mercado naquele momento (custo
+ * médio) e a diferença vira retorno realizado. Entre duas avaliações, o valor de mercado anda
+ * só com os próprios aportes e resgates; avaliações valem para o fim do dia.
+ */
+export const summarizePosition = (
+  position: PortfolioPosition,
+  investments: Investment[],
+  valuations: Valuation[],
+  until?: string
+): PositionSummary => {
+  const inRange = (date: string) => !until || date <= until;
+  const events: PositionEvent[] = [
+    ...investments
+      .filter(item => item.positionId === position.id && inRange(item.date))
+      .map(investment => ({ kind: 'movement' as const, date: investment.date, investment })),
+    ...valuations
+      .filter(item => item.positionId === position.id && inRange(item.date))
+      .map(valuation => ({ kind: 'valuation' as const, date: valuation.date, valuation })),
+  ].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      Number(a.kind === 'valuation') - Number(b.kind === 'valuation')
+  );
+
+  let costBasis = 0;
+  let marketValue = 0;
+  let contributions = 0;
+  let withdrawals = 0;
+  let realizedReturn = 0;
+  let lastValuationDate: string | null = null;
+
+  events.forEach(event => {
+    if (event.kind === 'valuation') {
+      marketValue = event.valuation.marketValue;
+      lastValuationDate = event.date;
+      return;
+    }
+    const { amount } = event.investment;
+    if (event.investment.movement !== 'resgate') {
+      costBasis += amount;
+      marketValue += amount;
+      contributions += amount;
+      return;
+    }
+    const share = marketValue > 0 ? Math.min(1, amount / marketValue) : 1;
+    const costOut = costBasis * share;
+    realizedReturn += amount - costOut;
+    costBasis -= costOut;
+    marketValue = Math.max(0, marketValue - amount);
+    withdrawals += amount;
+  });
+
+  return {
+    position,
+    contributions: roundCents(contributions),
+    withdrawals: roundCents(withdrawals),
+    costBasis: roundCents(costBasis),
+    marketValue: roundCents(marketValue),
+    lastValuationDate,
+    realizedReturn: roundCents(realizedReturn),
+    unrealizedReturn: roundCents(marketValue - costBasis),
+  };
+};
+
+type PortfolioSource = Pick<FinanceState, 'positions' | 'investments' | 'valuations'>;
+
+export const summarizePortfolio = (source: PortfolioSource, until?: string) =>
+  source.positions.map(position =>
+    summarizePosition(position, source.investments, source.valuations, until)
+  );
+
+/** Aportes sem posição (ou de uma posição removida) entram pelo valor aplicado. */
+const getUnlinkedInvestments = (source: PortfolioSource, until?: string) => {
+  const positionIds = new Set(source.positions.map(position => position.id));
+  return source.investments.filter(
+    item => !(item.positionId && positionIds.has(item.positionId)) && (!until || item.date <= until)
+  );
+};
+
+export const getPortfolioValue = (source: PortfolioSource, until?: string) =>
+  roundCents(
+    summarizePortfolio(source, until).reduce((sum, summary) => sum + summary.marketValue, 0) +
+      getUnlinkedInvestments(source, until).reduce(
+        (sum, item) => sum + getSignedInvestmentAmount(item),
+        0
+      )
+  );
+
+/** Distribuição do valor atual da carteira pelo tipo de investimento. */
+export const buildAllocationByType = (source: PortfolioSource, until?: string) => {
+  const totals = new Map<Investment['type'], number>();
+  const add = (type: Investment['type'], value: number) =>
+    totals.set(type, (totals.get(type) ?? 0) + value);
+
+  summarizePortfolio(source, until).forEach(summary =>
+    add(summary.position.type, summary.marketValue)
+  );
+  getUnlinkedInvestments(source, until).forEach(item =>
+    add(item.type, getSignedInvestmentAmount(item))
+  );
+
+  const entries = Array.from(totals.entries()).filter(([, value]) => value > 0);
+  const total = entries.reduce((sum, [, value]) => sum + value, 0);
+  return entries
+    .map<AllocationSlice>(([type, value]) => ({
+      type,
+      label: INVESTMENT_TYPE_LABELS[type],
+      value: roundCents(value),
+      share: total ? value / total : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+};
+
+export interface NetWorthPoint {
+  monthKey: string;
+  cash: number;
+  investments: number;
+  netWorth: number;
+}
+
+type CashSource = Pick<
+  FinanceState,
+  'accounts' | 'expenses' | 'incomes' | 'investments' | 'creditCards'
+>;
+
+type NetWorthSource = PortfolioSource & CashSource;
+
+/** Movimentos que mexem no caixa: gastos no crédito pesam no vencimento da fatura. */
+const buildCashFlows = (source: CashSource) => {
+  const cardsById = buildCardsById(source.creditCards);
+  return [
+    ...source.incomes.map(item => ({ date: item.date, amount: item.amount })),
+    ...source.expenses.map(item => ({
+      date: resolveExpenseDate(item, 'cash', cardsById),
+      amount: -item.amount,
+    })),
+    ...source.investments.map(item => ({
+      date: item.date,
+      amount: -getSignedInvestmentAmount(item),
+    })),
+  ];
+};
+
+const sumCashFlows = (
+  flows: Array<{ date: string; amount: number }>,
+  initialCash: number,
+  until: string
+) =>
+  roundCents(
+    flows.reduce((sum, flow) => (flow.date <= until ? sum + flow.amount : sum), initialCash)
+  );
+
+const getInitialCash = (source: Pick<FinanceState, 'accounts'>) =>
+  source.accounts.reduce((sum, account) => sum + account.initialBalance, 0);
+
+/**
+ * Dinheiro fora da carteira até `until`: saldo inicial das contas mais receitas, menos gastos
+ * e aportes. Transferências não alteram o total, pois saem de uma conta e entram em outra.
+ */
+export const getCashBalance = (source: CashSource, until: string) =>
+  sumCashFlows(buildCashFlows(source), getInitialCash(source), until);
+
+/** Patrimônio no fim de cada mês: caixa somado ao valor de mercado da carteira. */
+export const buildNetWorthTimeline = (
+  source: NetWorthSource,
+  monthKeys: string[]
+): NetWorthPoint[] => {
+  const flows = buildCashFlows(source);
+  const initialCash = getInitialCash(source);
+
+  return monthKeys.map(monthKey => {
+    const until = `${monthKey}-31`;
+    const cash = sumCashFlows(flows, initialCash, until);
+    const investments = getPortfolioValue(source, until);
+    return {
+      monthKey,
+      cash,
+      investments,
+      netWorth: roundCents(cash + investments),
+    };
+  });
+};
+
+const VALUATION_CSV_CONFIG: CsvImportConfig = {
+  delimiter: ';',
+  dateFormat: 'dd/mm/yyyy',
+  decimalSeparator: ',',
+  columns: { date: 'data', description: ['ativo'], amount: 'valor' },
+};
+
+const normalizeName = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+/**
+ * Lê avaliações no formato `data;ativo;valor` (datas dd/mm/aaaa e vírgula decimal). O ativo é
+ * comparado com o nome das posições sem diferenciar acentos nem maiúsculas. Valor zero é válido
+ * (posição liquidada ou baixada); valores negativos ou ilegíveis entram em `invalid`.
+ */
+export const parseValuationCsv = (content: string, positions: PortfolioPosition[]) => {
+  const positionsByName = new Map(
+    positions.map(position => [normalizeName(position.name), position])
+  );
+  const valuations: Array<Omit<Valuation, 'id'>> = [];
+  const unmatched = new Set<string>();
+  let invalid = 0;
+  readCsvRows(content, VALUATION_CSV_CONFIG).forEach(({ date, description, amount }) => {
+    if (!date) {
+      return;
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+      invalid += 1;
+      return;
+    }
+    const position = positionsByName.get(normalizeName(description));
+    if (!position) {
+      unmatched.add(description);
+      return;
+    }
+    valuations.push({ positionId: position.id, marketValue: roundCents(amount), date });
+  });
+  return { valuations, unmatched: Array.from(unmatched), invalid };
+};
@@ -1,20 +1,39 @@
+import type {
+  CategoryGroup,
+  RecurrenceRule,
+  RecurrenceTemplate,
+  SeriesEditOptions,
+  SeriesScope,
+} from '../types/finance';
+
 export const RECURRENCE_VALUES = [
   'none',
+  'weekly',
+  'biweekly',
   'monthly',
   'bimonthly',
   'quarterly',
   'semiannual',
   'annual',
+  'business_day',
 ] as const;
 
 export type RecurrenceFrequency = (typeof RECURRENCE_VALUES)[number];
 
 export interface RecurrenceConfig {
   frequency: RecurrenceFrequency;
-  occurrences: number;
+  /** `null` para recorrências sem data de término. */
+  occurrences: number | null;
+  businessDay?: number | null;
 }
 
-const FREQUENCY_INTERVAL_IN_MONTHS: Record<Exclude<RecurrenceFrequency, 'none'>, number> = {
+export const MAX_RECURRENCE_OCCURRENCES = 360;
+
+export const MAX_BUSINESS_DAY = 22;
+
+const MAX_MATERIALIZED_PER_RULE = 200;
+
+const FREQUENCY_INTERVAL_IN_MONTHS: Partial<Record<RecurrenceFrequency, number>> = {
   monthly: 1,
   bimonthly: 2,
   quarterly: 3,
@@ -22,6 +41,11 @@ const FREQUENCY_INTERVAL_IN_MONTHS: Record<Exclude<RecurrenceFrequency, 'none'>,
   annual: 12,
 };
 
+const FREQUENCY_INTERVAL_IN_DAYS: Partial<Record<RecurrenceFrequency, number>> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
 export const RECURRENCE_OPTIONS: Array<{
   value: RecurrenceFrequency;
   label: string;
@@ -32,6 +56,16 @@ export const RECURRENCE_OPTIONS: Array<{
     label: 'Sem recorrência',
     description: 'Lançamento único para o mês selecionado.',
   },
+  {
+    value: 'weekly',
+    label: 'Semanal',
+    description: 'Repete toda semana no mesmo dia.',
+  },
+  {
+    value: 'biweekly',
+    label: 'Quinzenal',
+    description: 'Repete a cada duas semanas.',
+  },
   {
     value: 'monthly',
     label: 'Mensal',
@@ -57,6 +91,11 @@ export const RECURRENCE_OPTIONS: Array<{
     label: 'Anual',
     description: 'Organize lançamentos que acontecem uma vez por ano.',
   },
+  {
+    value: 'business_day',
+    label: 'Dia útil do mês',
+    description: 'Como o salário no 5º dia útil, sem contar fins de semana.',
+  },
 ];
 
 const padNumber = (value: number) => value.toString().padStart(2, '0');
@@ -80,6 +119,50 @@ const addMonthsPreservingDay = (isoDate: string, monthsToAdd: number) => {
   return `${nextYear}-${padNumber(nextMonthIndex + 1)}-${padNumber(safeDay)}`;
 };
 
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/** N-ésimo dia de semana do mês (feriados não contam); em meses mais curtos, o último. */
+const getNthBusinessDay = (year: number, monthIndex: number, nth: number) => {
+  const normalizedYear = year + Math.floor(monthIndex / 12);
+  const normalizedMonth = ((monthIndex % 12) + 12) % 12;
+  const lastDay = new Date(Date.UTC(normalizedYear, normalizedMonth + 1, 0)).getUTCDate();
+  let count = 0;
+  let found = 1;
+  for (let day = 1; day <= lastDay && count < nth; day += 1) {
+    const weekday = new Date(Date.UTC(normalizedYear, normalizedMonth, day)).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      count += 1;
+      found = day;
+    }
+  }
+  return `${normalizedYear}-${padNumber(normalizedMonth + 1)}-${padNumber(found)}`;
+};
+
+/** Data da ocorrência `index` (a partir de 1), com o mesmo calendário usado pelo servidor. */
+export const getRecurrenceOccurrence = (
+  rule: Pick<RecurrenceRule, 'frequency' | 'startDate'> & { businessDay?: number | null },
+  index: number
+) => {
+  const { frequency, startDate } = rule;
+  const intervalInDays = FREQUENCY_INTERVAL_IN_DAYS[frequency];
+  if (intervalInDays) {
+    return addDays(startDate, intervalInDays * (index - 1));
+  }
+  if (frequency === 'business_day') {
+    const nth = rule.businessDay || 1;
+    const [year, month] = startDate.split('-').map(Number);
+    const firstMonthIndex =
+      getNthBusinessDay(year, month - 1, nth) >= startDate ? month - 1 : month;
+    return getNthBusinessDay(year, firstMonthIndex + index - 1, nth);
+  }
+  const intervalInMonths = FREQUENCY_INTERVAL_IN_MONTHS[frequency] ?? 1;
+  return addMonthsPreservingDay(startDate, intervalInMonths * (index - 1));
+};
+
 export const generateRecurringDates = (
   date: string,
   frequency: RecurrenceFrequency,
@@ -91,23 +174,300 @@ export const generateRecurringDates = (
     return [date];
   }
 
-  const intervalInMonths = FREQUENCY_INTERVAL_IN_MONTHS[frequency];
-  const schedule = [date];
-
-  for (let index = 1; index < sanitizedOccurrences; index += 1) {
-    const monthsToAdd = intervalInMonths * index;
-    schedule.push(addMonthsPreservingDay(date, monthsToAdd));
-  }
-
-  return schedule;
+  return Array.from({ length: sanitizedOccurrences }, (_, index) =>
+    getRecurrenceOccurrence({ frequency, startDate: date }, index + 1)
+  );
 };
 
 export const formatRecurrenceProgress = (
   index?: number | null,
   total?: number | null
 ): string | null => {
-  if (typeof index !== 'number' || typeof total !== 'number' || total <= 1 || index < 1) {
+  if (typeof index !== 'number' || index < 1) {
     return null;
   }
-  return `Parcela ${index}/${total}`;
+  if (total === null || total === undefined) {
+    return `Recorrente #${index}`;
+  }
+  return total > 1 ? `Parcela ${index}/${total}` : null;
+};
+
+/** Converte os campos do formulário na configuração enviada ao criar a regra. */
+export const toRecurrenceConfig = (values: {
+  frequency: RecurrenceFrequency;
+  occurrences: number;
+  endless: boolean;
+  businessDay: number;
+}): RecurrenceConfig => ({
+  frequency: values.frequency,
+  occurrences: values.endless ? null : values.occurrences,
+  businessDay: values.frequency === 'business_day' ? values.businessDay : null,
+});
+
+export const buildRecurrenceRule = (
+  id: string,
+  collection: CategoryGroup,
+  record: RecurrenceTemplate & { date: string },
+  config: RecurrenceConfig
+): RecurrenceRule => {
+  const { date, ...template } = record;
+  return {
+    id,
+    collection,
+    frequency: config.frequency === 'none' ? 'monthly' : config.frequency,
+    occurrences: config.occurrences,
+    businessDay: config.frequency === 'business_day' ? (config.businessDay ?? 1) : null,
+    startDate: date,
+    materializedCount: 0,
+    template,
+  };
+};
+
+/** Último dia do mês como texto, suficiente para comparar com datas ISO. */
+export const getPeriodEnd = (year: number, month: number) => `${year}-${padNumber(month)}-31`;
+
+export const hasPendingOccurrences = (rule: RecurrenceRule, until: string) => {
+  const nextIndex = rule.materializedCount + 1;
+  return (
+    (rule.occurrences === null || nextIndex <= rule.occurrences) &&
+    getRecurrenceOccurrence(rule, nextIndex) <= until
+  );
+};
+
+/**
+ * Gera os lançamentos da regra que vencem até `until`. Os IDs seguem o formato do servidor,
+ * então o que foi criado offline coincide com o que o servidor cria ao sincronizar.
+ */
+export const materializeRecurrenceRule = <T extends { id: string }>(
+  rule: RecurrenceRule,
+  until: string
+) => {
+  const items: T[] = [];
+  let index = rule.materializedCount + 1;
+  while (
+    items.length < MAX_MATERIALIZED_PER_RULE &&
+    (rule.occurrences === null || index <= rule.occurrences) &&
+    getRecurrenceOccurrence(rule, index) <= until
+  ) {
+    items.push({
+      ...rule.template,
+      id: `${rule.id}_${index}`,
+      date: getRecurrenceOccurrence(rule, index),
+      recurrenceId: rule.id,
+      recurrenceIndex: index,
+      recurrenceTotal: rule.occurrences,
+      revision: 1,
+    } as unknown as T);
+    index += 1;
+  }
+  return { rule: { ...rule, materializedCount: index - 1 }, items };
+};
+
+export const materializeRecurrences = <T extends { id: string }>(
+  rules: RecurrenceRule[],
+  until: string
+) => {
+  const items: Record<CategoryGroup, T[]> = { expenses: [], incomes: [], investments: [] };
+  const updatedRules = rules
+    .filter(rule => hasPendingOccurrences(rule, until))
+    .map(rule => {
+      const result = materializeRecurrenceRule<T>(rule, until);
+      items[rule.collection].push(...result.items);
+      return result.rule;
+    });
+  return { rules: updatedRules, items };
+};
+
+export const MAX_SERIES_LENGTH = 24;
+
+export const SERIES_SCOPE_OPTIONS: Array<{
+  value: SeriesScope;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'single',
+    label: 'Somente este',
+    description: 'Os demais lançamentos da série continuam como estão.',
+  },
+  {
+    value: 'following',
+    label: 'Este e os próximos',
+    description: 'Os lançamentos anteriores não são alterados.',
+  },
+  {
+    value: 'all',
+    label: 'Todos da série',
+    description: 'Inclui os lançamentos já passados.',
+  },
+];
+
+interface SeriesRecord {
+  id: string;
+  date: string;
+  recurrenceId?: string | null;
+  recurrenceIndex?: number | null;
+  recurrenceTotal?: number | null;
+}
+
+export interface SeriesChange<T> {
+  items: T[];
+  removed: string[];
+  /** Regra que gera a série, quando existe; `null` se ela foi encerrada. */
+  rule?: RecurrenceRule | null;
+}
+
+export const isSeriesRecord = (record: SeriesRecord) =>
+  Boolean(
+    record.recurrenceId &&
+    record.recurrenceIndex &&
+    (record.recurrenceTotal === null ||
+      record.recurrenceTotal === undefined ||
+      record.recurrenceTotal > 1)
+  );
+
+const getSeries = <T extends SeriesRecord>(records: T[], recurrenceId: string) =>
+  records
+    .filter(record => record.recurrenceId === recurrenceId)
+    .sort((a, b) => (a.recurrenceIndex ?? 0) - (b.recurrenceIndex ?? 0));
+
+const getDay = (isoDate: string) => Number(isoDate.split('-')[2]);
+
+const withDayOfMonth = (isoDate: string, day: number) =>
+  addMonthsPreservingDay(`${isoDate.slice(0, 8)}${padNumber(day)}`, 0);
+
+const toMonthNumber = (isoDate: string) => {
+  const [year, month] = isoDate.split('-').map(Number);
+  return year * 12 + month;
+};
+
+const inferSeriesInterval = (series: SeriesRecord[]) => {
+  if (series.length < 2) {
+    return 1;
+  }
+  const [first, second] = series;
+  const indexGap = (second.recurrenceIndex ?? 2) - (first.recurrenceIndex ?? 1) || 1;
+  const interval = (toMonthNumber(second.date) - toMonthNumber(first.date)) / indexGap;
+  return Number.isInteger(interval) && interval > 0 ? interval : 1;
+};
+
+/** Indica se o lançamento pertence a uma série gerada por regra (materializada por período). */
+export const isRuleBackedRecord = (record: SeriesRecord, rules: RecurrenceRule[]) =>
+  Boolean(record.recurrenceId && rules.some(rule => rule.id === record.recurrenceId));
+
+/**
+ * Reproduz localmente a edição de série feita pelo servidor, para o modo offline e para a fila:
+ * aplica os campos aos lançamentos do escopo, move o dia do mês se a data mudou e encurta ou
+ * estende a série até `total`, repetindo o intervalo entre os dois primeiros lançamentos.
+ * Séries geradas por regra mantêm as datas da regra e só crescem quando um período novo
+ * é aberto.
+ */
+export const applySeriesUpdate = <T extends SeriesRecord>(
+  records: T[],
+  anchor: T,
+  changes: Omit<T, 'id'>,
+  options: SeriesEditOptions,
+  createId: () => string,
+  rule?: RecurrenceRule
+): SeriesChange<T> => {
+  const series = getSeries(records, anchor.recurrenceId ?? '');
+  const fromIndex = anchor.recurrenceIndex ?? 1;
+  const total = rule
+    ? (options.total ?? rule.occurrences)
+    : (options.total ?? anchor.recurrenceTotal ?? series.length);
+  const {
+    recurrenceId: _recurrenceId,
+    recurrenceIndex: _recurrenceIndex,
+    recurrenceTotal: _recurrenceTotal,
+    ...fields
+  } = changes;
+  const changedDay = !rule && changes.date !== anchor.date ? getDay(changes.date) : null;
+  const items: T[] = [];
+  const removed: string[] = [];
+
+  series.forEach(record => {
+    const index = record.recurrenceIndex ?? 0;
+    if (total !== null && index > total) {
+      removed.push(record.id);
+      return;
+    }
+    const inScope = options.scope === 'all' || index >= fromIndex;
+    items.push({
+      ...record,
+      ...(inScope
+        ? {
+            ...fields,
+            date: changedDay ? withDayOfMonth(record.date, changedDay) : record.date,
+          }
+        : {}),
+      id: record.id,
+      recurrenceTotal: total,
+    });
+  });
+
+  if (rule) {
+    const { date: _date, ...templateFields } = fields;
+    return {
+      items,
+      removed,
+      rule: {
+        ...rule,
+        template: { ...rule.template, ...templateFields },
+        occurrences: total,
+        materializedCount:
+          total === null ? rule.materializedCount : Math.min(rule.materializedCount, total),
+      },
+    };
+  }
+
+  const first = series[0];
+  const template = items.find(item => item.id === anchor.id) ?? anchor;
+  const lastIndex = series[series.length - 1]?.recurrenceIndex ?? series.length;
+  const interval = inferSeriesInterval(series);
+  const baseDate = withDayOfMonth(first.date, changedDay ?? getDay(first.date));
+  for (let index = lastIndex + 1; index <= (total ?? lastIndex); index += 1) {
+    items.push({
+      ...template,
+      id: createId(),
+      date: addMonthsPreservingDay(baseDate, interval * (index - (first.recurrenceIndex ?? 1))),
+      recurrenceIndex: index,
+      recurrenceTotal: total,
+    });
+  }
+
+  return { items, removed };
+};
+
+/** Remove o lançamento e os seguintes (ou a série inteira) e ajusta o total dos que sobram. */
+export const applySeriesDelete = <T extends SeriesRecord>(
+  records: T[],
+  anchor: T,
+  scope: Exclude<SeriesScope, 'single'>,
+  rule?: RecurrenceRule
+): SeriesChange<T> => {
+  const remainingTotal = scope === 'all' ? 0 : (anchor.recurrenceIndex ?? 1) - 1;
+  const items: T[] = [];
+  const removed: string[] = [];
+  getSeries(records, anchor.recurrenceId ?? '').forEach(record => {
+    if ((record.recurrenceIndex ?? 0) > remainingTotal) {
+      removed.push(record.id);
+    } else {
+      items.push({ ...record, recurrenceTotal: remainingTotal });
+    }
+  });
+  if (!rule) {
+    return { items, removed };
+  }
+  return {
+    items,
+    removed,
+    rule:
+      remainingTotal === 0
+        ? null
+        : {
+            ...rule,
+            occurrences: remainingTotal,
+            materializedCount: Math.min(rule.materializedCount, remainingTotal),
+          },
+  };
 };
@@ -0,0 +1,122 @@
+/**
+ * Tributação aplicada no resgate de cada cenário do simulador:
+ * - `regressive`: tabela regressiva de IR da renda fixa, com IOF nos primeiros 30 dias;
+ * - `exempt`: isento para pessoa física (poupança, LCI e LCA);
+ * - `flat`: alíquota única sobre o ganho, como em ações, ETFs, FIIs e criptoativos.
+ */
+export type TaxRegime =
+  | { kind: 'regressive' }
+  | { kind: 'exempt' }
+  | { kind: 'flat'; rate: number };
+
+export interface SimulationInput {
+  initialAmount: number;
+  monthlyContribution: number;
+  years: number;
+  /** Rentabilidade bruta anual, em fração (0,11 = 11% a.a.). */
+  annualRate: number;
+  /** IPCA anual esperado, em fração, usado para trazer o valor líquido a preços de hoje. */
+  inflationRate: number;
+  taxRegime: TaxRegime;
+}
+
+export interface SimulationResult {
+  totalInvested: number;
+  grossValue: number;
+  grossProfit: number;
+  incomeTax: number;
+  iof: number;
+  netValue: number;
+  netProfit: number;
+  /** Valor líquido descontado pela inflação acumulada no horizonte. */
+  realValue: number;
+}
+
+/** IOF por dia corrido desde a aplicação (posição 0 = 1º dia); zera a partir do 30º dia. */
+const IOF_TABLE = [
+  0.96, 0.93, 0.9, 0.86, 0.83, 0.8, 0.76, 0.73, 0.7, 0.66, 0.63, 0.6, 0.56, 0.53, 0.5, 0.46, 0.43,
+  0.4, 0.36, 0.33, 0.3, 0.26, 0.23, 0.2, 0.16, 0.13, 0.1, 0.06, 0.03,
+];
+
+export const getIofRate = (days: number) =>
+  days >= 30 ? 0 : IOF_TABLE[Math.max(0, Math.floor(days) - 1)];
+
+export const getRegressiveIncomeTaxRate = (days: number) => {
+  if (days <= 180) {
+    return 0.225;
+  }
+  if (days <= 360) {
+    return 0.2;
+  }
+  if (days <= 720) {
+    return 0.175;
+  }
+  return 0.15;
+};
+
+export const formatTaxRegime = (regime: TaxRegime) => {
+  switch (regime.kind) {
+    case 'exempt':
+      return 'Isento de IR';
+    case 'flat':
+      return `IR de ${(regime.rate * 100).toLocaleString('pt-BR')}% sobre o ganho`;
+    default:
+      return 'IR regressivo (22,5% a 15%) e IOF até 30 dias';
+  }
+};
+
+const DAYS_PER_MONTH = 365 / 12;
+
+/**
+ * Projeta o saldo com juros compostos mensais (taxa anual / 12) e aportes no fim de cada mês.
+ * Cada aporte é tributado pelo próprio prazo, como acontece no resgate de renda fixa: o IOF
+ * incide primeiro sobre o rendimento e o IR sobre o que sobra.
+ */
+export const simulateInvestment = (input: SimulationInput): SimulationResult => {
+  const months = Math.max(0, Math.round(input.years * 12));
+  const monthlyRate = input.annualRate / 12;
+  const lots = [
+    { amount: input.initialAmount, heldMonths: months },
+    ...Array.from({ length: months }, (_, index) => ({
+      amount: input.monthlyContribution,
+      heldMonths: months - index - 1,
+    })),
+  ];
+
+  const totals = lots.reduce(
+    (acc, lot) => {
+      const value = lot.amount * Math.pow(1 + monthlyRate, lot.heldMonths);
+      const gain = Math.max(0, value - lot.amount);
+      const days = Math.round(lot.heldMonths * DAYS_PER_MONTH);
+      let iof = 0;
+      let incomeTax = 0;
+      if (input.taxRegime.kind === 'regressive') {
+        iof = gain * getIofRate(days);
+        incomeTax = (gain - iof) * getRegressiveIncomeTaxRate(days);
+      } else if (input.taxRegime.kind === 'flat') {
+        incomeTax = gain * input.taxRegime.rate;
+      }
+      return {
+        invested: acc.invested + lot.amount,
+        gross: acc.gross + value,
+        iof: acc.iof + iof,
+        incomeTax: acc.incomeTax + incomeTax,
+      };
+    },
+    { invested: 0, gross: 0, iof: 0, incomeTax: 0 }
+  );
+
+  const netValue = totals.gross - totals.iof - totals.incomeTax;
+  const inflationFactor = Math.pow(1 + input.inflationRate, months / 12);
+
+  return {
+    totalInvested: totals.invested,
+    grossValue: totals.gross,
+    grossProfit: totals.gross - totals.invested,
+    incomeTax: totals.incomeTax,
+    iof: totals.iof,
+    netValue,
+    netProfit: netValue - totals.invested,
+    realValue: inflationFactor > 0 ? netValue / inflationFactor : netValue,
+  };
+};
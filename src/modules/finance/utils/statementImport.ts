@@ -0,0 +1,285 @@
+import type { Expense, Income } from '../types/finance';
+
+export type StatementEntryKind = 'debit' | 'credit';
+
+export interface StatementEntry {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  kind: StatementEntryKind;
+}
+
+export type CsvColumnRef = string | number;
+
+export interface CsvImportConfig {
+  delimiter: ',' | ';';
+  dateFormat: 'dd/mm/yyyy' | 'yyyy-mm-dd';
+  decimalSeparator: ',' | '.';
+  /** Nome do cabeçalho ou posição (a partir de 1) de cada coluna. */
+  columns: {
+    date: CsvColumnRef;
+    description: ReadonlyArray<CsvColumnRef>;
+    amount: CsvColumnRef;
+  };
+  /** Faturas de cartão exportam compras como valores positivos. */
+  invertSign?: boolean;
+}
+
+export const CSV_PRESETS = [
+  {
+    id: 'nubank',
+    label: 'Nubank (conta)',
+    config: {
+      delimiter: ',',
+      dateFormat: 'dd/mm/yyyy',
+      decimalSeparator: '.',
+      columns: { date: 'Data', description: ['Descrição'], amount: 'Valor' },
+    },
+    paymentMethod: 'debito',
+  },
+  {
+    id: 'nubank_card',
+    label: 'Nubank (fatura do cartão)',
+    config: {
+      delimiter: ',',
+      dateFormat: 'yyyy-mm-dd',
+      decimalSeparator: '.',
+      columns: { date: 'date', description: ['title'], amount: 'amount' },
+      invertSign: true,
+    },
+    paymentMethod: 'credito',
+  },
+  {
+    id: 'itau',
+    label: 'Itaú (extrato)',
+    config: {
+      delimiter: ';',
+      dateFormat: 'dd/mm/yyyy',
+      decimalSeparator: ',',
+      columns: { date: 1, description: [2], amount: 3 },
+    },
+    paymentMethod: 'debito',
+  },
+  {
+    id: 'inter',
+    label: 'Inter (extrato)',
+    config: {
+      delimiter: ';',
+      dateFormat: 'dd/mm/yyyy',
+      decimalSeparator: ',',
+      columns: {
+        date: 'Data Lançamento',
+        description: ['Histórico', 'Descrição'],
+        amount: 'Valor',
+      },
+    },
+    paymentMethod: 'debito',
+  },
+] as const satisfies ReadonlyArray<{
+  id: string;
+  label: string;
+  config: CsvImportConfig;
+  paymentMethod: Expense['paymentMethod'];
+}>;
+
+export type CsvPresetId = (typeof CSV_PRESETS)[number]['id'];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const buildEntryId = (index: number) => `statement-${index}`;
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+/** Lê o arquivo como UTF-8 e recorre ao Windows-1252, comum em extratos de bancos brasileiros. */
+export const decodeStatementFile = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+export const isOfxContent = (content: string) => /<OFX>/i.test(content);
+
+const readOfxTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+const parseOfxDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const toEntry = (
+  index: number,
+  date: string | null,
+  description: string,
+  signedAmount: number
+): StatementEntry | null => {
+  if (!date || !Number.isFinite(signedAmount) || signedAmount === 0) {
+    return null;
+  }
+  return {
+    id: buildEntryId(index),
+    date,
+    description: description || 'Lançamento importado',
+    amount: roundCents(Math.abs(signedAmount)),
+    kind: signedAmount < 0 ? 'debit' : 'credit',
+  };
+};
+
+/**
+ * Extrai os lançamentos de um arquivo OFX (SGML ou XML). Apenas os blocos `STMTTRN` são
+ * considerados; saldos e dados da conta são ignorados.
+ */
+export const parseOfx = (content: string): StatementEntry[] => {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  return blocks
+    .map((block, index) =>
+      toEntry(
+        index,
+        parseOfxDate(readOfxTag(block, 'DTPOSTED')),
+        readOfxTag(block, 'MEMO') || readOfxTag(block, 'NAME'),
+        Number(readOfxTag(block, 'TRNAMT').replace(',', '.'))
+      )
+    )
+    .filter((entry): entry is StatementEntry => entry !== null);
+};
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseCsvDate = (value: string, format: CsvImportConfig['dateFormat']) => {
+  if (format === 'yyyy-mm-dd') {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  }
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  return match ? `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}` : null;
+};
+
+const parseCsvAmount = (value: string, decimalSeparator: CsvImportConfig['decimalSeparator']) => {
+  const cleaned = value.replace(/[^\d,.-]/g, '');
+  const normalized =
+    decimalSeparator === ','
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  return normalized ? Number(normalized) : Number.NaN;
+};
+
+export interface CsvRow {
+  date: string | null;
+  description: string;
+  /** Valor com o sinal do arquivo; `NaN` quando a célula não tem um número. */
+  amount: number;
+}
+
+/**
+ * Lê as linhas de dados de um CSV segundo a configuração, sem descartar nenhuma. Colunas
+ * referenciadas por nome usam a primeira linha que contém todos os cabeçalhos, o que ignora o
+ * preâmbulo de alguns extratos.
+ */
+export const readCsvRows = (content: string, config: CsvImportConfig): CsvRow[] => {
+  const rows = content
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => splitCsvLine(line, config.delimiter));
+  const refs = [config.columns.date, config.columns.amount, ...config.columns.description];
+  const namedRefs = refs.filter((ref): ref is string => typeof ref === 'string');
+
+  let headerIndex = -1;
+  let header: string[] = [];
+  if (namedRefs.length) {
+    headerIndex = rows.findIndex(row => {
+      const normalized = row.map(normalizeHeader);
+      return namedRefs.every(ref => normalized.includes(normalizeHeader(ref)));
+    });
+    if (headerIndex < 0) {
+      throw new Error(`Colunas não encontradas no arquivo: ${namedRefs.join(', ')}`);
+    }
+    header = rows[headerIndex].map(normalizeHeader);
+  }
+
+  const resolve = (ref: CsvColumnRef) =>
+    typeof ref === 'number' ? ref - 1 : header.indexOf(normalizeHeader(ref));
+  const dateIndex = resolve(config.columns.date);
+  const amountIndex = resolve(config.columns.amount);
+  const descriptionIndexes = config.columns.description.map(resolve);
+
+  return rows.slice(headerIndex + 1).map(row => {
+    const amount = parseCsvAmount(row[amountIndex] ?? '', config.decimalSeparator);
+    return {
+      date: parseCsvDate(row[dateIndex] ?? '', config.dateFormat),
+      description: descriptionIndexes
+        .map(columnIndex => row[columnIndex] ?? '')
+        .filter(Boolean)
+        .join(' · '),
+      amount: config.invertSign ? -amount : amount,
+    };
+  });
+};
+
+/** Converte um CSV exportado pelo banco em lançamentos; linhas sem valor ficam de fora. */
+export const parseCsv = (content: string, config: CsvImportConfig): StatementEntry[] =>
+  readCsvRows(content, config)
+    .map((row, index) => toEntry(index, row.date, row.description, row.amount))
+    .filter((entry): entry is StatementEntry => entry !== null);
+
+const buildMatchKey = (kind: StatementEntryKind, date: string, amount: number) =>
+  `${kind}|${date}|${Math.round(amount * 100)}`;
+
+/**
+ * Marca como duplicados os lançamentos com mesma data e valor de um registro já existente.
+ * Cada registro cobre apenas um lançamento, então compras repetidas no mesmo dia continuam
+ * disponíveis quando só uma delas foi cadastrada.
+ */
+export const findDuplicateEntries = (
+  entries: StatementEntry[],
+  expenses: Pick<Expense, 'date' | 'amount'>[],
+  incomes: Pick<Income, 'date' | 'amount'>[]
+) => {
+  const available = new Map<string, number>();
+  const track = (key: string) => available.set(key, (available.get(key) ?? 0) + 1);
+  expenses.forEach(expense => track(buildMatchKey('debit', expense.date, expense.amount)));
+  incomes.forEach(income => track(buildMatchKey('credit', income.date, income.amount)));
+
+  const duplicates = new Set<string>();
+  entries.forEach(entry => {
+    const key = buildMatchKey(entry.kind, entry.date, entry.amount);
+    const remaining = available.get(key) ?? 0;
+    if (remaining > 0) {
+      available.set(key, remaining - 1);
+      duplicates.add(entry.id);
+    }
+  });
+  return duplicates;
+};
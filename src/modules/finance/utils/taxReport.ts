@@ -0,0 +1,219 @@
+import type { Expense, FinanceState, TaxDeductionKind, TaxSettings } from '../types/finance';
+import { rollUpCategoryName } from './categories';
+import { buildCardsById, resolveExpenseDate } from './creditCard';
+import { formatDateDisplay } from './period';
+import { getSignedInvestmentAmount, summarizePosition } from './portfolio';
+
+export const TAX_DEDUCTION_OPTIONS: Array<{ value: TaxDeductionKind; label: string }> = [
+  { value: 'saude', label: 'Despesas médicas' },
+  { value: 'educacao', label: 'Despesas com instrução' },
+  { value: 'previdencia', label: 'Previdência privada (PGBL)' },
+];
+
+export const formatDeductionKind = (kind: TaxDeductionKind) =>
+  TAX_DEDUCTION_OPTIONS.find(option => option.value === kind)?.label ?? kind;
+
+/** Fichas da declaração, na ordem em que aparecem no programa do IRPF. */
+export const TAX_REPORT_SECTIONS = {
+  taxableIncome: 'Rendimentos Tributáveis',
+  exemptIncome: 'Rendimentos Isentos e Não Tributáveis',
+  deductions: 'Pagamentos Efetuados',
+  assets: 'Bens e Direitos',
+} as const;
+
+export interface IncomeBySource {
+  source: string;
+  total: number;
+}
+
+export interface DeductionGroup {
+  kind: TaxDeductionKind;
+  category: string;
+  total: number;
+  items: Array<Pick<Expense, 'id' | 'description' | 'amount'> & { paidAt: string }>;
+}
+
+/** Saldo em 31/12 por instituição. A ficha pede o custo; o valor de mercado é só referência. */
+export interface AssetByInstitution {
+  institution: string;
+  previousBalance: number;
+  balance: number;
+  marketValue: number;
+}
+
+export interface TaxReport {
+  year: number;
+  taxableIncome: IncomeBySource[];
+  exemptIncome: IncomeBySource[];
+  deductions: DeductionGroup[];
+  assets: AssetByInstitution[];
+  totals: {
+    taxableIncome: number;
+    exemptIncome: number;
+    deductions: number;
+    previousAssets: number;
+    assets: number;
+  };
+}
+
+type TaxReportSource = Pick<
+  FinanceState,
+  'incomes' | 'expenses' | 'investments' | 'positions' | 'valuations' | 'creditCards' | 'categories'
+> & { taxSettings: TaxSettings };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const sumBy = <T>(items: T[], getValue: (item: T) => number) =>
+  roundCents(items.reduce((sum, item) => sum + getValue(item), 0));
+
+const isInYear = (date: string, year: number) => date.startsWith(`${year}-`);
+
+const groupIncomeBySource = (items: Array<{ source: string; amount: number }>) => {
+  const totals = new Map<string, number>();
+  items.forEach(item => {
+    const source = item.source.trim() || 'Sem origem';
+    totals.set(source, (totals.get(source) ?? 0) + item.amount);
+  });
+  return Array.from(totals.entries())
+    .map(([source, total]) => ({ source, total: roundCents(total) }))
+    .sort((a, b) => b.total - a.total);
+};
+
+const buildAssets = (source: TaxReportSource, year: number): AssetByInstitution[] => {
+  const previousEnd = `${year - 1}-12-31`;
+  const yearEnd = `${year}-12-31`;
+  const assets = new Map<string, AssetByInstitution>();
+  const add = (institution: string, previous: number, current: number, market: number) => {
+    const key = institution.trim() || 'Sem instituição';
+    const entry = assets.get(key) ?? {
+      institution: key,
+      previousBalance: 0,
+      balance: 0,
+      marketValue: 0,
+    };
+    entry.previousBalance += previous;
+    entry.balance += current;
+    entry.marketValue += market;
+    assets.set(key, entry);
+  };
+  const investments = source.investments.filter(item => !item.excludeFromTotals);
+
+  source.positions.forEach(position => {
+    const previous = summarizePosition(position, investments, source.valuations, previousEnd);
+    const current = summarizePosition(position, investments, source.valuations, yearEnd);
+    add(position.institution, previous.costBasis, current.costBasis, current.marketValue);
+  });
+
+  // Aportes sem posição não têm avaliação: entram pelo valor aplicado nas duas datas.
+  const positionIds = new Set(source.positions.map(position => position.id));
+  investments
+    .filter(item => !(item.positionId && positionIds.has(item.positionId)) && item.date <= yearEnd)
+    .forEach(item => {
+      const amount = getSignedInvestmentAmount(item);
+      add(item.institution, item.date <= previousEnd ? amount : 0, amount, amount);
+    });
+
+  return Array.from(assets.values())
+    .map(entry => ({
+      ...entry,
+      previousBalance: roundCents(entry.previousBalance),
+      balance: roundCents(entry.balance),
+      marketValue: roundCents(entry.marketValue),
+    }))
+    .filter(entry => entry.previousBalance > 0 || entry.balance > 0)
+    .sort((a, b) => b.balance - a.balance);
+};
+
+/**
+ * Reúne os dados do ano-calendário para a declaração. Lançamentos fora dos totais ficam de fora,
+ * assim como no resumo; gastos dedutíveis seguem a data de pagamento (vencimento da fatura no
+ * crédito), que é o que vale para a Receita.
+ */
+export const buildTaxReport = (source: TaxReportSource, year: number): TaxReport => {
+  const exemptCategories = new Set(source.taxSettings.exemptIncomeCategories);
+  const yearIncomes = source.incomes.filter(
+    income => !income.excludeFromTotals && isInYear(income.date, year)
+  );
+  const taxableIncome = groupIncomeBySource(
+    yearIncomes.filter(income => !exemptCategories.has(income.category))
+  );
+  const exemptIncome = groupIncomeBySource(
+    yearIncomes.filter(income => exemptCategories.has(income.category))
+  );
+
+  const cardsById = buildCardsById(source.creditCards);
+  // Subcategoria entra pela categoria principal, a menos que ela mesma esteja marcada.
+  const flaggedCategories = new Set(
+    source.taxSettings.deductibleCategories.map(entry => entry.category)
+  );
+  const getDeductionCategory = (expense: Expense) =>
+    flaggedCategories.has(expense.category)
+      ? expense.category
+      : rollUpCategoryName(source.categories.expenses, expense.category);
+  const deductions = source.taxSettings.deductibleCategories
+    .map<DeductionGroup>(({ category, kind }) => {
+      const items = source.expenses
+        .filter(expense => !expense.excludeFromTotals && getDeductionCategory(expense) === category)
+        .map(expense => ({
+          id: expense.id,
+          description: expense.description,
+          amount: expense.amount,
+          paidAt: resolveExpenseDate(expense, 'cash', cardsById),
+        }))
+        .filter(item => isInYear(item.paidAt, year))
+        .sort((a, b) => a.paidAt.localeCompare(b.paidAt));
+      return { kind, category, items, total: sumBy(items, item => item.amount) };
+    })
+    .filter(group => group.items.length > 0);
+
+  const assets = buildAssets(source, year);
+
+  return {
+    year,
+    taxableIncome,
+    exemptIncome,
+    deductions,
+    assets,
+    totals: {
+      taxableIncome: sumBy(taxableIncome, item => item.total),
+      exemptIncome: sumBy(exemptIncome, item => item.total),
+      deductions: sumBy(deductions, item => item.total),
+      previousAssets: sumBy(assets, item => item.previousBalance),
+      assets: sumBy(assets, item => item.balance),
+    },
+  };
+};
+
+/** Linhas do CSV, uma ficha por bloco: ficha, item, detalhe, valor e situação no ano anterior. */
+export const buildTaxReportCsvRows = (report: TaxReport) => {
+  const rows: Array<Array<string | number>> = [
+    ['Ficha', 'Item', 'Detalhe', `Valor em ${report.year}`, `Situação em 31/12/${report.year - 1}`],
+  ];
+  report.taxableIncome.forEach(item =>
+    rows.push([TAX_REPORT_SECTIONS.taxableIncome, item.source, '', item.total, ''])
+  );
+  report.exemptIncome.forEach(item =>
+    rows.push([TAX_REPORT_SECTIONS.exemptIncome, item.source, '', item.total, ''])
+  );
+  report.deductions.forEach(group =>
+    group.items.forEach(item =>
+      rows.push([
+        TAX_REPORT_SECTIONS.deductions,
+        `${formatDeductionKind(group.kind)} · ${group.category}`,
+        `${formatDateDisplay(item.paidAt)} · ${item.description}`,
+        item.amount,
+        '',
+      ])
+    )
+  );
+  report.assets.forEach(item =>
+    rows.push([
+      TAX_REPORT_SECTIONS.assets,
+      item.institution,
+      'Aplicações financeiras (custo)',
+      item.balance,
+      item.previousBalance,
+    ])
+  );
+  return rows;
+};
@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { useAuth } from '@modules/auth/services/AuthContext';
+import { useSync } from '@core/providers/SyncProvider';
+import { Modal } from '@shared/components/Modal/Modal';
+import { readStoredValue, writeStoredValue } from '@shared/services/syncQueue';
+
+import {
+  GUEST_IMPORT_SOURCES,
+  type GuestImportRecord,
+  type GuestImportSource,
+} from '../services/guestImportSources';
+import styles from './GuestImportWizard.module.css';
+
+type WizardStep = 'closed' | 'loading' | 'select' | 'importing' | 'done';
+
+interface ImportGroup {
+  source: GuestImportSource;
+  records: Array<GuestImportRecord & { duplicate: boolean }>;
+}
+
+interface ImportSummary {
+  imported: number;
+  duplicates: number;
+  failed: number;
+}
+
+interface GuestImportWizardProps {
+  onOpenChange?: (open: boolean) => void;
+}
+
+const buildDismissKey = (uid: string) => `guest_import_dismissed_${uid}`;
+const buildPostponeKey = (uid: string) => `guest_import_postponed_${uid}`;
+const buildSelectionKey = (sourceId: string, recordId: string) => `${sourceId}:${recordId}`;
+
+// "Agora não" vale só para esta aba: fechar sem querer não pode esconder os dados locais de vez.
+const isPostponed = (uid: string) => {
+  try {
+    return window.sessionStorage.getItem(buildPostponeKey(uid)) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const postponeForSession = (uid: string) => {
+  try {
+    window.sessionStorage.setItem(buildPostponeKey(uid), 'true');
+  } catch (error) {
+    console.warn('Não foi possível adiar a importação nesta sessão', error);
+  }
+};
+
+/**
+ * Oferece enviar para a conta os registros criados no modo visitante. Aparece no primeiro
+ * acesso com sincronização disponível e some depois que os dados locais são importados ou
+ * descartados; adiar esconde só até a próxima sessão, a menos que o usuário peça para não
+ * perguntar de novo.
+ */
+const GuestImportWizard = ({ onOpenChange }: GuestImportWizardProps) => {
+  const { user, isGuest } = useAuth();
+  const { canSync, getToken, submit } = useSync();
+  const [step, setStep] = useState<WizardStep>('closed');
+  const [groups, setGroups] = useState<ImportGroup[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [dontAskAgain, setDontAskAgain] = useState(false);
+  const checkedUidRef = useRef<string | null>(null);
+
+  const uid = user && !isGuest ? user.uid : null;
+
+  useEffect(() => {
+    if (!uid || !canSync || checkedUidRef.current === uid) {
+      return;
+    }
+    checkedUidRef.current = uid;
+    if (readStoredValue<boolean>(buildDismissKey(uid)) || isPostponed(uid)) {
+      return;
+    }
+    const localGroups = GUEST_IMPORT_SOURCES.map(source => ({
+      source,
+      records: source.readRecords(),
+    })).filter(group => group.records.length > 0);
+    if (!localGroups.length) {
+      return;
+    }
+
+    let active = true;
+    setStep('loading');
+    const loadGroups = async () => {
+      const token = await getToken();
+      const remoteSignatures = await Promise.all(
+        localGroups.map(({ source }) =>
+          source.listRemoteSignatures(token).catch(error => {
+            console.error(`Não foi possível comparar ${source.label} com a conta`, error);
+            return new Set<string>();
+          })
+        )
+      );
+      if (!active) {
+        return;
+      }
+      const nextGroups = localGroups.map((group, index) => ({
+        source: group.source,
+        records: group.records.map(record => ({
+          ...record,
+          duplicate: remoteSignatures[index].has(record.signature),
+        })),
+      }));
+      setGroups(nextGroups);
+      setSelected(
+        new Set(
+          nextGroups.flatMap(group =>
+            group.records
+              .filter(record => !record.duplicate)
+              .map(record => buildSelectionKey(group.source.id, record.id))
+          )
+        )
+      );
+      setStep('select');
+    };
+
+    loadGroups().catch(error => {
+      console.error('Erro ao preparar importação dos dados locais', error);
+      if (active) {
+        setStep('closed');
+      }
+    });
+    return () => {
+      active = false;
+      checkedUidRef.current = null;
+    };
+  }, [canSync, getToken, uid]);
+
+  useEffect(() => {
+    onOpenChange?.(step !== 'closed');
+  }, [onOpenChange, step]);
+
+  const selectableCount = useMemo(
+    () =>
+      groups.reduce(
+        (total, group) => total + group.records.filter(record => !record.duplicate).length,
+        0
+      ),
+    [groups]
+  );
+
+  const toggleRecord = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleGroup = (group: ImportGroup, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      group.records
+        .filter(record => !record.duplicate)
+        .forEach(record => {
+          const key = buildSelectionKey(group.source.id, record.id);
+          if (checked) {
+            next.add(key);
+          } else {
+            next.delete(key);
+          }
+        });
+      return next;
+    });
+  };
+
+  const handlePostpone = () => {
+    if (uid) {
+      if (dontAskAgain) {
+        writeStoredValue(buildDismissKey(uid), true);
+      } else {
+        postponeForSession(uid);
+      }
+    }
+    setStep('closed');
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Descartar todos os dados do modo visitante deste dispositivo?')) {
+      return;
+    }
+    groups.forEach(group =>
+      group.source.removeRecords(new Set(group.records.map(record => record.id)))
+    );
+    toast.success('Dados locais descartados.');
+    setStep('closed');
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    const result: ImportSummary = { imported: 0, duplicates: 0, failed: 0 };
+    // Um envio por vez, na ordem da lista, para manter a fila previsível se a conexão cair.
+    for (const group of groups) {
+      const processed = new Set<string>();
+      for (const record of group.records) {
+        if (record.duplicate) {
+          processed.add(record.id);
+          result.duplicates += 1;
+          continue;
+        }
+        if (!selected.has(buildSelectionKey(group.source.id, record.id))) {
+          continue;
+        }
+        const outcome = await submit(group.source.scope, record.operation);
+        if (outcome.status === 'rejected') {
+          console.error(`Falha ao importar ${record.title}`, outcome.error);
+          result.failed += 1;
+          continue;
+        }
+        processed.add(record.id);
+        result.imported += 1;
+      }
+      group.source.removeRecords(processed);
+    }
+    setSummary(result);
+    setStep('done');
+  };
+
+  if (step === 'closed') {
+    return null;
+  }
+
+  const footer =
+    step === 'select' ? (
+      <>
+        <button type="button" className={styles.dangerButton} onClick={handleDiscard}>
+          Descartar dados locais
+        </button>
+        <button type="button" className={styles.secondaryButton} onClick={handlePostpone}>
+          Agora não
+        </button>
+        <button
+          type="button"
+          className={styles.primaryButton}
+          onClick={() => void handleImport()}
+          disabled={selected.size === 0 && selectableCount > 0}
+        >
+          {selectableCount > 0 ? `Importar ${selected.size} registro(s)` : 'Limpar duplicados'}
+        </button>
+      </>
+    ) : step === 'done' ? (
+      <button type="button" className={styles.primaryButton} onClick={() => setStep('closed')}>
+        Concluir
+      </button>
+    ) : null;
+
+  return (
+    <Modal
+      isOpen
+      title="Importar dados do modo visitante"
+      onClose={step === 'importing' ? () => undefined : handlePostpone}
+      footer={footer}
+    >
+      {step === 'loading' && (
+        <p className={styles.status}>Comparando os dados deste dispositivo com a sua conta...</p>
+      )}
+
+      {step === 'importing' && (
+        <p className={styles.status}>Enviando os registros selecionados para a sua conta...</p>
+      )}
+
+      {step === 'done' && summary && (
+        <div className={styles.summary}>
+          <p>
+            {summary.imported} registro(s) enviado(s) para a conta
+            {summary.duplicates > 0 ? ` e ${summary.duplicates} duplicado(s) ignorado(s)` : ''}.
+          </p>
+          {summary.failed > 0 && (
+            <p className={styles.failed}>
+              {summary.failed} registro(s) foram recusados pelo servidor e continuam neste
+              dispositivo.
+            </p>
+          )}
+          <p>As cópias locais importadas foram removidas deste dispositivo.</p>
+        </div>
+      )}
+
+      {step === 'select' && (
+        <>
+          <p className={styles.intro}>
+            Encontramos registros criados no modo visitante. Escolha o que enviar para a sua conta;
+            itens que já existem nela aparecem marcados e não serão duplicados.
+          </p>
+          <label className={styles.dontAsk}>
+            <input
+              type="checkbox"
+              checked={dontAskAgain}
+              onChange={event => setDontAskAgain(event.target.checked)}
+            />
+            Não perguntar de novo neste dispositivo ao escolher &ldquo;Agora não&rdquo;
+          </label>
+          {groups.map(group => {
+            const selectable = group.records.filter(record => !record.duplicate);
+            const allChecked =
+              selectable.length > 0 &&
+              selectable.every(record =>
+                selected.has(buildSelectionKey(group.source.id, record.id))
+              );
+            return (
+              <section key={group.source.id} className={styles.group}>
+                <label className={styles.groupHeader}>
+                  <input
+                    type="checkbox"
+                    checked={allChecked}
+                    disabled={selectable.length === 0}
+                    onChange={event => toggleGroup(group, event.target.checked)}
+                  />
+                  <strong>{group.source.label}</strong>
+                  <span>{group.records.length} registro(s)</span>
+                </label>
+                <ul className={styles.records}>
+                  {group.records.map(record => {
+                    const key = buildSelectionKey(group.source.id, record.id);
+                    return (
+                      <li key={key} className={record.duplicate ? styles.duplicate : undefined}>
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={!record.duplicate && selected.has(key)}
+                            disabled={record.duplicate}
+                            onChange={() => toggleRecord(key)}
+                          />
+                          <span className={styles.recordTitle}>{record.title}</span>
+                          {record.detail && (
+                            <span className={styles.recordDetail}>{record.detail}</span>
+                          )}
+                          {record.duplicate && (
+                            <span className={styles.badge}>Já existe na conta</span>
+                          )}
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            );
+          })}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export { GuestImportWizard };
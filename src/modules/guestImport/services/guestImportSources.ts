@@ -0,0 +1,346 @@
+import { formatCurrency } from '@shared/utils/format';
+import {
+  readStoredValue,
+  writeStoredValue,
+  type SyncOperationInput,
+} from '@shared/services/syncQueue';
+import {
+  AUTOMATIONS_GUEST_STORAGE_KEY,
+  AUTOMATIONS_SYNC_SCOPE,
+  listAutomations,
+  type AutomationRuleResponse,
+} from '@modules/automations/services/automationService';
+import {
+  CALENDAR_GUEST_STORAGE_KEY,
+  CALENDAR_SYNC_SCOPE,
+  listEvents,
+} from '@modules/calendar/services/calendarService';
+import type { CalendarEvent } from '@modules/calendar/types/calendar';
+import {
+  FINANCE_GUEST_STORAGE_KEY,
+  FINANCE_SYNC_SCOPE,
+  listRecords,
+  type FinanceCollection,
+} from '@modules/finance/services/financeService';
+import type { Expense, FinanceState, Income, Investment } from '@modules/finance/types/finance';
+import {
+  NOTES_GUEST_STORAGE_KEY,
+  NOTES_SYNC_SCOPE,
+  listNotes,
+} from '@modules/notes/services/notesService';
+import type { Note, NotesState } from '@modules/notes/types/notes';
+import {
+  RELATIONSHIPS_GUEST_STORAGE_KEY,
+  RELATIONSHIPS_SYNC_SCOPE,
+  listContacts,
+  type RelationshipContact,
+} from '@modules/relationships/services/relationshipService';
+import {
+  TASKS_GUEST_STORAGE_KEY,
+  TASKS_SYNC_SCOPE,
+  listTasks,
+} from '@modules/tasks/services/taskService';
+import type { Task, TaskState } from '@modules/tasks/types/tasks';
+import {
+  TIMECLOCK_GUEST_STORAGE_KEY,
+  TIMECLOCK_SYNC_SCOPE,
+  listEntries,
+  type TimeEntryResponse,
+} from '@modules/timeclock/services/timeclockService';
+
+interface GuestImportRecord {
+  id: string;
+  title: string;
+  detail: string;
+  signature: string;
+  operation: SyncOperationInput;
+}
+
+/**
+ * Dados de um módulo salvos no modo visitante. `signature` identifica o mesmo registro no
+ * dispositivo e na conta, para que a importação não duplique o que já foi enviado.
+ */
+interface GuestImportSource {
+  id: string;
+  scope: string;
+  label: string;
+  readRecords: () => GuestImportRecord[];
+  listRemoteSignatures: (token: string) => Promise<Set<string>>;
+  removeRecords: (ids: Set<string>) => void;
+}
+
+const buildSignature = (...parts: unknown[]) =>
+  parts
+    .map(part =>
+      String(part ?? '')
+        .trim()
+        .toLowerCase()
+    )
+    .join('|');
+
+const formatDate = (value?: string) =>
+  value ? new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString('pt-BR') : '';
+
+const omitKeys = <T extends object>(record: T, keys: string[]) =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)));
+
+const withIds = <T>(value: unknown) =>
+  Array.isArray(value)
+    ? (value.filter(item => item && typeof item === 'object' && 'id' in item) as T[])
+    : [];
+
+const readArray = <T>(key: string) => withIds<T>(readStoredValue<unknown>(key));
+
+const removeFromArray = <T extends { id: string }>(key: string, ids: Set<string>) => {
+  const stored = readStoredValue<unknown>(key);
+  if (Array.isArray(stored)) {
+    writeStoredValue(
+      key,
+      (stored as T[]).filter(item => !ids.has(item.id))
+    );
+  }
+};
+
+const FINANCE_LABELS: Record<FinanceCollection, { label: string; record: string }> = {
+  expenses: { label: 'Finanças · gastos', record: 'gasto' },
+  incomes: { label: 'Finanças · receitas', record: 'receita' },
+  investments: { label: 'Finanças · investimentos', record: 'investimento' },
+};
+
+const financeSignature = (record: Expense | Income | Investment) =>
+  buildSignature(record.date, Number(record.amount).toFixed(2), record.description);
+
+const createFinanceSource = (collection: FinanceCollection): GuestImportSource => ({
+  id: `finance-${collection}`,
+  scope: FINANCE_SYNC_SCOPE,
+  label: FINANCE_LABELS[collection].label,
+  readRecords: () => {
+    const state = readStoredValue<Partial<FinanceState>>(FINANCE_GUEST_STORAGE_KEY);
+    const records = withIds<Expense | Income | Investment>(state?.[collection]);
+    return records.map(record => ({
+      id: record.id,
+      title: record.description,
+      detail: `${formatDate(record.date)} · ${formatCurrency(Number(record.amount) || 0)}`,
+      signature: financeSignature(record),
+      operation: {
+        type: 'create',
+        label: `Importar ${FINANCE_LABELS[collection].record} "${record.description}"`,
+        entityId: record.id,
+        payload: { collection, record: omitKeys(record, ['id', 'revision']) },
+      },
+    }));
+  },
+  listRemoteSignatures: async token => {
+    const { items } = await listRecords(token, collection);
+    return new Set(items.map(financeSignature));
+  },
+  removeRecords: ids => {
+    const state = readStoredValue<Partial<FinanceState>>(FINANCE_GUEST_STORAGE_KEY);
+    if (!state) {
+      return;
+    }
+    writeStoredValue(FINANCE_GUEST_STORAGE_KEY, {
+      ...state,
+      [collection]: ((state[collection] ?? []) as Array<{ id: string }>).filter(
+        item => !ids.has(item.id)
+      ),
+    });
+  },
+});
+
+const taskSignature = (task: Pick<Task, 'title' | 'dueDate'>) =>
+  buildSignature(task.title, task.dueDate);
+
+const tasksSource: GuestImportSource = {
+  id: 'tasks',
+  scope: TASKS_SYNC_SCOPE,
+  label: 'Tarefas',
+  readRecords: () =>
+    withIds<Task>(readStoredValue<Partial<TaskState>>(TASKS_GUEST_STORAGE_KEY)?.tasks).map(
+      task => ({
+        id: task.id,
+        title: task.title,
+        detail: `Prazo ${formatDate(task.dueDate)}`,
+        signature: taskSignature(task),
+        operation: {
+          type: 'create',
+          label: `Importar tarefa "${task.title}"`,
+          entityId: task.id,
+          payload: omitKeys(task, ['id', 'createdAt', 'updatedAt', 'pomodoros', 'revision']),
+        },
+      })
+    ),
+  listRemoteSignatures: async token => {
+    const { tasks } = await listTasks(token);
+    return new Set((tasks ?? []).map(taskSignature));
+  },
+  removeRecords: ids => {
+    const state = readStoredValue<Partial<TaskState>>(TASKS_GUEST_STORAGE_KEY);
+    if (state) {
+      writeStoredValue(TASKS_GUEST_STORAGE_KEY, {
+        ...state,
+        tasks: (state.tasks ?? []).filter(task => !ids.has(task.id)),
+      });
+    }
+  },
+};
+
+const noteSignature = (note: Pick<Note, 'title' | 'content'>) =>
+  buildSignature(note.title, note.content);
+
+const notesSource: GuestImportSource = {
+  id: 'notes',
+  scope: NOTES_SYNC_SCOPE,
+  label: 'Notas',
+  readRecords: () =>
+    withIds<Note>(readStoredValue<Partial<NotesState>>(NOTES_GUEST_STORAGE_KEY)?.notes).map(
+      note => ({
+        id: note.id,
+        title: note.title || 'Nota sem título',
+        detail: (note.content ?? '').slice(0, 80),
+        signature: noteSignature(note),
+        operation: {
+          type: 'create',
+          label: `Importar nota "${note.title}"`,
+          entityId: note.id,
+          payload: omitKeys(note, ['id']),
+        },
+      })
+    ),
+  listRemoteSignatures: async token => {
+    const { notes } = await listNotes(token);
+    return new Set((notes ?? []).map(noteSignature));
+  },
+  removeRecords: ids => {
+    const state = readStoredValue<Partial<NotesState>>(NOTES_GUEST_STORAGE_KEY);
+    if (state) {
+      writeStoredValue(NOTES_GUEST_STORAGE_KEY, {
+        ...state,
+        notes: (state.notes ?? []).filter(note => !ids.has(note.id)),
+      });
+    }
+  },
+};
+
+const eventSignature = (event: Pick<CalendarEvent, 'date' | 'time' | 'title'>) =>
+  buildSignature(event.date, event.time, event.title);
+
+const calendarSource: GuestImportSource = {
+  id: 'calendar',
+  scope: CALENDAR_SYNC_SCOPE,
+  label: 'Calendário',
+  readRecords: () =>
+    readArray<CalendarEvent>(CALENDAR_GUEST_STORAGE_KEY).map(event => ({
+      id: event.id,
+      title: event.title,
+      detail: `${formatDate(event.date)} às ${event.time}`,
+      signature: eventSignature(event),
+      operation: {
+        type: 'create',
+        label: `Importar evento "${event.title}"`,
+        entityId: event.id,
+        payload: omitKeys(event, ['id']),
+      },
+    })),
+  listRemoteSignatures: async token => {
+    const { events } = await listEvents(token);
+    return new Set((events ?? []).map(eventSignature));
+  },
+  removeRecords: ids => removeFromArray<CalendarEvent>(CALENDAR_GUEST_STORAGE_KEY, ids),
+};
+
+// O servidor aceita apenas uma jornada por dia, então a data basta para identificar o registro.
+const timeclockSource: GuestImportSource = {
+  id: 'timeclock',
+  scope: TIMECLOCK_SYNC_SCOPE,
+  label: 'Controle de ponto',
+  readRecords: () =>
+    readArray<TimeEntryResponse>(TIMECLOCK_GUEST_STORAGE_KEY).map(entry => ({
+      id: entry.id,
+      title: `Jornada de ${formatDate(entry.date)}`,
+      detail: [entry.firstCheckIn, entry.firstCheckOut].filter(Boolean).join(' – '),
+      signature: buildSignature(entry.date),
+      operation: {
+        type: 'create',
+        label: `Importar ponto de ${formatDate(entry.date)}`,
+        entityId: entry.id,
+        payload: {
+          date: entry.date,
+          firstCheckIn: entry.firstCheckIn,
+          firstCheckOut: entry.firstCheckOut,
+          secondCheckIn: entry.secondCheckIn,
+          secondCheckOut: entry.secondCheckOut,
+          shiftType: entry.shiftType,
+          notes: entry.notes,
+        },
+      },
+    })),
+  listRemoteSignatures: async token => {
+    const { entries } = await listEntries(token);
+    return new Set((entries ?? []).map(entry => buildSignature(entry.date)));
+  },
+  removeRecords: ids => removeFromArray<TimeEntryResponse>(TIMECLOCK_GUEST_STORAGE_KEY, ids),
+};
+
+const relationshipsSource: GuestImportSource = {
+  id: 'relationships',
+  scope: RELATIONSHIPS_SYNC_SCOPE,
+  label: 'Relacionamentos',
+  readRecords: () =>
+    readArray<RelationshipContact>(RELATIONSHIPS_GUEST_STORAGE_KEY).map(contact => ({
+      id: contact.id,
+      title: contact.name,
+      detail: [contact.company, contact.email].filter(Boolean).join(' · '),
+      signature: buildSignature(contact.email || contact.name),
+      operation: {
+        type: 'create',
+        label: `Importar contato "${contact.name}"`,
+        entityId: contact.id,
+        payload: omitKeys(contact, ['id']),
+      },
+    })),
+  listRemoteSignatures: async token => {
+    const { contacts } = await listContacts(token);
+    return new Set((contacts ?? []).map(contact => buildSignature(contact.email || contact.name)));
+  },
+  removeRecords: ids => removeFromArray<RelationshipContact>(RELATIONSHIPS_GUEST_STORAGE_KEY, ids),
+};
+
+const automationsSource: GuestImportSource = {
+  id: 'automations',
+  scope: AUTOMATIONS_SYNC_SCOPE,
+  label: 'Automações',
+  readRecords: () =>
+    readArray<AutomationRuleResponse>(AUTOMATIONS_GUEST_STORAGE_KEY).map(rule => ({
+      id: rule.id,
+      title: rule.name,
+      detail: `${rule.source} · ${rule.event}`,
+      signature: buildSignature(rule.name),
+      operation: {
+        type: 'create',
+        label: `Importar automação "${rule.name}"`,
+        entityId: rule.id,
+        payload: omitKeys(rule, ['id', 'lastRun']),
+      },
+    })),
+  listRemoteSignatures: async token => {
+    const { automations } = await listAutomations(token);
+    return new Set((automations ?? []).map(rule => buildSignature(rule.name)));
+  },
+  removeRecords: ids => removeFromArray<AutomationRuleResponse>(AUTOMATIONS_GUEST_STORAGE_KEY, ids),
+};
+
+const GUEST_IMPORT_SOURCES: GuestImportSource[] = [
+  createFinanceSource('expenses'),
+  createFinanceSource('incomes'),
+  createFinanceSource('investments'),
+  tasksSource,
+  notesSource,
+  calendarSource,
+  timeclockSource,
+  relationshipsSource,
+  automationsSource,
+];
+
+export type { GuestImportRecord, GuestImportSource };
+export { GUEST_IMPORT_SOURCES };
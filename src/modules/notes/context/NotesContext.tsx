@@ -4,23 +4,25 @@ import {
   useContext,
   useEffect,
   useMemo,
-  useRef,
   useState,
   type ReactNode,
 } from 'react';
 import toast from 'react-hot-toast';
 
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
+import { useSyncScope } from '@core/providers/SyncProvider';
 import { generateId } from '@shared/utils/id';
-import type { ApiError } from '@shared/services/apiClient';
+import {
+  buildRemoteCacheKey,
+  isLocalModeError,
+  readStoredValue,
+  writeStoredValue,
+} from '@shared/services/syncQueue';
 
-import { createNote, deleteNoteRemote, listNotes, updateNoteRemote } from '../services/notesService';
+import { NOTES_GUEST_STORAGE_KEY, NOTES_SYNC_SCOPE, listNotes } from '../services/notesService';
 import type { Note, NotesContextValue, NotesState } from '../types/notes';
 
-const LOCAL_STORAGE_KEY = 'guest_notes_state';
 const REMOTE_CACHE_PREFIX = 'notes_remote_state';
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
 
 const initialState: NotesState = {
   notes: [],
@@ -47,167 +49,54 @@ const mapGuestState = (raw: Partial<NotesState> | null | undefined): NotesState
   ),
 });
 
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
-  const status = getErrorStatus(error);
-  return status === 401 || status === 403;
-};
-
-const buildRemoteCacheKey = (uid: string) => `${REMOTE_CACHE_PREFIX}_${uid}`;
-
 function NotesProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
-  const isGuestMode = useLocalMode();
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(NOTES_SYNC_SCOPE);
   const [state, setState] = useState<NotesState>(initialState);
   const [loading, setLoading] = useState(true);
-  const refreshTimerRef = useRef<number | null>(null);
+  const storageKey =
+    isLocalOnly || !user
+      ? NOTES_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
 
-  const persistGuestState = useCallback((next: NotesState) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(next));
-    } catch (error) {
-      console.error('Erro ao salvar notas locais', error);
-    }
-  }, []);
-
-  const updateGuestState = useCallback(
+  const updateState = useCallback(
     (updater: (prev: NotesState) => NotesState) => {
       setState(prev => {
         const next = updater(prev);
-        persistGuestState(next);
+        writeStoredValue(storageKey, next);
         return next;
       });
     },
-    [persistGuestState]
+    [storageKey]
   );
 
-  const loadGuestState = useCallback(() => {
-    if (typeof window === 'undefined') {
-      setLoading(false);
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (!stored) {
-        setState(initialState);
-        setLoading(false);
-        return;
-      }
-      const parsed = JSON.parse(stored) as Partial<NotesState> | null;
-      setState(mapGuestState(parsed));
-    } catch (error) {
-      console.error('Erro ao carregar notas locais', error);
-      setState(initialState);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  const persistRemoteCache = useCallback(
-    (next: NotesState) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(next));
-      } catch (error) {
-        console.warn('Não foi possível salvar cache remoto das notas', error);
-      }
-    },
-    [user]
-  );
-
-  const loadRemoteCache = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as Partial<NotesState> | null;
-      if (!parsed) {
-        return null;
-      }
-      return mapGuestState(parsed);
-    } catch (error) {
-      console.warn('Não foi possível carregar cache remoto das notas', error);
-      return null;
-    }
-  }, [user]);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteState = useCallback(async (): Promise<NotesState> => {
-    const token = await getRemoteToken();
+    const token = await getToken();
     const response = await listNotes(token);
     const snapshot: NotesState = {
       notes: sortNotes(response.notes ?? []),
     };
-    persistRemoteCache(snapshot);
+    writeStoredValue(storageKey, snapshot);
     return snapshot;
-  }, [getRemoteToken, persistRemoteCache]);
+  }, [getToken, storageKey]);
 
-  const scheduleBackgroundSync = useCallback(() => {
-    if (typeof window === 'undefined' || isGuestMode || !user) {
-      return;
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
-    refreshTimerRef.current = window.setTimeout(async () => {
-      try {
-        const snapshot = await fetchRemoteState();
-        setState(snapshot);
-      } catch (error) {
-        console.error('Falha ao sincronizar notas em segundo plano', error);
-      } finally {
-        if (refreshTimerRef.current) {
-          window.clearTimeout(refreshTimerRef.current);
-          refreshTimerRef.current = null;
-        }
-      }
-    }, 2000);
-  }, [fetchRemoteState, isGuestMode, user]);
+  useEffect(
+    () => registerRefresh(async () => setState(await fetchRemoteState())),
+    [fetchRemoteState, registerRefresh]
+  );
 
   useEffect(() => {
-    return () => {
-      if (refreshTimerRef.current && typeof window !== 'undefined') {
-        window.clearTimeout(refreshTimerRef.current);
-      }
-    };
-  }, []);
+    let active = true;
+    setLoading(true);
+    const stored = readStoredValue<Partial<NotesState>>(storageKey);
+    setState(stored ? mapGuestState(stored) : initialState);
 
-  useEffect(() => {
-    if (isGuestMode || !user) {
-      setLoading(true);
-      loadGuestState();
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
+      setLoading(false);
       return;
     }
-
-    let active = true;
-    setLoading(true);
-    const cached = loadRemoteCache();
-    if (cached) {
-      setState(cached);
+    if (stored) {
       setLoading(false);
     }
 
@@ -223,20 +112,34 @@ function NotesProvider({ children }: { children: ReactNode }) {
         if (!active) {
           return;
         }
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          loadGuestState();
-          toast.error('Sua assinatura está suspensa. As notas ficarão apenas neste dispositivo.');
-          return;
-        }
         console.error('Erro ao carregar notas do servidor', error);
-        toast.error('Não foi possível carregar suas notas agora.');
+        if (!isLocalModeError(error)) {
+          toast.error('Não foi possível carregar suas notas agora.');
+        }
         setLoading(false);
       });
 
     return () => {
       active = false;
     };
-  }, [fetchRemoteState, isGuestMode, loadGuestState, loadRemoteCache, user]);
+  }, [canSync, fetchRemoteState, hasPendingOperations, isLocalOnly, storageKey]);
+
+  const applyNoteUpdate = useCallback(
+    (id: string, changes: Partial<Omit<Note, 'id'>>) =>
+      updateState(prev => ({
+        notes: sortNotes(
+          prev.notes.map(note =>
+            note.id === id
+              ? {
+                  ...note,
+                  ...changes,
+                }
+              : note
+          )
+        ),
+      })),
+    [updateState]
+  );
 
   const addNote: NotesContextValue['addNote'] = useCallback(
     async data => {
@@ -249,147 +152,74 @@ function NotesProvider({ children }: { children: ReactNode }) {
         createdAt: now,
         updatedAt: now,
       };
+      const id = generateId();
 
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          notes: sortNotes([
-            ...prev.notes,
-            {
-              ...payload,
-              id: generateId(),
-            },
-          ]),
-        }));
-        toast.success('Nota criada');
+      const outcome = await submit<Note>({
+        type: 'create',
+        label: `Criar nota "${payload.title}"`,
+        entityId: id,
+        payload,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao criar nota', outcome.error);
+        toast.error('Não foi possível criar a nota');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const response = await createNote(token, payload);
-        setState(prev => ({
-          notes: sortNotes([...prev.notes, response.note]),
-        }));
-        toast.success('Nota criada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao criar nota', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            notes: sortNotes([
-              ...prev.notes,
-              {
-                ...payload,
-                id: generateId(),
-              },
-            ]),
-          }));
-          toast.success('Nota registrada localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Não foi possível criar a nota');
-      }
+      const note = outcome.status === 'synced' && outcome.data ? outcome.data : { ...payload, id };
+      updateState(prev => ({
+        notes: sortNotes([...prev.notes, note]),
+      }));
+      toast.success('Nota criada');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
   const updateNote: NotesContextValue['updateNote'] = useCallback(
     async (id, data) => {
-      const now = new Date().toISOString();
       const normalized: Partial<Omit<Note, 'id'>> = {
         ...data,
-        updatedAt: now,
+        updatedAt: new Date().toISOString(),
       };
 
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          notes: sortNotes(
-            prev.notes.map(note =>
-              note.id === id
-                ? {
-                    ...note,
-                    ...normalized,
-                  }
-                : note
-            )
-          ),
-        }));
-        toast.success('Nota atualizada');
+      const outcome = await submit({
+        type: 'update',
+        label: 'Atualizar nota',
+        entityId: id,
+        payload: normalized,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao atualizar nota', outcome.error);
+        toast.error('Não foi possível atualizar a nota');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await updateNoteRemote(token, id, normalized);
-        setState(prev => ({
-          notes: sortNotes(
-            prev.notes.map(note =>
-              note.id === id
-                ? {
-                    ...note,
-                    ...normalized,
-                  }
-                : note
-            )
-          ),
-        }));
-        toast.success('Nota atualizada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao atualizar nota', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            notes: sortNotes(
-              prev.notes.map(note =>
-                note.id === id
-                  ? {
-                      ...note,
-                      ...normalized,
-                    }
-                  : note
-              )
-            ),
-          }));
-          toast.success('Nota atualizada localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Não foi possível atualizar a nota');
-      }
+      applyNoteUpdate(id, normalized);
+      toast.success('Nota atualizada');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [applyNoteUpdate, submit]
   );
 
   const deleteNote: NotesContextValue['deleteNote'] = useCallback(
     async id => {
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          notes: prev.notes.filter(note => note.id !== id),
-        }));
-        toast.success('Nota removida');
+      const outcome = await submit({
+        type: 'delete',
+        label: 'Remover nota',
+        entityId: id,
+        payload: null,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover nota', outcome.error);
+        toast.error('Não foi possível remover a nota');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await deleteNoteRemote(token, id);
-        setState(prev => ({
-          notes: prev.notes.filter(note => note.id !== id),
-        }));
-        toast.success('Nota removida');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao remover nota', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            notes: prev.notes.filter(note => note.id !== id),
-          }));
-          toast.success('Nota removida localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Não foi possível remover a nota');
-      }
+      updateState(prev => ({
+        notes: prev.notes.filter(note => note.id !== id),
+      }));
+      toast.success('Nota removida');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
   const togglePinned: NotesContextValue['togglePinned'] = useCallback(
@@ -399,66 +229,23 @@ function NotesProvider({ children }: { children: ReactNode }) {
         return;
       }
 
-      const nextPinned = !target.pinned;
-
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          notes: sortNotes(
-            prev.notes.map(note =>
-              note.id === id
-                ? {
-                    ...note,
-                    pinned: nextPinned,
-                    updatedAt: new Date().toISOString(),
-                  }
-                : note
-            )
-          ),
-        }));
-        toast.success(nextPinned ? 'Nota fixada' : 'Nota desafixada');
+      const changes = { pinned: !target.pinned, updatedAt: new Date().toISOString() };
+      const outcome = await submit({
+        type: 'update',
+        label: changes.pinned ? 'Fixar nota' : 'Desafixar nota',
+        entityId: id,
+        payload: changes,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao atualizar nota', outcome.error);
+        toast.error('Não foi possível atualizar o status da nota');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        await updateNoteRemote(token, id, { pinned: nextPinned, updatedAt: new Date().toISOString() });
-        setState(prev => ({
-          notes: sortNotes(
-            prev.notes.map(note =>
-              note.id === id
-                ? {
-                    ...note,
-                    pinned: nextPinned,
-                  }
-                : note
-            )
-          ),
-        }));
-        toast.success(nextPinned ? 'Nota fixada' : 'Nota desafixada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao atualizar nota', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            notes: sortNotes(
-              prev.notes.map(note =>
-                note.id === id
-                  ? {
-                      ...note,
-                      pinned: nextPinned,
-                      updatedAt: new Date().toISOString(),
-                    }
-                  : note
-              )
-            )
-          }));
-          toast.success('Nota atualizada localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Não foi possível atualizar o status da nota');
-      }
+      applyNoteUpdate(id, changes);
+      toast.success(changes.pinned ? 'Nota fixada' : 'Nota desafixada');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, state.notes, updateGuestState, user]
+    [applyNoteUpdate, state.notes, submit]
   );
 
   const value = useMemo<NotesContextValue>(
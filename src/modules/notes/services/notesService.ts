@@ -1,4 +1,5 @@
 import { apiRequest } from '@shared/services/apiClient';
+import { createUnsupportedOperationError, type SyncExecutor } from '@shared/services/syncQueue';
 
 import type { Note } from '../types/notes';
 
@@ -30,4 +31,32 @@ const deleteNoteRemote = (token: string, id: string) =>
     headers: authHeaders(token),
   });
 
-export { createNote, deleteNoteRemote, listNotes, updateNoteRemote };
+const NOTES_SYNC_SCOPE = 'notes';
+const NOTES_GUEST_STORAGE_KEY = 'guest_notes_state';
+
+const executeNotesOperation: SyncExecutor = async (operation, token) => {
+  const id = operation.entityId ?? '';
+  switch (operation.type) {
+    case 'create': {
+      const response = await createNote(token, operation.payload as Omit<Note, 'id'>);
+      return { entityId: response.note.id, data: response.note };
+    }
+    case 'update':
+      return { data: await updateNoteRemote(token, id, operation.payload as Partial<Note>) };
+    case 'delete':
+      await deleteNoteRemote(token, id);
+      return;
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
+export {
+  NOTES_GUEST_STORAGE_KEY,
+  NOTES_SYNC_SCOPE,
+  createNote,
+  deleteNoteRemote,
+  executeNotesOperation,
+  listNotes,
+  updateNoteRemote,
+};
@@ -1,16 +1,20 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
 import { DashboardLayout } from '@core/layout/DashboardLayout';
+import { useSyncScope } from '@core/providers/SyncProvider';
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
-import type { ApiError } from '@shared/services/apiClient';
 import {
-  addInteractionRemote,
-  createContact,
+  buildRemoteCacheKey,
+  isLocalModeError,
+  readStoredValue,
+  writeStoredValue,
+} from '@shared/services/syncQueue';
+import {
+  RELATIONSHIPS_GUEST_STORAGE_KEY,
+  RELATIONSHIPS_SYNC_SCOPE,
   listContacts,
-  updateContact as updateContactRemote,
   type RelationshipContact,
   type RelationshipContactInput,
   type RelationshipInteraction,
@@ -21,8 +25,6 @@ import {
 
 import styles from './RelationshipPage.module.css';
 
-const STORAGE_KEY = 'admin_panel_relationship_contacts';
-
 const stageOptions: RelationshipStage[] = ['Contato inicial', 'Oportunidade', 'Negociação', 'Fidelizado'];
 const priorityOptions: RelationshipPriority[] = ['Alta', 'Média', 'Baixa'];
 const channelOptions: RelationshipInteraction['channel'][] = [
@@ -39,172 +41,67 @@ const normalizeContact = (contact: RelationshipContact): RelationshipContact =>
   interactions: contact.interactions ?? [],
 });
 
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
-const buildRemoteCacheKey = (uid: string) => `${STORAGE_KEY}_remote_${uid}`;
-
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
-  const status = getErrorStatus(error);
-  return status === 401 || status === 403;
-};
+const REMOTE_CACHE_PREFIX = `${RELATIONSHIPS_GUEST_STORAGE_KEY}_remote`;
 
 const RelationshipPage = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const isGuestMode = useLocalMode();
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(RELATIONSHIPS_SYNC_SCOPE);
   const [contacts, setContacts] = useState<RelationshipContact[]>([]);
   const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
   const [search, setSearch] = useState('');
   const [stageFilter, setStageFilter] = useState<RelationshipStage | 'Todos'>('Todos');
   const [loading, setLoading] = useState(true);
-  const refreshTimerRef = useRef<number | null>(null);
+  const storageKey =
+    isLocalOnly || !user
+      ? RELATIONSHIPS_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
 
-  const persistGuestContacts = useCallback((next: RelationshipContact[]) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-    } catch (error) {
-      console.error('Falha ao salvar relacionamentos', error);
-    }
-  }, []);
-
-  const updateGuestContacts = useCallback(
+  const updateContacts = useCallback(
     (updater: (prev: RelationshipContact[]) => RelationshipContact[]) => {
       setContacts(prev => {
-        const next = updater(prev).map(normalizeContact);
-        persistGuestContacts(next);
+        const next = updater(prev);
+        writeStoredValue(storageKey, next);
         return next;
       });
     },
-    [persistGuestContacts]
-  );
-
-  const loadGuestContacts = useCallback(() => {
-    if (typeof window === 'undefined') {
-      setContacts([]);
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(STORAGE_KEY);
-      if (!stored) {
-        setContacts([]);
-      } else {
-        const parsed = JSON.parse(stored) as RelationshipContact[];
-        setContacts(parsed.map(normalizeContact));
-      }
-    } catch (error) {
-      console.error('Falha ao carregar relacionamentos salvos', error);
-      setContacts([]);
-    }
-  }, []);
-
-  const persistRemoteContacts = useCallback(
-    (next: RelationshipContact[]) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(next));
-      } catch (error) {
-        console.warn('Falha ao salvar cache remoto de relacionamentos', error);
-      }
-    },
-    [user]
+    [storageKey]
   );
 
-  const loadRemoteContacts = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as RelationshipContact[];
-      return parsed.map(normalizeContact);
-    } catch (error) {
-      console.warn('Falha ao carregar cache remoto de relacionamentos', error);
-      return null;
-    }
-  }, [user]);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteContacts = useCallback(async () => {
-    const token = await getRemoteToken();
+    const token = await getToken();
     const response = await listContacts(token);
     const normalized = (response.contacts ?? []).map(normalizeContact);
     setContacts(normalized);
-    persistRemoteContacts(normalized);
-  }, [getRemoteToken, persistRemoteContacts]);
+    writeStoredValue(storageKey, normalized);
+  }, [getToken, storageKey]);
 
-  const scheduleBackgroundSync = useCallback(() => {
-    if (typeof window === 'undefined' || isGuestMode || !user) {
-      return;
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
-    refreshTimerRef.current = window.setTimeout(() => {
-      fetchRemoteContacts().catch(error =>
-        console.error('Falha ao sincronizar relacionamentos em segundo plano', error)
-      );
-    }, 2000);
-  }, [fetchRemoteContacts, isGuestMode, user]);
+  useEffect(() => registerRefresh(fetchRemoteContacts), [fetchRemoteContacts, registerRefresh]);
 
   useEffect(() => {
-    if (isGuestMode || !user) {
-      setLoading(true);
-      loadGuestContacts();
+    setLoading(true);
+    const stored = readStoredValue<RelationshipContact[]>(storageKey);
+    setContacts(Array.isArray(stored) ? stored.map(normalizeContact) : []);
+
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
       setLoading(false);
       return;
     }
-
-    setLoading(true);
-    const cached = loadRemoteContacts();
-    if (cached) {
-      setContacts(cached);
+    if (stored) {
       setLoading(false);
     }
 
     fetchRemoteContacts()
       .then(() => setLoading(false))
       .catch(error => {
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          loadGuestContacts();
-          setLoading(false);
-          toast.error('Sua assinatura está suspensa. Os contatos ficarão apenas neste dispositivo.');
-          return;
-        }
         console.error('Erro ao carregar relacionamentos do servidor', error);
+        if (!isLocalModeError(error)) {
+          toast.error('Não foi possível carregar seus contatos agora.');
+        }
         setLoading(false);
       });
-  }, [fetchRemoteContacts, isGuestMode, loadGuestContacts, loadRemoteContacts, user]);
-
-  useEffect(() => {
-    return () => {
-      if (refreshTimerRef.current && typeof window !== 'undefined') {
-        window.clearTimeout(refreshTimerRef.current);
-      }
-    };
-  }, []);
+  }, [canSync, fetchRemoteContacts, hasPendingOperations, isLocalOnly, storageKey]);
 
   const [newContact, setNewContact] = useState({
     name: '',
@@ -306,38 +203,26 @@ const RelationshipPage = () => {
       createdAt: now,
     };
 
-    const fallbackContact: RelationshipContact = normalizeContact({
-      id: createId(),
-      ...contactInput,
-    } as RelationshipContact);
-
-    if (isGuestMode || !user) {
-      updateGuestContacts(prev => [fallbackContact, ...prev]);
-      setSelectedContactId(fallbackContact.id);
-      toast.success('Contato criado');
-    } else {
-      try {
-        const token = await getRemoteToken();
-        const response = await createContact(token, contactInput);
-        setContacts(prev => {
-          const next = [normalizeContact(response.contact), ...prev];
-          persistRemoteContacts(next);
-          return next;
-        });
-        setSelectedContactId(response.contact.id);
-        toast.success('Contato criado');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Falha ao criar relacionamento', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestContacts(prev => [fallbackContact, ...prev]);
-          setSelectedContactId(fallbackContact.id);
-          toast.success('Contato registrado localmente. Renove para sincronizar.');
-        } else {
-          toast.error('Não foi possível criar o contato');
-        }
-      }
+    const id = createId();
+    const outcome = await submit<RelationshipContact>({
+      type: 'create',
+      label: `Criar contato "${contactInput.name}"`,
+      entityId: id,
+      payload: contactInput,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Falha ao criar relacionamento', outcome.error);
+      toast.error('Não foi possível criar o contato');
+      return;
     }
+    const createdContact = normalizeContact(
+      outcome.status === 'synced' && outcome.data
+        ? outcome.data
+        : ({ id, ...contactInput } as RelationshipContact)
+    );
+    updateContacts(prev => [createdContact, ...prev]);
+    setSelectedContactId(createdContact.id);
+    toast.success('Contato criado');
 
     setNewContact({
       name: '',
@@ -354,44 +239,24 @@ const RelationshipPage = () => {
 
   const updateContact = useCallback(
     async (contactId: string, partial: Partial<RelationshipContact>) => {
-      if (isGuestMode || !user) {
-        updateGuestContacts(prev =>
-          prev.map(contact => (contact.id === contactId ? normalizeContact({ ...contact, ...partial }) : contact))
-        );
+      const outcome = await submit({
+        type: 'update',
+        label: 'Atualizar contato',
+        entityId: contactId,
+        payload: partial,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Falha ao atualizar relacionamento', outcome.error);
+        toast.error('Não foi possível atualizar o contato');
         return;
       }
-
-      try {
-        const token = await getRemoteToken();
-        await updateContactRemote(token, contactId, partial);
-        setContacts(prev => {
-          const next = prev.map(contact =>
-            contact.id === contactId ? normalizeContact({ ...contact, ...partial }) : contact
-          );
-          persistRemoteContacts(next);
-          return next;
-        });
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Falha ao atualizar relacionamento', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestContacts(prev =>
-            prev.map(contact => (contact.id === contactId ? normalizeContact({ ...contact, ...partial }) : contact))
-          );
-          toast.success('Contato atualizado localmente. Renove para sincronizar.');
-        } else {
-          toast.error('Não foi possível atualizar o contato');
-        }
-      }
+      updateContacts(prev =>
+        prev.map(contact =>
+          contact.id === contactId ? normalizeContact({ ...contact, ...partial }) : contact
+        )
+      );
     },
-    [
-      getRemoteToken,
-      isGuestMode,
-      persistRemoteContacts,
-      scheduleBackgroundSync,
-      updateGuestContacts,
-      user,
-    ]
+    [submit, updateContacts]
   );
 
   const handleAddInteraction = async (event: React.FormEvent<HTMLFormElement>) => {
@@ -413,7 +278,24 @@ const RelationshipPage = () => {
       nextAction: interactionForm.nextAction || undefined,
     };
 
-    if (isGuestMode || !user) {
+    const outcome = await submit<RelationshipContact>({
+      type: 'interaction',
+      label: `Registrar interação com "${selectedContact.name}"`,
+      entityId: selectedContact.id,
+      payload: interactionPayload,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Falha ao registrar interação', outcome.error);
+      toast.error('Não foi possível registrar a interação');
+      return;
+    }
+
+    if (outcome.status === 'synced' && outcome.data) {
+      const updatedContact = normalizeContact(outcome.data);
+      updateContacts(prev =>
+        prev.map(contact => (contact.id === selectedContact.id ? updatedContact : contact))
+      );
+    } else {
       const interaction: RelationshipInteraction = {
         id: createId(),
         date: new Date().toISOString(),
@@ -421,60 +303,20 @@ const RelationshipPage = () => {
         summary: interactionPayload.summary,
         nextStep: interactionPayload.nextStep,
       };
-      updateGuestContacts(prev =>
+      updateContacts(prev =>
         prev.map(contact =>
           contact.id === selectedContact.id
             ? {
                 ...contact,
                 interactions: [interaction, ...contact.interactions],
                 lastInteraction: interaction.date,
-                nextAction: interactionForm.nextAction || contact.nextAction,
+                nextAction: interactionPayload.nextAction || contact.nextAction,
               }
             : contact
         )
       );
-      toast.success('Interação registrada');
-    } else {
-      try {
-        const token = await getRemoteToken();
-        const response = await addInteractionRemote(token, selectedContact.id, interactionPayload);
-        setContacts(prev => {
-          const next = prev.map(contact =>
-            contact.id === selectedContact.id ? normalizeContact(response.contact) : contact
-          );
-          persistRemoteContacts(next);
-          return next;
-        });
-        scheduleBackgroundSync();
-        toast.success('Interação registrada');
-      } catch (error) {
-        console.error('Falha ao registrar interação', error);
-        if (isAccessDeniedError(error)) {
-          const interaction: RelationshipInteraction = {
-            id: createId(),
-            date: new Date().toISOString(),
-            channel: interactionPayload.channel,
-            summary: interactionPayload.summary,
-            nextStep: interactionPayload.nextStep,
-          };
-          updateGuestContacts(prev =>
-            prev.map(contact =>
-              contact.id === selectedContact.id
-                ? {
-                    ...contact,
-                    interactions: [interaction, ...contact.interactions],
-                    lastInteraction: interaction.date,
-                    nextAction: interactionForm.nextAction || contact.nextAction,
-                  }
-                : contact
-            )
-          );
-          toast.success('Interação registrada localmente. Renove para sincronizar.');
-        } else {
-          toast.error('Não foi possível registrar a interação');
-        }
-      }
     }
+    toast.success('Interação registrada');
 
     setInteractionForm({
       channel: 'Ligação',
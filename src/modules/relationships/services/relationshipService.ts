@@ -1,4 +1,5 @@
 import { apiRequest } from '@shared/services/apiClient';
+import { createUnsupportedOperationError, type SyncExecutor } from '@shared/services/syncQueue';
 
 type RelationshipStage = 'Contato inicial' | 'Oportunidade' | 'Negociação' | 'Fidelizado';
 type RelationshipPriority = 'Alta' | 'Média' | 'Baixa';
@@ -71,6 +72,36 @@ const addInteractionRemote = (token: string, id: string, payload: RelationshipIn
     body: JSON.stringify(payload),
   });
 
+const RELATIONSHIPS_SYNC_SCOPE = 'relationships';
+const RELATIONSHIPS_GUEST_STORAGE_KEY = 'admin_panel_relationship_contacts';
+
+const executeRelationshipsOperation: SyncExecutor = async (operation, token) => {
+  const id = operation.entityId ?? '';
+  switch (operation.type) {
+    case 'create': {
+      const response = await createContact(token, operation.payload as RelationshipContactInput);
+      return { entityId: response.contact.id, data: response.contact };
+    }
+    case 'update':
+      return {
+        data: await updateContact(token, id, operation.payload as Partial<RelationshipContact>),
+      };
+    case 'interaction': {
+      const response = await addInteractionRemote(
+        token,
+        id,
+        operation.payload as RelationshipInteractionInput
+      );
+      return { data: response.contact };
+    }
+    case 'delete':
+      await deleteContact(token, id);
+      return;
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
 export type {
   RelationshipContact,
   RelationshipContactInput,
@@ -80,9 +111,12 @@ export type {
   RelationshipStage,
 };
 export {
+  RELATIONSHIPS_GUEST_STORAGE_KEY,
+  RELATIONSHIPS_SYNC_SCOPE,
   addInteractionRemote,
   createContact,
   deleteContact,
+  executeRelationshipsOperation,
   listContacts,
   updateContact,
 };
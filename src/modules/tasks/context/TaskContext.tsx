@@ -4,32 +4,36 @@ import {
   useContext,
   useEffect,
   useMemo,
-  useRef,
   useState,
   type ReactNode,
 } from 'react';
 import toast from 'react-hot-toast';
 
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
+import { useSyncScope } from '@core/providers/SyncProvider';
 import { generateId } from '@shared/utils/id';
-import type { ApiError } from '@shared/services/apiClient';
+import {
+  buildRemoteCacheKey,
+  isLocalModeError,
+  readStoredValue,
+  writeStoredValue,
+} from '@shared/services/syncQueue';
 
 import {
-  createTask as createTaskRemote,
-  deleteTask as deleteTaskRemote,
+  TASKS_GUEST_STORAGE_KEY,
+  TASKS_SYNC_SCOPE,
   getGamification,
   listPomodoros,
   listTasks,
-  logPomodoro as logPomodoroRemote,
-  updateTask as updateTaskRemote,
-  updateTaskStatus,
+  type logPomodoro as logPomodoroRemote,
+  type updateTaskStatus,
 } from '../services/taskService';
 import type { PomodoroSession, Task, TaskContextValue, TaskPriority, TaskState } from '../types/tasks';
 
-const LOCAL_STORAGE_KEY = 'guest_tasks_state';
 const REMOTE_CACHE_PREFIX = 'task_remote_state';
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
+
+type TaskStatusResponse = Awaited<ReturnType<typeof updateTaskStatus>>;
+type PomodoroResponse = Awaited<ReturnType<typeof logPomodoroRemote>>;
 
 const initialState: TaskState = {
   tasks: [],
@@ -108,23 +112,6 @@ const computeStreak = (current: TaskState['gamification'], completedAt: Date) =>
   return streak;
 };
 
-const buildRemoteCacheKey = (uid: string) => `${REMOTE_CACHE_PREFIX}_${uid}`;
-
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
-  const status = getErrorStatus(error);
-  return status === 401 || status === 403;
-};
-
 const normalizeTask = (task: Task): Task => ({
   ...task,
   priority: normalizePriority(task.priority),
@@ -144,98 +131,28 @@ const normalizeGamification = (
 
 function TaskProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
-  const isGuestMode = useLocalMode();
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(TASKS_SYNC_SCOPE);
   const [state, setState] = useState<TaskState>(initialState);
   const [loading, setLoading] = useState(true);
-  const refreshTimerRef = useRef<number | null>(null);
+  const storageKey =
+    isLocalOnly || !user
+      ? TASKS_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
 
-  const persistGuestState = useCallback((next: TaskState) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(next));
-    } catch (error) {
-      console.error('Erro ao salvar tarefas locais', error);
-    }
-  }, []);
-
-  const updateGuestState = useCallback(
+  const updateState = useCallback(
     (updater: (prev: TaskState) => TaskState) => {
       setState(prev => {
         const next = updater(prev);
-        persistGuestState(next);
+        writeStoredValue(storageKey, next);
         return next;
       });
     },
-    [persistGuestState]
+    [storageKey]
   );
 
-  const loadGuestState = useCallback(() => {
-    if (typeof window === 'undefined') {
-      setLoading(false);
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (!stored) {
-        setState(initialState);
-        setLoading(false);
-        return;
-      }
-      const parsed = JSON.parse(stored) as Partial<TaskState> | null;
-      setState(mapGuestState(parsed));
-    } catch (error) {
-      console.error('Erro ao carregar tarefas locais', error);
-      setState(initialState);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  const persistRemoteCache = useCallback(
-    (next: TaskState) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(next));
-      } catch (error) {
-        console.warn('Não foi possível salvar cache remoto das tarefas', error);
-      }
-    },
-    [user]
-  );
-
-  const loadRemoteCache = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as Partial<TaskState> | null;
-      if (!parsed) {
-        return null;
-      }
-      return mapGuestState(parsed);
-    } catch (error) {
-      console.warn('Não foi possível carregar cache remoto das tarefas', error);
-      return null;
-    }
-  }, [user]);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteState = useCallback(async (): Promise<TaskState> => {
-    const token = await getRemoteToken();
+    const token = await getToken();
     const [tasksResponse, pomodorosResponse, gamificationResponse] = await Promise.all([
       listTasks(token),
       listPomodoros(token),
@@ -246,65 +163,27 @@ function TaskProvider({ children }: { children: ReactNode }) {
       pomodoros: pomodorosResponse.pomodoros ?? [],
       gamification: normalizeGamification(gamificationResponse.gamification),
     };
-    persistRemoteCache(snapshot);
+    writeStoredValue(storageKey, snapshot);
     return snapshot;
-  }, [getRemoteToken, persistRemoteCache]);
+  }, [getToken, storageKey]);
 
-  const scheduleBackgroundSync = useCallback(() => {
-    if (typeof window === 'undefined' || isGuestMode || !user) {
-      return;
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
-    refreshTimerRef.current = window.setTimeout(async () => {
-      try {
-        const snapshot = await fetchRemoteState();
-        setState(snapshot);
-      } catch (error) {
-        console.error('Falha ao sincronizar tarefas em segundo plano', error);
-      } finally {
-        if (refreshTimerRef.current) {
-          window.clearTimeout(refreshTimerRef.current);
-          refreshTimerRef.current = null;
-        }
-      }
-    }, 2000);
-  }, [fetchRemoteState, isGuestMode, user]);
-
-  const refreshGamification = useCallback(async () => {
-    try {
-      const token = await getRemoteToken();
-      const response = await getGamification(token);
-      setState(prev => ({
-        ...prev,
-        gamification: normalizeGamification(response.gamification),
-      }));
-    } catch (error) {
-      console.error('Erro ao atualizar gamificação', error);
-    }
-  }, [getRemoteToken]);
+  useEffect(
+    () => registerRefresh(async () => setState(await fetchRemoteState())),
+    [fetchRemoteState, registerRefresh]
+  );
 
   useEffect(() => {
-    return () => {
-      if (refreshTimerRef.current && typeof window !== 'undefined') {
-        window.clearTimeout(refreshTimerRef.current);
-      }
-    };
-  }, []);
+    let active = true;
+    setLoading(true);
+    const stored = readStoredValue<Partial<TaskState>>(storageKey);
+    setState(stored ? mapGuestState(stored) : initialState);
 
-  useEffect(() => {
-    if (isGuestMode || !user) {
-      setLoading(true);
-      loadGuestState();
+    // Enquanto houver alterações na fila, o cache local é a versão mais recente.
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
+      setLoading(false);
       return;
     }
-
-    let active = true;
-    setLoading(true);
-    const cached = loadRemoteCache();
-    if (cached) {
-      setState(cached);
+    if (stored) {
       setLoading(false);
     }
 
@@ -320,20 +199,17 @@ function TaskProvider({ children }: { children: ReactNode }) {
         if (!active) {
           return;
         }
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          loadGuestState();
-          toast.error('Sua assinatura está suspensa. Os dados serão mantidos localmente.');
-          return;
-        }
         console.error('Erro ao carregar tarefas do servidor', error);
-        toast.error('Não foi possível carregar suas tarefas agora.');
+        if (!isLocalModeError(error)) {
+          toast.error('Não foi possível carregar suas tarefas agora.');
+        }
         setLoading(false);
       });
 
-  return () => {
+    return () => {
       active = false;
     };
-  }, [fetchRemoteState, isGuestMode, loadGuestState, loadRemoteCache, user]);
+  }, [canSync, fetchRemoteState, hasPendingOperations, isLocalOnly, storageKey]);
 
   const addTask: TaskContextValue['addTask'] = useCallback(
     async data => {
@@ -348,54 +224,31 @@ function TaskProvider({ children }: { children: ReactNode }) {
         updatedAt: now,
         pomodoros: data.pomodoros ?? 0,
       };
+      const id = generateId();
 
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          ...prev,
-          tasks: sortTasksByDueDate([
-            ...prev.tasks,
-            {
-              ...payload,
-              id: generateId(),
-            },
-          ]),
-        }));
-        toast.success('Tarefa criada');
+      const outcome = await submit<Task>({
+        type: 'create',
+        label: `Criar tarefa "${payload.title}"`,
+        entityId: id,
+        payload,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao criar tarefa', outcome.error);
+        toast.error('Não foi possível criar a tarefa');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const response = await createTaskRemote(token, {
-          ...payload,
-        });
-        const createdTask = normalizeTask(response.task);
-        setState(prev => ({
-          ...prev,
-          tasks: sortTasksByDueDate([...prev.tasks, createdTask]),
-        }));
-        toast.success('Tarefa criada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao criar tarefa', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            ...prev,
-            tasks: sortTasksByDueDate([
-              ...prev.tasks,
-              {
-                ...payload,
-                id: generateId(),
-              },
-            ]),
-          }));
-          toast.success('Tarefa registrada localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Não foi possível criar a tarefa');
-      }
+      const createdTask =
+        outcome.status === 'synced' && outcome.data
+          ? normalizeTask(outcome.data)
+          : { ...payload, id };
+      updateState(prev => ({
+        ...prev,
+        tasks: sortTasksByDueDate([...prev.tasks, createdTask]),
+      }));
+      toast.success('Tarefa criada');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
   const updateTask: TaskContextValue['updateTask'] = useCallback(
@@ -406,104 +259,62 @@ function TaskProvider({ children }: { children: ReactNode }) {
           ? { ...data, priority: normalizePriority(data.priority) }
           : data;
 
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          ...prev,
-          tasks: sortTasksByDueDate(
-            prev.tasks.map(task =>
-              task.id === id
-                ? {
-                    ...task,
-                    ...normalizedData,
-                    updatedAt: now,
-                  }
-                : task
-            )
-          ),
-        }));
-        toast.success('Tarefa atualizada');
+      const current = state.tasks.find(task => task.id === id);
+      const outcome = await submit<Partial<Task>>({
+        type: 'update',
+        label: 'Atualizar tarefa',
+        entityId: id,
+        revision: current?.revision ?? 0,
+        payload: normalizedData,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao atualizar tarefa', outcome.error);
+        toast.error('Não foi possível atualizar a tarefa');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const response = await updateTaskRemote(token, id, normalizedData);
-        setState(prev => ({
-          ...prev,
-          tasks: sortTasksByDueDate(
-            prev.tasks.map(task =>
-              task.id === id
-                ? {
-                    ...task,
-                    ...normalizedData,
-                    ...(response.updatedAt ? { updatedAt: response.updatedAt } : {}),
-                  }
-                : task
-            )
-          ),
-        }));
-        toast.success('Tarefa atualizada');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao atualizar tarefa', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            ...prev,
-            tasks: sortTasksByDueDate(
-              prev.tasks.map(task =>
-                task.id === id
-                  ? {
-                      ...task,
-                      ...normalizedData,
-                      updatedAt: now,
-                    }
-                  : task
-              )
-            ),
-          }));
-          toast.success('Tarefa atualizada localmente. Renove para sincronizar.');
-          return;
-        }
-        toast.error('Não foi possível atualizar a tarefa');
-      }
+      // Após um conflito, a resposta traz os valores mesclados ou a versão do servidor.
+      const response = outcome.status === 'synced' ? outcome.data : undefined;
+      updateState(prev => ({
+        ...prev,
+        tasks: sortTasksByDueDate(
+          prev.tasks.map(task =>
+            task.id === id
+              ? {
+                  ...task,
+                  ...normalizedData,
+                  updatedAt: now,
+                  ...response,
+                }
+              : task
+          )
+        ),
+      }));
+      toast.success('Tarefa atualizada');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [state.tasks, submit, updateState]
   );
 
   const deleteTask: TaskContextValue['deleteTask'] = useCallback(
     async id => {
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          ...prev,
-          tasks: prev.tasks.filter(task => task.id !== id),
-        }));
-        toast.success('Tarefa removida');
-        return;
-      }
-
-      try {
-        const token = await getRemoteToken();
-        await deleteTaskRemote(token, id);
-        setState(prev => ({
-          ...prev,
-          tasks: prev.tasks.filter(task => task.id !== id),
-        }));
-        toast.success('Tarefa removida');
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao remover tarefa', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            ...prev,
-            tasks: prev.tasks.filter(task => task.id !== id),
-          }));
-          toast.success('Tarefa removida localmente. Renove para sincronizar.');
-          return;
-        }
+      const outcome = await submit({
+        type: 'delete',
+        label: 'Remover tarefa',
+        entityId: id,
+        payload: null,
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao remover tarefa', outcome.error);
         toast.error('Não foi possível remover a tarefa');
+        return;
       }
+      updateState(prev => ({
+        ...prev,
+        tasks: prev.tasks.filter(task => task.id !== id),
+      }));
+      toast.success('Tarefa removida');
     },
-    [getRemoteToken, isGuestMode, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
   const toggleTaskStatus: TaskContextValue['toggleTaskStatus'] = useCallback(
@@ -511,77 +322,52 @@ function TaskProvider({ children }: { children: ReactNode }) {
       const completedAt = new Date();
       const completedIso = completedAt.toISOString();
 
-      if (isGuestMode || !user) {
-        updateGuestState(prev => ({
-          ...prev,
-          tasks: prev.tasks.map(task =>
-            task.id === id
-              ? {
-                  ...task,
-                  status,
-                  updatedAt: completedIso,
-                }
-              : task
-          ),
-        }));
-        toast.success(status === 'completed' ? 'Tarefa concluída!' : 'Status atualizado');
-        if (status === 'completed') {
-          updateGuestState(prev => {
-            const totalPoints = prev.gamification.totalPoints + 10;
-            return {
-              ...prev,
-              gamification: {
-                totalPoints,
-                level: calculateLevel(totalPoints),
-                streak: computeStreak(prev.gamification, completedAt),
-                lastCompletedAt: completedIso,
-              },
-            };
-          });
-        }
+      const outcome = await submit<TaskStatusResponse>({
+        type: 'status',
+        label: status === 'completed' ? 'Concluir tarefa' : 'Alterar status da tarefa',
+        entityId: id,
+        payload: { status },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao atualizar status da tarefa', outcome.error);
+        toast.error('Não foi possível atualizar a tarefa');
         return;
       }
 
-      try {
-        const token = await getRemoteToken();
-        const response = await updateTaskStatus(token, id, status);
-        setState(prev => ({
-          ...prev,
-          tasks: prev.tasks.map(task =>
-            task.id === id
-              ? {
-                  ...task,
-                  status: response.status,
-                  updatedAt: response.updatedAt,
-                }
-              : task
-          ),
-        }));
-        toast.success(status === 'completed' ? 'Tarefa concluída!' : 'Status atualizado');
-        await refreshGamification();
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao atualizar status da tarefa', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => ({
-            ...prev,
-            tasks: prev.tasks.map(task =>
-              task.id === id
-                ? {
-                    ...task,
-                    status,
-                    updatedAt: completedIso,
-                  }
-                : task
-            ),
-          }));
-          toast.success('Status atualizado localmente. Renove para sincronizar.');
-          return;
+      const response = outcome.status === 'synced' ? outcome.data : undefined;
+      updateState(prev => {
+        const tasks = prev.tasks.map(task =>
+          task.id === id
+            ? {
+                ...task,
+                status: response?.status ?? status,
+                updatedAt: response?.updatedAt ?? completedIso,
+                revision: response?.revision ?? task.revision,
+              }
+            : task
+        );
+        if (response) {
+          return { ...prev, tasks, gamification: normalizeGamification(response.gamification) };
         }
-        toast.error('Não foi possível atualizar a tarefa');
-      }
+        // Pontos só são calculados no dispositivo para visitantes; na fila eles vêm do servidor.
+        if (outcome.status !== 'local' || status !== 'completed') {
+          return { ...prev, tasks };
+        }
+        const totalPoints = prev.gamification.totalPoints + 10;
+        return {
+          ...prev,
+          tasks,
+          gamification: {
+            totalPoints,
+            level: calculateLevel(totalPoints),
+            streak: computeStreak(prev.gamification, completedAt),
+            lastCompletedAt: completedIso,
+          },
+        };
+      });
+      toast.success(status === 'completed' ? 'Tarefa concluída!' : 'Status atualizado');
     },
-    [getRemoteToken, isGuestMode, refreshGamification, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
   const logPomodoro: TaskContextValue['logPomodoro'] = useCallback(
@@ -589,110 +375,63 @@ function TaskProvider({ children }: { children: ReactNode }) {
       const start = new Date();
       const end = new Date(start.getTime() + data.durationMinutes * 60 * 1000);
 
-      if (isGuestMode || !user) {
-        updateGuestState(prev => {
-          const pomodoroEntry: PomodoroSession = {
-            id: generateId(),
-            taskId: data.taskId,
-            startedAt: start.toISOString(),
-            endedAt: end.toISOString(),
-            durationMinutes: data.durationMinutes,
-          };
-
-          const nextTasks = data.taskId
+      const outcome = await submit<PomodoroResponse>({
+        type: 'pomodoro',
+        label: `Registrar Pomodoro de ${data.durationMinutes} min`,
+        entityId: data.taskId,
+        payload: { durationMinutes: data.durationMinutes },
+      });
+      if (outcome.status === 'rejected') {
+        console.error('Erro ao registrar Pomodoro', outcome.error);
+        toast.error('Não foi possível registrar a sessão Pomodoro');
+        return;
+      }
+
+      const response = outcome.status === 'synced' ? outcome.data : undefined;
+      const pomodoroEntry: PomodoroSession = response?.pomodoro ?? {
+        id: generateId(),
+        taskId: data.taskId,
+        startedAt: start.toISOString(),
+        endedAt: end.toISOString(),
+        durationMinutes: data.durationMinutes,
+      };
+
+      updateState(prev => {
+        const next: TaskState = {
+          ...prev,
+          tasks: data.taskId
             ? prev.tasks.map(task =>
                 task.id === data.taskId
                   ? {
                       ...task,
                       pomodoros: (task.pomodoros ?? 0) + 1,
-                      updatedAt: start.toISOString(),
+                      updatedAt: response ? pomodoroEntry.endedAt : start.toISOString(),
                     }
                   : task
               )
-            : prev.tasks;
-
-          return {
-            ...prev,
-            tasks: nextTasks,
-            pomodoros: [pomodoroEntry, ...prev.pomodoros],
-          };
-        });
-
-        toast.success('Sessão Pomodoro registrada');
-        updateGuestState(prev => {
-          const pointsEarned = Math.max(1, Math.floor(data.durationMinutes / 5));
-          const totalPoints = prev.gamification.totalPoints + pointsEarned;
-          return {
-            ...prev,
-            gamification: {
-              ...prev.gamification,
-              totalPoints,
-              level: calculateLevel(totalPoints),
-            },
-          };
-        });
-        return;
-      }
-
-      try {
-        const token = await getRemoteToken();
-        const response = await logPomodoroRemote(token, data);
-        setState(prev => {
-          const pomodoroEntry = response.pomodoro;
-          return {
-            ...prev,
-            tasks: data.taskId
-              ? prev.tasks.map(task =>
-                  task.id === data.taskId
-                    ? {
-                        ...task,
-                        pomodoros: (task.pomodoros ?? 0) + 1,
-                        updatedAt: start.toISOString(),
-                      }
-                    : task
-                )
-              : prev.tasks,
-            pomodoros: [pomodoroEntry, ...prev.pomodoros],
-          };
-        });
-        toast.success('Sessão Pomodoro registrada');
-        await refreshGamification();
-        scheduleBackgroundSync();
-      } catch (error) {
-        console.error('Erro ao registrar Pomodoro', error);
-        if (isAccessDeniedError(error)) {
-          updateGuestState(prev => {
-            const pomodoroEntry: PomodoroSession = {
-              id: generateId(),
-              taskId: data.taskId,
-              startedAt: start.toISOString(),
-              endedAt: end.toISOString(),
-              durationMinutes: data.durationMinutes,
-            };
-            const nextTasks = data.taskId
-              ? prev.tasks.map(task =>
-                  task.id === data.taskId
-                    ? {
-                        ...task,
-                        pomodoros: (task.pomodoros ?? 0) + 1,
-                        updatedAt: start.toISOString(),
-                      }
-                    : task
-                )
-              : prev.tasks;
-            return {
-              ...prev,
-              tasks: nextTasks,
-              pomodoros: [pomodoroEntry, ...prev.pomodoros],
-            };
-          });
-          toast.success('Pomodoro registrado localmente. Renove para sincronizar.');
-          return;
+            : prev.tasks,
+          pomodoros: [pomodoroEntry, ...prev.pomodoros],
+        };
+        if (response) {
+          return { ...next, gamification: normalizeGamification(response.gamification) };
         }
-        toast.error('Não foi possível registrar a sessão Pomodoro');
-      }
+        if (outcome.status !== 'local') {
+          return next;
+        }
+        const pointsEarned = Math.max(1, Math.floor(data.durationMinutes / 5));
+        const totalPoints = prev.gamification.totalPoints + pointsEarned;
+        return {
+          ...next,
+          gamification: {
+            ...prev.gamification,
+            totalPoints,
+            level: calculateLevel(totalPoints),
+          },
+        };
+      });
+      toast.success('Sessão Pomodoro registrada');
     },
-    [getRemoteToken, isGuestMode, refreshGamification, scheduleBackgroundSync, updateGuestState, user]
+    [submit, updateState]
   );
 
   const value = useMemo<TaskContextValue>(
@@ -1,4 +1,9 @@
 import { apiRequest } from '@shared/services/apiClient';
+import {
+  createUnsupportedOperationError,
+  type SyncConflictAdapter,
+  type SyncExecutor,
+} from '@shared/services/syncQueue';
 
 import type { PomodoroSession, Task, TaskGamification } from '../types/tasks';
 
@@ -23,7 +28,7 @@ const createTask = async (
 const updateTask = async (
   token: string,
   id: string,
-  payload: Partial<Omit<Task, 'id'>>
+  payload: Partial<Omit<Task, 'id'>> & { revision: number }
 ) =>
   apiRequest<{ id: string } & Partial<Task>>(`/tasks/${id}`, {
     method: 'PATCH',
@@ -32,7 +37,13 @@ const updateTask = async (
   });
 
 const updateTaskStatus = async (token: string, id: string, status: Task['status']) =>
-  apiRequest<{ id: string; status: Task['status']; updatedAt: string }>(`/tasks/${id}/status`, {
+  apiRequest<{
+    id: string;
+    status: Task['status'];
+    updatedAt: string;
+    revision: number;
+    gamification: TaskGamification;
+  }>(`/tasks/${id}/status`, {
     method: 'PATCH',
     headers: authHeaders(token),
     body: JSON.stringify({ status }),
@@ -54,7 +65,7 @@ const logPomodoro = (
   token: string,
   payload: { taskId?: string; durationMinutes: number }
 ) =>
-  apiRequest<{ pomodoro: PomodoroSession }>(
+  apiRequest<{ pomodoro: PomodoroSession; gamification: TaskGamification }>(
     '/tasks/pomodoros',
     {
       method: 'POST',
@@ -69,13 +80,72 @@ const getGamification = (token: string) =>
     headers: authHeaders(token),
   });
 
+const TASKS_SYNC_SCOPE = 'tasks';
+const TASKS_GUEST_STORAGE_KEY = 'guest_tasks_state';
+
+const executeTasksOperation: SyncExecutor = async (operation, token) => {
+  const id = operation.entityId ?? '';
+  switch (operation.type) {
+    case 'create': {
+      const response = await createTask(
+        token,
+        operation.payload as Omit<Task, 'id' | 'createdAt' | 'updatedAt'>
+      );
+      return { entityId: response.task.id, data: response.task };
+    }
+    case 'update': {
+      const updated = await updateTask(token, id, {
+        ...(operation.payload as Partial<Omit<Task, 'id'>>),
+        revision: operation.revision ?? 0,
+      });
+      return { revision: updated.revision, data: updated };
+    }
+    case 'status': {
+      const { status } = operation.payload as Pick<Task, 'status'>;
+      const updated = await updateTaskStatus(token, id, status);
+      return { revision: updated.revision, data: updated };
+    }
+    case 'delete':
+      await deleteTask(token, id);
+      return;
+    case 'pomodoro': {
+      const payload = operation.payload as { durationMinutes: number };
+      return {
+        data: await logPomodoro(token, {
+          taskId: operation.entityId,
+          durationMinutes: payload.durationMinutes,
+        }),
+      };
+    }
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
+const TASK_CONFLICT_FIELDS: Record<string, string> = {
+  title: 'Título',
+  description: 'Descrição',
+  dueDate: 'Prazo',
+  priority: 'Prioridade',
+};
+
+const tasksConflictAdapter: SyncConflictAdapter = {
+  getFields: () => TASK_CONFLICT_FIELDS,
+  getLocalValues: operation => ({ ...(operation.payload as Partial<Task>) }),
+  applyValues: (operation, values) => ({ ...(operation.payload as Partial<Task>), ...values }),
+};
+
 export {
+  TASKS_GUEST_STORAGE_KEY,
+  TASKS_SYNC_SCOPE,
   createTask,
   deleteTask,
+  executeTasksOperation,
   getGamification,
   listPomodoros,
   listTasks,
   logPomodoro,
+  tasksConflictAdapter,
   updateTask,
   updateTaskStatus,
 };
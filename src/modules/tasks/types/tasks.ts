@@ -11,6 +11,7 @@ export interface Task {
   createdAt: string;
   updatedAt: string;
   pomodoros?: number;
+  revision?: number;
 }
 
 export interface PomodoroSession {
@@ -3,18 +3,25 @@ import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
 import { DashboardLayout } from '@core/layout/DashboardLayout';
+import { useSyncScope } from '@core/providers/SyncProvider';
 import { useAuth } from '@modules/auth/services/AuthContext';
-import { useLocalMode } from '@modules/auth/hooks/useLocalMode';
 import jsPDF from 'jspdf';
 
 import styles from './TimeclockPage.module.css';
 import { generateId } from '@shared/utils/id';
 import type { ApiError } from '@shared/services/apiClient';
 import {
-  createEntry as createEntryRemote,
-  deleteEntry as deleteEntryRemote,
+  buildRemoteCacheKey,
+  getErrorStatus,
+  isLocalModeError,
+  readStoredValue,
+  writeStoredValue,
+} from '@shared/services/syncQueue';
+import {
+  TIMECLOCK_GUEST_STORAGE_KEY,
+  TIMECLOCK_SYNC_SCOPE,
   listEntries,
-  updateEntry as updateEntryRemote,
+  type TimeEntryResponse,
 } from '@modules/timeclock/services/timeclockService';
 
 type ShiftType = 'padrao' | 'homeOffice' | 'viagem';
@@ -28,6 +35,7 @@ interface TimeEntry {
   secondCheckOut: string;
   shiftType: ShiftType;
   notes: string;
+  workedHours?: number;
 }
 
 const SHIFT_OPTIONS: Array<{ value: ShiftType; label: string }> = [
@@ -49,6 +57,9 @@ const displayTime = (value: string) => (value ? value : '—');
 const HOME_OFFICE_BREAK_HOURS = 1;
 
 const getHoursWorked = (entry: TimeEntry) => {
+  if (typeof entry.workedHours === 'number') {
+    return entry.workedHours;
+  }
   const firstSegment = diffHours(entry.date, entry.firstCheckIn, entry.firstCheckOut);
   const secondSegment = diffHours(entry.date, entry.secondCheckIn, entry.secondCheckOut);
   let total = firstSegment + secondSegment;
@@ -68,9 +79,7 @@ const formatHours = (hours: number) => {
 const getTodayIsoDate = () => new Date().toISOString().split('T')[0] ?? '';
 const HOME_OFFICE_START = '08:00';
 const HOME_OFFICE_END = '17:00';
-const STORAGE_KEY = 'timeclock_guest_entries';
 const REMOTE_CACHE_PREFIX = 'timeclock_remote_entries';
-const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
 
 const sortEntries = (list: TimeEntry[]) =>
   [...list].sort((a, b) => {
@@ -80,21 +89,9 @@ const sortEntries = (list: TimeEntry[]) =>
     return b.date.localeCompare(a.date);
   });
 
-const buildRemoteCacheKey = (uid: string) => `${REMOTE_CACHE_PREFIX}_${uid}`;
-
-const getErrorStatus = (error: unknown) => {
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as ApiError).status;
-    if (typeof status === 'number') {
-      return status;
-    }
-  }
-  return undefined;
-};
-
-const isAccessDeniedError = (error: unknown) => {
+const isValidationError = (error: unknown) => {
   const status = getErrorStatus(error);
-  return status === 401 || status === 403;
+  return status === 400 || status === 409;
 };
 
 const defaultFormValues = (shiftType: ShiftType = 'padrao'): Omit<TimeEntry, 'id'> => ({
@@ -110,7 +107,8 @@ const defaultFormValues = (shiftType: ShiftType = 'padrao'): Omit<TimeEntry, 'id
 const TimeclockPage = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const isGuestMode = useLocalMode();
+  const { canSync, isLocalOnly, getToken, submit, hasPendingOperations, registerRefresh } =
+    useSyncScope(TIMECLOCK_SYNC_SCOPE);
   const [entries, setEntries] = useState<TimeEntry[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formState, setFormState] = useState<Omit<TimeEntry, 'id'>>(defaultFormValues());
@@ -118,99 +116,25 @@ const TimeclockPage = () => {
     const today = new Date();
     return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
   });
-  const [storageHydrated, setStorageHydrated] = useState(false);
   const [loading, setLoading] = useState(true);
-
-  const updateEntriesState = useCallback((updater: (prev: TimeEntry[]) => TimeEntry[]) => {
-    setEntries(prev => sortEntries(updater(prev)));
-  }, []);
-
-  const persistGuestEntries = useCallback((next: TimeEntry[]) => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-    try {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-    } catch (error) {
-      console.error('Erro ao salvar pontos locais', error);
-    }
-  }, []);
-
-  const loadGuestEntries = useCallback(() => {
-    if (typeof window === 'undefined') {
-      setEntries([]);
-      setStorageHydrated(true);
-      return;
-    }
-    try {
-      const stored = window.localStorage.getItem(STORAGE_KEY);
-      if (!stored) {
-        setEntries([]);
-      } else {
-        const parsed = JSON.parse(stored) as unknown;
-        if (Array.isArray(parsed)) {
-          const sanitized = parsed
-            .map(item => sanitizeEntry(item))
-            .filter((entry): entry is TimeEntry => entry !== null);
-          setEntries(sortEntries(sanitized));
-        } else {
-          setEntries([]);
-        }
-      }
-    } catch (error) {
-      console.error('Erro ao carregar pontos locais', error);
-      setEntries([]);
-    } finally {
-      setStorageHydrated(true);
-    }
-  }, []);
-
-  const persistRemoteEntries = useCallback(
-    (next: TimeEntry[]) => {
-      if (typeof window === 'undefined' || !user) {
-        return;
-      }
-      try {
-        window.localStorage.setItem(buildRemoteCacheKey(user.uid), JSON.stringify(next));
-      } catch (error) {
-        console.warn('Falha ao salvar cache remoto do controle de ponto', error);
-      }
+  const storageKey =
+    isLocalOnly || !user
+      ? TIMECLOCK_GUEST_STORAGE_KEY
+      : buildRemoteCacheKey(REMOTE_CACHE_PREFIX, user.uid);
+
+  const updateEntriesState = useCallback(
+    (updater: (prev: TimeEntry[]) => TimeEntry[]) => {
+      setEntries(prev => {
+        const next = sortEntries(updater(prev));
+        writeStoredValue(storageKey, next);
+        return next;
+      });
     },
-    [user]
+    [storageKey]
   );
 
-  const loadRemoteEntries = useCallback(() => {
-    if (typeof window === 'undefined' || !user) {
-      return null;
-    }
-    try {
-      const stored = window.localStorage.getItem(buildRemoteCacheKey(user.uid));
-      if (!stored) {
-        return null;
-      }
-      const parsed = JSON.parse(stored) as unknown;
-      if (!Array.isArray(parsed)) {
-        return null;
-      }
-      const sanitized = parsed
-        .map(item => sanitizeEntry(item))
-        .filter((entry): entry is TimeEntry => entry !== null);
-      return sortEntries(sanitized);
-    } catch (error) {
-      console.warn('Falha ao carregar cache remoto do controle de ponto', error);
-      return null;
-    }
-  }, [user]);
-
-  const getRemoteToken = useCallback(async () => {
-    if (isGuestMode || !user) {
-      throw new Error(LOCAL_MODE_ERROR);
-    }
-    return user.getIdToken();
-  }, [isGuestMode, user]);
-
   const fetchRemoteEntries = useCallback(async () => {
-    const token = await getRemoteToken();
+    const token = await getToken();
     const response = await listEntries(token);
     const sanitized = sortEntries(
       (response.entries ?? [])
@@ -218,57 +142,47 @@ const TimeclockPage = () => {
         .filter((entry): entry is TimeEntry => entry !== null)
     );
     setEntries(sanitized);
-    persistRemoteEntries(sanitized);
-    return sanitized;
-  }, [getRemoteToken, persistRemoteEntries]);
+    writeStoredValue(storageKey, sanitized);
+  }, [getToken, storageKey]);
+
+  useEffect(() => registerRefresh(fetchRemoteEntries), [fetchRemoteEntries, registerRefresh]);
 
   useEffect(() => {
     let cancelled = false;
+    setLoading(true);
+    const stored = readStoredValue<unknown>(storageKey);
+    setEntries(
+      Array.isArray(stored)
+        ? sortEntries(
+            stored
+              .map(item => sanitizeEntry(item))
+              .filter((entry): entry is TimeEntry => entry !== null)
+          )
+        : []
+    );
 
-    const hydrate = async () => {
-      if (isGuestMode || !user) {
-        loadGuestEntries();
-        setLoading(false);
-        return;
-      }
-
-      setLoading(true);
-      const cached = loadRemoteEntries();
-      if (cached && !cancelled) {
-        setEntries(cached);
-      }
+    if (isLocalOnly || !canSync || hasPendingOperations()) {
+      setLoading(false);
+      return;
+    }
 
-      try {
-        await fetchRemoteEntries();
-      } catch (error) {
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          loadGuestEntries();
-          toast.error('Sua assinatura está suspensa. Os registros serão mantidos apenas neste dispositivo.');
-        } else {
-          console.error('Erro ao carregar registros do controle de ponto', error);
+    fetchRemoteEntries()
+      .catch(error => {
+        console.error('Erro ao carregar registros do controle de ponto', error);
+        if (!isLocalModeError(error)) {
           toast.error('Não foi possível sincronizar o controle de ponto.');
         }
-      } finally {
+      })
+      .finally(() => {
         if (!cancelled) {
-          setStorageHydrated(true);
           setLoading(false);
         }
-      }
-    };
-
-    void hydrate();
+      });
 
     return () => {
       cancelled = true;
     };
-  }, [fetchRemoteEntries, isGuestMode, loadGuestEntries, loadRemoteEntries, user]);
-
-  useEffect(() => {
-    if (!isGuestMode || !storageHydrated) {
-      return;
-    }
-    persistGuestEntries(entries);
-  }, [entries, isGuestMode, persistGuestEntries, storageHydrated]);
+  }, [canSync, fetchRemoteEntries, hasPendingOperations, isLocalOnly, storageKey]);
 
   const weeklySummary = useMemo(() => {
     const totals = new Map<string, number>();
@@ -383,36 +297,30 @@ const TimeclockPage = () => {
       notes: payload.notes,
     };
 
-    if (isGuestMode || !user) {
-      if (editingId) {
-        updateEntriesState(prev => prev.map(entry => (entry.id === editingId ? payload : entry)));
-      } else {
-        updateEntriesState(prev => [payload, ...prev]);
-      }
-    } else {
-      try {
-        const token = await getRemoteToken();
-        if (editingId) {
-          await updateEntryRemote(token, entryId, remotePayload);
-        } else {
-          await createEntryRemote(token, remotePayload);
-        }
-        await fetchRemoteEntries();
-      } catch (error) {
-        console.error('Erro ao registrar ponto', error);
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          if (editingId) {
-            updateEntriesState(prev => prev.map(entry => (entry.id === editingId ? payload : entry)));
-          } else {
-            updateEntriesState(prev => [payload, ...prev]);
-          }
-          toast.success('Registro salvo localmente. Renove para sincronizar com a nuvem.');
-        } else {
-          toast.error('Não foi possível sincronizar esse registro.');
-        }
-      }
+    const outcome = await submit<TimeEntryResponse>({
+      type: editingId ? 'update' : 'create',
+      label: `${editingId ? 'Atualizar' : 'Registrar'} ponto de ${formatDateDisplay(payload.date)}`,
+      entityId: entryId,
+      payload: remotePayload,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Erro ao registrar ponto', outcome.error);
+      toast.error(
+        isValidationError(outcome.error)
+          ? (outcome.error as ApiError).message
+          : 'Não foi possível sincronizar esse registro.'
+      );
+      return;
     }
 
+    const savedEntry =
+      (outcome.status === 'synced' && outcome.data ? sanitizeEntry(outcome.data) : null) ?? payload;
+    updateEntriesState(prev =>
+      editingId
+        ? prev.map(entry => (entry.id === editingId ? savedEntry : entry))
+        : [savedEntry, ...prev]
+    );
+
     setEditingId(null);
     if (formState.date) {
       setSelectedMonth(formState.date.slice(0, 7));
@@ -434,23 +342,18 @@ const TimeclockPage = () => {
   };
 
   const handleRemove = async (id: string) => {
-    if (isGuestMode || !user) {
-      updateEntriesState(prev => prev.filter(entry => entry.id !== id));
-    } else {
-      try {
-        const token = await getRemoteToken();
-        await deleteEntryRemote(token, id);
-        await fetchRemoteEntries();
-      } catch (error) {
-        console.error('Erro ao remover ponto', error);
-        if ((error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error)) {
-          updateEntriesState(prev => prev.filter(entry => entry.id !== id));
-          toast.success('Registro removido localmente. Renove para sincronizar.');
-        } else {
-          toast.error('Não foi possível remover o registro.');
-        }
-      }
+    const outcome = await submit({
+      type: 'delete',
+      label: 'Remover registro de ponto',
+      entityId: id,
+      payload: null,
+    });
+    if (outcome.status === 'rejected') {
+      console.error('Erro ao remover ponto', outcome.error);
+      toast.error('Não foi possível remover o registro.');
+      return;
     }
+    updateEntriesState(prev => prev.filter(entry => entry.id !== id));
     if (editingId === id) {
       setEditingId(null);
       resetForm();
@@ -908,6 +811,7 @@ const sanitizeEntry = (value: unknown): TimeEntry | null => {
     secondCheckOut,
     shiftType,
     notes,
+    workedHours,
   } = value as Partial<TimeEntry>;
 
   if (typeof id !== 'string' || typeof date !== 'string') {
@@ -925,6 +829,7 @@ const sanitizeEntry = (value: unknown): TimeEntry | null => {
     secondCheckOut: typeof secondCheckOut === 'string' ? secondCheckOut : '',
     shiftType: safeShift,
     notes: typeof notes === 'string' ? notes : '',
+    workedHours: typeof workedHours === 'number' ? workedHours : undefined,
   } satisfies TimeEntry;
 };
 
@@ -1,4 +1,5 @@
 import { apiRequest } from '@shared/services/apiClient';
+import { createUnsupportedOperationError, type SyncExecutor } from '@shared/services/syncQueue';
 
 export interface TimeEntryPayload {
   date: string;
@@ -12,6 +13,7 @@ export interface TimeEntryPayload {
 
 export interface TimeEntryResponse extends TimeEntryPayload {
   id: string;
+  workedHours: number;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -33,7 +35,7 @@ const buildQuery = (params?: ListEntriesParams) => {
 };
 
 const listEntries = (token: string, params?: ListEntriesParams) =>
-  apiRequest<{ entries: TimeEntryResponse[] }>(buildQuery(params), {
+  apiRequest<{ entries: TimeEntryResponse[]; totalHours: number }>(buildQuery(params), {
     method: 'GET',
     headers: authHeaders(token),
   });
@@ -58,4 +60,34 @@ const deleteEntry = (token: string, id: string) =>
     headers: authHeaders(token),
   });
 
-export { createEntry, deleteEntry, listEntries, updateEntry };
+const TIMECLOCK_SYNC_SCOPE = 'timeclock';
+const TIMECLOCK_GUEST_STORAGE_KEY = 'timeclock_guest_entries';
+
+const executeTimeclockOperation: SyncExecutor = async (operation, token) => {
+  const id = operation.entityId ?? '';
+  switch (operation.type) {
+    case 'create': {
+      const response = await createEntry(token, operation.payload as TimeEntryPayload);
+      return { entityId: response.entry.id, data: response.entry };
+    }
+    case 'update': {
+      const response = await updateEntry(token, id, operation.payload as Partial<TimeEntryPayload>);
+      return { data: response.entry };
+    }
+    case 'delete':
+      await deleteEntry(token, id);
+      return;
+    default:
+      throw createUnsupportedOperationError(operation);
+  }
+};
+
+export {
+  TIMECLOCK_GUEST_STORAGE_KEY,
+  TIMECLOCK_SYNC_SCOPE,
+  createEntry,
+  deleteEntry,
+  executeTimeclockOperation,
+  listEntries,
+  updateEntry,
+};
@@ -35,6 +35,7 @@ const DEFAULT_BASE_URL = resolveBaseUrl();
 
 export interface ApiError extends Error {
   status?: number;
+  code?: string;
   payload?: unknown;
 }
 
@@ -69,6 +70,10 @@ const apiRequest = async <T>(path: string, init: RequestInit = {}) => {
         'Não foi possível concluir a operação. Tente novamente em instantes.'
     );
     error.status = response.status;
+    error.code =
+      payload && typeof payload === 'object'
+        ? (payload as { code?: string }).code
+        : undefined;
     error.payload = payload;
     throw error;
   }
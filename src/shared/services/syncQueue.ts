@@ -0,0 +1,167 @@
+import type { ApiError } from './apiClient';
+
+const LOCAL_MODE_ERROR = 'LOCAL_MODE_ONLY';
+const SYNC_QUEUE_PREFIX = 'sync_queue';
+
+type SyncOperationStatus = 'pending' | 'failed';
+
+type SyncRecord = Record<string, unknown> & { revision?: number };
+
+/**
+ * Alteração aguardando envio ao servidor. Operações `create` carregam o ID provisório do
+ * registro em `entityId`; operações seguintes sobre o mesmo registro usam esse ID até a
+ * criação ser confirmada. `revision` é a versão do registro sobre a qual a edição foi feita
+ * e `conflict` guarda a versão do servidor quando ela já não é a mesma.
+ */
+interface SyncOperation<TPayload = unknown> {
+  id: string;
+  scope: string;
+  type: string;
+  label: string;
+  entityId?: string;
+  revision?: number;
+  payload: TPayload;
+  createdAt: string;
+  attempts: number;
+  status: SyncOperationStatus;
+  lastError?: string;
+  conflict?: SyncRecord;
+}
+
+type SyncOperationInput<TPayload = unknown> = Pick<
+  SyncOperation<TPayload>,
+  'type' | 'label' | 'entityId' | 'revision' | 'payload'
+>;
+
+/**
+ * Resultado de uma operação enviada ao servidor. `entityId` informa o ID definitivo de um
+ * registro criado offline e `revision` a nova versão do registro, para que as operações
+ * seguintes da fila apontem para ele.
+ */
+interface SyncExecution<TData = unknown> {
+  entityId?: string;
+  revision?: number;
+  data?: TData;
+}
+
+/**
+ * Descreve como comparar e reescrever uma edição que entrou em conflito. `getFields` lista
+ * os campos exibidos no diálogo de mesclagem com seus rótulos.
+ */
+interface SyncConflictAdapter {
+  getFields: (operation: SyncOperation) => Record<string, string>;
+  getLocalValues: (operation: SyncOperation) => Record<string, unknown>;
+  applyValues: (operation: SyncOperation, values: Record<string, unknown>) => unknown;
+}
+
+type SyncExecutor = (operation: SyncOperation, token: string) => Promise<SyncExecution | void>;
+
+type SyncSubmitResult<TData = unknown> =
+  | { status: 'synced'; data: TData | undefined }
+  | { status: 'queued' }
+  | { status: 'local' }
+  | { status: 'rejected'; error: unknown };
+
+const getErrorStatus = (error: unknown) => {
+  if (error && typeof error === 'object' && 'status' in error) {
+    const status = (error as ApiError).status;
+    if (typeof status === 'number') {
+      return status;
+    }
+  }
+  return undefined;
+};
+
+const isAccessDeniedError = (error: unknown) => {
+  const status = getErrorStatus(error);
+  return status === 401 || status === 403;
+};
+
+const isLocalModeError = (error: unknown) =>
+  (error as Error)?.message === LOCAL_MODE_ERROR || isAccessDeniedError(error);
+
+/**
+ * Falhas de rede, acesso suspenso e indisponibilidade do servidor mantêm a operação na fila.
+ * Erros de validação (4xx) não mudam com uma nova tentativa e são devolvidos ao chamador.
+ */
+const isRetryableSyncError = (error: unknown) => {
+  if (isLocalModeError(error)) {
+    return true;
+  }
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    return true;
+  }
+  return status === 408 || status === 429 || status >= 500;
+};
+
+/** Versão atual do registro devolvida pela API junto com o 409 de edição desatualizada. */
+const getConflictRecord = (error: unknown): SyncRecord | null => {
+  if (getErrorStatus(error) !== 409) {
+    return null;
+  }
+  const current = ((error as ApiError).payload as { current?: unknown } | null)?.current;
+  return current && typeof current === 'object' ? (current as SyncRecord) : null;
+};
+
+const createUnsupportedOperationError = (operation: SyncOperation): ApiError =>
+  Object.assign(
+    new Error(`Operação de sincronização não suportada: ${operation.scope}/${operation.type}`),
+    { status: 400 }
+  );
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : 'Erro desconhecido';
+
+const buildRemoteCacheKey = (prefix: string, uid: string) => `${prefix}_${uid}`;
+
+const buildSyncQueueKey = (uid: string) => buildRemoteCacheKey(SYNC_QUEUE_PREFIX, uid);
+
+const readStoredValue = <T>(key: string): T | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch (error) {
+    console.warn(`Não foi possível ler ${key} do armazenamento local`, error);
+    return null;
+  }
+};
+
+const writeStoredValue = (key: string, value: unknown) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Não foi possível salvar ${key} no armazenamento local`, error);
+  }
+};
+
+export type {
+  SyncConflictAdapter,
+  SyncExecution,
+  SyncExecutor,
+  SyncOperation,
+  SyncOperationInput,
+  SyncOperationStatus,
+  SyncRecord,
+  SyncSubmitResult,
+};
+export {
+  LOCAL_MODE_ERROR,
+  buildRemoteCacheKey,
+  buildSyncQueueKey,
+  createUnsupportedOperationError,
+  getConflictRecord,
+  getErrorMessage,
+  getErrorStatus,
+  isAccessDeniedError,
+  isLocalModeError,
+  isRetryableSyncError,
+  readStoredValue,
+  writeStoredValue,
+};
@@ -0,0 +1,33 @@
+/** Baixa um conteúdo gerado no navegador como arquivo. */
+const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/** Monta um CSV com `;` e vírgula decimal, como o Excel em português espera. */
+const toCsv = (rows: Array<Array<string | number>>) =>
+  rows
+    .map(row =>
+      row
+        .map(cell => {
+          const value =
+            typeof cell === 'number'
+              ? cell.toFixed(2).replace('.', ',')
+              : cell.replace(/\r?\n/g, ' ');
+          return /[;"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        })
+        .join(';')
+    )
+    .join('\r\n');
+
+/** BOM para o Excel reconhecer o CSV como UTF-8 e manter os acentos. */
+const downloadCsv = (rows: Array<Array<string | number>>, fileName: string) =>
+  downloadFile(`\uFEFF${toCsv(rows)}`, fileName, 'text/csv;charset=utf-8');
+
+export { downloadCsv, downloadFile, toCsv };
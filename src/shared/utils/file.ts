@@ -0,0 +1,17 @@
+/** Conteúdo do arquivo em base64, sem o prefixo `data:`, como a API espera nos uploads. */
+const fileToBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result !== 'string') {
+        reject(new Error('Formato de arquivo inválido.'));
+        return;
+      }
+      const parts = reader.result.split(',');
+      resolve(parts.length > 1 ? parts.pop() ?? '' : reader.result);
+    };
+    reader.onerror = () => reject(new Error('Não foi possível ler o arquivo selecionado.'));
+    reader.readAsDataURL(file);
+  });
+
+export { fileToBase64 };
@@ -0,0 +1,217 @@
+import { downloadFile } from './download';
+
+/**
+ * Gerador mínimo de planilhas XLSX, sem dependências: cada aba vira um XML e o pacote é um ZIP
+ * sem compressão, que o Excel, o LibreOffice e o Google Planilhas abrem normalmente.
+ */
+
+export interface XlsxSheet {
+  name: string;
+  /** A primeira linha sai em negrito, como cabeçalho. */
+  rows: Array<Array<string | number>>;
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  data.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** ZIP no método "store": cabeçalho local de cada arquivo, diretório central e registro final. */
+const buildZip = (files: Array<{ path: string; content: string }>) => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(12, 0x0021, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(14, 0x0021, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  parts.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string =>
+  index < 26
+    ? String.fromCharCode(65 + index)
+    : `${columnName(Math.floor(index / 26) - 1)}${String.fromCharCode(65 + (index % 26))}`;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const PACKAGE_NS = 'http://schemas.openxmlformats.org/package/2006';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELATIONSHIPS_TYPE = 'application/vnd.openxmlformats-package.relationships+xml';
+const SPREADSHEET_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+// Estilos: 0 padrão, 1 número com duas casas, 2 cabeçalho em negrito.
+const STYLES_XML =
+  XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+const buildSheetXml = (rows: XlsxSheet['rows']) => {
+  const body = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, columnIndex) => {
+          const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+          if (typeof cell === 'number') {
+            return `<c r="${ref}" s="1"><v>${Number.isFinite(cell) ? cell : 0}</v></c>`;
+          }
+          const style = rowIndex === 0 ? ' s="2"' : '';
+          const text = `<t xml:space="preserve">${escapeXml(cell)}</t>`;
+          return `<c r="${ref}" t="inlineStr"${style}><is>${text}</is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}"><sheetData>${body}</sheetData></worksheet>`;
+};
+
+const relationship = (id: string, type: string, target: string) =>
+  `<Relationship Id="${id}" Type="${RELATIONSHIP_NS}/${type}" Target="${target}"/>`;
+
+const override = (part: string, type: string) =>
+  `<Override PartName="${part}" ContentType="${SPREADSHEET_TYPE}.${type}+xml"/>`;
+
+// O Excel recusa nomes de aba com mais de 31 caracteres ou com []:*?/\
+const sanitizeSheetName = (name: string, index: number) =>
+  name
+    .replace(/[[\]:*?/\\]/g, ' ')
+    .slice(0, 31)
+    .trim() || `Planilha ${index + 1}`;
+
+const buildXlsx = (sheets: XlsxSheet[]) => {
+  const sheetPaths = sheets.map((_, index) => `worksheets/sheet${index + 1}.xml`);
+  const files = [
+    {
+      path: '[Content_Types].xml',
+      content:
+        XML_HEADER +
+        `<Types xmlns="${PACKAGE_NS}/content-types">` +
+        `<Default Extension="rels" ContentType="${RELATIONSHIPS_TYPE}"/>` +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        override('/xl/workbook.xml', 'sheet.main') +
+        override('/xl/styles.xml', 'styles') +
+        sheetPaths.map(path => override(`/xl/${path}`, 'worksheet')).join('') +
+        '</Types>',
+    },
+    {
+      path: '_rels/.rels',
+      content:
+        XML_HEADER +
+        `<Relationships xmlns="${PACKAGE_NS}/relationships">` +
+        relationship('rId1', 'officeDocument', 'xl/workbook.xml') +
+        '</Relationships>',
+    },
+    {
+      path: 'xl/workbook.xml',
+      content:
+        XML_HEADER +
+        `<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>` +
+        sheets
+          .map((sheet, index) => {
+            const name = escapeXml(sanitizeSheetName(sheet.name, index));
+            return `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`;
+          })
+          .join('') +
+        '</sheets></workbook>',
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content:
+        XML_HEADER +
+        `<Relationships xmlns="${PACKAGE_NS}/relationships">` +
+        sheetPaths
+          .map((path, index) => relationship(`rId${index + 1}`, 'worksheet', path))
+          .join('') +
+        relationship(`rId${sheets.length + 1}`, 'styles', 'styles.xml') +
+        '</Relationships>',
+    },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, index) => ({
+      path: `xl/${sheetPaths[index]}`,
+      content: buildSheetXml(sheet.rows),
+    })),
+  ];
+  return buildZip(files);
+};
+
+const downloadXlsx = (sheets: XlsxSheet[], fileName: string) =>
+  downloadFile(buildXlsx(sheets), fileName, XLSX_MIME);
+
+export { buildXlsx, downloadXlsx };